@@ -1,19 +1,26 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { 
   Upload, 
   Wand2, 
   Download, 
   RefreshCw, 
   Sparkles, 
-  AlertCircle,
-  ArrowLeftRight,
+  X,
+  Brush,
+  Library,
   Trash2,
   UserSquare2,
   Palette,
   Crop,
   History,
   Eraser,
-  Zap
+  Zap,
+  Layers,
+  FileBadge,
+  SlidersVertical,
+  Wallet,
+  ShieldCheck,
+  LayoutGrid
 } from 'lucide-react';
 import { 
   EditorSettings, 
@@ -24,143 +31,437 @@ import {
   IDPhotoSettings,
   IDPhotoSize,
   IDPhotoBackground,
-  RestorationSettings
+  RestorationSettings,
+  ProviderConfig,
+  OperationSettings,
+  BatchItem,
+  BatchItemStatus,
+  EditHistory,
+  LibraryProject,
+  IngestInfo,
+  MetadataPolicy,
+  ImageAdjustments,
+  DetectedFace
 } from './types';
-import { enhanceImageWithGemini, generateIDPhotoWithGemini, restoreImageWithGemini } from './services/geminiService';
+import { getProvider, loadProviderConfig, saveProviderConfig } from './services/providers';
+import { runOperation } from './services/processing';
+import { TiledJob, TileProgress, createTiledJob, countDoneTiles, TARGET_LONG_EDGE } from './services/tiledUpscale';
+import { toProcessingError } from './services/errors';
+import { compositeWithMask } from './services/maskCompositing';
+import { saveProject, enforceEvictionPolicy, loadEvictionPolicy } from './services/projectLibrary';
+import { loadPresetStore, getStartupSettings } from './services/presets';
+import { ID_PHOTO_SPECS, CUSTOM_SPEC_ID, getIDPhotoSpec, applyIDPhotoSpec } from './services/idPhotoSpecs';
+import { ingestFile, getUploadSize, loadMetadataPolicy, saveMetadataPolicy } from './services/ingest';
+import { createHistory, addVersion, addAdjustedVersion, addVariants, addMixedVariant, getVariants, toggleStar, setVersionMetrics, undo, redo, jumpTo, getCurrentVersion, getParentVersion } from './services/history';
+import { DEFAULT_ADJUSTMENTS } from './services/adjustments';
+import { detectFacesInUrl } from './services/faceDetection';
+import { mixVariantBackground, MAX_VARIANTS } from './services/variants';
+import { computeQualityMetrics } from './services/qualityMetrics';
+import { meterProvider, estimateOperationCost, checkBudget, isBilledProvider, formatUsd, subscribeUsage } from './services/usage';
+import { stripExtension } from './utils/file';
+import { formatBytes } from './utils/format';
+import { loadImage } from './utils/canvas';
 import { Slider } from './components/Slider';
+import { PrintLayoutPanel } from './components/PrintLayoutPanel';
+import { ProviderSettings } from './components/ProviderSettings';
+import { CompareViewer } from './components/CompareViewer';
+import { BatchWorkspace } from './components/BatchWorkspace';
+import { HistoryTimeline } from './components/HistoryTimeline';
+import { ErrorNotice } from './components/ErrorNotice';
+import { MaskEditor } from './components/MaskEditor';
+import { LibraryGallery } from './components/LibraryGallery';
+import { PresetBar } from './components/PresetBar';
+import { ComplianceReportPanel } from './components/ComplianceReportPanel';
+import { ExportDialog } from './components/ExportDialog';
+import { IDBackgroundOptions } from './components/IDBackgroundOptions';
+import { AdjustmentEditor, AdjustmentSource } from './components/AdjustmentEditor';
+import { FacePicker } from './components/FacePicker';
+import { UsageDashboard } from './components/UsageDashboard';
+import { WatermarkChecker } from './components/WatermarkChecker';
+import { VariantGrid } from './components/VariantGrid';
+import { QualityMetricsBadge } from './components/QualityMetricsBadge';
+import { LanguageSwitcher } from './components/LanguageSwitcher';
+import { useI18n } from './i18n';
 
-const DEFAULT_ENHANCE_SETTINGS: EditorSettings = {
-  quality: EnhancementQuality.Q_4K,
-  mode: EnhancementMode.ENHANCE_RESTORE,
-  retouchLevel: 50,
-  sharpenLevel: 30,
-  upscaleLevel: 25,
-  hyperRealism: true,
-  colorize: true,
-  makeup: false,
-};
-
-const DEFAULT_ID_SETTINGS: IDPhotoSettings = {
-  size: IDPhotoSize.SIZE_3x4,
-  backgroundColor: IDPhotoBackground.WHITE,
-  quality: EnhancementQuality.Q_4K,
-  skinSmoothing: 60,
-  removeBlemishes: true,
-  fixLighting: true,
-};
-
-const DEFAULT_RESTORE_SETTINGS: RestorationSettings = {
-  scratchReduction: 80,
-  denoiseLevel: 50,
-  colorRestoration: true,
-  faceRestoration: true,
-  sharpenArtifacts: true,
-  quality: EnhancementQuality.Q_4K
-};
+// Debounce for autosaving the open job to the library
+const LIBRARY_SAVE_DELAY_MS = 800;
 
 const App: React.FC = () => {
+  const { m } = useI18n();
   // App State
   const [activeTab, setActiveTab] = useState<AppTab>(AppTab.ENHANCE);
-  const [enhanceSettings, setEnhanceSettings] = useState<EditorSettings>(DEFAULT_ENHANCE_SETTINGS);
-  const [idSettings, setIdSettings] = useState<IDPhotoSettings>(DEFAULT_ID_SETTINGS);
-  const [restoreSettings, setRestoreSettings] = useState<RestorationSettings>(DEFAULT_RESTORE_SETTINGS);
+  // Each tab starts with its default preset, or the factory settings
+  const [enhanceSettings, setEnhanceSettings] = useState<EditorSettings>(() => getStartupSettings(loadPresetStore(), AppTab.ENHANCE));
+  const [idSettings, setIdSettings] = useState<IDPhotoSettings>(() => getStartupSettings(loadPresetStore(), AppTab.ID_PHOTO));
+  const [restoreSettings, setRestoreSettings] = useState<RestorationSettings>(() => getStartupSettings(loadPresetStore(), AppTab.RESTORE));
+  const [providerConfig, setProviderConfig] = useState<ProviderConfig>(loadProviderConfig);
+  const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
   
   const [imgState, setImgState] = useState<ImageState>({
-    originalUrl: null,
-    processedUrl: null,
+    history: null,
     isProcessing: false,
     error: null,
   });
   
   // Refs for file input
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // In-flight request, so it can be cancelled
+  const abortRef = useRef<AbortController | null>(null);
+  // Versions whose quality metrics are being computed
+  const measuringRef = useRef(new Set<string>());
+  const [retryNotice, setRetryNotice] = useState<string | null>(null);
+  // Tiled upscale progress, and the last unfinished tiled job so it can resume
+  const [tileProgress, setTileProgress] = useState<TileProgress | null>(null);
+  const [resumableJob, setResumableJob] = useState<{ job: TiledJob; parentId: string } | null>(null);
+  // Region mask (white = edit) for the current version
+  const [maskUrl, setMaskUrl] = useState<string | null>(null);
+  const [isMasking, setIsMasking] = useState(false);
+  // Local adjustments being edited, and the version they apply to
+  const [adjusting, setAdjusting] = useState<{ baseId: string; initial: ImageAdjustments } | null>(null);
+  // Local library: the open job is saved automatically as it changes
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [showUsage, setShowUsage] = useState(false);
+  const [showMarkChecker, setShowMarkChecker] = useState(false);
+  // Bumped whenever a call is recorded or the budget changes, so the cost hint stays current
+  const [, setUsageTick] = useState(0);
+  const [projectName, setProjectName] = useState('');
+  // How the open upload was normalized, and whether camera metadata is kept on upload
+  const [ingestInfo, setIngestInfo] = useState<IngestInfo | null>(null);
+  const [metadataPolicy, setMetadataPolicy] = useState<MetadataPolicy>(loadMetadataPolicy);
+  const [sourceSize, setSourceSize] = useState<{ width: number; height: number } | null>(null);
+  // Faces in the current version (null while detecting), and the one ID photos are framed around
+  const [faces, setFaces] = useState<DetectedFace[] | null>(null);
+  const [selectedFace, setSelectedFace] = useState(0);
+  // Candidates generated per run, and whether the candidates of the current run are shown side by side
+  const [variantCount, setVariantCount] = useState(1);
+  const [showVariants, setShowVariants] = useState(false);
+  const [variantProgress, setVariantProgress] = useState<{ done: number; total: number } | null>(null);
+
+  // Derived view of the history: the current version is compared against its input
+  const currentVersion = imgState.history ? getCurrentVersion(imgState.history) : null;
+  const parentVersion = imgState.history && currentVersion ? getParentVersion(imgState.history, currentVersion) : null;
+  const sourceUrl = currentVersion?.imageUrl ?? null;
+  const beforeUrl = parentVersion?.imageUrl ?? sourceUrl;
+  const resultUrl = parentVersion ? sourceUrl : null;
+  const variants = imgState.history && currentVersion ? getVariants(imgState.history, currentVersion) : [];
+
+  // A mask belongs to the image it was painted on; drop it when the version changes
+  const currentVersionId = imgState.history?.currentId;
+  useEffect(() => {
+    setMaskUrl(null);
+    setIsMasking(false);
+    setAdjusting(null);
+  }, [currentVersionId]);
+
+  // Adjusting an adjusted version reopens its parameters on its input, so edits never stack up
+  const reopensAdjustments = !!currentVersion?.adjustments && !!parentVersion;
+  const adjustDefault = currentVersion
+    ? { baseId: reopensAdjustments ? parentVersion!.id : currentVersion.id, initial: currentVersion.adjustments ?? DEFAULT_ADJUSTMENTS }
+    : null;
+  const adjustSources: AdjustmentSource[] = adjustDefault && imgState.history
+    ? [
+        { id: adjustDefault.baseId, label: reopensAdjustments ? m.workspace.reEdit : m.workspace.currentVersion },
+        ...(adjustDefault.baseId !== imgState.history.rootId ? [{ id: imgState.history.rootId, label: m.workspace.originalVersion }] : [])
+      ]
+    : [];
+
+  // Pixel size of the current version, for the upload size shown in the toolbar
+  useEffect(() => {
+    setSourceSize(null);
+    if (!sourceUrl) return;
+    let cancelled = false;
+    loadImage(sourceUrl)
+      .then(img => !cancelled && setSourceSize({ width: img.naturalWidth, height: img.naturalHeight }))
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [sourceUrl]);
+
+  // Face detection runs on device, only when it is needed for ID photos
+  useEffect(() => {
+    setFaces(null);
+    setSelectedFace(0);
+    if (!sourceUrl || activeTab !== AppTab.ID_PHOTO) return;
+    let cancelled = false;
+    detectFacesInUrl(sourceUrl)
+      .then(found => !cancelled && setFaces(found))
+      .catch(() => !cancelled && setFaces([]));
+    return () => {
+      cancelled = true;
+    };
+  }, [sourceUrl, activeTab]);
+
+  // Every result is measured against its input once, on device; the numbers stay with the version
+  useEffect(() => {
+    if (!currentVersion || !parentVersion || currentVersion.metrics || measuringRef.current.has(currentVersion.id)) return;
+    const versionId = currentVersion.id;
+    measuringRef.current.add(versionId);
+    computeQualityMetrics(parentVersion.imageUrl, currentVersion.imageUrl)
+      .then(metrics => setImgState(prev => prev.history ? { ...prev, history: setVersionMetrics(prev.history, versionId, metrics) } : prev))
+      .catch(err => console.error("Quality metrics failed:", err))
+      .finally(() => measuringRef.current.delete(versionId));
+  }, [currentVersionId]);
+
+  // Rules of the selected ID document
+  const idSpec = getIDPhotoSpec(idSettings);
+
+  // ID photos re-frame the whole image and tiled upscales change its size,
+  // so masking only applies to regular enhance and restore
+  const supportsMask = activeTab === AppTab.RESTORE || (activeTab === AppTab.ENHANCE && !enhanceSettings.tiledUpscale);
+  const activeMask = supportsMask ? maskUrl : null;
+
+  // Save the open job after each change, then apply the storage eviction policy
+  useEffect(() => {
+    const history = imgState.history;
+    if (!history || imgState.isProcessing) return;
+    const timer = setTimeout(async () => {
+      try {
+        await saveProject(history, { name: projectName || m.library.untitled });
+        await enforceEvictionPolicy(loadEvictionPolicy(), history.rootId);
+      } catch (err) {
+        console.error("Library save failed:", err);
+      }
+    }, LIBRARY_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [imgState.history, imgState.isProcessing]);
+
+  const handleOpenProject = (project: LibraryProject, history: EditHistory) => {
+    setBatchItems([]);
+    setProjectName(project.name);
+    setIngestInfo(null);
+    setImgState({ history, isProcessing: false, error: null });
+    setShowLibrary(false);
+  };
+
+  // Persist the backend choice across reloads
+  useEffect(() => {
+    saveProviderConfig(providerConfig);
+  }, [providerConfig]);
+
+  useEffect(() => {
+    saveMetadataPolicy(metadataPolicy);
+  }, [metadataPolicy]);
+
+  const updateHistory = (update: (history: EditHistory) => EditHistory) => {
+    setImgState(prev => prev.history ? { ...prev, history: update(prev.history), error: null } : prev);
+  };
+
+  // Keyboard shortcuts for undo / redo
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+      if (imgState.isProcessing) return;
+      e.preventDefault();
+      updateHistory(e.shiftKey ? redo : undo);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [imgState.isProcessing]);
 
   // Handlers
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      processFile(file);
-    }
+    processFiles(Array.from(event.target.files || []));
+    event.target.value = '';
   };
 
-  const processFile = (file: File) => {
-    // Basic validation
-    if (!file.type.startsWith('image/')) {
-      setImgState(prev => ({ ...prev, error: 'Please upload a valid image file.' }));
-      return;
-    }
-
-    const reader = new FileReader();
-    reader.onload = (e) => {
+  // Normalizes the upload (orientation, format, size, metadata) before it becomes the original
+  const processFile = async (file: File) => {
+    try {
+      const { dataUrl, info } = await ingestFile(file, metadataPolicy);
+      setProjectName(stripExtension(file.name));
+      setIngestInfo(info);
       setImgState({
-        originalUrl: e.target?.result as string,
-        processedUrl: null,
+        history: createHistory(dataUrl),
         isProcessing: false,
         error: null,
       });
-    };
-    reader.readAsDataURL(file);
+    } catch (err: any) {
+      setImgState(prev => ({ ...prev, error: toProcessingError(err) }));
+    }
+  };
+
+  // Several files (or more files while a batch is open) go to the batch queue
+  const processFiles = (files: File[]) => {
+    if (files.length === 0) return;
+    if (files.length === 1 && batchItems.length === 0) {
+      processFile(files[0]);
+      return;
+    }
+    addBatchFiles(files);
+  };
+
+  // Files that cannot be decoded are skipped
+  const addBatchFiles = async (files: File[]) => {
+    const ingested = await Promise.all(files.map(file => ingestFile(file, metadataPolicy).catch(() => null)));
+    const added = ingested.flatMap((result, i): BatchItem[] => result ? [{
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      fileName: files[i].name,
+      originalUrl: result.dataUrl,
+      processedUrl: null,
+      processedTab: null,
+      status: BatchItemStatus.PENDING,
+      error: null,
+      durationMs: null
+    }] : []);
+    setBatchItems(prev => [...prev, ...added]);
   };
 
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
-    const file = e.dataTransfer.files[0];
-    if (file) processFile(file);
+    processFiles(Array.from(e.dataTransfer.files));
   };
 
-  const handleProcess = async () => {
-    if (!imgState.originalUrl) return;
+  // Settings snapshot for the active tab
+  const getCurrentOperation = (): OperationSettings => {
+    switch (activeTab) {
+      case AppTab.ID_PHOTO: return { tab: AppTab.ID_PHOTO, settings: idSettings };
+      case AppTab.RESTORE: return { tab: AppTab.RESTORE, settings: restoreSettings };
+      default: return { tab: AppTab.ENHANCE, settings: enhanceSettings };
+    }
+  };
+
+  // Tiled upscales are resumable single runs, so they always produce one candidate
+  const supportsVariants = !(activeTab === AppTab.ENHANCE && enhanceSettings.tiledUpscale);
+  const runVariantCount = supportsVariants ? variantCount : 1;
+
+  // Size the current version is sent to the model at with the active settings
+  const uploadSize = sourceSize ? getUploadSize(sourceSize.width, sourceSize.height, getCurrentOperation()) : null;
 
+  useEffect(() => subscribeUsage(() => setUsageTick(t => t + 1)), []);
+
+  // Estimated cost of processing the current version, checked against the budget caps
+  const costEstimate = isBilledProvider(providerConfig.kind) && sourceSize
+    ? estimateOperationCost(getCurrentOperation(), sourceSize.width, sourceSize.height, !!activeMask) * runVariantCount
+    : null;
+  const budgetCheck = costEstimate !== null ? checkBudget(costEstimate) : null;
+
+  // Runs the active tab on the current version, so operations can be chained.
+  // `resume` continues the last failed tiled upscale from its finished tiles.
+  const handleProcess = async (resume = false) => {
+    if (!currentVersion) return;
+    if (budgetCheck?.exceeds && !budgetCheck.blocked && !window.confirm(m.process.confirmOverBudget(budgetCheck.message))) return;
+
+    const parentId = currentVersion.id;
+    const operation = getCurrentOperation();
+    const controller = new AbortController();
+    abortRef.current = controller;
     setImgState(prev => ({ ...prev, isProcessing: true, error: null }));
+    setRetryNotice(null);
+    setTileProgress(null);
+    setVariantProgress(null);
 
     try {
-      let result;
-      if (activeTab === AppTab.ENHANCE) {
-        result = await enhanceImageWithGemini(imgState.originalUrl, enhanceSettings);
-      } else if (activeTab === AppTab.ID_PHOTO) {
-        result = await generateIDPhotoWithGemini(imgState.originalUrl, idSettings);
-      } else if (activeTab === AppTab.RESTORE) {
-        result = await restoreImageWithGemini(imgState.originalUrl, restoreSettings);
+      const provider = meterProvider(getProvider(providerConfig));
+      const mask = activeMask;
+      let tiledJob: TiledJob | undefined;
+      if (operation.tab === AppTab.ENHANCE && operation.settings.tiledUpscale) {
+        tiledJob = resume && resumableJob?.parentId === parentId
+          ? resumableJob.job
+          : await createTiledJob(currentVersion.imageUrl, operation.settings);
+        setResumableJob({ job: tiledJob, parentId });
+        setTileProgress({ done: countDoneTiles(tiledJob), total: tiledJob.plan.tiles.length, tileIndex: -1 });
       }
+      const count = tiledJob ? 1 : runVariantCount;
+      const results: string[] = [];
+      let variantError: unknown = null;
+      for (let i = 0; i < count; i++) {
+        if (count > 1) setVariantProgress({ done: i, total: count });
+        try {
+          const raw = await runOperation(provider, currentVersion.imageUrl, operation, {
+            signal: controller.signal,
+            mask: mask ?? undefined,
+            tiledJob,
+            faceIndex: selectedFace,
+            onTileProgress: setTileProgress,
+            onRetry: (error, attempt, delayMs) => {
+              setRetryNotice(m.process.retry(m.errors[error.kind].title, attempt, Math.ceil(delayMs / 1000)));
+            }
+          });
+          // Keep everything outside the mask identical to the input
+          results.push(mask ? await compositeWithMask(currentVersion.imageUrl, raw, mask) : raw);
+        } catch (err) {
+          // Cancelling stops the run; other failures keep the variants that did finish
+          if (count === 1 || controller.signal.aborted) throw err;
+          variantError = err;
+        }
+      }
+      if (!results.length) throw variantError;
       
+      setResumableJob(null);
+      setShowVariants(results.length > 1);
       setImgState(prev => ({
         ...prev,
-        processedUrl: result,
-        isProcessing: false
+        history: prev.history
+          ? results.length > 1
+            ? addVariants(prev.history, parentId, operation, results)
+            : addVersion(prev.history, parentId, operation, results[0])
+          : prev.history,
+        isProcessing: false,
+        // Some variants failed: say why, while showing the ones that worked
+        error: variantError ? toProcessingError(variantError) : null
       }));
     } catch (err: any) {
       setImgState(prev => ({
         ...prev,
         isProcessing: false,
-        error: err.message || "Failed to process image."
+        error: toProcessingError(err)
       }));
+    } finally {
+      abortRef.current = null;
+      setRetryNotice(null);
+      setTileProgress(null);
+      setVariantProgress(null);
     }
   };
 
-  const handleDownload = () => {
-    if (imgState.processedUrl) {
-      const link = document.createElement('a');
-      link.href = imgState.processedUrl;
-      let prefix = 'Enhanced';
-      if (activeTab === AppTab.ID_PHOTO) prefix = 'ID_Photo';
-      if (activeTab === AppTab.RESTORE) prefix = 'Restored_Gemini3Pro';
-      
-      link.download = `LongRau_${prefix}_${Date.now()}.png`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-    }
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
+  const handleMixVariants = async (baseId: string, backgroundId: string) => {
+    if (!imgState.history) return;
+    const { versions } = imgState.history;
+    const mixed = await mixVariantBackground(versions[baseId].imageUrl, versions[backgroundId].imageUrl);
+    updateHistory(h => addMixedVariant(h, baseId, backgroundId, mixed));
   };
 
   const resetImage = () => {
+    setIngestInfo(null);
+    setShowVariants(false);
     setImgState({
-      originalUrl: null,
-      processedUrl: null,
+      history: null,
       isProcessing: false,
       error: null
     });
   };
 
+  // Loads a version's settings snapshot back into its tab
+  const applyOperationSettings = (operation: OperationSettings) => {
+    setActiveTab(operation.tab);
+    if (operation.tab === AppTab.ENHANCE) setEnhanceSettings(operation.settings);
+    if (operation.tab === AppTab.ID_PHOTO) setIdSettings(operation.settings);
+    if (operation.tab === AppTab.RESTORE) setRestoreSettings(operation.settings);
+  };
+
+  const toggleAdjusting = () => {
+    setIsMasking(false);
+    setAdjusting(a => (a ? null : adjustDefault));
+  };
+
+  const handleAdjustSourceChange = (baseId: string) => {
+    setAdjusting(baseId === adjustDefault?.baseId ? adjustDefault : { baseId, initial: DEFAULT_ADJUSTMENTS });
+  };
+
+  const handleApplyAdjustments = (adjustments: ImageAdjustments, imageUrl: string) => {
+    if (!adjusting) return;
+    updateHistory(h => addAdjustedVersion(h, adjusting.baseId, adjustments, imageUrl));
+    setAdjusting(null);
+  };
+
   // Helper to get background color CSS
   const getBgColorCss = (bg: IDPhotoBackground) => {
     switch(bg) {
@@ -176,11 +477,11 @@ const App: React.FC = () => {
   // Helper text for processing overlay
   const getProcessingText = () => {
     switch(activeTab) {
-      case AppTab.ID_PHOTO: return 'Removing background & Formatting...';
-      case AppTab.RESTORE: return 'Restoring details with Gemini 3 Pro...';
+      case AppTab.ID_PHOTO: return m.process.idPhoto;
+      case AppTab.RESTORE: return m.process.restore;
       default: return enhanceSettings.quality === EnhancementQuality.Q_8K 
-        ? 'Enhancing with Gemini 3 Pro (High Res)...' 
-        : 'Enhancing details & Upscaling...';
+        ? m.process.enhancePro 
+        : m.process.enhance;
     }
   };
 
@@ -199,10 +500,62 @@ const App: React.FC = () => {
         <p className="text-gray-400 font-medium flex items-center justify-center gap-2">
           V2.0 Pro 
           <span className="w-1 h-1 rounded-full bg-gray-600"></span>
-          <span className="flex items-center text-purple-400"><Zap className="w-3 h-3 mr-1"/> Gemini 3 Pro Active</span>
+          <span className="flex items-center text-purple-400">
+            <Zap className="w-3 h-3 mr-1"/>
+            {m.header.provider[providerConfig.kind]}
+          </span>
         </p>
+        <div className="flex flex-col md:flex-row items-center justify-center gap-3">
+          <ProviderSettings
+            config={providerConfig}
+            onChange={setProviderConfig}
+            disabled={imgState.isProcessing}
+          />
+          <button
+            onClick={() => setShowLibrary(true)}
+            className="px-3 py-1.5 rounded-xl bg-gray-900 border border-gray-800 text-sm font-medium text-gray-300 hover:text-white hover:border-gray-700 flex items-center"
+          >
+            <Library className="w-4 h-4 mr-1" /> {m.header.library}
+          </button>
+          <button
+            onClick={() => setShowUsage(true)}
+            className="px-3 py-1.5 rounded-xl bg-gray-900 border border-gray-800 text-sm font-medium text-gray-300 hover:text-white hover:border-gray-700 flex items-center"
+          >
+            <Wallet className="w-4 h-4 mr-1" /> {m.header.usage}
+          </button>
+          <button
+            onClick={() => setShowMarkChecker(true)}
+            className="px-3 py-1.5 rounded-xl bg-gray-900 border border-gray-800 text-sm font-medium text-gray-300 hover:text-white hover:border-gray-700 flex items-center"
+          >
+            <ShieldCheck className="w-4 h-4 mr-1" /> {m.header.checkMark}
+          </button>
+          <LanguageSwitcher />
+        </div>
       </header>
 
+      {showLibrary && (
+        <LibraryGallery
+          activeProjectId={imgState.history?.rootId ?? null}
+          onOpen={handleOpenProject}
+          onClose={() => setShowLibrary(false)}
+        />
+      )}
+
+      {showUsage && <UsageDashboard onClose={() => setShowUsage(false)} />}
+
+      {showMarkChecker && <WatermarkChecker onClose={() => setShowMarkChecker(false)} />}
+
+      {showExport && resultUrl && imgState.history && (
+        <ExportDialog
+          imageUrl={resultUrl}
+          originalUrl={imgState.history.versions[imgState.history.rootId].imageUrl}
+          tab={currentVersion?.operation?.tab ?? activeTab}
+          projectName={projectName}
+          jobId={imgState.history.rootId}
+          onClose={() => setShowExport(false)}
+        />
+      )}
+
       {/* Tab Navigation */}
       <div className="max-w-4xl mx-auto mb-8 flex justify-center w-full overflow-x-auto">
         <div className="bg-gray-900/80 backdrop-blur-sm p-1.5 rounded-2xl shadow-lg border border-gray-800 inline-flex flex-wrap md:flex-nowrap justify-center gap-1">
@@ -215,7 +568,7 @@ const App: React.FC = () => {
             }`}
           >
             <Wand2 className="w-4 h-4 mr-2" />
-            Nâng Cấp Ảnh
+            {m.tabs[AppTab.ENHANCE]}
           </button>
           <button
             onClick={() => setActiveTab(AppTab.ID_PHOTO)}
@@ -226,7 +579,7 @@ const App: React.FC = () => {
             }`}
           >
             <UserSquare2 className="w-4 h-4 mr-2" />
-            Tạo Ảnh Thẻ
+            {m.tabs[AppTab.ID_PHOTO]}
           </button>
           <button
             onClick={() => setActiveTab(AppTab.RESTORE)}
@@ -237,7 +590,7 @@ const App: React.FC = () => {
             }`}
           >
             <History className="w-4 h-4 mr-2" />
-            Khôi Phục Ảnh
+            {m.tabs[AppTab.RESTORE]}
           </button>
         </div>
       </div>
@@ -247,6 +600,11 @@ const App: React.FC = () => {
         {/* Left Column: Controls */}
         <div className="lg:col-span-4 space-y-6">
           <div className="bg-gray-900 rounded-2xl shadow-xl p-6 border border-gray-800">
+            <PresetBar
+              operation={getCurrentOperation()}
+              onApply={applyOperationSettings}
+              disabled={imgState.isProcessing}
+            />
             
             {/* Render Content Based on Tab */}
             {activeTab === AppTab.ENHANCE && (
@@ -254,12 +612,12 @@ const App: React.FC = () => {
               <>
                 <h2 className="text-lg font-bold text-white mb-4 flex items-center">
                   <Wand2 className="w-5 h-5 mr-2 text-pink-500" />
-                  Enhancement Controls
+                  {m.enhance.title}
                 </h2>
 
                 {/* Quality Selection */}
                 <div className="mb-6 space-y-3">
-                  <label className="block text-sm font-semibold text-gray-300">Output Quality</label>
+                  <label className="block text-sm font-semibold text-gray-300">{m.enhance.quality}</label>
                   <div className="grid grid-cols-1 gap-2">
                     {Object.values(EnhancementQuality).map((q) => (
                       <button
@@ -272,8 +630,8 @@ const App: React.FC = () => {
                         }`}
                       >
                         <div className="flex justify-between items-center">
-                          <span className="font-medium">{q}</span>
-                          {q.includes('8K') && (
+                          <span className="font-medium">{m.enums.quality[q]}</span>
+                          {q === EnhancementQuality.Q_8K && (
                             <span className="bg-gradient-to-r from-purple-600 to-pink-600 text-white text-[10px] px-2 py-0.5 rounded-full font-bold">
                               GEMINI 3 PRO
                             </span>
@@ -284,21 +642,37 @@ const App: React.FC = () => {
                   </div>
                 </div>
 
+                {/* Tiled Upscale */}
+                <label className="mb-6 flex items-start space-x-3 cursor-pointer group">
+                  <input 
+                    type="checkbox" 
+                    checked={enhanceSettings.tiledUpscale}
+                    onChange={(e) => setEnhanceSettings(s => ({...s, tiledUpscale: e.target.checked}))}
+                    className="w-5 h-5 mt-0.5 rounded border-gray-600 bg-gray-700 text-purple-600 focus:ring-purple-500 transition-colors"
+                  />
+                  <div className="flex flex-col">
+                    <span className="text-sm font-medium text-gray-300">{m.enhance.tiled}</span>
+                    <span className="text-xs text-gray-500">
+                      {m.enhance.tiledHint(TARGET_LONG_EDGE[enhanceSettings.quality])}
+                    </span>
+                  </div>
+                </label>
+
                 {/* Mode Selection */}
                 <div className="mb-6">
-                  <label className="block text-sm font-semibold text-gray-300 mb-3">Processing Mode</label>
+                  <label className="block text-sm font-semibold text-gray-300 mb-3">{m.enhance.mode}</label>
                   <div className="flex bg-gray-800 p-1 rounded-xl border border-gray-700">
-                    {Object.values(EnhancementMode).map((m) => (
+                    {Object.values(EnhancementMode).map((mode) => (
                       <button
-                        key={m}
-                        onClick={() => setEnhanceSettings(s => ({ ...s, mode: m }))}
+                        key={mode}
+                        onClick={() => setEnhanceSettings(s => ({ ...s, mode }))}
                         className={`flex-1 py-2 text-sm font-medium rounded-lg transition-all ${
-                          enhanceSettings.mode === m
+                          enhanceSettings.mode === mode
                             ? 'bg-gray-700 text-white shadow-sm'
                             : 'text-gray-500 hover:text-gray-300'
                         }`}
                       >
-                        {m}
+                        {m.enums.mode[mode]}
                       </button>
                     ))}
                   </div>
@@ -307,18 +681,19 @@ const App: React.FC = () => {
                 {/* Sliders */}
                 <div className="space-y-1 mb-6">
                   <Slider 
-                    label="Face Retouch" 
+                    label={m.enhance.retouch} 
                     value={enhanceSettings.retouchLevel} 
                     onChange={(v) => setEnhanceSettings(s => ({...s, retouchLevel: v}))} 
+                    disabled={enhanceSettings.mode === EnhancementMode.UPSCALE_ONLY}
                   />
                   <Slider 
-                    label="Sharpening" 
+                    label={m.enhance.sharpening} 
                     value={enhanceSettings.sharpenLevel} 
                     max={200}
                     onChange={(v) => setEnhanceSettings(s => ({...s, sharpenLevel: v}))} 
                   />
                   <Slider 
-                    label="AI Upscale Strength" 
+                    label={m.enhance.upscale} 
                     value={enhanceSettings.upscaleLevel} 
                     onChange={(v) => setEnhanceSettings(s => ({...s, upscaleLevel: v}))} 
                   />
@@ -326,9 +701,9 @@ const App: React.FC = () => {
 
                 <div className="h-px bg-gray-800 my-6" />
 
-                {/* Advanced Options */}
-                <div className="space-y-3">
-                  <label className="block text-sm font-semibold text-gray-300">Advanced Options</label>
+                {/* Advanced Options (face and colour work is skipped in upscale-only mode) */}
+                <div className={`space-y-3 ${enhanceSettings.mode === EnhancementMode.UPSCALE_ONLY ? 'opacity-40 pointer-events-none' : ''}`}>
+                  <label className="block text-sm font-semibold text-gray-300">{m.enhance.advanced}</label>
                   
                   <label className="flex items-center space-x-3 cursor-pointer group">
                     <input 
@@ -337,7 +712,7 @@ const App: React.FC = () => {
                       onChange={(e) => setEnhanceSettings(s => ({...s, hyperRealism: e.target.checked}))}
                       className="w-5 h-5 rounded border-gray-600 bg-gray-700 text-purple-600 focus:ring-purple-500 transition-colors"
                     />
-                    <span className="text-sm text-gray-400 group-hover:text-gray-200">Hyper-Realism Texture</span>
+                    <span className="text-sm text-gray-400 group-hover:text-gray-200">{m.enhance.hyperRealism}</span>
                   </label>
 
                   <label className="flex items-center space-x-3 cursor-pointer group">
@@ -347,7 +722,17 @@ const App: React.FC = () => {
                       onChange={(e) => setEnhanceSettings(s => ({...s, colorize: e.target.checked}))}
                       className="w-5 h-5 rounded border-gray-600 bg-gray-700 text-purple-600 focus:ring-purple-500 transition-colors"
                     />
-                    <span className="text-sm text-gray-400 group-hover:text-gray-200">Color Correction</span>
+                    <span className="text-sm text-gray-400 group-hover:text-gray-200">{m.enhance.colorize}</span>
+                  </label>
+
+                  <label className="flex items-center space-x-3 cursor-pointer group">
+                    <input 
+                      type="checkbox" 
+                      checked={enhanceSettings.makeup}
+                      onChange={(e) => setEnhanceSettings(s => ({...s, makeup: e.target.checked}))}
+                      className="w-5 h-5 rounded border-gray-600 bg-gray-700 text-purple-600 focus:ring-purple-500 transition-colors"
+                    />
+                    <span className="text-sm text-gray-400 group-hover:text-gray-200">{m.enhance.makeup}</span>
                   </label>
                 </div>
               </>
@@ -358,58 +743,106 @@ const App: React.FC = () => {
               <>
                 <h2 className="text-lg font-bold text-white mb-4 flex items-center">
                   <UserSquare2 className="w-5 h-5 mr-2 text-pink-500" />
-                  Cấu Hình Ảnh Thẻ
+                  {m.idPhoto.title}
                 </h2>
 
-                {/* Size Selection */}
+                {sourceUrl && sourceSize && batchItems.length === 0 && (
+                  <div className="mb-6">
+                    <FacePicker
+                      imageUrl={sourceUrl}
+                      imageSize={sourceSize}
+                      faces={faces}
+                      selected={selectedFace}
+                      onSelect={setSelectedFace}
+                    />
+                  </div>
+                )}
+
+                {/* Document Spec */}
                 <div className="mb-6">
                   <label className="block text-sm font-semibold text-gray-300 mb-3 flex items-center">
-                    <Crop className="w-4 h-4 mr-1" /> Kích Thước
+                    <FileBadge className="w-4 h-4 mr-1" /> {m.idPhoto.document}
                   </label>
-                  <div className="grid grid-cols-2 gap-2">
-                    {Object.values(IDPhotoSize).map((size) => (
-                      <button
-                        key={size}
-                        onClick={() => setIdSettings(s => ({ ...s, size }))}
-                        className={`px-3 py-2 text-sm font-medium rounded-lg border transition-all ${
-                          idSettings.size === size
-                            ? 'bg-purple-900/30 border-purple-500 text-purple-300 ring-1 ring-purple-500'
-                            : 'bg-gray-800 border-gray-700 text-gray-400 hover:bg-gray-700'
-                        }`}
-                      >
-                        {size}
-                      </button>
+                  <select
+                    value={idSettings.specId}
+                    onChange={(e) => setIdSettings(s => applyIDPhotoSpec(s, e.target.value))}
+                    className="w-full px-3 py-2 rounded-lg bg-gray-800 border border-gray-700 text-sm text-gray-200 focus:outline-none focus:border-purple-500"
+                  >
+                    <option value={CUSTOM_SPEC_ID}>{m.idSpecs.customSize}</option>
+                    {Array.from(new Set(ID_PHOTO_SPECS.map(spec => spec.country))).map(country => (
+                      <optgroup key={country} label={m.idSpecs.countries[country] ?? country}>
+                        {ID_PHOTO_SPECS.filter(spec => spec.country === country).map(spec => (
+                          <option key={spec.id} value={spec.id}>{m.idSpecs.names[spec.id] ?? spec.name} · {m.enums.size[spec.size]}</option>
+                        ))}
+                      </optgroup>
                     ))}
-                  </div>
+                  </select>
+                  {idSpec.id !== CUSTOM_SPEC_ID && (
+                    <p className="mt-2 text-xs text-gray-500">
+                      {m.enums.size[idSpec.size]} · {m.idPhoto.head(idSpec.headHeightMm.min, idSpec.headHeightMm.max)} · {m.idPhoto.eyes(idSpec.eyeLineMm.min, idSpec.eyeLineMm.max)}
+                      {' · '}{idSpec.glassesAllowed ? m.idPhoto.glassesOk : m.idPhoto.noGlasses}
+                      {' · '}{idSpec.smilingAllowed ? m.idPhoto.smileOk : m.idPhoto.neutral}
+                    </p>
+                  )}
                 </div>
 
+                {/* Size Selection */}
+                {idSpec.id === CUSTOM_SPEC_ID && (
+                  <div className="mb-6">
+                    <label className="block text-sm font-semibold text-gray-300 mb-3 flex items-center">
+                      <Crop className="w-4 h-4 mr-1" /> {m.idPhoto.size}
+                    </label>
+                    <div className="grid grid-cols-2 gap-2">
+                      {Object.values(IDPhotoSize).map((size) => (
+                        <button
+                          key={size}
+                          onClick={() => setIdSettings(s => ({ ...s, size }))}
+                          className={`px-3 py-2 text-sm font-medium rounded-lg border transition-all ${
+                            idSettings.size === size
+                              ? 'bg-purple-900/30 border-purple-500 text-purple-300 ring-1 ring-purple-500'
+                              : 'bg-gray-800 border-gray-700 text-gray-400 hover:bg-gray-700'
+                          }`}
+                        >
+                          {m.enums.size[size]}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {/* Background Color */}
                 <div className="mb-6">
                   <label className="block text-sm font-semibold text-gray-300 mb-3 flex items-center">
-                    <Palette className="w-4 h-4 mr-1" /> Màu Nền
+                    <Palette className="w-4 h-4 mr-1" /> {m.idPhoto.background}
                   </label>
                   <div className="flex space-x-3 bg-gray-800 p-3 rounded-xl justify-around border border-gray-700">
-                    {Object.values(IDPhotoBackground).map((bg) => (
+                    {Object.values(IDPhotoBackground).filter(bg => idSpec.id === CUSTOM_SPEC_ID || idSpec.backgrounds.includes(bg)).map((bg) => (
                       <button
                         key={bg}
-                        onClick={() => setIdSettings(s => ({ ...s, backgroundColor: bg }))}
+                        onClick={() => setIdSettings(s => ({ ...s, backgroundColor: bg, backgroundHex: '' }))}
                         className={`w-8 h-8 rounded-full border-2 shadow-sm transition-transform hover:scale-110 focus:outline-none ${
                           getBgColorCss(bg)
-                        } ${idSettings.backgroundColor === bg ? 'ring-2 ring-offset-2 ring-purple-500 scale-110' : ''}`}
-                        title={bg}
+                        } ${idSettings.backgroundColor === bg && !idSettings.backgroundHex ? 'ring-2 ring-offset-2 ring-purple-500 scale-110' : ''}`}
+                        title={m.enums.background[bg]}
                       />
                     ))}
                   </div>
+                  <IDBackgroundOptions
+                    settings={idSettings}
+                    onChange={(patch) => setIdSettings(s => ({ ...s, ...patch }))}
+                    allowedBackgrounds={idSpec.id === CUSTOM_SPEC_ID ? Object.values(IDPhotoBackground) : idSpec.backgrounds}
+                    allowStudio={idSpec.id === CUSTOM_SPEC_ID}
+                  />
                 </div>
 
                 <div className="h-px bg-gray-800 my-6" />
 
                 {/* Retouching */}
                 <div className="space-y-4">
-                  <label className="block text-sm font-semibold text-gray-300">Làm Đẹp Da & Xử Lý</label>
+                  <label className="block text-sm font-semibold text-gray-300">{m.idPhoto.retouch}</label>
                   
                   <Slider 
-                    label="Mịn Da (Skin Smooth)" 
+                    label={m.idPhoto.skinSmoothing} 
                     value={idSettings.skinSmoothing} 
                     onChange={(v) => setIdSettings(s => ({...s, skinSmoothing: v}))} 
                   />
@@ -423,8 +856,8 @@ const App: React.FC = () => {
                         className="w-5 h-5 rounded border-gray-600 bg-gray-700 text-purple-600 focus:ring-purple-500"
                       />
                       <div className="flex flex-col">
-                        <span className="text-sm font-medium text-gray-300">Nhặt Mụn / Xóa Vết Xước</span>
-                        <span className="text-xs text-gray-500">Acne & Blemish Removal</span>
+                        <span className="text-sm font-medium text-gray-300">{m.idPhoto.blemishes}</span>
+                        <span className="text-xs text-gray-500">{m.idPhoto.blemishesHint}</span>
                       </div>
                     </label>
 
@@ -435,7 +868,7 @@ const App: React.FC = () => {
                         onChange={(e) => setIdSettings(s => ({...s, fixLighting: e.target.checked}))}
                         className="w-5 h-5 rounded border-gray-600 bg-gray-700 text-purple-600 focus:ring-purple-500"
                       />
-                      <span className="text-sm font-medium text-gray-300">Cân Bằng Ánh Sáng</span>
+                      <span className="text-sm font-medium text-gray-300">{m.idPhoto.fixLighting}</span>
                     </label>
                   </div>
                 </div>
@@ -447,29 +880,29 @@ const App: React.FC = () => {
               <>
                 <h2 className="text-lg font-bold text-white mb-4 flex items-center">
                   <History className="w-5 h-5 mr-2 text-pink-500" />
-                  Khôi Phục Ảnh Cũ
+                  {m.restore.title}
                 </h2>
 
                 <div className="bg-gradient-to-r from-amber-900/40 to-amber-900/10 p-3 rounded-lg border border-amber-800 mb-6 flex items-start">
                    <Zap className="w-4 h-4 text-amber-400 mr-2 mt-0.5 flex-shrink-0" />
                    <div className="text-sm text-amber-200">
-                     <b>Powered by Gemini 3 Pro</b><br/>
-                     Sử dụng mô hình AI mới nhất để tái tạo chi tiết và màu sắc siêu thực.
+                     <b>{m.restore.poweredBy}</b><br/>
+                     {m.restore.poweredByDesc}
                    </div>
                 </div>
 
                 {/* Restoration Sliders */}
                 <div className="space-y-1 mb-6">
                    <label className="block text-sm font-semibold text-gray-300 mb-2 flex items-center">
-                    <Eraser className="w-4 h-4 mr-1 text-gray-400" /> Xử lý vết xước & Nhiễu
+                    <Eraser className="w-4 h-4 mr-1 text-gray-400" /> {m.restore.damage}
                   </label>
                   <Slider 
-                    label="Xóa Vết Xước (Scratch Removal)" 
+                    label={m.restore.scratches} 
                     value={restoreSettings.scratchReduction} 
                     onChange={(v) => setRestoreSettings(s => ({...s, scratchReduction: v}))} 
                   />
                   <Slider 
-                    label="Khử Nhiễu (Denoise)" 
+                    label={m.restore.denoise} 
                     value={restoreSettings.denoiseLevel} 
                     onChange={(v) => setRestoreSettings(s => ({...s, denoiseLevel: v}))} 
                   />
@@ -479,7 +912,7 @@ const App: React.FC = () => {
 
                 {/* Toggles */}
                 <div className="space-y-4">
-                   <label className="block text-sm font-semibold text-gray-300">Tùy Chọn Phục Chế</label>
+                   <label className="block text-sm font-semibold text-gray-300">{m.restore.options}</label>
                   
                    <label className="flex items-start space-x-3 cursor-pointer group">
                     <input 
@@ -489,8 +922,8 @@ const App: React.FC = () => {
                       className="w-5 h-5 mt-0.5 rounded border-gray-600 bg-gray-700 text-purple-600 focus:ring-purple-500"
                     />
                     <div className="flex flex-col">
-                      <span className="text-sm font-medium text-gray-300">Tái Tạo Màu Sắc (Colorize)</span>
-                      <span className="text-xs text-gray-500">Tô màu ảnh đen trắng hoặc phục hồi màu phai</span>
+                      <span className="text-sm font-medium text-gray-300">{m.restore.colorize}</span>
+                      <span className="text-xs text-gray-500">{m.restore.colorizeHint}</span>
                     </div>
                   </label>
 
@@ -502,8 +935,8 @@ const App: React.FC = () => {
                       className="w-5 h-5 mt-0.5 rounded border-gray-600 bg-gray-700 text-purple-600 focus:ring-purple-500"
                     />
                     <div className="flex flex-col">
-                      <span className="text-sm font-medium text-gray-300">Khôi Phục Khuôn Mặt (Face Restore)</span>
-                      <span className="text-xs text-gray-500">Giữ nguyên nét gốc, không làm biến dạng</span>
+                      <span className="text-sm font-medium text-gray-300">{m.restore.face}</span>
+                      <span className="text-xs text-gray-500">{m.restore.faceHint}</span>
                     </div>
                   </label>
 
@@ -514,13 +947,21 @@ const App: React.FC = () => {
                       onChange={(e) => setRestoreSettings(s => ({...s, sharpenArtifacts: e.target.checked}))}
                       className="w-5 h-5 rounded border-gray-600 bg-gray-700 text-purple-600 focus:ring-purple-500"
                     />
-                     <span className="text-sm font-medium text-gray-300">Làm Nét & Khử Mờ (Deblur)</span>
+                     <span className="text-sm font-medium text-gray-300">{m.restore.deblur}</span>
                   </label>
                 </div>
               </>
             )}
 
           </div>
+
+          {activeTab === AppTab.ID_PHOTO && resultUrl && !imgState.isProcessing && currentVersion?.operation?.tab === AppTab.ID_PHOTO && (
+            <ComplianceReportPanel imageUrl={resultUrl} settings={currentVersion.operation.settings} />
+          )}
+
+          {activeTab === AppTab.ID_PHOTO && resultUrl && !imgState.isProcessing && (
+            <PrintLayoutPanel imageUrl={resultUrl} size={idSettings.size} />
+          )}
         </div>
 
         {/* Right Column: Workspace */}
@@ -535,23 +976,77 @@ const App: React.FC = () => {
             {/* Toolbar */}
             <div className="p-4 border-b border-gray-800 flex justify-between items-center bg-gray-800/50">
               <div className="flex items-center space-x-2">
-                <span className="text-sm font-semibold text-gray-400 uppercase tracking-wider">Workspace</span>
-                {activeTab === AppTab.ID_PHOTO && imgState.originalUrl && (
-                   <span className="bg-blue-900/50 text-blue-300 text-xs px-2 py-1 rounded-md font-bold border border-blue-800">ID MODE</span>
+                <span className="text-sm font-semibold text-gray-400 uppercase tracking-wider">{m.workspace.title}</span>
+                {activeTab === AppTab.ID_PHOTO && currentVersion && (
+                   <span className="bg-blue-900/50 text-blue-300 text-xs px-2 py-1 rounded-md font-bold border border-blue-800">{m.workspace.idMode}</span>
+                )}
+                {batchItems.length > 0 && (
+                   <span className="bg-purple-900/50 text-purple-300 text-xs px-2 py-1 rounded-md font-bold flex items-center border border-purple-800">
+                     <Layers className="w-3 h-3 mr-1"/> {m.workspace.batch} · {batchItems.length}
+                   </span>
                 )}
-                {activeTab === AppTab.RESTORE && imgState.originalUrl && (
+                {activeTab === AppTab.RESTORE && currentVersion && (
                    <span className="bg-amber-900/50 text-amber-300 text-xs px-2 py-1 rounded-md font-bold flex items-center border border-amber-800">
-                     <History className="w-3 h-3 mr-1"/> RESTORE MODE
+                     <History className="w-3 h-3 mr-1"/> {m.workspace.restoreMode}
+                   </span>
+                )}
+                {uploadSize && batchItems.length === 0 && (
+                   <span
+                     className="text-xs text-gray-500 font-mono hidden md:inline"
+                     title={ingestInfo ? `${ingestInfo.fileName} · ${formatBytes(ingestInfo.bytes)}${ingestInfo.orientation !== 1 ? ` · ${m.workspace.rotated}` : ''} · ${m.workspace.metadata(ingestInfo.metadataKept)}` : undefined}
+                   >
+                     {ingestInfo && `${m.workspace.originalSize(ingestInfo.originalWidth, ingestInfo.originalHeight, ingestInfo.sourceFormat.toUpperCase())} · `}
+                     {m.workspace.uploadSize(uploadSize.width, uploadSize.height)}
                    </span>
                 )}
               </div>
               <div className="flex space-x-2">
-                {imgState.originalUrl && (
+                {currentVersion && batchItems.length === 0 && !imgState.isProcessing && (
+                  <button
+                    onClick={toggleAdjusting}
+                    className={`p-2 rounded-lg transition-colors flex items-center text-sm ${
+                      adjusting ? 'text-purple-300 bg-purple-900/20' : 'text-gray-400 hover:bg-gray-800'
+                    }`}
+                    title={m.workspace.adjustHint}
+                  >
+                    <SlidersVertical className="w-4 h-4 mr-1" /> {m.workspace.adjust}
+                  </button>
+                )}
+                {currentVersion && supportsMask && batchItems.length === 0 && !imgState.isProcessing && (
+                  <button 
+                    onClick={() => {
+                      setAdjusting(null);
+                      setIsMasking(v => !v);
+                    }}
+                    className={`p-2 rounded-lg transition-colors flex items-center text-sm ${
+                      isMasking || activeMask ? 'text-pink-300 bg-pink-900/20' : 'text-gray-400 hover:bg-gray-800'
+                    }`}
+                    title={m.workspace.maskHint}
+                  >
+                    <Brush className="w-4 h-4 mr-1" /> {activeMask ? m.workspace.maskOn : m.workspace.mask}
+                  </button>
+                )}
+                {variants.length > 1 && batchItems.length === 0 && !imgState.isProcessing && (
+                  <button 
+                    onClick={() => {
+                      setAdjusting(null);
+                      setIsMasking(false);
+                      setShowVariants(v => !v);
+                    }}
+                    className={`p-2 rounded-lg transition-colors flex items-center text-sm ${
+                      showVariants ? 'text-purple-300 bg-purple-900/20' : 'text-gray-400 hover:bg-gray-800'
+                    }`}
+                    title={m.workspace.variantsHint}
+                  >
+                    <LayoutGrid className="w-4 h-4 mr-1" /> {m.workspace.variants(variants.length)}
+                  </button>
+                )}
+                {currentVersion && (
                   <button 
                     onClick={resetImage}
                     className="p-2 text-red-400 hover:bg-red-900/20 rounded-lg transition-colors flex items-center text-sm"
                   >
-                    <Trash2 className="w-4 h-4 mr-1" /> Clear
+                    <Trash2 className="w-4 h-4 mr-1" /> {m.common.clear}
                   </button>
                 )}
               </div>
@@ -559,7 +1054,45 @@ const App: React.FC = () => {
 
             {/* Content */}
             <div className="flex-1 flex items-center justify-center p-6 bg-[#0a0a0a]">
-              {!imgState.originalUrl ? (
+              {batchItems.length > 0 ? (
+                <BatchWorkspace
+                  items={batchItems}
+                  onItemsChange={setBatchItems}
+                  onAddFiles={addBatchFiles}
+                  onExit={() => setBatchItems([])}
+                  provider={meterProvider(getProvider(providerConfig))}
+                  operation={getCurrentOperation()}
+                />
+              ) : adjusting && imgState.history ? (
+                <AdjustmentEditor
+                  imageUrl={imgState.history.versions[adjusting.baseId].imageUrl}
+                  initial={adjusting.initial}
+                  sources={adjustSources}
+                  sourceId={adjusting.baseId}
+                  onSourceChange={handleAdjustSourceChange}
+                  onApply={handleApplyAdjustments}
+                  onClose={() => setAdjusting(null)}
+                />
+              ) : isMasking && supportsMask && sourceUrl ? (
+                <MaskEditor
+                  imageUrl={sourceUrl}
+                  mask={maskUrl}
+                  onChange={setMaskUrl}
+                  onClose={() => setIsMasking(false)}
+                />
+              ) : showVariants && variants.length > 1 && imgState.history && !imgState.isProcessing ? (
+                <VariantGrid
+                  variants={variants}
+                  currentId={imgState.history.currentId}
+                  onSelect={(id) => {
+                    updateHistory(h => jumpTo(h, id));
+                    setShowVariants(false);
+                  }}
+                  onToggleStar={(id) => updateHistory(h => toggleStar(h, id))}
+                  onMix={handleMixVariants}
+                  onClose={() => setShowVariants(false)}
+                />
+              ) : !currentVersion || !beforeUrl ? (
                 /* Empty State / Upload */
                 <div 
                   className="text-center p-12 border-2 border-dashed border-gray-700 rounded-3xl hover:border-purple-500 hover:bg-purple-900/10 transition-all cursor-pointer group max-w-lg w-full"
@@ -568,14 +1101,27 @@ const App: React.FC = () => {
                   <div className="w-20 h-20 bg-gray-800 text-purple-400 rounded-full flex items-center justify-center mx-auto mb-6 group-hover:scale-110 transition-transform">
                     <Upload className="w-10 h-10" />
                   </div>
-                  <h3 className="text-xl font-bold text-gray-200 mb-2">Drop your photo here</h3>
-                  <p className="text-gray-400 mb-6">or click to browse your files</p>
-                  <p className="text-xs text-gray-500">Supports JPG, PNG, WEBP (Max 10MB)</p>
+                  <h3 className="text-xl font-bold text-gray-200 mb-2">{m.workspace.drop}</h3>
+                  <p className="text-gray-400 mb-6">{m.workspace.browse}</p>
+                  <p className="text-xs text-gray-500">{m.workspace.formats}</p>
+                  <label
+                    className="mt-4 inline-flex items-center text-xs text-gray-400 cursor-pointer"
+                    onClick={(e) => e.stopPropagation()}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={metadataPolicy === MetadataPolicy.KEEP}
+                      onChange={(e) => setMetadataPolicy(e.target.checked ? MetadataPolicy.KEEP : MetadataPolicy.STRIP)}
+                      className="w-4 h-4 mr-2 rounded border-gray-600 text-purple-600 focus:ring-purple-500 bg-gray-800"
+                    />
+                    {m.workspace.keepMetadata}
+                  </label>
                   <input 
                     type="file" 
                     ref={fileInputRef} 
                     className="hidden" 
-                    accept="image/*" 
+                    accept="image/*,.heic,.heif,.tif,.tiff" 
+                    multiple
                     onChange={handleFileChange}
                   />
                 </div>
@@ -584,109 +1130,165 @@ const App: React.FC = () => {
                 <div className="w-full h-full flex flex-col md:flex-row gap-4 items-center justify-center relative">
                   
                   {/* Image Container */}
-                  <div className="relative max-h-[500px] w-full flex justify-center">
-                    <img 
-                      src={imgState.processedUrl || imgState.originalUrl} 
-                      alt="Workspace" 
-                      className="max-h-[500px] max-w-full object-contain rounded-lg shadow-2xl"
-                    />
-                    
-                    {/* Status Overlays */}
-                    {imgState.isProcessing && (
-                      <div className="absolute inset-0 bg-black/70 backdrop-blur-sm z-10 flex flex-col items-center justify-center rounded-lg">
-                        <div className="w-12 h-12 border-4 border-gray-700 border-t-purple-500 rounded-full animate-spin mb-4"></div>
-                        <p className="text-purple-300 font-semibold animate-pulse">Processing with Gemini 3 Pro...</p>
-                        <p className="text-gray-400 text-sm mt-1">
-                           {getProcessingText()}
-                        </p>
-                      </div>
-                    )}
-                    
-                    {imgState.processedUrl && !imgState.isProcessing && (
-                      <div className="absolute top-4 right-4 bg-green-600 text-white text-xs font-bold px-3 py-1 rounded-full shadow-lg flex items-center border border-green-500">
-                        <Sparkles className="w-3 h-3 mr-1" /> 
-                        {activeTab === AppTab.ID_PHOTO ? 'ID CREATED' : activeTab === AppTab.RESTORE ? 'RESTORED' : 'ENHANCED'}
+                  {resultUrl && !imgState.isProcessing ? (
+                    <CompareViewer originalUrl={beforeUrl} processedUrl={resultUrl}>
+                      <div className="absolute top-4 right-4 flex flex-col items-end gap-2">
+                        <div className="bg-green-600 text-white text-xs font-bold px-3 py-1 rounded-full shadow-lg flex items-center border border-green-500 pointer-events-none">
+                          <Sparkles className="w-3 h-3 mr-1" /> 
+                          {currentVersion?.adjustments ? m.workspace.adjusted : m.workspace.badge[activeTab]}
+                        </div>
+                        <QualityMetricsBadge metrics={currentVersion?.metrics ?? null} />
                       </div>
-                    )}
-                  </div>
-                  
-                  {/* Compare Hint - Only if we have processed image */}
-                  {imgState.processedUrl && (
-                     <div className="absolute bottom-4 left-1/2 -translate-x-1/2 bg-black/80 text-white px-4 py-2 rounded-full text-sm backdrop-blur-md border border-gray-700">
-                        <ArrowLeftRight className="inline w-4 h-4 mr-2"/>
-                        Result View
-                     </div>
+                    </CompareViewer>
+                  ) : (
+                    <div className="relative max-h-[500px] w-full flex justify-center">
+                      <img 
+                        src={sourceUrl!} 
+                        alt={m.workspace.imageAlt} 
+                        className="max-h-[500px] max-w-full object-contain rounded-lg shadow-2xl"
+                      />
+                      
+                      {/* Status Overlays */}
+                      {imgState.isProcessing && (
+                        <div className="absolute inset-0 bg-black/70 backdrop-blur-sm z-10 flex flex-col items-center justify-center rounded-lg">
+                          <div className="w-12 h-12 border-4 border-gray-700 border-t-purple-500 rounded-full animate-spin mb-4"></div>
+                          <p className="text-purple-300 font-semibold animate-pulse">{m.process.title}</p>
+                          <p className="text-gray-400 text-sm mt-1">
+                             {getProcessingText()}
+                          </p>
+                          {tileProgress && (
+                            <div className="w-48 mt-3">
+                              <div className="h-1.5 bg-gray-800 rounded-full overflow-hidden">
+                                <div className="h-full bg-purple-500 transition-all" style={{ width: `${(tileProgress.done / tileProgress.total) * 100}%` }} />
+                              </div>
+                              <p className="text-gray-400 text-xs mt-1 text-center">{m.process.tile(Math.min(tileProgress.done + 1, tileProgress.total), tileProgress.total)}</p>
+                            </div>
+                          )}
+                          {variantProgress && (
+                            <p className="text-gray-400 text-xs mt-2">{m.process.variant(variantProgress.done + 1, variantProgress.total)}</p>
+                          )}
+                          {retryNotice && (
+                            <p className="text-amber-300 text-xs mt-2">{retryNotice}</p>
+                          )}
+                          <button
+                            onClick={handleCancel}
+                            className="mt-4 px-4 py-2 rounded-lg border border-gray-600 text-gray-300 text-sm hover:bg-gray-800 flex items-center"
+                          >
+                            <X className="w-4 h-4 mr-1" /> {m.common.cancel}
+                          </button>
+                        </div>
+                      )}
+                    </div>
                   )}
                 </div>
               )}
             </div>
 
             {/* Footer Action Bar */}
-            <div className="p-4 border-t border-gray-800 bg-gray-900">
-              {imgState.error && (
-                <div className="mb-4 p-3 bg-red-900/30 text-red-300 rounded-lg flex items-center text-sm border border-red-800">
-                  <AlertCircle className="w-4 h-4 mr-2 flex-shrink-0" />
-                  {imgState.error}
-                </div>
-              )}
+            {batchItems.length === 0 && (
+              <div className="p-4 border-t border-gray-800 bg-gray-900">
+                {imgState.error && <ErrorNotice error={imgState.error} />}
+                {budgetCheck?.message && !imgState.isProcessing && (
+                  <p className={`text-xs mb-3 text-right ${budgetCheck.blocked ? 'text-red-400' : 'text-amber-400'}`}>
+                    {budgetCheck.message}{budgetCheck.blocked ? ` ${m.process.raiseCap}` : ''}
+                  </p>
+                )}
               
-              <div className="flex flex-col md:flex-row gap-4 justify-end">
-                 {imgState.processedUrl ? (
-                   <>
-                    <button 
-                      onClick={() => setImgState(prev => ({...prev, processedUrl: null}))}
-                      className="px-6 py-3 rounded-xl border border-gray-600 font-bold text-gray-300 hover:bg-gray-800 flex items-center justify-center"
-                    >
-                      <RefreshCw className="w-5 h-5 mr-2" />
-                      Try Again
-                    </button>
-                    <button 
-                      onClick={handleDownload}
-                      className="px-6 py-3 rounded-xl bg-green-700 text-white font-bold shadow-lg shadow-green-900/50 hover:bg-green-600 transition-all flex items-center justify-center"
-                    >
-                      <Download className="w-5 h-5 mr-2" />
-                      Download Result
-                    </button>
-                   </>
-                 ) : (
+                <div className="flex flex-col md:flex-row gap-4 justify-end md:items-center">
+                   {supportsVariants && currentVersion && !imgState.isProcessing && (
+                     <div className="flex items-center justify-center gap-1 text-xs text-gray-500" title={m.process.variantCountHint}>
+                       {m.process.variantCount}
+                       <div className="flex bg-gray-800 p-0.5 rounded-lg">
+                         {Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1).map(n => (
+                           <button
+                             key={n}
+                             onClick={() => setVariantCount(n)}
+                             className={`w-6 py-0.5 rounded-md ${variantCount === n ? 'bg-gray-600 text-white' : 'text-gray-400 hover:text-gray-200'}`}
+                           >
+                             {n}
+                           </button>
+                         ))}
+                       </div>
+                     </div>
+                   )}
+                   {costEstimate !== null && currentVersion && !imgState.isProcessing && (
+                     <span className="text-xs text-gray-500 text-center" title={m.process.costHint}>
+                       ≈ {formatUsd(costEstimate)}
+                     </span>
+                   )}
+                   {resultUrl && !imgState.isProcessing && (
+                     <>
+                      <button 
+                        onClick={() => updateHistory(undo)}
+                        title={m.process.tryAgainHint}
+                        className="px-6 py-3 rounded-xl border border-gray-600 font-bold text-gray-300 hover:bg-gray-800 flex items-center justify-center"
+                      >
+                        <RefreshCw className="w-5 h-5 mr-2" />
+                        {m.process.tryAgain}
+                      </button>
+                      <button 
+                        onClick={() => setShowExport(true)}
+                        className="px-6 py-3 rounded-xl bg-green-700 text-white font-bold shadow-lg shadow-green-900/50 hover:bg-green-600 transition-all flex items-center justify-center"
+                      >
+                        <Download className="w-5 h-5 mr-2" />
+                        {m.process.download}
+                      </button>
+                     </>
+                   )}
+                   {resumableJob && resumableJob.parentId === currentVersion?.id && !imgState.isProcessing && countDoneTiles(resumableJob.job) > 0 && (
+                     <button 
+                       onClick={() => handleProcess(true)}
+                       title={m.process.resumeHint}
+                       className="px-6 py-3 rounded-xl border border-purple-700 font-bold text-purple-300 hover:bg-purple-900/20 flex items-center justify-center"
+                     >
+                       <RefreshCw className="w-5 h-5 mr-2" />
+                       {m.process.resume(countDoneTiles(resumableJob.job), resumableJob.job.plan.tiles.length)}
+                     </button>
+                   )}
                    <button 
-                    onClick={handleProcess}
-                    disabled={!imgState.originalUrl || imgState.isProcessing}
+                    onClick={() => handleProcess()}
+                    disabled={!currentVersion || imgState.isProcessing || !!budgetCheck?.blocked}
                     className={`
                       w-full md:w-auto px-8 py-4 rounded-xl font-bold text-lg shadow-xl flex items-center justify-center transition-all
-                      ${!imgState.originalUrl || imgState.isProcessing
+                      ${!currentVersion || imgState.isProcessing || budgetCheck?.blocked
                         ? 'bg-gray-800 text-gray-600 cursor-not-allowed'
                         : 'bg-gradient-to-r from-[#7c4dff] to-[#651fff] text-white hover:scale-105 hover:shadow-purple-900/50'
                       }
                     `}
                   >
                     {imgState.isProcessing ? (
-                      'Processing...'
+                      m.process.processing
                     ) : (
                       <>
                         {activeTab === AppTab.ID_PHOTO ? <UserSquare2 className="w-5 h-5 mr-2"/> : 
                          activeTab === AppTab.RESTORE ? <History className="w-5 h-5 mr-2"/> :
                          <Sparkles className="w-5 h-5 mr-2" />}
                         
-                        {activeTab === AppTab.ID_PHOTO ? 'Generate ID Photo' : 
-                         activeTab === AppTab.RESTORE ? 'Restore (Gemini 3 Pro)' :
-                         'Enhance Photo'}
+                        {resultUrl ? m.process.fromResult[activeTab] : m.process.start[activeTab]}
                       </>
                     )}
                   </button>
-                 )}
+                </div>
               </div>
-            </div>
+            )}
           </div>
 
+          {/* Version History */}
+          {imgState.history && batchItems.length === 0 && (
+            <HistoryTimeline
+              history={imgState.history}
+              disabled={imgState.isProcessing}
+              onUndo={() => updateHistory(undo)}
+              onRedo={() => updateHistory(redo)}
+              onSelect={(id) => updateHistory(h => jumpTo(h, id))}
+              onApplySettings={applyOperationSettings}
+            />
+          )}
+
           {/* Quick Tips */}
           {activeTab === AppTab.ENHANCE && (
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              {[
-                { title: "Smart Upscaling", desc: "Up to 800% zoom without quality loss" },
-                { title: "Face Recovery", desc: "Restores blurry faces with AI precision" },
-                { title: "Auto Color", desc: "Balances lighting and corrects tone" }
-              ].map((tip, i) => (
+              {m.enhance.tips.map((tip, i) => (
                 <div key={i} className="bg-gray-900 p-4 rounded-xl shadow-sm border border-gray-800">
                   <div className="flex items-center space-x-2 mb-1">
                     <div className="w-2 h-2 bg-purple-500 rounded-full" />
@@ -700,11 +1302,7 @@ const App: React.FC = () => {
 
           {activeTab === AppTab.ID_PHOTO && (
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              {[
-                { title: "Auto Background", desc: "Removes clutter, adds solid color" },
-                { title: "Pro Retouch", desc: "Removes acne & smooths skin" },
-                { title: "Standard Sizes", desc: "Ready for ID cards & Passports" }
-              ].map((tip, i) => (
+              {m.idPhoto.tips.map((tip, i) => (
                 <div key={i} className="bg-gray-900 p-4 rounded-xl shadow-sm border border-gray-800">
                   <div className="flex items-center space-x-2 mb-1">
                     <div className="w-2 h-2 bg-blue-500 rounded-full" />
@@ -718,11 +1316,7 @@ const App: React.FC = () => {
 
           {activeTab === AppTab.RESTORE && (
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              {[
-                { title: "Gemini 3 Pro", desc: "Using latest Vision model" },
-                { title: "Smart Colorize", desc: "Brings B&W photos to life" },
-                { title: "Authentic Restore", desc: "Keeps original facial features" }
-              ].map((tip, i) => (
+              {m.restore.tips.map((tip, i) => (
                 <div key={i} className="bg-gray-900 p-4 rounded-xl shadow-sm border border-gray-800">
                   <div className="flex items-center space-x-2 mb-1">
                     <div className="w-2 h-2 bg-amber-500 rounded-full" />
@@ -0,0 +1,43 @@
+// Wrong or missing command-line input; printed with a pointer to --help
+export class UsageError extends Error {}
+
+export interface ParsedArgs {
+  positionals: string[];
+  flags: Record<string, string | boolean>;
+}
+
+const parseBoolean = (name: string, value: string): boolean => {
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  throw new UsageError(`--${name} must be true or false`);
+};
+
+// `--name value` and `--name=value`; boolean flags take `--name`, `--no-name` or `--name=false`.
+// Anything that does not start with `--` is positional.
+export const parseArgs = (argv: string[], booleanFlags: ReadonlySet<string>): ParsedArgs => {
+  const positionals: string[] = [];
+  const flags: Record<string, string | boolean> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      positionals.push(arg);
+      continue;
+    }
+    const separator = arg.indexOf('=');
+    const name = separator === -1 ? arg.slice(2) : arg.slice(2, separator);
+    const inline = separator === -1 ? undefined : arg.slice(separator + 1);
+
+    if (booleanFlags.has(name)) {
+      flags[name] = inline === undefined ? true : parseBoolean(name, inline);
+    } else if (name.startsWith('no-') && booleanFlags.has(name.slice(3)) && inline === undefined) {
+      flags[name.slice(3)] = false;
+    } else {
+      const value = inline ?? argv[++i];
+      if (value === undefined) throw new UsageError(`--${name} needs a value`);
+      flags[name] = value;
+    }
+  }
+
+  return { positionals, flags };
+};
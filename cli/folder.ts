@@ -0,0 +1,98 @@
+import { readdir } from 'node:fs/promises';
+import { dirname, extname, isAbsolute, join, relative, sep } from 'node:path';
+import { AppTab } from '../types';
+import { stripExtension } from '../utils/file';
+
+// Inputs the app accepts; TIFF, BMP and GIF are converted before upload. Other files in the folder are ignored.
+export const INPUT_MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.heic': 'image/heic',
+  '.heif': 'image/heif',
+  '.tif': 'image/tiff',
+  '.tiff': 'image/tiff',
+  '.bmp': 'image/bmp',
+  '.gif': 'image/gif'
+};
+
+export const DEFAULT_NAME_TEMPLATE = '{name}_{tab}';
+
+const toPosix = (path: string) => path.split(sep).join('/');
+
+const isInside = (path: string, folder: string) => {
+  const rel = relative(folder, path);
+  return !rel.startsWith('..') && !isAbsolute(rel);
+};
+
+// Images under `root`, as sorted paths relative to it. A folder to leave out (the
+// output folder when it sits inside the input) keeps results from being picked up again.
+export const findImages = async (root: string, exclude?: string): Promise<string[]> => {
+  const entries = await readdir(root, { recursive: true, withFileTypes: true });
+  return entries
+    .filter(entry => entry.isFile() && extname(entry.name).toLowerCase() in INPUT_MIME_TYPES)
+    .map(entry => join(entry.parentPath, entry.name))
+    .filter(path => !exclude || !isInside(path, exclude))
+    .map(path => toPosix(relative(root, path)))
+    .sort();
+};
+
+const localDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const renderWithDate = (template: string, input: string, tab: AppTab, date: string): string => {
+  const name = stripExtension(input.split('/').pop()!);
+  const rendered = template
+    .replaceAll('{name}', name)
+    .replaceAll('{tab}', tab)
+    .replaceAll('{date}', date);
+  const folder = dirname(input);
+  return folder === '.' ? rendered : `${folder}/${rendered}`;
+};
+
+// Output path for an input, relative to the output folder and without extension (that
+// depends on the format the model returns). Subfolders of the input are kept.
+// Tokens: {name} input file name, {tab} operation, {date} run date.
+export const renderOutputBase = (template: string, input: string, tab: AppTab, date: Date): string =>
+  renderWithDate(template, input, tab, localDate(date));
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Stands in for the date while a name is turned into a pattern; cannot occur in a path
+const DATE_SLOT = '\0';
+
+// Earlier result of an input among findExistingOutputs. {date} matches any date, so a
+// rerun on another day finds the results of the first run instead of paying for them again.
+export const findExistingOutput = (
+  existing: Map<string, string>,
+  template: string,
+  input: string,
+  tab: AppTab
+): string | undefined => {
+  if (!template.includes('{date}')) return existing.get(renderWithDate(template, input, tab, ''));
+  const pattern = new RegExp(`^${renderWithDate(template, input, tab, DATE_SLOT).split(DATE_SLOT).map(escapeRegExp).join('\\d{4}-\\d{2}-\\d{2}')}$`);
+  for (const [base, path] of existing) {
+    if (pattern.test(base)) return path;
+  }
+  return undefined;
+};
+
+// Files already in the output folder, by path without extension, so an input counts as
+// processed whatever format its result was saved in. Half-written `.part` files do not count.
+export const findExistingOutputs = async (root: string): Promise<Map<string, string>> => {
+  let entries;
+  try {
+    entries = await readdir(root, { recursive: true, withFileTypes: true });
+  } catch (err: any) {
+    if (err.code === 'ENOENT') return new Map();
+    throw err;
+  }
+  const outputs = new Map<string, string>();
+  for (const entry of entries) {
+    if (!entry.isFile() || entry.name.endsWith('.part')) continue;
+    const path = toPosix(relative(root, join(entry.parentPath, entry.name)));
+    outputs.set(stripExtension(path), path);
+  }
+  return outputs;
+};
@@ -0,0 +1,104 @@
+import { execFile } from 'node:child_process';
+import { mkdir, mkdtemp, readdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { Jimp } from 'jimp';
+import { CliItemStatus, CliReport } from './report';
+
+const ROOT = fileURLToPath(new URL('..', import.meta.url));
+
+// The CLI exits the process, so it runs as a child process like from a shell
+const runCli = (args: string[]) =>
+  new Promise<{ code: number; stdout: string; stderr: string }>(resolve => {
+    execFile(process.execPath, ['--import', 'tsx', 'cli/index.ts', ...args], { cwd: ROOT, timeout: 60_000 }, (error, stdout, stderr) =>
+      resolve({ code: error ? Number(error.code ?? 1) : 0, stdout, stderr }));
+  });
+
+let dir: string;
+let input: string;
+let output: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'cli-test-'));
+  input = join(dir, 'in');
+  output = join(dir, 'out');
+  await mkdir(join(input, 'album'), { recursive: true });
+  const image = new Jimp({ width: 40, height: 30, color: 0x336699ff });
+  await writeFile(join(input, 'a.png'), await image.getBuffer('image/png'));
+  await writeFile(join(input, 'album', 'b.gif'), await image.getBuffer('image/gif'));
+  await writeFile(join(input, 'notes.txt'), 'not an image');
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+const readReport = async (path: string): Promise<CliReport> => JSON.parse(await readFile(path, 'utf8'));
+
+// Each run starts a process and the mock backend takes a moment per image
+describe('cli', { timeout: 30_000 }, () => {
+  it('lists what would be processed on a dry run and sends nothing', async () => {
+    const report = join(dir, 'report.json');
+    const { code, stdout } = await runCli([input, '--out', output, '--dry-run', '--report', report]);
+    expect(code).toBe(0);
+    expect(stdout.trim().split('\n')).toEqual(['a.png -> a_enhance.*', 'album/b.gif -> album/b_enhance.*']);
+    await expect(readdir(output)).rejects.toThrow();
+
+    const json = await readReport(report);
+    expect(json).toMatchObject({ dryRun: true, backend: 'none', operation: { tab: 'enhance' } });
+    expect(json.totals[CliItemStatus.PLANNED]).toBe(2);
+    expect(json.items.map(item => [item.input, item.output, item.status])).toEqual([
+      ['a.png', 'a_enhance', CliItemStatus.PLANNED],
+      ['album/b.gif', 'album/b_enhance', CliItemStatus.PLANNED]
+    ]);
+  });
+
+  it('skips inputs with a result on a rerun, also from another date', async () => {
+    const args = [input, '--out', output, '--backend', 'mock', '--template', '{name}_{date}'];
+    const date = new Date();
+    const today = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+    const first = await runCli(args);
+    expect(first.code).toBe(0);
+    expect((await readdir(output, { recursive: true })).sort()).toEqual([`a_${today}.png`, 'album', `album/b_${today}.png`]);
+
+    // As if the first run had been on another day
+    await rename(join(output, `a_${today}.png`), join(output, 'a_2020-01-02.png'));
+    const report = join(dir, 'report.json');
+    const second = await runCli([...args, '--report', report]);
+    expect(second.code).toBe(0);
+    const json = await readReport(report);
+    expect(json.items.map(item => [item.output, item.status])).toEqual([
+      ['a_2020-01-02.png', CliItemStatus.SKIPPED],
+      [`album/b_${today}.png`, CliItemStatus.SKIPPED]
+    ]);
+
+    const overwrite = await runCli([...args, '--overwrite', '--report', report]);
+    expect(overwrite.code).toBe(0);
+    expect((await readReport(report)).totals[CliItemStatus.DONE]).toBe(2);
+  });
+
+  it('writes a CSV report with failures and exits with 1', async () => {
+    await writeFile(join(input, 'broken.tif'), 'II*\0not really a TIFF');
+    const report = join(dir, 'reports', 'run.csv');
+    const { code } = await runCli([input, '--out', output, '--backend', 'mock', '--report', report]);
+    expect(code).toBe(1);
+
+    const [header, ...rows] = (await readFile(report, 'utf8')).trim().split('\n');
+    expect(header).toBe('input,output,status,durationMs,errorKind,error');
+    expect(rows).toHaveLength(3);
+    expect(rows[0]).toMatch(/^a\.png,a_enhance\.png,done,\d+,,$/);
+    expect(rows[1]).toMatch(/^album\/b\.gif,album\/b_enhance\.png,done,\d+,,$/);
+    expect(rows[2]).toMatch(/^broken\.tif,broken_enhance,failed,\d+,invalid_input,"?Could not decode the image/);
+  });
+
+  it('refuses settings it cannot run with exit code 2', async () => {
+    const spec = await runCli([input, '--out', output, '--tab', 'id_photo', '--specId', 'vn-passport', '--size', '3x4']);
+    expect(spec.code).toBe(2);
+    expect(spec.stderr).toContain('size must be "4x6" for specId "vn-passport"');
+    const tiled = await runCli([input, '--out', output, '--tiledUpscale']);
+    expect(tiled.code).toBe(2);
+    expect(tiled.stderr).toContain('tiledUpscale needs the browser app');
+  });
+});
@@ -0,0 +1,263 @@
+// Headless batch processing: runs one operation over every image in a folder, e.g.
+// overnight without a browser. Run with `npm run cli -- <input-folder> --out <folder>`.
+import { mkdir, readFile, rename, stat, writeFile } from 'node:fs/promises';
+import { dirname, extname, join, resolve } from 'node:path';
+import { AIErrorKind, AppTab, ProviderKind } from '../types';
+import { configureGemini } from '../services/geminiService';
+import { geminiProvider } from '../services/providers/gemini';
+import { createHttpProvider, createMockProvider, ImageProvider } from '../services/providers';
+import { classifyError, DEFAULT_RETRY_OPTIONS } from '../services/errors';
+import { runHeadlessOperation } from '../services/headlessProcessing';
+import { runQueue } from '../services/batchQueue';
+import { FieldSpec, SETTINGS_SCHEMAS } from '../services/settingsValidation';
+import { dataUrlToBytes, extensionForDataUrl } from '../utils/file';
+import { parseArgs, UsageError } from './args';
+import { isAppTab, loadPreset, resolveOperation, SETTING_FLAGS } from './settings';
+import { DEFAULT_NAME_TEMPLATE, findExistingOutput, findExistingOutputs, findImages, INPUT_MIME_TYPES, renderOutputBase } from './folder';
+import { CliItemStatus, CliReport, CliReportItem, countStatuses, writeReport } from './report';
+
+const DEFAULT_CONCURRENCY = 2;
+
+// Options of the CLI itself; everything else must be a setting flag
+const CLI_FLAGS: Record<string, 'string' | 'boolean'> = {
+  out: 'string',
+  tab: 'string',
+  preset: 'string',
+  'preset-name': 'string',
+  template: 'string',
+  backend: 'string',
+  url: 'string',
+  concurrency: 'string',
+  retries: 'string',
+  report: 'string',
+  'dry-run': 'boolean',
+  overwrite: 'boolean',
+  help: 'boolean'
+};
+
+const BOOLEAN_FLAGS = new Set([
+  ...Object.keys(CLI_FLAGS).filter(name => CLI_FLAGS[name] === 'boolean'),
+  ...Object.keys(SETTING_FLAGS).filter(name => SETTING_FLAGS[name].kind === 'boolean')
+]);
+
+const describeField = (spec: FieldSpec): string => {
+  switch (spec.kind) {
+    case 'enum': return spec.values.map(value => value || '""').join('|');
+    case 'number': return `${spec.min}-${spec.max}`;
+    case 'boolean': return '(or --no-…)';
+    case 'string': return `<${spec.description}>`;
+  }
+};
+
+const helpText = () => `Usage: npm run cli -- <input-folder> --out <output-folder> [options]
+
+Processes every JPEG, PNG, WebP, HEIC, TIFF, BMP and GIF image under the input folder,
+subfolders included, and writes the results to the output folder with the same subfolders.
+Images are downscaled to what the model takes, as in the app.
+Inputs that already have a result are skipped, so an interrupted run can be restarted;
+{date} in the template matches a result of any date.
+
+Options:
+  --tab <operation>              ${Object.values(AppTab).join(', ')} (default: the preset's, else enhance)
+  --preset <file|builtin:id>     Preset file exported from the app, or a built-in preset
+  --preset-name <name>           Preset to use from a file with several
+  --template <pattern>           Output name; {name} {tab} {date} (default ${DEFAULT_NAME_TEMPLATE})
+  --backend ${Object.values(ProviderKind).join('|')}     gemini needs GEMINI_API_KEY; mock returns inputs unchanged
+  --url <url>                    Server for --backend http, e.g. the proxy at http://127.0.0.1:8787
+  --concurrency <n>              Images processed at once (default ${DEFAULT_CONCURRENCY})
+  --retries <n>                  Retries of transient failures per image (default ${DEFAULT_RETRY_OPTIONS.retries})
+  --report <file.json|file.csv>  Write a report of every input
+  --dry-run                      List what would be processed; no requests are made
+  --overwrite                    Process inputs that already have a result again
+  --help
+
+Settings (on top of the preset or the factory settings):
+${Object.values(AppTab).map(tab => `  ${tab}:\n${Object.entries(SETTINGS_SCHEMAS[tab])
+  .map(([name, spec]) => `    --${name} ${describeField(spec)}`)
+  .join('\n')}`).join('\n')}
+`;
+
+const stringFlag = (flags: Record<string, string | boolean>, name: string): string | undefined =>
+  typeof flags[name] === 'string' ? flags[name] as string : undefined;
+
+const integerFlag = (flags: Record<string, string | boolean>, name: string, min: number, max: number, fallback: number): number => {
+  const raw = stringFlag(flags, name);
+  if (raw === undefined) return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new UsageError(`--${name} must be a whole number between ${min} and ${max}`);
+  }
+  return value;
+};
+
+const createBackend = (kind: string, url?: string): ImageProvider => {
+  switch (kind) {
+    case ProviderKind.MOCK: return createMockProvider();
+    case ProviderKind.HTTP:
+      if (!url) throw new UsageError('--backend http needs --url');
+      return createHttpProvider(url);
+    case ProviderKind.GEMINI: {
+      try {
+        process.loadEnvFile('.env.local');
+      } catch {
+        // No env file; use the process environment only
+      }
+      if (!process.env.GEMINI_API_KEY) {
+        throw new UsageError('GEMINI_API_KEY is not set. Add it to .env.local or the environment, or use --backend mock.');
+      }
+      configureGemini({ apiKey: process.env.GEMINI_API_KEY, baseUrl: process.env.GEMINI_BASE_URL || undefined });
+      return geminiProvider;
+    }
+    default:
+      throw new UsageError(`--backend must be one of: ${Object.values(ProviderKind).join(', ')}`);
+  }
+};
+
+const parseTab = (value: string | undefined): AppTab | undefined => {
+  if (value === undefined) return undefined;
+  if (isAppTab(value)) return value;
+  throw new UsageError(`--tab must be one of: ${Object.values(AppTab).join(', ')}`);
+};
+
+const isDirectory = async (path: string) => {
+  try {
+    return (await stat(path)).isDirectory();
+  } catch {
+    return false;
+  }
+};
+
+const seconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+const main = async (): Promise<number> => {
+  const { positionals, flags } = parseArgs(process.argv.slice(2), BOOLEAN_FLAGS);
+  if (flags.help) {
+    console.log(helpText());
+    return 0;
+  }
+  for (const name of Object.keys(flags)) {
+    if (!(name in CLI_FLAGS) && !(name in SETTING_FLAGS)) throw new UsageError(`Unknown option --${name}`);
+  }
+  if (positionals.length !== 1) throw new UsageError('Give exactly one input folder');
+  const inputDir = resolve(positionals[0]);
+  if (!await isDirectory(inputDir)) throw new UsageError(`${positionals[0]} is not a folder`);
+  const out = stringFlag(flags, 'out');
+  if (!out) throw new UsageError('--out is required');
+  const outputDir = resolve(out);
+
+  const tabFlag = parseTab(stringFlag(flags, 'tab'));
+  const presetSource = stringFlag(flags, 'preset');
+  const preset = presetSource ? await loadPreset(presetSource, tabFlag, stringFlag(flags, 'preset-name')) : null;
+  const tab = tabFlag ?? preset?.operation.tab ?? AppTab.ENHANCE;
+  const operation = resolveOperation(tab, preset, flags);
+
+  const template = stringFlag(flags, 'template') ?? DEFAULT_NAME_TEMPLATE;
+  if (!template.includes('{name}')) throw new UsageError('--template must contain {name}');
+  const concurrency = integerFlag(flags, 'concurrency', 1, 16, DEFAULT_CONCURRENCY);
+  const retries = integerFlag(flags, 'retries', 0, 10, DEFAULT_RETRY_OPTIONS.retries);
+  const backend = stringFlag(flags, 'backend') ?? ProviderKind.GEMINI;
+  const dryRun = flags['dry-run'] === true;
+  const overwrite = flags.overwrite === true;
+  const reportPath = stringFlag(flags, 'report');
+  // Checked before scanning, so a missing key fails at once rather than after a long scan
+  const provider = dryRun ? null : createBackend(backend, stringFlag(flags, 'url'));
+
+  const startedAt = new Date();
+  const inputs = await findImages(inputDir, outputDir);
+  const existing = await findExistingOutputs(outputDir);
+  const claimed = new Map<string, string>();
+  const items: CliReportItem[] = inputs.map(input => {
+    const base = renderOutputBase(template, input, tab, startedAt);
+    const item: CliReportItem = { input, output: base, status: CliItemStatus.PLANNED, durationMs: null, errorKind: null, error: null };
+    const owner = claimed.get(base);
+    if (owner) return { ...item, status: CliItemStatus.FAILED, error: `Same output name as ${owner}; change --template` };
+    claimed.set(base, input);
+    const done = findExistingOutput(existing, template, input, tab);
+    return done && !overwrite ? { ...item, output: done, status: CliItemStatus.SKIPPED } : item;
+  });
+  const pending = items.filter(item => item.status === CliItemStatus.PLANNED);
+  console.error(`${inputs.length} images in ${inputDir}: ${pending.length} to process, ${items.length - pending.length} skipped (${tab}, ${dryRun ? 'dry run' : backend})`);
+
+  const controller = new AbortController();
+  const interrupt = () => {
+    if (controller.signal.aborted) process.exit(130);
+    console.error('Cancelling; the report is still written. Press Ctrl+C again to quit at once.');
+    controller.abort();
+  };
+  process.on('SIGINT', interrupt);
+
+  if (dryRun) {
+    pending.forEach(item => console.log(`${item.input} -> ${item.output}.*`));
+  } else {
+    let finished = 0;
+    await runQueue(pending, async item => {
+      const started = Date.now();
+      try {
+        const bytes = await readFile(join(inputDir, item.input));
+        const image = `data:${INPUT_MIME_TYPES[extname(item.input).toLowerCase()]};base64,${bytes.toString('base64')}`;
+        const result = await runHeadlessOperation(provider!, image, operation, {
+          retries,
+          signal: controller.signal,
+          onRetry: (error, attempt, delayMs) =>
+            console.error(`  ${item.input}: ${error.message} Retry ${attempt} in ${seconds(delayMs)}`)
+        });
+        // Written under a temporary name first, so an interrupted write is not taken for a result
+        const output = `${item.output}.${extensionForDataUrl(result)}`;
+        const target = join(outputDir, output);
+        await mkdir(dirname(target), { recursive: true });
+        await writeFile(`${target}.part`, dataUrlToBytes(result));
+        await rename(`${target}.part`, target);
+        Object.assign(item, { output, status: CliItemStatus.DONE });
+      } catch (err) {
+        const error = classifyError(err);
+        Object.assign(item, {
+          status: error.kind === AIErrorKind.CANCELLED ? CliItemStatus.CANCELLED : CliItemStatus.FAILED,
+          errorKind: error.kind,
+          error: error.message
+        });
+      }
+      item.durationMs = Date.now() - started;
+      finished++;
+      console.error(`[${finished}/${pending.length}] ${item.status} ${item.input}${item.status === CliItemStatus.DONE ? ` -> ${item.output}` : `: ${item.error}`} (${seconds(item.durationMs)})`);
+    }, { concurrency, isCancelled: () => controller.signal.aborted });
+
+    // Never started because the run was interrupted
+    pending.forEach(item => {
+      if (item.status === CliItemStatus.PLANNED) Object.assign(item, { output: null, status: CliItemStatus.CANCELLED });
+    });
+  }
+  process.off('SIGINT', interrupt);
+
+  const totals = countStatuses(items);
+  console.error(Object.entries(totals).filter(([, count]) => count).map(([status, count]) => `${count} ${status}`).join(', ') || 'Nothing to do');
+
+  if (reportPath) {
+    const report: CliReport = {
+      startedAt: startedAt.toISOString(),
+      finishedAt: new Date().toISOString(),
+      inputDir,
+      outputDir,
+      backend: dryRun ? 'none' : backend,
+      dryRun,
+      operation,
+      totals,
+      items
+    };
+    await writeReport(reportPath, report);
+    console.error(`Report written to ${reportPath}`);
+  }
+
+  return totals[CliItemStatus.FAILED] || totals[CliItemStatus.CANCELLED] ? 1 : 0;
+};
+
+main().then(
+  code => process.exit(code),
+  err => {
+    if (err instanceof UsageError) {
+      console.error(`${err.message}\nRun with --help for the options.`);
+      process.exit(2);
+    }
+    console.error(err);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,58 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import { dirname, extname } from 'node:path';
+import { AIErrorKind, OperationSettings } from '../types';
+
+export enum CliItemStatus {
+  DONE = 'done',
+  FAILED = 'failed',
+  SKIPPED = 'skipped', // A result already exists
+  PLANNED = 'planned', // Dry run
+  CANCELLED = 'cancelled' // Interrupted before it finished
+}
+
+export interface CliReportItem {
+  input: string; // Relative to the input folder
+  output: string | null; // Relative to the output folder; without extension when planned
+  status: CliItemStatus;
+  durationMs: number | null;
+  errorKind: AIErrorKind | null;
+  error: string | null;
+}
+
+export interface CliReport {
+  startedAt: string;
+  finishedAt: string;
+  inputDir: string;
+  outputDir: string;
+  backend: string;
+  dryRun: boolean;
+  operation: OperationSettings;
+  totals: Record<CliItemStatus, number>;
+  items: CliReportItem[];
+}
+
+export const countStatuses = (items: CliReportItem[]): Record<CliItemStatus, number> => {
+  const totals = Object.fromEntries(Object.values(CliItemStatus).map(status => [status, 0])) as Record<CliItemStatus, number>;
+  items.forEach(item => totals[item.status]++);
+  return totals;
+};
+
+const CSV_COLUMNS: (keyof CliReportItem)[] = ['input', 'output', 'status', 'durationMs', 'errorKind', 'error'];
+
+const csvField = (value: unknown): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+};
+
+// One row per input file; the run's settings are only in the JSON form
+export const reportToCsv = (report: CliReport): string =>
+  [CSV_COLUMNS, ...report.items.map(item => CSV_COLUMNS.map(column => item[column]))]
+    .map(row => row.map(csvField).join(','))
+    .join('\n') + '\n';
+
+// CSV when the path ends in .csv, JSON otherwise
+export const writeReport = async (path: string, report: CliReport) => {
+  const text = extname(path).toLowerCase() === '.csv' ? reportToCsv(report) : JSON.stringify(report, null, 2) + '\n';
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, text);
+};
@@ -0,0 +1,78 @@
+import { readFile } from 'node:fs/promises';
+import { AppTab, OperationSettings, SettingsPreset } from '../types';
+import { BUILT_IN_PRESETS, FACTORY_SETTINGS, findPreset, importPresets } from '../services/presets';
+import { FieldSpec, SETTINGS_SCHEMAS, validateOperation } from '../services/settingsValidation';
+import { checkHeadlessOperation } from '../services/headlessProcessing';
+import { UsageError } from './args';
+
+// Every setting of every tab is also a flag, e.g. `--retouchLevel 30` or `--no-colorize`
+export const SETTING_FLAGS: Record<string, FieldSpec> = Object.assign({}, ...Object.values(SETTINGS_SCHEMAS));
+
+export const isAppTab = (value: unknown): value is AppTab =>
+  Object.values(AppTab).includes(value as AppTab);
+
+// A built-in preset id (`builtin:vn-passport`) or a file exported from the app's preset bar.
+// Files with several presets need `name` to pick one, unless only one matches `tab`.
+export const loadPreset = async (source: string, tab?: AppTab, name?: string): Promise<SettingsPreset> => {
+  if (source.startsWith('builtin:')) {
+    const preset = findPreset({ presets: [], defaults: {} }, source);
+    if (!preset) {
+      throw new UsageError(`Unknown built-in preset "${source}". Available: ${BUILT_IN_PRESETS.map(p => p.id).join(', ')}`);
+    }
+    return preset;
+  }
+
+  let text: string;
+  try {
+    text = await readFile(source, 'utf8');
+  } catch (err: any) {
+    throw new UsageError(`Cannot read preset file ${source}: ${err.message}`);
+  }
+  let result: ReturnType<typeof importPresets>;
+  try {
+    result = importPresets({ presets: [], defaults: {} }, text);
+  } catch (err: any) {
+    throw new UsageError(`${source}: ${err.message}`);
+  }
+
+  const matches = result.imported.filter(preset =>
+    (!tab || preset.operation.tab === tab) && (!name || preset.name === name.trim())
+  );
+  if (matches.length === 1) return matches[0];
+  if (!matches.length) {
+    const skipped = result.errors.length ? ` Skipped: ${result.errors.join('; ')}` : '';
+    throw new UsageError(`No matching preset in ${source}.${skipped}`);
+  }
+  throw new UsageError(`${source} has several matching presets; pick one with --preset-name: ${matches.map(p => `"${p.name}"`).join(', ')}`);
+};
+
+// Flag values arrive as strings (booleans are parsed already); numbers are converted
+// here and everything is then checked by the same validation as presets and the API
+const toSettingValue = (spec: FieldSpec, raw: string | boolean): unknown =>
+  spec.kind === 'number' && typeof raw === 'string' && raw.trim() !== '' ? Number(raw) : raw;
+
+// Settings for the run: the preset's (or factory settings), then the setting flags on top.
+// A --specId flag sets the spec's size and background first; flags that disagree with it are refused.
+export const resolveOperation = (
+  tab: AppTab,
+  preset: SettingsPreset | null,
+  flags: Record<string, string | boolean>
+): OperationSettings => {
+  if (preset && preset.operation.tab !== tab) {
+    throw new UsageError(`Preset "${preset.name}" is for ${preset.operation.tab}, not ${tab}`);
+  }
+  const schema = SETTINGS_SCHEMAS[tab];
+  const overrides: Record<string, unknown> = {};
+  for (const [name, raw] of Object.entries(flags)) {
+    if (!(name in SETTING_FLAGS)) continue;
+    if (!(name in schema)) throw new UsageError(`--${name} is not a setting of ${tab}`);
+    overrides[name] = toSettingValue(schema[name], raw);
+  }
+
+  const base = preset?.operation.settings ?? FACTORY_SETTINGS[tab];
+  const { value, errors } = validateOperation({ tab, settings: overrides }, { [tab]: base });
+  if (!value) throw new UsageError(`Invalid settings: ${errors.join('; ')}`);
+  const unsupported = checkHeadlessOperation(value);
+  if (unsupported) throw new UsageError(unsupported);
+  return value;
+};
@@ -0,0 +1,397 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Crop, RotateCcw, RotateCw, FlipHorizontal2, Undo2, Check, X, Eye, Loader2 } from 'lucide-react';
+import { CropRect, ImageAdjustments } from '../types';
+import {
+  DEFAULT_ADJUSTMENTS,
+  FULL_CROP,
+  IDENTITY_CURVE,
+  MIN_CROP,
+  Histogram,
+  getFrameSize,
+  getAdjustedSize,
+  cropForAspect,
+  renderAdjustments,
+  applyAdjustments,
+  computeHistogram,
+  isDefaultAdjustments
+} from '../services/adjustments';
+import { loadImage } from '../utils/canvas';
+import { Slider } from './Slider';
+import { CurveEditor } from './CurveEditor';
+import { useI18n } from '../i18n';
+
+// Long edge of the live preview; the full image is only rendered on apply
+const PREVIEW_EDGE = 1024;
+
+// null = free crop; 'original' follows the straightened frame. Those two are labelled from the catalog.
+const CROP_ASPECTS: { label?: string; value: number | 'original' | null }[] = [
+  { value: null },
+  { value: 'original' },
+  { label: '1:1', value: 1 },
+  { label: '4:3', value: 4 / 3 },
+  { label: '3:4', value: 3 / 4 },
+  { label: '3:2', value: 3 / 2 },
+  { label: '16:9', value: 16 / 9 }
+];
+
+type CropHandle = 'move' | 'nw' | 'ne' | 'sw' | 'se';
+
+export interface AdjustmentSource {
+  id: string;
+  label: string;
+}
+
+interface AdjustmentEditorProps {
+  imageUrl: string; // Image the adjustments are applied to
+  initial: ImageAdjustments;
+  sources: AdjustmentSource[]; // Versions the user can switch the editor to
+  sourceId: string;
+  onSourceChange: (id: string) => void;
+  onApply: (adjustments: ImageAdjustments, imageUrl: string) => void;
+  onClose: () => void;
+}
+
+const clamp = (v: number, min: number, max: number) => Math.min(max, Math.max(min, v));
+
+export const AdjustmentEditor: React.FC<AdjustmentEditorProps> = ({
+  imageUrl,
+  initial,
+  sources,
+  sourceId,
+  onSourceChange,
+  onApply,
+  onClose
+}) => {
+  const { m } = useI18n();
+  const [adjustments, setAdjustments] = useState<ImageAdjustments>(initial);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [cropping, setCropping] = useState(false);
+  const [cropAspect, setCropAspect] = useState<number | 'original' | null>(null);
+  const [showBefore, setShowBefore] = useState(false);
+  const [histogram, setHistogram] = useState<Histogram | null>(null);
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ handle: CropHandle; startX: number; startY: number; crop: CropRect } | null>(null);
+
+  useEffect(() => {
+    setAdjustments(initial);
+  }, [initial]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setImage(null);
+    loadImage(imageUrl)
+      .then(img => !cancelled && setImage(img))
+      .catch(() => !cancelled && setError(m.adjust.loadFailed));
+    return () => {
+      cancelled = true;
+    };
+  }, [imageUrl]);
+
+  // Live preview, redrawn at most once per frame while sliders move
+  useEffect(() => {
+    if (!image) return;
+    const frame = requestAnimationFrame(() => {
+      const shown = showBefore ? DEFAULT_ADJUSTMENTS : adjustments;
+      const frameSize = getFrameSize(image.naturalWidth, image.naturalHeight, shown);
+      const scale = Math.min(1, PREVIEW_EDGE / Math.max(frameSize.width, frameSize.height));
+      const { canvas: rendered, ctx } = renderAdjustments(image, image.naturalWidth, image.naturalHeight, shown, {
+        scale,
+        applyCrop: !cropping
+      });
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+      canvas.width = rendered.width;
+      canvas.height = rendered.height;
+      canvas.getContext('2d')!.drawImage(rendered, 0, 0);
+      setHistogram(computeHistogram(ctx.getImageData(0, 0, rendered.width, rendered.height).data));
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [image, adjustments, cropping, showBefore]);
+
+  const update = (patch: Partial<ImageAdjustments>) => setAdjustments(a => ({ ...a, ...patch }));
+
+  // Aspect as width / height of the crop in pixels
+  const resolveAspect = (value: number | 'original' | null, a: ImageAdjustments = adjustments): number | null => {
+    if (value !== 'original') return value;
+    if (!image) return null;
+    const frame = getFrameSize(image.naturalWidth, image.naturalHeight, a);
+    return frame.width / frame.height;
+  };
+
+  const frameAspect = () => {
+    if (!image) return 1;
+    const frame = getFrameSize(image.naturalWidth, image.naturalHeight, adjustments);
+    return frame.width / frame.height;
+  };
+
+  const selectAspect = (value: number | 'original' | null) => {
+    setCropAspect(value);
+    if (!image || value === null) return;
+    const frame = getFrameSize(image.naturalWidth, image.naturalHeight, adjustments);
+    update({ crop: cropForAspect(frame.width, frame.height, resolveAspect(value)) });
+  };
+
+  // Quarter turns change the frame's shape, so the crop starts over
+  const rotate = (turns: number) => {
+    setAdjustments(a => {
+      const next = { ...a, rotation: (a.rotation + turns + 4) % 4, crop: FULL_CROP };
+      if (image && cropAspect) {
+        const frame = getFrameSize(image.naturalWidth, image.naturalHeight, next);
+        next.crop = cropForAspect(frame.width, frame.height, resolveAspect(cropAspect, next));
+      }
+      return next;
+    });
+  };
+
+  const handleCropPointerDown = (handle: CropHandle) => (e: React.PointerEvent) => {
+    e.stopPropagation();
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    dragRef.current = { handle, startX: e.clientX, startY: e.clientY, crop: adjustments.crop };
+  };
+
+  const handleCropPointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const canvas = canvasRef.current;
+    if (!drag || !canvas) return;
+    const rect = canvas.getBoundingClientRect();
+    const dx = (e.clientX - drag.startX) / rect.width;
+    const dy = (e.clientY - drag.startY) / rect.height;
+    const c = drag.crop;
+
+    if (drag.handle === 'move') {
+      update({ crop: { ...c, x: clamp(c.x + dx, 0, 1 - c.width), y: clamp(c.y + dy, 0, 1 - c.height) } });
+      return;
+    }
+
+    // The corner opposite the dragged one stays fixed
+    const west = drag.handle.includes('w');
+    const north = drag.handle.includes('n');
+    const anchorX = west ? c.x + c.width : c.x;
+    const anchorY = north ? c.y + c.height : c.y;
+    const maxWidth = west ? anchorX : 1 - anchorX;
+    const maxHeight = north ? anchorY : 1 - anchorY;
+    let width = clamp(west ? c.width - dx : c.width + dx, MIN_CROP, maxWidth);
+    let height = clamp(north ? c.height - dy : c.height + dy, MIN_CROP, maxHeight);
+    const aspect = resolveAspect(cropAspect);
+    if (aspect) {
+      // Crop sides are fractions of the frame, so the pixel aspect needs the frame's aspect
+      const ratio = frameAspect() / aspect;
+      height = width * ratio;
+      if (height > maxHeight) {
+        height = maxHeight;
+        width = height / ratio;
+      }
+    }
+    update({
+      crop: {
+        x: west ? anchorX - width : anchorX,
+        y: north ? anchorY - height : anchorY,
+        width,
+        height
+      }
+    });
+  };
+
+  const handleCropPointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleApply = async () => {
+    setApplying(true);
+    setError(null);
+    try {
+      onApply(adjustments, await applyAdjustments(imageUrl, adjustments));
+    } catch {
+      setError(m.adjust.applyFailed);
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const outputSize = image ? getAdjustedSize(image.naturalWidth, image.naturalHeight, adjustments) : null;
+  const { crop } = adjustments;
+
+  const cropHandle = (handle: Exclude<CropHandle, 'move'>, className: string) => (
+    <div
+      onPointerDown={handleCropPointerDown(handle)}
+      className={`absolute w-4 h-4 bg-white border-2 border-purple-500 rounded-sm ${className}`}
+    />
+  );
+
+  return (
+    <div className="w-full flex flex-col lg:flex-row gap-4">
+      <div className="flex-1 flex flex-col gap-3 min-w-0">
+        <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+          <select
+            value={sourceId}
+            onChange={(e) => onSourceChange(e.target.value)}
+            disabled={applying}
+            className="bg-gray-800 border border-gray-700 rounded-lg px-3 py-1.5 text-gray-200 focus:outline-none focus:border-purple-500"
+          >
+            {sources.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+          </select>
+          <div className="flex gap-1">
+            <button onClick={() => rotate(-1)} title={m.adjust.rotateLeft} className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-gray-800">
+              <RotateCcw className="w-4 h-4" />
+            </button>
+            <button onClick={() => rotate(1)} title={m.adjust.rotateRight} className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-gray-800">
+              <RotateCw className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => update({ flipHorizontal: !adjustments.flipHorizontal })}
+              title={m.adjust.flip}
+              className={`p-2 rounded-lg hover:bg-gray-800 ${adjustments.flipHorizontal ? 'text-purple-300' : 'text-gray-400 hover:text-white'}`}
+            >
+              <FlipHorizontal2 className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setCropping(v => !v)}
+              title={m.adjust.cropHint}
+              className={`p-2 rounded-lg flex items-center hover:bg-gray-800 ${cropping ? 'text-purple-300 bg-purple-900/20' : 'text-gray-400 hover:text-white'}`}
+            >
+              <Crop className="w-4 h-4 mr-1" /> {m.adjust.crop}
+            </button>
+            <button
+              onPointerDown={() => setShowBefore(true)}
+              onPointerUp={() => setShowBefore(false)}
+              onPointerLeave={() => setShowBefore(false)}
+              title={m.adjust.before}
+              className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-gray-800"
+            >
+              <Eye className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        {cropping && (
+          <div className="flex flex-wrap gap-1 text-xs">
+            {CROP_ASPECTS.map(option => (
+              <button
+                key={String(option.value)}
+                onClick={() => selectAspect(option.value)}
+                className={`px-2 py-1 rounded-md border ${
+                  cropAspect === option.value ? 'bg-purple-600 border-purple-500 text-white' : 'border-gray-700 text-gray-400 hover:border-gray-500'
+                }`}
+              >
+                {option.label ?? (option.value === null ? m.adjust.free : m.adjust.original)}
+              </button>
+            ))}
+            <button onClick={() => update({ crop: FULL_CROP })} className="px-2 py-1 rounded-md text-gray-400 hover:text-white">
+              {m.adjust.resetCrop}
+            </button>
+          </div>
+        )}
+
+        <div className="relative h-[500px] w-full flex items-center justify-center">
+          {!image && !error && <Loader2 className="w-6 h-6 text-gray-500 animate-spin" />}
+          <div className={`relative max-h-full max-w-full ${image ? '' : 'hidden'}`}>
+            <canvas ref={canvasRef} className="block max-h-[500px] max-w-full rounded-lg" />
+            {cropping && !showBefore && (
+              <div
+                className="absolute inset-0 touch-none"
+                onPointerMove={handleCropPointerMove}
+                onPointerUp={handleCropPointerUp}
+                onPointerCancel={handleCropPointerUp}
+              >
+                <div
+                  onPointerDown={handleCropPointerDown('move')}
+                  className="absolute border-2 border-white cursor-move shadow-[0_0_0_9999px_rgba(0,0,0,0.55)]"
+                  style={{
+                    left: `${crop.x * 100}%`,
+                    top: `${crop.y * 100}%`,
+                    width: `${crop.width * 100}%`,
+                    height: `${crop.height * 100}%`
+                  }}
+                >
+                  {cropHandle('nw', '-left-2 -top-2 cursor-nwse-resize')}
+                  {cropHandle('ne', '-right-2 -top-2 cursor-nesw-resize')}
+                  {cropHandle('sw', '-left-2 -bottom-2 cursor-nesw-resize')}
+                  {cropHandle('se', '-right-2 -bottom-2 cursor-nwse-resize')}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+        {outputSize && (
+          <p className="text-xs text-gray-500 font-mono text-center">{m.adjust.output(outputSize.width, outputSize.height)}</p>
+        )}
+      </div>
+
+      <div className="lg:w-72 flex-shrink-0 space-y-1">
+        <Slider label={m.adjust.straighten} value={adjustments.straighten} min={-45} max={45} step={0.5} onChange={(v) => update({ straighten: v })} />
+        <Slider label={m.adjust.exposure} value={adjustments.exposure} min={-2} max={2} step={0.05} onChange={(v) => update({ exposure: v })} />
+        <Slider label={m.adjust.contrast} value={adjustments.contrast} min={-100} max={100} onChange={(v) => update({ contrast: v })} />
+        <Slider label={m.adjust.saturation} value={adjustments.saturation} min={-100} max={100} onChange={(v) => update({ saturation: v })} />
+        <Slider label={m.adjust.temperature} value={adjustments.temperature} min={-100} max={100} onChange={(v) => update({ temperature: v })} />
+        <Slider label={m.adjust.tint} value={adjustments.tint} min={-100} max={100} onChange={(v) => update({ tint: v })} />
+
+        <div className="pt-2">
+          <label className="block text-sm font-semibold text-gray-300 mb-2">{m.adjust.levels}</label>
+          <Slider
+            label={m.adjust.black}
+            value={adjustments.levels.black}
+            min={0}
+            max={adjustments.levels.white - 1}
+            onChange={(v) => update({ levels: { ...adjustments.levels, black: v } })}
+          />
+          <Slider
+            label={m.adjust.gamma}
+            value={adjustments.levels.gamma}
+            min={0.2}
+            max={5}
+            step={0.05}
+            onChange={(v) => update({ levels: { ...adjustments.levels, gamma: v } })}
+          />
+          <Slider
+            label={m.adjust.white}
+            value={adjustments.levels.white}
+            min={adjustments.levels.black + 1}
+            max={255}
+            onChange={(v) => update({ levels: { ...adjustments.levels, white: v } })}
+          />
+        </div>
+
+        <div className="pt-2">
+          <div className="flex items-center justify-between mb-2">
+            <label className="text-sm font-semibold text-gray-300">{m.adjust.curves}</label>
+            <button onClick={() => update({ curve: IDENTITY_CURVE })} className="text-xs text-gray-500 hover:text-white">
+              {m.common.reset}
+            </button>
+          </div>
+          <CurveEditor points={adjustments.curve} histogram={histogram} onChange={(curve) => update({ curve })} />
+          <p className="text-[11px] text-gray-500 mt-1">{m.adjust.curveHint}</p>
+        </div>
+
+        {error && <p className="text-xs text-red-400">{error}</p>}
+
+        <div className="flex gap-2 pt-3">
+          <button
+            onClick={() => setAdjustments(DEFAULT_ADJUSTMENTS)}
+            disabled={applying}
+            title={m.adjust.resetAll}
+            className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-gray-800 disabled:opacity-40"
+          >
+            <Undo2 className="w-4 h-4" />
+          </button>
+          <button
+            onClick={onClose}
+            disabled={applying}
+            className="flex-1 px-3 py-2 rounded-lg border border-gray-600 text-gray-300 hover:bg-gray-800 flex items-center justify-center text-sm disabled:opacity-40"
+          >
+            <X className="w-4 h-4 mr-1" /> {m.common.cancel}
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={applying || !image || isDefaultAdjustments(adjustments)}
+            className="flex-1 px-3 py-2 rounded-lg bg-purple-700 text-white hover:bg-purple-600 flex items-center justify-center text-sm disabled:opacity-40"
+          >
+            {applying ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Check className="w-4 h-4 mr-1" />} {m.common.apply}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,293 @@
+import React, { useState, useRef } from 'react';
+import {
+  Play,
+  Square,
+  RotateCcw,
+  Download,
+  Trash2,
+  Plus,
+  CheckCircle2,
+  XCircle,
+  Loader2,
+  Clock,
+  Ban,
+  Layers
+} from 'lucide-react';
+import { AIErrorKind, BatchItem, BatchItemStatus, OperationSettings } from '../types';
+import { ImageProvider } from '../services/providers';
+import { runOperation, OPERATION_FILE_PREFIX } from '../services/processing';
+import { runQueue } from '../services/batchQueue';
+import { toProcessingError } from '../services/errors';
+import { isBilledProvider, estimateImagesCost, checkBudget } from '../services/usage';
+import { buildZip, uniqueZipName } from '../utils/zip';
+import { dataUrlToBytes, extensionForDataUrl, stripExtension } from '../utils/file';
+import { downloadBlob } from '../utils/download';
+import { Slider } from './Slider';
+import { formatDecimal, formatPercent, useI18n } from '../i18n';
+
+const DEFAULT_CONCURRENCY = 2;
+const MAX_CONCURRENCY = 6;
+
+interface BatchWorkspaceProps {
+  items: BatchItem[];
+  onItemsChange: React.Dispatch<React.SetStateAction<BatchItem[]>>;
+  onAddFiles: (files: File[]) => void;
+  onExit: () => void;
+  provider: ImageProvider;
+  operation: OperationSettings;
+}
+
+const STATUS_BADGE: Record<BatchItemStatus, { className: string; icon: React.ReactNode }> = {
+  [BatchItemStatus.PENDING]: { className: 'text-gray-400 bg-gray-800 border-gray-700', icon: <Clock className="w-3 h-3 mr-1" /> },
+  [BatchItemStatus.PROCESSING]: { className: 'text-purple-300 bg-purple-900/40 border-purple-800', icon: <Loader2 className="w-3 h-3 mr-1 animate-spin" /> },
+  [BatchItemStatus.DONE]: { className: 'text-green-300 bg-green-900/40 border-green-800', icon: <CheckCircle2 className="w-3 h-3 mr-1" /> },
+  [BatchItemStatus.FAILED]: { className: 'text-red-300 bg-red-900/40 border-red-800', icon: <XCircle className="w-3 h-3 mr-1" /> },
+  [BatchItemStatus.CANCELLED]: { className: 'text-amber-300 bg-amber-900/40 border-amber-800', icon: <Ban className="w-3 h-3 mr-1" /> }
+};
+
+export const BatchWorkspace: React.FC<BatchWorkspaceProps> = ({
+  items,
+  onItemsChange,
+  onAddFiles,
+  onExit,
+  provider,
+  operation
+}) => {
+  const { m } = useI18n();
+  const [concurrency, setConcurrency] = useState(DEFAULT_CONCURRENCY);
+  const [isRunning, setIsRunning] = useState(false);
+  const [budgetNotice, setBudgetNotice] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const addInputRef = useRef<HTMLInputElement>(null);
+
+  const updateItem = (id: string, patch: Partial<BatchItem>) => {
+    onItemsChange(prev => prev.map(item => (item.id === id ? { ...item, ...patch } : item)));
+  };
+
+  const run = async (ids: string[]) => {
+    if (ids.length === 0 || isRunning) return;
+    // Snapshot the settings so changing a slider mid-run does not mix results
+    const snapshot = operation;
+    const queued = items.filter(item => ids.includes(item.id));
+
+    // The whole run is checked against the budget up front, not one image at a time
+    setBudgetNotice(null);
+    if (isBilledProvider(provider.kind)) {
+      const budget = checkBudget(await estimateImagesCost(snapshot, queued.map(item => item.originalUrl)));
+      if (budget.blocked) {
+        setBudgetNotice(budget.message);
+        return;
+      }
+      if (budget.exceeds && !window.confirm(m.batch.continueAnyway(budget.message))) return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    onItemsChange(prev => prev.map(item =>
+      ids.includes(item.id)
+        ? { ...item, status: BatchItemStatus.PENDING, error: null, processedUrl: null, processedTab: null, durationMs: null }
+        : item
+    ));
+
+    await runQueue(queued, async (item: BatchItem) => {
+      const startedAt = performance.now();
+      updateItem(item.id, { status: BatchItemStatus.PROCESSING });
+      try {
+        const result = await runOperation(provider, item.originalUrl, snapshot, { signal: controller.signal });
+        updateItem(item.id, {
+          status: BatchItemStatus.DONE,
+          processedUrl: result,
+          processedTab: snapshot.tab,
+          durationMs: Math.round(performance.now() - startedAt)
+        });
+      } catch (err: any) {
+        const error = toProcessingError(err);
+        updateItem(item.id, {
+          status: error.kind === AIErrorKind.CANCELLED ? BatchItemStatus.CANCELLED : BatchItemStatus.FAILED,
+          error: error.kind === AIErrorKind.CANCELLED ? null : error,
+          durationMs: Math.round(performance.now() - startedAt)
+        });
+      }
+    }, { concurrency, isCancelled: () => controller.signal.aborted });
+
+    abortRef.current = null;
+    if (controller.signal.aborted) {
+      onItemsChange(prev => prev.map(item =>
+        item.status === BatchItemStatus.PENDING ? { ...item, status: BatchItemStatus.CANCELLED } : item
+      ));
+    }
+    setIsRunning(false);
+  };
+
+  // Stops queued items and aborts the ones in flight
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
+  // Named after the operation each result was made with, not the tab open now
+  const handleDownloadZip = () => {
+    const taken = new Set<string>();
+    const finishedItems = items.filter(item => item.status === BatchItemStatus.DONE && item.processedUrl && item.processedTab);
+    const entries = finishedItems.map(item => ({
+      name: uniqueZipName(
+        `${stripExtension(item.fileName)}_${OPERATION_FILE_PREFIX[item.processedTab!]}.${extensionForDataUrl(item.processedUrl!)}`,
+        taken
+      ),
+      data: dataUrlToBytes(item.processedUrl!)
+    }));
+    const tabs = new Set(finishedItems.map(item => item.processedTab!));
+    const label = tabs.size === 1 ? OPERATION_FILE_PREFIX[finishedItems[0].processedTab!] : 'Mixed';
+    downloadBlob(buildZip(entries), `LongRau_Batch_${label}_${Date.now()}.zip`);
+  };
+
+  const countBy = (status: BatchItemStatus) => items.filter(item => item.status === status).length;
+  const done = countBy(BatchItemStatus.DONE);
+  const failed = countBy(BatchItemStatus.FAILED);
+  const finished = done + failed;
+  const progress = items.length ? finished / items.length : 0;
+  const runnable = items
+    .filter(item => item.status === BatchItemStatus.PENDING || item.status === BatchItemStatus.CANCELLED)
+    .map(item => item.id);
+  const failedIds = items.filter(item => item.status === BatchItemStatus.FAILED).map(item => item.id);
+
+  return (
+    <div className="w-full h-full flex flex-col gap-4">
+      {/* Queue Controls */}
+      <div className="flex flex-col md:flex-row md:items-end gap-4">
+        <div className="flex-1">
+          <Slider
+            label={m.batch.concurrency}
+            value={concurrency}
+            min={1}
+            max={MAX_CONCURRENCY}
+            onChange={setConcurrency}
+            disabled={isRunning}
+          />
+        </div>
+        <div className="flex flex-wrap gap-2 mb-4">
+          {isRunning ? (
+            <button
+              onClick={handleCancel}
+              className="px-4 py-2 rounded-xl border border-red-700 text-red-300 font-semibold hover:bg-red-900/20 flex items-center"
+            >
+              <Square className="w-4 h-4 mr-2" /> {m.common.cancel}
+            </button>
+          ) : (
+            <button
+              onClick={() => run(runnable)}
+              disabled={runnable.length === 0}
+              className={`px-4 py-2 rounded-xl font-semibold flex items-center ${
+                runnable.length === 0
+                  ? 'bg-gray-800 text-gray-600 cursor-not-allowed'
+                  : 'bg-gradient-to-r from-[#7c4dff] to-[#651fff] text-white'
+              }`}
+            >
+              <Play className="w-4 h-4 mr-2" /> {m.batch.start(runnable.length)}
+            </button>
+          )}
+          <button
+            onClick={() => run(failedIds)}
+            disabled={isRunning || failedIds.length === 0}
+            className="px-4 py-2 rounded-xl border border-gray-600 text-gray-300 font-semibold hover:bg-gray-800 disabled:opacity-40 disabled:cursor-not-allowed flex items-center"
+          >
+            <RotateCcw className="w-4 h-4 mr-2" /> {m.batch.retryFailed}
+          </button>
+          <button
+            onClick={handleDownloadZip}
+            disabled={done === 0}
+            className="px-4 py-2 rounded-xl bg-green-700 text-white font-semibold hover:bg-green-600 disabled:opacity-40 disabled:cursor-not-allowed flex items-center"
+          >
+            <Download className="w-4 h-4 mr-2" /> {m.batch.downloadZip}
+          </button>
+        </div>
+      </div>
+
+      {budgetNotice && (
+        <p className="text-sm text-red-300 bg-red-900/30 border border-red-800 rounded-lg p-3">{budgetNotice}</p>
+      )}
+
+      {/* Overall Progress */}
+      <div>
+        <div className="flex justify-between text-xs text-gray-400 mb-1">
+          <span>{m.batch.progress(finished, items.length, done, failed)}</span>
+          <span className="font-mono">{formatPercent(progress)}</span>
+        </div>
+        <div className="h-2 bg-gray-800 rounded-full overflow-hidden">
+          <div className="h-full bg-gradient-to-r from-purple-600 to-pink-600 transition-all" style={{ width: `${progress * 100}%` }} />
+        </div>
+      </div>
+
+      {/* Item List */}
+      <div className="flex-1 overflow-y-auto max-h-[420px] space-y-2 pr-1">
+        {items.map(item => {
+          const badge = STATUS_BADGE[item.status];
+          return (
+            <div key={item.id} className="flex items-center gap-3 bg-gray-800/50 border border-gray-800 rounded-xl p-2">
+              <img
+                src={item.processedUrl || item.originalUrl}
+                alt={item.fileName}
+                className="w-14 h-14 object-cover rounded-lg flex-shrink-0"
+              />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-gray-200 truncate">{item.fileName}</p>
+                {item.error ? (
+                  <p className="text-xs text-red-400 truncate" title={item.error.message}>
+                    {m.errors[item.error.kind].title}
+                  </p>
+                ) : item.durationMs !== null ? (
+                  <p className="text-xs text-gray-500">{formatDecimal(item.durationMs / 1000, 1)}s</p>
+                ) : null}
+              </div>
+              <span className={`text-xs px-2 py-1 rounded-md border flex items-center ${badge.className}`}>
+                {badge.icon}{m.batch.status[item.status]}
+              </span>
+              {item.status === BatchItemStatus.FAILED && !isRunning && (
+                <button onClick={() => run([item.id])} className="p-2 text-gray-400 hover:text-white" title={m.common.retry}>
+                  <RotateCcw className="w-4 h-4" />
+                </button>
+              )}
+              {!isRunning && (
+                <button
+                  onClick={() => onItemsChange(prev => prev.filter(i => i.id !== item.id))}
+                  className="p-2 text-gray-500 hover:text-red-400"
+                  title={m.common.remove}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex justify-between">
+        <button
+          onClick={() => addInputRef.current?.click()}
+          disabled={isRunning}
+          className="px-3 py-2 text-sm text-gray-300 hover:bg-gray-800 rounded-lg flex items-center disabled:opacity-40"
+        >
+          <Plus className="w-4 h-4 mr-1" /> {m.batch.addPhotos}
+        </button>
+        <input
+          type="file"
+          ref={addInputRef}
+          className="hidden"
+          accept="image/*,.heic,.heif,.tif,.tiff"
+          multiple
+          onChange={(e) => {
+            onAddFiles(Array.from(e.target.files || []));
+            e.target.value = '';
+          }}
+        />
+        <button
+          onClick={onExit}
+          disabled={isRunning}
+          className="px-3 py-2 text-sm text-red-400 hover:bg-red-900/20 rounded-lg flex items-center disabled:opacity-40"
+        >
+          <Layers className="w-4 h-4 mr-1" /> {m.batch.clearBatch}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,273 @@
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { ArrowLeftRight, Columns2, Eye, ZoomIn, ZoomOut, Maximize, Scan } from 'lucide-react';
+import { useI18n } from '../i18n';
+
+type CompareMode = 'split' | 'hold' | 'side';
+
+interface ViewTransform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+const FIT_TRANSFORM: ViewTransform = { scale: 1, x: 0, y: 0 };
+const MIN_SCALE = 1;
+const MAX_SCALE = 32;
+const ZOOM_STEP = 1.25;
+
+interface CompareViewerProps {
+  originalUrl: string;
+  processedUrl: string;
+  children?: React.ReactNode; // Overlays (status badges) rendered above the viewer
+}
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+const clamp = (v: number, min: number, max: number) => Math.min(max, Math.max(min, v));
+
+// Largest box with the image's aspect ratio that fits inside the pane
+const fitBox = (natural: Size | null, pane: Size): Size => {
+  if (!natural || !pane.width || !pane.height) return pane;
+  const scale = Math.min(pane.width / natural.width, pane.height / natural.height);
+  return { width: natural.width * scale, height: natural.height * scale };
+};
+
+export const CompareViewer: React.FC<CompareViewerProps> = ({ originalUrl, processedUrl, children }) => {
+  const { m } = useI18n();
+  const [mode, setMode] = useState<CompareMode>('split');
+  const [split, setSplit] = useState(50); // Divider position in % of the viewport width
+  const [showOriginal, setShowOriginal] = useState(false);
+  const [view, setView] = useState<ViewTransform>(FIT_TRANSFORM);
+  const [paneSize, setPaneSize] = useState<Size>({ width: 0, height: 0 });
+  const [natural, setNatural] = useState<Size | null>(null);
+
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ kind: 'pan' | 'divider'; startX: number; startY: number; origin: ViewTransform } | null>(null);
+
+  // Reset the view whenever a new result comes in
+  useEffect(() => {
+    setView(FIT_TRANSFORM);
+    setNatural(null);
+  }, [processedUrl]);
+
+  const panes = mode === 'side' ? 2 : 1;
+
+  useEffect(() => {
+    const el = viewportRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setPaneSize({ width: entry.contentRect.width / panes, height: entry.contentRect.height });
+    });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [panes]);
+
+  const box = fitBox(natural, paneSize);
+  const oneToOneScale = natural && box.width ? natural.width / box.width : 1;
+
+  // Keep the image covering the pane so it cannot be dragged out of view
+  const clampView = useCallback((next: ViewTransform): ViewTransform => {
+    const scale = clamp(next.scale, MIN_SCALE, Math.max(MAX_SCALE, oneToOneScale));
+    const maxX = Math.max(0, (box.width * scale - paneSize.width) / 2);
+    const maxY = Math.max(0, (box.height * scale - paneSize.height) / 2);
+    return { scale, x: clamp(next.x, -maxX, maxX), y: clamp(next.y, -maxY, maxY) };
+  }, [box.width, box.height, paneSize.width, paneSize.height, oneToOneScale]);
+
+  // Zoom so that the point under (px, py), relative to the pane center, stays fixed
+  const zoomAt = useCallback((factor: number, px = 0, py = 0) => {
+    setView(v => {
+      const scale = clamp(v.scale * factor, MIN_SCALE, Math.max(MAX_SCALE, oneToOneScale));
+      const ratio = scale / v.scale;
+      return clampView({ scale, x: px - ratio * (px - v.x), y: py - ratio * (py - v.y) });
+    });
+  }, [clampView, oneToOneScale]);
+
+  // React registers wheel listeners as passive, so attach natively to be able to preventDefault
+  useEffect(() => {
+    const el = viewportRef.current;
+    if (!el) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = el.getBoundingClientRect();
+      const paneWidth = rect.width / panes;
+      const localX = (e.clientX - rect.left) % paneWidth;
+      zoomAt(
+        e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP,
+        localX - paneWidth / 2,
+        e.clientY - rect.top - rect.height / 2
+      );
+    };
+    el.addEventListener('wheel', onWheel, { passive: false });
+    return () => el.removeEventListener('wheel', onWheel);
+  }, [zoomAt, panes]);
+
+  const handlePointerDown = (e: React.PointerEvent, kind: 'pan' | 'divider') => {
+    e.stopPropagation();
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    dragRef.current = { kind, startX: e.clientX, startY: e.clientY, origin: view };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const el = viewportRef.current;
+    if (!drag || !el) return;
+    if (drag.kind === 'divider') {
+      const rect = el.getBoundingClientRect();
+      setSplit(clamp(((e.clientX - rect.left) / rect.width) * 100, 0, 100));
+    } else {
+      setView(clampView({
+        scale: drag.origin.scale,
+        x: drag.origin.x + e.clientX - drag.startX,
+        y: drag.origin.y + e.clientY - drag.startY
+      }));
+    }
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const renderLayer = (src: string, onLoad?: (e: React.SyntheticEvent<HTMLImageElement>) => void) => (
+    <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+      <img
+        src={src}
+        alt=""
+        draggable={false}
+        onLoad={onLoad}
+        style={{
+          width: box.width || undefined,
+          height: box.height || undefined,
+          transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})`,
+          imageRendering: view.scale >= oneToOneScale ? 'pixelated' : 'auto'
+        }}
+        className="max-w-none select-none"
+      />
+    </div>
+  );
+
+  const onProcessedLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const img = e.currentTarget;
+    setNatural({ width: img.naturalWidth, height: img.naturalHeight });
+  };
+
+  const zoomPercent = Math.round((view.scale / oneToOneScale) * 100);
+
+  const modeButton = (m: CompareMode, icon: React.ReactNode, label: string) => (
+    <button
+      key={m}
+      onClick={() => setMode(m)}
+      className={`px-3 py-1.5 rounded-lg flex items-center transition-all ${
+        mode === m ? 'bg-gray-700 text-white shadow-sm' : 'text-gray-400 hover:text-gray-200'
+      }`}
+    >
+      {icon}
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="w-full flex flex-col gap-3">
+      <div className="relative">
+        <div
+          ref={viewportRef}
+          className={`relative h-[500px] w-full overflow-hidden rounded-lg bg-black/40 touch-none ${
+            view.scale > 1 ? 'cursor-grab active:cursor-grabbing' : ''
+          } ${mode === 'side' ? 'flex' : ''}`}
+          onPointerDown={(e) => handlePointerDown(e, 'pan')}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onDoubleClick={() => setView(FIT_TRANSFORM)}
+        >
+          {mode === 'split' && (
+            <>
+              {renderLayer(originalUrl)}
+              <div className="absolute inset-0" style={{ clipPath: `inset(0 0 0 ${split}%)` }}>
+                {renderLayer(processedUrl, onProcessedLoad)}
+              </div>
+              <div
+                className="absolute top-0 bottom-0 w-1 -ml-0.5 bg-white/80 cursor-ew-resize z-10"
+                style={{ left: `${split}%` }}
+                onPointerDown={(e) => handlePointerDown(e, 'divider')}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+              >
+                <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-8 h-8 rounded-full bg-white text-gray-900 flex items-center justify-center shadow-lg">
+                  <ArrowLeftRight className="w-4 h-4" />
+                </div>
+              </div>
+              <span className="absolute bottom-3 left-3 bg-black/70 text-gray-200 text-xs px-2 py-1 rounded-md pointer-events-none">{m.common.original}</span>
+              <span className="absolute bottom-3 right-3 bg-black/70 text-gray-200 text-xs px-2 py-1 rounded-md pointer-events-none">{m.common.result}</span>
+            </>
+          )}
+
+          {mode === 'hold' && (
+            <>
+              {renderLayer(showOriginal ? originalUrl : processedUrl, showOriginal ? undefined : onProcessedLoad)}
+              <span className="absolute top-3 left-3 bg-black/70 text-gray-200 text-xs px-2 py-1 rounded-md pointer-events-none">
+                {showOriginal ? m.common.original : m.common.result}
+              </span>
+            </>
+          )}
+
+          {mode === 'side' && (
+            <>
+              <div className="relative flex-1 h-full overflow-hidden border-r border-gray-800">
+                {renderLayer(originalUrl)}
+                <span className="absolute top-3 left-3 bg-black/70 text-gray-200 text-xs px-2 py-1 rounded-md pointer-events-none">{m.common.original}</span>
+              </div>
+              <div className="relative flex-1 h-full overflow-hidden">
+                {renderLayer(processedUrl, onProcessedLoad)}
+                <span className="absolute top-3 left-3 bg-black/70 text-gray-200 text-xs px-2 py-1 rounded-md pointer-events-none">{m.common.result}</span>
+              </div>
+            </>
+          )}
+        </div>
+        {children}
+      </div>
+
+      {/* Viewer Toolbar */}
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+        <div className="flex bg-gray-800 p-1 rounded-xl border border-gray-700">
+          {modeButton('split', <ArrowLeftRight className="w-4 h-4 mr-1" />, m.compare.split)}
+          {modeButton('hold', <Eye className="w-4 h-4 mr-1" />, m.compare.toggle)}
+          {modeButton('side', <Columns2 className="w-4 h-4 mr-1" />, m.compare.side)}
+        </div>
+
+        {mode === 'hold' && (
+          <button
+            onPointerDown={() => setShowOriginal(true)}
+            onPointerUp={() => setShowOriginal(false)}
+            onPointerLeave={() => setShowOriginal(false)}
+            className="px-3 py-1.5 rounded-lg border border-gray-600 text-gray-300 hover:bg-gray-800 select-none"
+          >
+            {m.compare.hold}
+          </button>
+        )}
+
+        <div className="flex items-center gap-1 bg-gray-800 p-1 rounded-xl border border-gray-700">
+          <button onClick={() => zoomAt(1 / ZOOM_STEP)} className="p-1.5 text-gray-400 hover:text-white" title={m.compare.zoomOut}>
+            <ZoomOut className="w-4 h-4" />
+          </button>
+          <span className="w-14 text-center font-mono text-xs text-gray-400">{zoomPercent}%</span>
+          <button onClick={() => zoomAt(ZOOM_STEP)} className="p-1.5 text-gray-400 hover:text-white" title={m.compare.zoomIn}>
+            <ZoomIn className="w-4 h-4" />
+          </button>
+          <button onClick={() => setView(FIT_TRANSFORM)} className="p-1.5 text-gray-400 hover:text-white" title={m.compare.fit}>
+            <Maximize className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => zoomAt(oneToOneScale / view.scale)}
+            className="px-2 py-1 text-xs font-bold text-gray-400 hover:text-white flex items-center"
+            title={m.compare.actualPixels}
+          >
+            <Scan className="w-4 h-4 mr-1" /> 1:1
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,87 @@
+import React, { useState, useEffect } from 'react';
+import { ShieldCheck, CheckCircle2, AlertTriangle, XCircle, Eye, Loader2 } from 'lucide-react';
+import { ComplianceReport, ComplianceStatus, IDPhotoSettings } from '../types';
+import { analyzeIDPhoto } from '../services/idCompliance';
+import { getIDPhotoSpec } from '../services/idPhotoSpecs';
+import { errorText, useI18n } from '../i18n';
+
+interface ComplianceReportPanelProps {
+  imageUrl: string;
+  settings: IDPhotoSettings; // Settings the photo was generated with
+}
+
+const STATUS_ICONS: Record<ComplianceStatus, React.ReactNode> = {
+  [ComplianceStatus.PASS]: <CheckCircle2 className="w-4 h-4 text-green-400" />,
+  [ComplianceStatus.WARN]: <AlertTriangle className="w-4 h-4 text-amber-400" />,
+  [ComplianceStatus.FAIL]: <XCircle className="w-4 h-4 text-red-400" />,
+  [ComplianceStatus.MANUAL]: <Eye className="w-4 h-4 text-gray-400" />
+};
+
+const STATUS_BADGES: Record<ComplianceStatus, string> = {
+  [ComplianceStatus.PASS]: 'bg-green-900/40 text-green-300 border-green-800',
+  [ComplianceStatus.WARN]: 'bg-amber-900/40 text-amber-300 border-amber-800',
+  [ComplianceStatus.FAIL]: 'bg-red-900/40 text-red-300 border-red-800',
+  [ComplianceStatus.MANUAL]: 'bg-gray-800 text-gray-300 border-gray-700'
+};
+
+export const ComplianceReportPanel: React.FC<ComplianceReportPanelProps> = ({ imageUrl, settings }) => {
+  const { locale, m } = useI18n();
+  const [report, setReport] = useState<ComplianceReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const spec = getIDPhotoSpec(settings);
+
+  // The report is worded in the current language, so it is rebuilt when that changes
+  useEffect(() => {
+    let cancelled = false;
+    setReport(null);
+    setError(null);
+    analyzeIDPhoto(imageUrl, settings)
+      .then(result => !cancelled && setReport(result))
+      .catch(err => !cancelled && setError(errorText(err, m.compliance.failed)));
+    return () => {
+      cancelled = true;
+    };
+  }, [imageUrl, settings, locale]);
+
+  return (
+    <div className="bg-gray-900 rounded-2xl shadow-xl p-6 border border-gray-800">
+      <h2 className="text-lg font-bold text-white mb-1 flex items-center justify-between">
+        <span className="flex items-center">
+          <ShieldCheck className="w-5 h-5 mr-2 text-pink-500" />
+          {m.compliance.title}
+        </span>
+        {report && (
+          <span className={`text-[10px] px-2 py-0.5 rounded-full border font-bold ${STATUS_BADGES[report.status]}`}>
+            {m.compliance.status[report.status]}
+          </span>
+        )}
+      </h2>
+      <p className="text-xs text-gray-500 mb-4">
+        {m.idSpecs.countries[spec.country] ?? m.idSpecs.custom} · {m.idSpecs.names[spec.id] ?? m.idSpecs.custom} · {m.enums.size[spec.size]}
+      </p>
+
+      {error && <p className="text-sm text-amber-300">{error}</p>}
+      {!report && !error && (
+        <p className="text-sm text-gray-400 flex items-center">
+          <Loader2 className="w-4 h-4 mr-2 animate-spin" /> {m.compliance.measuring}
+        </p>
+      )}
+      {report && (
+        <ul className="space-y-2">
+          {report.checks.map(check => (
+            <li key={check.id} className="flex items-start text-sm">
+              <span className="mt-0.5 mr-2 flex-shrink-0">{STATUS_ICONS[check.status]}</span>
+              <span>
+                <span className="text-gray-200 font-medium">{check.label}</span>
+                <span className="block text-xs text-gray-500">{check.detail}</span>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+      <p className="text-[10px] text-gray-600 mt-4">
+        {m.compliance.footnote}
+      </p>
+    </div>
+  );
+};
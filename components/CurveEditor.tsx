@@ -0,0 +1,109 @@
+import React, { useRef } from 'react';
+import { CurvePoint } from '../types';
+import { Histogram, buildCurveLut } from '../services/adjustments';
+
+interface CurveEditorProps {
+  points: CurvePoint[];
+  histogram: Histogram | null; // Of the adjusted preview, drawn behind the curve
+  onChange: (points: CurvePoint[]) => void;
+}
+
+// Grab distance around a point, in curve units (0-255)
+const HIT_RADIUS = 10;
+
+// Area path of one histogram channel; square root keeps small counts visible next to peaks
+const histogramPath = (counts: Uint32Array) => {
+  let max = 0;
+  counts.forEach(c => { max = Math.max(max, c); });
+  if (!max) return '';
+  let path = 'M0,255';
+  counts.forEach((c, i) => { path += ` L${i},${255 - Math.sqrt(c / max) * 255}`; });
+  return `${path} L255,255 Z`;
+};
+
+// Tone curve over the histogram. Click to add a point, drag to move, double-click to remove.
+export const CurveEditor: React.FC<CurveEditorProps> = ({ points, histogram, onChange }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<number | null>(null);
+
+  const toCurve = (e: React.PointerEvent | React.MouseEvent): CurvePoint => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return {
+      x: Math.round(Math.min(255, Math.max(0, ((e.clientX - rect.left) / rect.width) * 255))),
+      y: Math.round(Math.min(255, Math.max(0, 255 - ((e.clientY - rect.top) / rect.height) * 255)))
+    };
+  };
+
+  const hitIndex = (p: CurvePoint) =>
+    points.findIndex(q => Math.hypot(q.x - p.x, q.y - p.y) <= HIT_RADIUS);
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    (e.currentTarget as Element).setPointerCapture(e.pointerId);
+    const p = toCurve(e);
+    const hit = hitIndex(p);
+    if (hit >= 0) {
+      dragRef.current = hit;
+      return;
+    }
+    const next = [...points, p].sort((a, b) => a.x - b.x);
+    dragRef.current = next.indexOf(p);
+    onChange(next);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const index = dragRef.current;
+    if (index === null) return;
+    const p = toCurve(e);
+    // End points stay at the edges; inner points stay between their neighbours
+    const last = points.length - 1;
+    const x = index === 0 ? points[0].x
+      : index === last ? points[last].x
+      : Math.min(points[index + 1].x - 1, Math.max(points[index - 1].x + 1, p.x));
+    onChange(points.map((q, i) => (i === index ? { x, y: p.y } : q)));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleDoubleClick = (e: React.MouseEvent) => {
+    const hit = hitIndex(toCurve(e));
+    if (hit > 0 && hit < points.length - 1) onChange(points.filter((_, i) => i !== hit));
+  };
+
+  const lut = buildCurveLut(points);
+  const curvePath = Array.from(lut, (y, x) => `${x === 0 ? 'M' : 'L'}${x},${255 - y}`).join(' ');
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox="0 0 255 255"
+      preserveAspectRatio="none"
+      className="w-full aspect-square bg-gray-950 rounded-lg border border-gray-700 cursor-crosshair touch-none"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onDoubleClick={handleDoubleClick}
+    >
+      {[64, 128, 192].map(v => (
+        <g key={v} stroke="#374151" strokeWidth={0.5}>
+          <line x1={v} y1={0} x2={v} y2={255} />
+          <line x1={0} y1={v} x2={255} y2={v} />
+        </g>
+      ))}
+      {histogram && (
+        <g style={{ mixBlendMode: 'screen' }} opacity={0.35}>
+          <path d={histogramPath(histogram.r)} fill="#ef4444" />
+          <path d={histogramPath(histogram.g)} fill="#22c55e" />
+          <path d={histogramPath(histogram.b)} fill="#3b82f6" />
+        </g>
+      )}
+      <line x1={0} y1={255} x2={255} y2={0} stroke="#4b5563" strokeWidth={0.5} strokeDasharray="3 3" />
+      <path d={curvePath} fill="none" stroke="#e5e7eb" strokeWidth={1.5} />
+      {points.map((p, i) => (
+        <circle key={i} cx={p.x} cy={255 - p.y} r={4} fill="#a855f7" stroke="white" strokeWidth={1} />
+      ))}
+    </svg>
+  );
+};
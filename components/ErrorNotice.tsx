@@ -0,0 +1,42 @@
+import React, { useState } from 'react';
+import { AlertCircle, ChevronDown, ChevronUp } from 'lucide-react';
+import { AIErrorKind, ProcessingError } from '../types';
+import { useI18n } from '../i18n';
+
+interface ErrorNoticeProps {
+  error: ProcessingError;
+}
+
+export const ErrorNotice: React.FC<ErrorNoticeProps> = ({ error }) => {
+  const { m } = useI18n();
+  const [showDetails, setShowDetails] = useState(false);
+  const { title, action: generalAction } = m.errors[error.kind] || m.errors[AIErrorKind.UNKNOWN];
+  // The app's own failures say exactly what went wrong
+  const action = error.code ? m.appErrors[error.code](error.params ?? {}) : generalAction;
+  const isCancel = error.kind === AIErrorKind.CANCELLED;
+
+  return (
+    <div className={`mb-4 p-3 rounded-lg text-sm border ${
+      isCancel ? 'bg-gray-800/60 text-gray-300 border-gray-700' : 'bg-red-900/30 text-red-300 border-red-800'
+    }`}>
+      <div className="flex items-start">
+        <AlertCircle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+        <div className="flex-1">
+          <p className="font-semibold">{title}</p>
+          <p className="text-xs opacity-80">{action}</p>
+        </div>
+        {error.message && (
+          <button
+            onClick={() => setShowDetails(v => !v)}
+            className="ml-2 text-xs opacity-70 hover:opacity-100 flex items-center"
+          >
+            {m.common.details} {showDetails ? <ChevronUp className="w-3 h-3 ml-1" /> : <ChevronDown className="w-3 h-3 ml-1" />}
+          </button>
+        )}
+      </div>
+      {showDetails && (
+        <p className="mt-2 text-xs font-mono opacity-70 break-words">{error.message}</p>
+      )}
+    </div>
+  );
+};
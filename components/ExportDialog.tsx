@@ -0,0 +1,328 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Download, X, Loader2, FileImage, Upload } from 'lucide-react';
+import { AppTab, ExportFormat, ExportSettings, WatermarkKind, WatermarkPosition, WatermarkSettings } from '../types';
+import {
+  EXPORT_FORMATS,
+  FILE_NAME_TOKENS,
+  ExportResult,
+  exportImage,
+  loadExportSettings,
+  saveExportSettings,
+  readCaptureExif,
+  renderFileName
+} from '../services/exportImage';
+import { prepareLogo } from '../services/watermark';
+import { downloadBlob } from '../utils/download';
+import { formatBytes } from '../utils/format';
+import { Slider } from './Slider';
+import { errorText, useI18n } from '../i18n';
+
+interface ExportDialogProps {
+  imageUrl: string;
+  originalUrl: string; // Uploaded original, source of the EXIF data
+  tab: AppTab;
+  projectName: string;
+  jobId: string; // Library ID of the open job, recorded by the invisible mark
+  onClose: () => void;
+}
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ imageUrl, originalUrl, tab, projectName, jobId, onClose }) => {
+  const { m } = useI18n();
+  const logoInputRef = useRef<HTMLInputElement>(null);
+  const [settings, setSettings] = useState<ExportSettings>(loadExportSettings);
+  const [customer, setCustomer] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<ExportResult | null>(null);
+
+  useEffect(() => {
+    saveExportSettings(settings);
+  }, [settings]);
+
+  const format = EXPORT_FORMATS[settings.format];
+  const hasExif = useMemo(() => readCaptureExif(originalUrl) !== null, [originalUrl]);
+  const previewName = `${renderFileName(settings.fileNameTemplate, { tab, customer, project: projectName, date: new Date() })}.${format.extension}`;
+
+  const update = (patch: Partial<ExportSettings>) => {
+    setSettings(s => ({ ...s, ...patch }));
+    setResult(null);
+  };
+
+  const watermark = settings.watermark;
+  const updateWatermark = (patch: Partial<WatermarkSettings>) => {
+    setSettings(s => ({ ...s, watermark: { ...s.watermark, ...patch } }));
+    setResult(null);
+  };
+
+  const handleLogo = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      updateWatermark({ kind: WatermarkKind.LOGO, logoUrl: await prepareLogo(file) });
+    } catch {
+      setError(m.export.logoFailed);
+    }
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const exported = await exportImage(imageUrl, settings, {
+        tab,
+        customer,
+        project: projectName,
+        date: new Date(),
+        originalUrl,
+        jobId
+      });
+      downloadBlob(exported.blob, exported.fileName);
+      setResult(exported);
+    } catch (err: any) {
+      setError(errorText(err, m.export.failed));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-gray-900 border border-gray-800 rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="p-4 border-b border-gray-800 flex items-center justify-between">
+          <h2 className="text-lg font-bold text-white flex items-center">
+            <FileImage className="w-5 h-5 mr-2 text-pink-500" /> {m.export.title}
+          </h2>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-white hover:bg-gray-800 rounded-lg">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto">
+          {/* Format */}
+          <div className="mb-4">
+            <label className="block text-sm font-semibold text-gray-300 mb-2">{m.export.format}</label>
+            <div className="grid grid-cols-5 gap-2">
+              {Object.values(ExportFormat).map((f) => (
+                <button
+                  key={f}
+                  onClick={() => update({ format: f })}
+                  className={`px-2 py-2 text-sm font-medium rounded-lg border transition-all ${
+                    settings.format === f
+                      ? 'bg-purple-900/30 border-purple-500 text-purple-300 ring-1 ring-purple-500'
+                      : 'bg-gray-800 border-gray-700 text-gray-400 hover:bg-gray-700'
+                  }`}
+                >
+                  {f}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Quality and target size */}
+          <Slider
+            label={m.export.quality}
+            value={settings.quality}
+            min={1}
+            max={100}
+            onChange={(quality) => update({ quality })}
+            disabled={!format.lossy}
+          />
+          <div className="mb-4 flex items-center gap-3">
+            <label className={`flex items-center space-x-2 ${format.lossy ? 'cursor-pointer' : 'opacity-50'}`}>
+              <input
+                type="checkbox"
+                checked={settings.targetSizeKb > 0}
+                onChange={(e) => update({ targetSizeKb: e.target.checked ? 240 : 0 })}
+                disabled={!format.lossy}
+                className="w-4 h-4 rounded border-gray-600 bg-gray-700 text-purple-600 focus:ring-purple-500"
+              />
+              <span className="text-sm text-gray-400">{m.export.maxSize}</span>
+            </label>
+            {format.lossy && settings.targetSizeKb > 0 && (
+              <span className="flex items-center text-sm text-gray-400">
+                <input
+                  type="number"
+                  min={10}
+                  value={settings.targetSizeKb}
+                  onChange={(e) => update({ targetSizeKb: Math.max(1, Number(e.target.value) || 0) })}
+                  className="w-24 px-2 py-1 mr-1 rounded-lg bg-gray-800 border border-gray-700 text-gray-200 focus:outline-none focus:border-purple-500"
+                />
+                KB
+              </span>
+            )}
+          </div>
+
+          {/* Metadata */}
+          <div className="mb-4 space-y-2">
+            <label className={`flex items-center space-x-2 ${format.colorProfile ? 'cursor-pointer' : 'opacity-50'}`}>
+              <input
+                type="checkbox"
+                checked={settings.embedSrgb && format.colorProfile}
+                onChange={(e) => update({ embedSrgb: e.target.checked })}
+                disabled={!format.colorProfile}
+                className="w-4 h-4 rounded border-gray-600 bg-gray-700 text-purple-600 focus:ring-purple-500"
+              />
+              <span className="text-sm text-gray-400">{m.export.embedSrgb}</span>
+            </label>
+            <label className={`flex items-center space-x-2 ${format.exif && hasExif ? 'cursor-pointer' : 'opacity-50'}`}>
+              <input
+                type="checkbox"
+                checked={settings.copyExif && format.exif && hasExif}
+                onChange={(e) => update({ copyExif: e.target.checked })}
+                disabled={!format.exif || !hasExif}
+                className="w-4 h-4 rounded border-gray-600 bg-gray-700 text-purple-600 focus:ring-purple-500"
+              />
+              <span className="text-sm text-gray-400">{m.export.copyExif}</span>
+            </label>
+            {!hasExif && (
+              <p className="text-xs text-gray-600 ml-6">{m.export.noExif}</p>
+            )}
+          </div>
+
+          {/* Watermark */}
+          <div className="mb-4">
+            <label className="block text-sm font-semibold text-gray-300 mb-2">{m.export.watermark}</label>
+            <div className="grid grid-cols-3 gap-2 mb-3">
+              {Object.values(WatermarkKind).map((kind) => (
+                <button
+                  key={kind}
+                  onClick={() => updateWatermark({ kind })}
+                  className={`px-2 py-2 text-sm font-medium rounded-lg border transition-all ${
+                    watermark.kind === kind
+                      ? 'bg-purple-900/30 border-purple-500 text-purple-300 ring-1 ring-purple-500'
+                      : 'bg-gray-800 border-gray-700 text-gray-400 hover:bg-gray-700'
+                  }`}
+                >
+                  {m.export.watermarkKinds[kind]}
+                </button>
+              ))}
+            </div>
+            {watermark.kind === WatermarkKind.TEXT && (
+              <input
+                type="text"
+                value={watermark.text}
+                onChange={(e) => updateWatermark({ text: e.target.value })}
+                placeholder={m.export.watermarkText}
+                className="w-full mb-3 px-3 py-2 rounded-lg bg-gray-800 border border-gray-700 text-sm text-gray-200 placeholder-gray-600 focus:outline-none focus:border-purple-500"
+              />
+            )}
+            {watermark.kind === WatermarkKind.LOGO && (
+              <div className="mb-3 flex items-center gap-3">
+                {watermark.logoUrl && (
+                  <img src={watermark.logoUrl} alt="" className="h-10 max-w-[8rem] object-contain rounded bg-gray-700 p-1" />
+                )}
+                <button
+                  onClick={() => logoInputRef.current?.click()}
+                  className="px-3 py-1.5 rounded-lg bg-gray-800 border border-gray-700 text-sm text-gray-300 hover:bg-gray-700 flex items-center"
+                >
+                  <Upload className="w-4 h-4 mr-1" /> {m.export.chooseLogo}
+                </button>
+                <input ref={logoInputRef} type="file" accept="image/*" className="hidden" onChange={handleLogo} />
+              </div>
+            )}
+            {watermark.kind !== WatermarkKind.NONE && (
+              <>
+                <div className="mb-3 flex items-center gap-3">
+                  <label className="text-sm text-gray-400">{m.export.position}</label>
+                  <select
+                    value={watermark.position}
+                    onChange={(e) => updateWatermark({ position: e.target.value as WatermarkPosition })}
+                    disabled={watermark.tiled || watermark.proof}
+                    className="bg-gray-800 border border-gray-700 rounded-lg px-3 py-1.5 text-sm text-gray-200 focus:outline-none focus:border-purple-500 disabled:opacity-50"
+                  >
+                    {Object.values(WatermarkPosition).map(position => (
+                      <option key={position} value={position}>{m.export.positions[position]}</option>
+                    ))}
+                  </select>
+                </div>
+                <Slider label={m.export.opacity} value={watermark.opacity} min={5} max={100} onChange={(opacity) => updateWatermark({ opacity })} />
+                <Slider label={m.export.markSize} value={watermark.size} min={5} max={100} onChange={(size) => updateWatermark({ size })} />
+                <label className="mb-2 flex items-center space-x-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={watermark.tiled || watermark.proof}
+                    onChange={(e) => updateWatermark({ tiled: e.target.checked })}
+                    disabled={watermark.proof}
+                    className="w-4 h-4 rounded border-gray-600 bg-gray-700 text-purple-600 focus:ring-purple-500"
+                  />
+                  <span className="text-sm text-gray-400">{m.export.tiled}</span>
+                </label>
+              </>
+            )}
+            <label className="flex items-center space-x-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={watermark.proof}
+                onChange={(e) => updateWatermark({ proof: e.target.checked })}
+                className="w-4 h-4 rounded border-gray-600 bg-gray-700 text-purple-600 focus:ring-purple-500"
+              />
+              <span className="text-sm text-gray-400">{m.export.proof}</span>
+            </label>
+            <p className="text-xs text-gray-600 ml-6 mb-2">{m.export.proofHint}</p>
+            <label className="flex items-center space-x-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings.invisibleMark}
+                onChange={(e) => update({ invisibleMark: e.target.checked })}
+                className="w-4 h-4 rounded border-gray-600 bg-gray-700 text-purple-600 focus:ring-purple-500"
+              />
+              <span className="text-sm text-gray-400">{m.export.invisibleMark}</span>
+            </label>
+            <p className="text-xs text-gray-600 ml-6">{m.export.invisibleMarkHint}</p>
+          </div>
+
+          {/* File name */}
+          <div className="mb-4">
+            <label className="block text-sm font-semibold text-gray-300 mb-2">{m.export.customer}</label>
+            <input
+              type="text"
+              value={customer}
+              onChange={(e) => setCustomer(e.target.value)}
+              placeholder={m.export.customerPlaceholder}
+              className="w-full px-3 py-2 rounded-lg bg-gray-800 border border-gray-700 text-sm text-gray-200 placeholder-gray-600 focus:outline-none focus:border-purple-500"
+            />
+          </div>
+          <div className="mb-4">
+            <label className="block text-sm font-semibold text-gray-300 mb-2">{m.export.fileName}</label>
+            <input
+              type="text"
+              value={settings.fileNameTemplate}
+              onChange={(e) => update({ fileNameTemplate: e.target.value })}
+              className="w-full px-3 py-2 rounded-lg bg-gray-800 border border-gray-700 text-sm font-mono text-gray-200 focus:outline-none focus:border-purple-500"
+            />
+            <p className="mt-1 text-xs text-gray-500">{FILE_NAME_TOKENS.join(' ')}</p>
+            <p className="mt-1 text-xs text-gray-400 font-mono break-all">{previewName}</p>
+          </div>
+
+          {error && <p className="mb-3 text-sm text-red-400">{error}</p>}
+          {result && (
+            <p className="mb-3 text-xs text-green-400">
+              {m.export.saved(formatBytes(result.blob.size), result.width, result.height)}
+              {result.quality !== null && m.export.savedQuality(result.quality)}
+              {result.colorProfile && ' · sRGB'}
+              {result.exif && ' · EXIF'}
+              {result.watermark && m.export.savedWatermark}
+              {result.invisibleMark && m.export.savedMark}
+            </p>
+          )}
+          {result && settings.invisibleMark && !result.invisibleMark && (
+            <p className="mb-3 text-xs text-amber-400">{m.export.markLost}</p>
+          )}
+
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="w-full py-3 rounded-xl font-bold text-white bg-green-700 hover:bg-green-600 disabled:bg-gray-700 disabled:cursor-not-allowed transition-all flex items-center justify-center"
+          >
+            {isExporting
+              ? <><Loader2 className="w-5 h-5 mr-2 animate-spin" /> {m.export.encoding}</>
+              : <><Download className="w-5 h-5 mr-2" /> {m.export.download(settings.format)}</>}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,73 @@
+import React from 'react';
+import { ScanFace, Loader2 } from 'lucide-react';
+import { DetectedFace } from '../types';
+import { useI18n } from '../i18n';
+
+interface FacePickerProps {
+  imageUrl: string;
+  imageSize: { width: number; height: number };
+  faces: DetectedFace[] | null; // null while detection runs
+  selected: number;
+  onSelect: (index: number) => void;
+}
+
+const THUMB_SIZE = 56;
+// Thumbnails show a little more than the detection box, so hair and chin are visible
+const THUMB_MARGIN = 0.35;
+
+// Faces found in the current photo; the chosen one is framed for the ID photo
+export const FacePicker: React.FC<FacePickerProps> = ({ imageUrl, imageSize, faces, selected, onSelect }) => {
+  const { m } = useI18n();
+
+  if (faces === null) {
+    return (
+      <p className="text-xs text-gray-500 flex items-center">
+        <Loader2 className="w-3 h-3 mr-1 animate-spin" /> {m.faces.detecting}
+      </p>
+    );
+  }
+  if (faces.length === 0) {
+    return <p className="text-xs text-amber-400">{m.faces.none}</p>;
+  }
+  if (faces.length === 1) {
+    return (
+      <p className="text-xs text-gray-500 flex items-center">
+        <ScanFace className="w-3 h-3 mr-1 text-green-400" /> {m.faces.single}
+      </p>
+    );
+  }
+
+  return (
+    <div>
+      <p className="text-xs text-gray-400 mb-2 flex items-center">
+        <ScanFace className="w-3 h-3 mr-1" /> {m.faces.several(faces.length)}
+      </p>
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {faces.map((face, i) => {
+          const side = Math.max(face.box.width, face.box.height) * (1 + THUMB_MARGIN * 2);
+          const zoom = THUMB_SIZE / side;
+          const left = face.box.x + face.box.width / 2 - side / 2;
+          const top = face.box.y + face.box.height / 2 - side / 2;
+          return (
+            <button
+              key={i}
+              onClick={() => onSelect(i)}
+              title={m.faces.face(i + 1)}
+              className={`flex-shrink-0 rounded-lg border-2 overflow-hidden ${
+                selected === i ? 'border-purple-500 ring-2 ring-purple-500/40' : 'border-gray-700 opacity-70 hover:opacity-100'
+              }`}
+              style={{
+                width: THUMB_SIZE,
+                height: THUMB_SIZE,
+                backgroundImage: `url(${imageUrl})`,
+                backgroundSize: `${imageSize.width * zoom}px ${imageSize.height * zoom}px`,
+                backgroundPosition: `${-left * zoom}px ${-top * zoom}px`,
+                backgroundRepeat: 'no-repeat'
+              }}
+            />
+          );
+        })}
+      </div>
+    </div>
+  );
+};
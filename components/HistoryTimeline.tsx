@@ -0,0 +1,120 @@
+import React from 'react';
+import { Undo2, Redo2, Wand2, UserSquare2, History, Image as ImageIcon, SlidersHorizontal, SlidersVertical, GitBranch, Star, Combine } from 'lucide-react';
+import { AppTab, EditHistory, HistoryVersion, OperationSettings } from '../types';
+import { canUndo, canRedo, getCurrentVersion, getLineage } from '../services/history';
+import { Messages, useI18n } from '../i18n';
+
+interface HistoryTimelineProps {
+  history: EditHistory;
+  disabled?: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onSelect: (versionId: string) => void;
+  onApplySettings: (operation: OperationSettings) => void;
+}
+
+const TAB_ICONS: Record<AppTab, React.ReactNode> = {
+  [AppTab.ENHANCE]: <Wand2 className="w-3 h-3" />,
+  [AppTab.ID_PHOTO]: <UserSquare2 className="w-3 h-3" />,
+  [AppTab.RESTORE]: <History className="w-3 h-3" />
+};
+
+// Tooltip text listing the settings snapshot of a step
+const describeVersion = ({ operation, adjustments, variantGroup, mixedFrom }: HistoryVersion, m: Messages): string => {
+  const settings = operation?.settings ?? adjustments;
+  if (!settings) return m.history.originalUpload;
+  const fields = Object.entries(settings)
+    .map(([key, value]) => `${key}: ${typeof value === 'object' ? JSON.stringify(value) : value}`)
+    .join('\n');
+  const kind = mixedFrom ? m.history.mixedVariant : variantGroup ? m.history.variant : '';
+  return `${operation ? m.tabs[operation.tab] : m.history.adjustments}${kind}\n${fields}`;
+};
+
+export const HistoryTimeline: React.FC<HistoryTimelineProps> = ({
+  history,
+  disabled = false,
+  onUndo,
+  onRedo,
+  onSelect,
+  onApplySettings
+}) => {
+  const { m } = useI18n();
+  const current = getCurrentVersion(history);
+  const lineageIds = new Set(getLineage(history, current.id).map(v => v.id));
+
+  return (
+    <div className="bg-gray-900 rounded-2xl shadow-xl border border-gray-800 p-4">
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-sm font-semibold text-gray-400 uppercase tracking-wider flex items-center">
+          <GitBranch className="w-4 h-4 mr-2" /> {m.history.title(history.order.length)}
+        </span>
+        <div className="flex items-center gap-1">
+          {current.operation && (
+            <button
+              onClick={() => onApplySettings(current.operation!)}
+              disabled={disabled}
+              className="px-2 py-1.5 text-xs text-gray-400 hover:text-white hover:bg-gray-800 rounded-lg flex items-center disabled:opacity-40"
+              title={m.history.useSettingsHint}
+            >
+              <SlidersHorizontal className="w-4 h-4 mr-1" /> {m.history.useSettings}
+            </button>
+          )}
+          <button
+            onClick={onUndo}
+            disabled={disabled || !canUndo(history)}
+            className="p-2 text-gray-400 hover:text-white hover:bg-gray-800 rounded-lg disabled:opacity-30 disabled:cursor-not-allowed"
+            title={m.history.undo}
+          >
+            <Undo2 className="w-4 h-4" />
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={disabled || !canRedo(history)}
+            className="p-2 text-gray-400 hover:text-white hover:bg-gray-800 rounded-lg disabled:opacity-30 disabled:cursor-not-allowed"
+            title={m.history.redo}
+          >
+            <Redo2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex gap-3 overflow-x-auto pb-1">
+        {history.order.map((id, index) => {
+          const version = history.versions[id];
+          const isCurrent = id === current.id;
+          const inLineage = lineageIds.has(id);
+          const parentIndex = version.parentId ? history.order.indexOf(version.parentId) : -1;
+          return (
+            <button
+              key={id}
+              onClick={() => onSelect(id)}
+              disabled={disabled}
+              title={describeVersion(version, m)}
+              className={`relative flex-shrink-0 w-20 rounded-lg overflow-hidden border-2 transition-all ${
+                isCurrent
+                  ? 'border-purple-500 ring-2 ring-purple-500/40'
+                  : inLineage
+                    ? 'border-purple-900 opacity-90'
+                    : 'border-gray-800 opacity-50 hover:opacity-100'
+              }`}
+            >
+              <img src={version.imageUrl} alt="" className="w-20 h-20 object-cover" />
+              {version.starred && (
+                <Star className="absolute top-1 right-1 w-3.5 h-3.5 text-yellow-400 drop-shadow" fill="currentColor" />
+              )}
+              <div className="absolute bottom-0 inset-x-0 bg-black/75 text-[10px] text-gray-200 px-1 py-0.5 flex items-center justify-between">
+                <span className="flex items-center gap-1">
+                  {version.mixedFrom ? <Combine className="w-3 h-3" /> : version.operation ? TAB_ICONS[version.operation.tab] : version.adjustments ? <SlidersVertical className="w-3 h-3" /> : <ImageIcon className="w-3 h-3" />}
+                  #{index}
+                </span>
+                {parentIndex >= 0 && parentIndex !== index - 1 && (
+                  <span className="text-purple-300" title={m.history.branched}>↳{parentIndex}</span>
+                )}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
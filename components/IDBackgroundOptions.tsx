@@ -0,0 +1,171 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ImagePlus, Trash2, Loader2 } from 'lucide-react';
+import { Backdrop, IDBackgroundStyle, IDPhotoBackground, IDPhotoSettings } from '../types';
+import { getBackgroundHex, nearestIDBackground } from '../services/idPhotoSpecs';
+import { loadBackdrops, saveBackdrops, createBackdrop, addBackdrop, deleteBackdrop, MAX_BACKDROPS } from '../services/backdrops';
+import { useI18n } from '../i18n';
+
+interface IDBackgroundOptionsProps {
+  settings: IDPhotoSettings;
+  onChange: (patch: Partial<IDPhotoSettings>) => void;
+  allowedBackgrounds: IDPhotoBackground[]; // Named colours the selected document accepts
+  allowStudio: boolean; // Gradients and backdrops; only offered without a document spec
+}
+
+const HEX_PATTERN = /^#[0-9A-Fa-f]{6}$/;
+
+// Exact colour picker plus, for custom sizes, studio gradients and uploaded backdrops
+export const IDBackgroundOptions: React.FC<IDBackgroundOptionsProps> = ({ settings, onChange, allowedBackgrounds, allowStudio }) => {
+  const { m } = useI18n();
+  const hex = getBackgroundHex(settings);
+  const [hexInput, setHexInput] = useState(hex);
+  const [backdrops, setBackdrops] = useState<Backdrop[]>(loadBackdrops);
+  const [uploading, setUploading] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setHexInput(hex);
+  }, [hex]);
+
+  const applyHex = (value: string) => {
+    if (!HEX_PATTERN.test(value)) return;
+    const upper = value.toUpperCase();
+    onChange({ backgroundHex: upper, backgroundColor: nearestIDBackground(upper) });
+  };
+
+  // Keeps the previous list when the browser refuses to store the new one
+  const persist = (next: Backdrop[]): boolean => {
+    try {
+      saveBackdrops(next);
+      setBackdrops(next);
+      return true;
+    } catch {
+      setMessage(m.backgroundOptions.storageFull);
+      return false;
+    }
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setMessage(null);
+    setUploading(true);
+    try {
+      const backdrop = await createBackdrop(file);
+      if (persist(addBackdrop(backdrops, backdrop))) {
+        onChange({ backgroundStyle: IDBackgroundStyle.IMAGE, backdropId: backdrop.id });
+      }
+    } catch {
+      setMessage(m.backgroundOptions.readFailed);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleDelete = (id: string) => {
+    setMessage(null);
+    if (persist(deleteBackdrop(backdrops, id)) && settings.backdropId === id) {
+      onChange({ backdropId: '' });
+    }
+  };
+
+  const offSpec = !allowedBackgrounds.includes(nearestIDBackground(hex));
+
+  return (
+    <div className="space-y-3 mt-3">
+      <div className="flex items-center gap-2">
+        <input
+          type="color"
+          value={hex.toLowerCase()}
+          onChange={(e) => applyHex(e.target.value)}
+          className="w-9 h-9 rounded cursor-pointer bg-transparent border border-gray-700"
+          title={m.backgroundOptions.pickExact}
+        />
+        <input
+          type="text"
+          value={hexInput}
+          maxLength={7}
+          onChange={(e) => {
+            setHexInput(e.target.value);
+            applyHex(e.target.value);
+          }}
+          onBlur={() => setHexInput(hex)}
+          className="w-24 bg-gray-800 border border-gray-700 rounded-lg px-2 py-1.5 text-sm text-gray-200 font-mono focus:outline-none focus:border-purple-500"
+        />
+        <span className="text-xs text-gray-500">
+          {settings.backgroundHex ? m.backgroundOptions.customColor : m.backgroundOptions.standard(m.enums.background[settings.backgroundColor])}
+        </span>
+      </div>
+      {offSpec && (
+        <p className="text-xs text-amber-400">{m.backgroundOptions.offSpec(m.enums.background[nearestIDBackground(hex)])}</p>
+      )}
+
+      {allowStudio && (
+        <>
+          <div className="flex gap-2">
+            {Object.values(IDBackgroundStyle).map(style => (
+              <button
+                key={style}
+                onClick={() => onChange({ backgroundStyle: style })}
+                className={`flex-1 py-1.5 text-xs rounded-lg border transition-colors ${
+                  settings.backgroundStyle === style
+                    ? 'bg-purple-600 border-purple-500 text-white'
+                    : 'bg-gray-800 border-gray-700 text-gray-400 hover:border-gray-600'
+                }`}
+              >
+                {m.enums.backgroundStyle[style]}
+              </button>
+            ))}
+          </div>
+
+          {settings.backgroundStyle !== IDBackgroundStyle.SOLID && (
+            <p className="text-xs text-gray-500">{m.backgroundOptions.studioOnly}</p>
+          )}
+
+          {settings.backgroundStyle === IDBackgroundStyle.IMAGE && (
+            <div className="grid grid-cols-4 gap-2">
+              {backdrops.map(b => (
+                <div key={b.id} className="relative group">
+                  <button
+                    onClick={() => onChange({ backdropId: b.id })}
+                    title={b.name}
+                    className={`w-full aspect-square rounded-lg overflow-hidden border-2 ${
+                      settings.backdropId === b.id ? 'border-purple-500' : 'border-gray-700 hover:border-gray-500'
+                    }`}
+                  >
+                    <img src={b.dataUrl} alt={b.name} className="w-full h-full object-cover" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(b.id)}
+                    title={m.common.delete}
+                    className="absolute top-1 right-1 p-0.5 rounded bg-black/60 text-gray-300 hover:text-red-400 opacity-0 group-hover:opacity-100"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+              {backdrops.length < MAX_BACKDROPS && (
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={uploading}
+                  title={m.backgroundOptions.upload}
+                  className="aspect-square rounded-lg border-2 border-dashed border-gray-700 hover:border-purple-500 flex items-center justify-center text-gray-500 disabled:opacity-50"
+                >
+                  {uploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <ImagePlus className="w-4 h-4" />}
+                </button>
+              )}
+              <input ref={fileInputRef} type="file" accept="image/*,.heic,.heif,.tif,.tiff" className="hidden" onChange={handleUpload} />
+            </div>
+          )}
+          {settings.backgroundStyle === IDBackgroundStyle.IMAGE && !settings.backdropId && (
+            <p className="text-xs text-amber-400">{m.backgroundOptions.pickBackdrop}</p>
+          )}
+        </>
+      )}
+
+      {message && <p className="text-xs text-red-400">{message}</p>}
+    </div>
+  );
+};
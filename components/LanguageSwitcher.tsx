@@ -0,0 +1,28 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { LOCALES, setLocale, useI18n } from '../i18n';
+
+// One button per catalog in i18n/locales; the choice is remembered
+export const LanguageSwitcher: React.FC = () => {
+  const { locale, m } = useI18n();
+
+  return (
+    <div className="flex items-center gap-2 text-sm" title={m.header.language}>
+      <Languages className="w-4 h-4 text-gray-400" />
+      <div className="flex bg-gray-900 p-1 rounded-xl border border-gray-800">
+        {LOCALES.map(option => (
+          <button
+            key={option.code}
+            onClick={() => setLocale(option.code)}
+            lang={option.code}
+            className={`px-3 py-1 font-medium rounded-lg transition-all ${
+              locale.code === option.code ? 'bg-gray-700 text-white shadow-sm' : 'text-gray-500 hover:text-gray-300'
+            }`}
+          >
+            {option.name}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
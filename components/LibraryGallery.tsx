@@ -0,0 +1,264 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Library, X, FolderOpen, Trash2, Download, Tag, HardDrive, Loader2, Search } from 'lucide-react';
+import { EditHistory, LibraryProject, StorageUsage } from '../types';
+import {
+  listProjects,
+  openProject,
+  updateProject,
+  deleteProject,
+  exportProject,
+  getStorageUsage,
+  requestPersistentStorage,
+  loadEvictionPolicy,
+  saveEvictionPolicy,
+  enforceEvictionPolicy,
+  EvictionPolicy
+} from '../services/projectLibrary';
+import { downloadBlob } from '../utils/download';
+import { formatBytes } from '../utils/format';
+import { Slider } from './Slider';
+import { errorText, formatDateTime, formatPercent, useI18n } from '../i18n';
+
+interface LibraryGalleryProps {
+  activeProjectId: string | null;
+  onOpen: (project: LibraryProject, history: EditHistory) => void;
+  onClose: () => void;
+}
+
+const parseTags = (text: string): string[] =>
+  Array.from(new Set(text.split(',').map(t => t.trim()).filter(Boolean)));
+
+export const LibraryGallery: React.FC<LibraryGalleryProps> = ({ activeProjectId, onOpen, onClose }) => {
+  const { m } = useI18n();
+  const [projects, setProjects] = useState<LibraryProject[]>([]);
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [policy, setPolicy] = useState<EvictionPolicy>(loadEvictionPolicy);
+  const [query, setQuery] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [list, storage] = await Promise.all([listProjects(), getStorageUsage()]);
+      setProjects(list);
+      setUsage(storage);
+    } catch (err: any) {
+      setError(errorText(err, m.library.readFailed));
+    }
+  }, [m]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const withBusy = async (id: string, action: () => Promise<void>) => {
+    setBusyId(id);
+    setError(null);
+    try {
+      await action();
+    } catch (err: any) {
+      setError(errorText(err, m.library.failed));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleOpen = (id: string) => withBusy(id, async () => {
+    const { project, history } = await openProject(id);
+    onOpen(project, history);
+  });
+
+  const handleDelete = (project: LibraryProject) => {
+    if (!window.confirm(m.library.confirmDelete(project.name))) return;
+    withBusy(project.id, async () => {
+      await deleteProject(project.id);
+      await refresh();
+    });
+  };
+
+  const handleExport = (project: LibraryProject) => withBusy(project.id, async () => {
+    const blob = await exportProject(project.id);
+    downloadBlob(blob, `LongRau_${project.name.replace(/[^\p{L}\p{N}_-]+/gu, '_')}_${project.id}.zip`);
+  });
+
+  const handleRename = (project: LibraryProject, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed || trimmed === project.name) return;
+    withBusy(project.id, async () => {
+      await updateProject(project.id, { name: trimmed });
+      await refresh();
+    });
+  };
+
+  const handleTags = (project: LibraryProject, text: string) => {
+    const tags = parseTags(text);
+    if (tags.join(',') === project.tags.join(',')) return;
+    withBusy(project.id, async () => {
+      await updateProject(project.id, { tags });
+      await refresh();
+    });
+  };
+
+  const handlePolicyChange = (next: EvictionPolicy) => {
+    setPolicy(next);
+    saveEvictionPolicy(next);
+  };
+
+  const handleEvictNow = () => withBusy('evict', async () => {
+    const evicted = await enforceEvictionPolicy(policy, activeProjectId ?? undefined);
+    if (evicted.length === 0) setError(m.library.withinLimit);
+    await refresh();
+  });
+
+  const handlePersist = async () => {
+    await requestPersistentStorage();
+    await refresh();
+  };
+
+  const q = query.trim().toLowerCase();
+  const visible = q
+    ? projects.filter(p => p.name.toLowerCase().includes(q) || p.tags.some(t => t.toLowerCase().includes(q)))
+    : projects;
+  const usedPercent = usage?.quotaBytes ? Math.min(100, (usage.usedBytes / usage.quotaBytes) * 100) : 0;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-gray-900 border border-gray-800 rounded-2xl shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="p-4 border-b border-gray-800 flex items-center justify-between">
+          <h2 className="text-lg font-bold text-white flex items-center">
+            <Library className="w-5 h-5 mr-2 text-pink-500" /> {m.library.title}
+          </h2>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-white hover:bg-gray-800 rounded-lg">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Storage */}
+        <div className="p-4 border-b border-gray-800 grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <div className="flex justify-between text-xs text-gray-400 mb-1">
+              <span className="flex items-center">
+                <HardDrive className="w-3 h-3 mr-1" />
+                {usage ? m.library.storage(formatBytes(usage.usedBytes), formatBytes(usage.quotaBytes), formatBytes(usage.libraryBytes)) : m.library.readingStorage}
+              </span>
+              <span className="font-mono">{formatPercent(usedPercent / 100, 1)}</span>
+            </div>
+            <div className="h-2 bg-gray-800 rounded-full overflow-hidden">
+              <div className="h-full bg-gradient-to-r from-purple-600 to-pink-600" style={{ width: `${usedPercent}%` }} />
+            </div>
+            {usage && !usage.persisted && (
+              <button onClick={handlePersist} className="mt-2 text-xs text-purple-300 hover:text-purple-200">
+                {m.library.persist}
+              </button>
+            )}
+          </div>
+          <div>
+            <label className="flex items-center space-x-2 cursor-pointer mb-2">
+              <input
+                type="checkbox"
+                checked={policy.enabled}
+                onChange={(e) => handlePolicyChange({ ...policy, enabled: e.target.checked })}
+                className="w-4 h-4 rounded border-gray-600 bg-gray-700 text-purple-600 focus:ring-purple-500"
+              />
+              <span className="text-sm text-gray-300">{m.library.autoRemove}</span>
+            </label>
+            <Slider
+              label={m.library.limit}
+              value={policy.maxQuotaPercent}
+              min={5}
+              max={90}
+              onChange={(v) => handlePolicyChange({ ...policy, maxQuotaPercent: v })}
+              disabled={!policy.enabled}
+            />
+            <button
+              onClick={handleEvictNow}
+              disabled={!policy.enabled || busyId !== null}
+              className="text-xs text-gray-400 hover:text-white disabled:opacity-40"
+            >
+              {m.library.applyLimit}
+            </button>
+          </div>
+        </div>
+
+        {/* Search */}
+        <div className="px-4 pt-4">
+          <div className="relative">
+            <Search className="w-4 h-4 text-gray-500 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder={m.library.search}
+              className="w-full pl-9 pr-3 py-2 rounded-lg bg-gray-800 border border-gray-700 text-sm text-gray-200 placeholder-gray-500 focus:outline-none focus:border-purple-500"
+            />
+          </div>
+          {error && <p className="mt-2 text-sm text-amber-300">{error}</p>}
+        </div>
+
+        {/* Projects */}
+        <div className="p-4 overflow-y-auto grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+          {visible.length === 0 && (
+            <p className="text-sm text-gray-500 col-span-full text-center py-12">
+              {projects.length === 0 ? m.library.empty : m.library.noMatch}
+            </p>
+          )}
+          {visible.map(project => (
+            <div
+              key={project.id}
+              className={`bg-gray-800/50 border rounded-xl overflow-hidden flex flex-col ${
+                project.id === activeProjectId ? 'border-purple-500' : 'border-gray-800'
+              }`}
+            >
+              <img src={project.thumbnailUrl} alt={project.name} className="w-full h-40 object-cover bg-black" />
+              <div className="p-3 space-y-2 flex-1">
+                <input
+                  defaultValue={project.name}
+                  onBlur={(e) => handleRename(project, e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+                  className="w-full bg-transparent text-sm font-semibold text-gray-200 border-b border-transparent hover:border-gray-700 focus:border-purple-500 focus:outline-none"
+                />
+                <div className="flex items-center">
+                  <Tag className="w-3 h-3 text-gray-500 mr-1 flex-shrink-0" />
+                  <input
+                    defaultValue={project.tags.join(', ')}
+                    placeholder={m.library.tagsPlaceholder}
+                    onBlur={(e) => handleTags(project, e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+                    className="w-full bg-transparent text-xs text-gray-400 placeholder-gray-600 border-b border-transparent hover:border-gray-700 focus:border-purple-500 focus:outline-none"
+                  />
+                </div>
+                <p className="text-xs text-gray-500">
+                  {formatDateTime(project.updatedAt)} · {m.library.versions(project.history.order.length)} · {formatBytes(project.sizeBytes)}
+                </p>
+              </div>
+              <div className="flex border-t border-gray-800">
+                <button
+                  onClick={() => handleOpen(project.id)}
+                  disabled={busyId !== null}
+                  className="flex-1 py-2 text-sm text-gray-300 hover:bg-gray-800 flex items-center justify-center disabled:opacity-40"
+                >
+                  {busyId === project.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <><FolderOpen className="w-4 h-4 mr-1" /> {m.library.open}</>}
+                </button>
+                <button
+                  onClick={() => handleExport(project)}
+                  disabled={busyId !== null}
+                  className="flex-1 py-2 text-sm text-gray-300 hover:bg-gray-800 flex items-center justify-center disabled:opacity-40"
+                >
+                  <Download className="w-4 h-4 mr-1" /> {m.library.export}
+                </button>
+                <button
+                  onClick={() => handleDelete(project)}
+                  disabled={busyId !== null}
+                  className="px-3 py-2 text-sm text-red-400 hover:bg-red-900/20 disabled:opacity-40"
+                  title={m.common.delete}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
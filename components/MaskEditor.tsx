@@ -0,0 +1,256 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Brush, Eraser, Lasso, Trash2, FlipHorizontal2, Check } from 'lucide-react';
+import { Slider } from './Slider';
+import { useI18n } from '../i18n';
+
+type MaskTool = 'brush' | 'eraser' | 'lasso';
+
+// Colour used to show painted areas on screen; the exported mask is black and white
+const OVERLAY_COLOR = 'rgba(236, 72, 153, 1)';
+
+interface MaskEditorProps {
+  imageUrl: string;
+  mask: string | null;
+  onChange: (mask: string | null) => void;
+  onClose: () => void;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+export const MaskEditor: React.FC<MaskEditorProps> = ({ imageUrl, mask, onChange, onClose }) => {
+  const { m } = useI18n();
+  const [tool, setTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState(40);
+  const [lassoPoints, setLassoPoints] = useState<Point[]>([]);
+  const [natural, setNatural] = useState<{ width: number; height: number } | null>(null);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef<Point | null>(null);
+
+  // Size the overlay to the image and load any existing mask into it
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !natural) return;
+    canvas.width = natural.width;
+    canvas.height = natural.height;
+    const ctx = canvas.getContext('2d')!;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (!mask) return;
+
+    const img = new Image();
+    img.onload = () => {
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      // White mask pixels become overlay-coloured, black ones transparent
+      const data = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      for (let i = 0; i < data.data.length; i += 4) {
+        const painted = data.data[i] > 127;
+        data.data[i] = 236;
+        data.data[i + 1] = 72;
+        data.data[i + 2] = 153;
+        data.data[i + 3] = painted ? 255 : 0;
+      }
+      ctx.putImageData(data, 0, 0);
+    };
+    img.src = mask;
+    // Only reload when the image changes; edits made here are already on the canvas
+  }, [natural]);
+
+  const toImagePoint = (e: React.PointerEvent): Point => {
+    const canvas = canvasRef.current!;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvas.height
+    };
+  };
+
+  // Brush size is in screen pixels, so it feels the same at any image resolution
+  const scaledBrush = () => {
+    const canvas = canvasRef.current!;
+    return brushSize * (canvas.width / canvas.getBoundingClientRect().width);
+  };
+
+  const emitMask = () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d')!;
+    const data = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    let painted = false;
+    for (let i = 3; i < data.data.length; i += 4) {
+      if (data.data[i] > 0) {
+        painted = true;
+        break;
+      }
+    }
+    if (!painted) {
+      onChange(null);
+      return;
+    }
+
+    const out = document.createElement('canvas');
+    out.width = canvas.width;
+    out.height = canvas.height;
+    const outCtx = out.getContext('2d')!;
+    const bw = outCtx.createImageData(canvas.width, canvas.height);
+    for (let i = 0; i < data.data.length; i += 4) {
+      const v = data.data[i + 3];
+      bw.data[i] = v;
+      bw.data[i + 1] = v;
+      bw.data[i + 2] = v;
+      bw.data[i + 3] = 255;
+    }
+    outCtx.putImageData(bw, 0, 0);
+    onChange(out.toDataURL('image/png'));
+  };
+
+  const strokeTo = (from: Point, to: Point) => {
+    const ctx = canvasRef.current!.getContext('2d')!;
+    ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = OVERLAY_COLOR;
+    ctx.lineWidth = scaledBrush();
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    const point = toImagePoint(e);
+    drawingRef.current = point;
+    if (tool === 'lasso') {
+      setLassoPoints([point]);
+    } else {
+      strokeTo(point, point);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const last = drawingRef.current;
+    if (!last) return;
+    const point = toImagePoint(e);
+    if (tool === 'lasso') {
+      setLassoPoints(points => [...points, point]);
+    } else {
+      strokeTo(last, point);
+    }
+    drawingRef.current = point;
+  };
+
+  const handlePointerUp = () => {
+    if (!drawingRef.current) return;
+    drawingRef.current = null;
+    if (tool === 'lasso' && lassoPoints.length > 2) {
+      const ctx = canvasRef.current!.getContext('2d')!;
+      ctx.globalCompositeOperation = 'source-over';
+      ctx.fillStyle = OVERLAY_COLOR;
+      ctx.beginPath();
+      ctx.moveTo(lassoPoints[0].x, lassoPoints[0].y);
+      lassoPoints.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+      ctx.closePath();
+      ctx.fill();
+    }
+    setLassoPoints([]);
+    emitMask();
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.getContext('2d')!.clearRect(0, 0, canvas.width, canvas.height);
+    onChange(null);
+  };
+
+  const handleInvert = () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d')!;
+    const data = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    for (let i = 0; i < data.data.length; i += 4) {
+      data.data[i] = 236;
+      data.data[i + 1] = 72;
+      data.data[i + 2] = 153;
+      data.data[i + 3] = 255 - data.data[i + 3];
+    }
+    ctx.putImageData(data, 0, 0);
+    emitMask();
+  };
+
+  const toolButton = (t: MaskTool, icon: React.ReactNode, label: string) => (
+    <button
+      onClick={() => setTool(t)}
+      className={`px-3 py-1.5 rounded-lg flex items-center transition-all ${
+        tool === t ? 'bg-gray-700 text-white shadow-sm' : 'text-gray-400 hover:text-gray-200'
+      }`}
+    >
+      {icon}
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="w-full flex flex-col gap-3">
+      <div className="relative h-[500px] w-full flex items-center justify-center">
+        <div className="relative max-h-full max-w-full">
+          <img
+            src={imageUrl}
+            alt={m.mask.source}
+            draggable={false}
+            onLoad={(e) => setNatural({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+            className="max-h-[500px] max-w-full object-contain rounded-lg select-none"
+          />
+          <canvas
+            ref={canvasRef}
+            className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none rounded-lg"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          />
+          {lassoPoints.length > 1 && natural && (
+            <svg
+              className="absolute inset-0 w-full h-full pointer-events-none"
+              viewBox={`0 0 ${natural.width} ${natural.height}`}
+              preserveAspectRatio="none"
+            >
+              <polyline
+                points={lassoPoints.map(p => `${p.x},${p.y}`).join(' ')}
+                fill="none"
+                stroke="white"
+                strokeWidth={Math.max(2, natural.width / 400)}
+                strokeDasharray={`${natural.width / 100}`}
+              />
+            </svg>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+        <div className="flex bg-gray-800 p-1 rounded-xl border border-gray-700">
+          {toolButton('brush', <Brush className="w-4 h-4 mr-1" />, m.mask.brush)}
+          {toolButton('eraser', <Eraser className="w-4 h-4 mr-1" />, m.mask.eraser)}
+          {toolButton('lasso', <Lasso className="w-4 h-4 mr-1" />, m.mask.lasso)}
+        </div>
+        <div className="w-40">
+          <Slider label={m.mask.brushSize} value={brushSize} min={4} max={150} onChange={setBrushSize} disabled={tool === 'lasso'} />
+        </div>
+        <div className="flex gap-1">
+          <button onClick={handleInvert} className="px-3 py-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-gray-800 flex items-center">
+            <FlipHorizontal2 className="w-4 h-4 mr-1" /> {m.mask.invert}
+          </button>
+          <button onClick={handleClear} className="px-3 py-1.5 rounded-lg text-red-400 hover:bg-red-900/20 flex items-center">
+            <Trash2 className="w-4 h-4 mr-1" /> {m.common.clear}
+          </button>
+          <button onClick={onClose} className="px-3 py-1.5 rounded-lg bg-purple-700 text-white hover:bg-purple-600 flex items-center">
+            <Check className="w-4 h-4 mr-1" /> {m.common.done}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
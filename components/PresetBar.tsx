@@ -0,0 +1,165 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Bookmark, Save, RefreshCw, Trash2, Star, FileUp, FileDown } from 'lucide-react';
+import { AppTab, OperationSettings, SettingsPreset } from '../types';
+import {
+  PresetStore,
+  loadPresetStore,
+  savePresetStore,
+  listPresets,
+  findPreset,
+  createPreset,
+  updatePreset,
+  deletePreset,
+  setDefaultPreset,
+  exportPresets,
+  importPresets
+} from '../services/presets';
+import { downloadBlob } from '../utils/download';
+import { errorText, useI18n } from '../i18n';
+
+interface PresetBarProps {
+  operation: OperationSettings; // Current settings of the active tab
+  onApply: (operation: OperationSettings) => void;
+  disabled?: boolean;
+}
+
+const sameSettings = (a: OperationSettings, b: OperationSettings) =>
+  a.tab === b.tab && JSON.stringify(a.settings) === JSON.stringify(b.settings);
+
+export const PresetBar: React.FC<PresetBarProps> = ({ operation, onApply, disabled = false }) => {
+  const { m } = useI18n();
+  const [store, setStore] = useState<PresetStore>(loadPresetStore);
+  const [selectedIds, setSelectedIds] = useState<Partial<Record<AppTab, string>>>(() => ({ ...loadPresetStore().defaults }));
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    savePresetStore(store);
+  }, [store]);
+
+  const tab = operation.tab;
+  const presets = listPresets(store, tab);
+  const selected = selectedIds[tab] ? findPreset(store, selectedIds[tab]!) : undefined;
+  const isDefault = !!selected && store.defaults[tab] === selected.id;
+  const isModified = !!selected && !sameSettings(selected.operation, operation);
+
+  // Built-in presets are named in the current language; user presets keep their own name
+  const presetName = (preset: SettingsPreset) => (preset.builtIn ? m.presets.builtIn[preset.id] ?? preset.name : preset.name);
+
+  const select = (id: string | undefined) => setSelectedIds(prev => ({ ...prev, [tab]: id }));
+
+  const handleSelect = (id: string) => {
+    setMessage(null);
+    const preset = id ? findPreset(store, id) : undefined;
+    select(preset?.id);
+    if (preset) onApply(preset.operation);
+  };
+
+  const handleSaveAs = () => {
+    const name = window.prompt(m.presets.namePrompt, selected && !selected.builtIn ? m.presets.copyName(selected.name) : '')?.trim();
+    if (!name) return;
+    const result = createPreset(store, name, operation);
+    setStore(result.store);
+    select(result.preset.id);
+    setMessage(m.presets.saved(name));
+  };
+
+  const handleUpdate = () => {
+    if (!selected || selected.builtIn) return;
+    setStore(updatePreset(store, selected.id, { operation }));
+    setMessage(m.presets.updated(selected.name));
+  };
+
+  const handleDelete = () => {
+    if (!selected || selected.builtIn) return;
+    if (!window.confirm(m.presets.confirmDelete(selected.name))) return;
+    setStore(deletePreset(store, selected.id));
+    select(undefined);
+    setMessage(null);
+  };
+
+  const handleToggleDefault = () => {
+    if (!selected) return;
+    setStore(setDefaultPreset(store, tab, isDefault ? null : selected.id));
+    setMessage(isDefault ? m.presets.factory : m.presets.startup(presetName(selected)));
+  };
+
+  // Exports the user's presets of every tab in one file
+  const handleExport = () => {
+    if (store.presets.length === 0) {
+      setMessage(m.presets.nothingToExport);
+      return;
+    }
+    downloadBlob(exportPresets(store.presets), `LongRau_presets_${new Date().toISOString().slice(0, 10)}.json`);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const result = importPresets(store, await file.text());
+      setStore(result.store);
+      const skipped = result.errors.length ? m.presets.skipped(result.errors.length, result.errors.join(' · ')) : '';
+      setMessage(`${m.presets.imported(result.imported.length)}${skipped}`);
+    } catch (err: any) {
+      setMessage(errorText(err, m.presets.importFailed));
+    }
+  };
+
+  const iconButton = (onClick: () => void, icon: React.ReactNode, title: string, enabled = true, active = false) => (
+    <button
+      onClick={onClick}
+      disabled={disabled || !enabled}
+      title={title}
+      className={`p-2 rounded-lg transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${
+        active ? 'text-amber-300 bg-amber-900/20' : 'text-gray-400 hover:text-white hover:bg-gray-800'
+      }`}
+    >
+      {icon}
+    </button>
+  );
+
+  return (
+    <div className="mb-6 pb-4 border-b border-gray-800">
+      <label className="block text-sm font-semibold text-gray-300 mb-2 flex items-center">
+        <Bookmark className="w-4 h-4 mr-1" /> {m.presets.title}
+        {isModified && <span className="ml-2 text-xs font-normal text-gray-500">{m.presets.modified}</span>}
+      </label>
+      <select
+        value={selected?.id ?? ''}
+        onChange={(e) => handleSelect(e.target.value)}
+        disabled={disabled}
+        className="w-full px-3 py-2 rounded-lg bg-gray-800 border border-gray-700 text-sm text-gray-200 focus:outline-none focus:border-purple-500"
+      >
+        <option value="">{m.presets.custom}</option>
+        {[true, false].map(builtIn => {
+          const group = presets.filter(p => p.builtIn === builtIn);
+          return group.length > 0 && (
+            <optgroup key={String(builtIn)} label={builtIn ? m.presets.builtInGroup : m.presets.mine}>
+              {group.map(preset => (
+                <option key={preset.id} value={preset.id}>
+                  {store.defaults[tab] === preset.id ? '★ ' : ''}{presetName(preset)}
+                </option>
+              ))}
+            </optgroup>
+          );
+        })}
+      </select>
+      <div className="flex items-center justify-between mt-2">
+        <div className="flex gap-1">
+          {iconButton(handleSaveAs, <Save className="w-4 h-4" />, m.presets.saveAs)}
+          {iconButton(handleUpdate, <RefreshCw className="w-4 h-4" />, m.presets.overwrite, !!selected && !selected.builtIn && isModified)}
+          {iconButton(handleDelete, <Trash2 className="w-4 h-4" />, m.presets.delete, !!selected && !selected.builtIn)}
+          {iconButton(handleToggleDefault, <Star className="w-4 h-4" />, isDefault ? m.presets.stopDefault : m.presets.makeDefault, !!selected, isDefault)}
+        </div>
+        <div className="flex gap-1">
+          {iconButton(() => fileInputRef.current?.click(), <FileUp className="w-4 h-4" />, m.presets.import)}
+          {iconButton(handleExport, <FileDown className="w-4 h-4" />, m.presets.export)}
+        </div>
+      </div>
+      {message && <p className="mt-2 text-xs text-gray-400 break-words">{message}</p>}
+      <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+    </div>
+  );
+};
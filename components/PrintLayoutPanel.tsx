@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { Printer, Scissors, Loader2 } from 'lucide-react';
+import { IDPhotoSize, PaperSize, PrintDPI, PrintExportFormat, PrintLayoutSettings } from '../types';
+import { buildPrintSheet, getSheetCapacity } from '../services/printLayout';
+import { downloadBlob } from '../utils/download';
+import { Slider } from './Slider';
+import { errorText, useI18n } from '../i18n';
+
+const DEFAULT_PRINT_SETTINGS: PrintLayoutSettings = {
+  paper: PaperSize.IN_4x6,
+  dpi: PrintDPI.DPI_300,
+  copies: 0,
+  cutGuides: true,
+  format: PrintExportFormat.PNG,
+};
+
+interface PrintLayoutPanelProps {
+  imageUrl: string;
+  size: IDPhotoSize;
+}
+
+export const PrintLayoutPanel: React.FC<PrintLayoutPanelProps> = ({ imageUrl, size }) => {
+  const { m } = useI18n();
+  const [settings, setSettings] = useState<PrintLayoutSettings>(DEFAULT_PRINT_SETTINGS);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const capacity = getSheetCapacity(size, settings.paper);
+  const copies = settings.copies > 0 ? Math.min(settings.copies, capacity) : capacity;
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const result = await buildPrintSheet(imageUrl, size, settings);
+      const ext = settings.format === PrintExportFormat.PDF ? 'pdf' : 'png';
+      downloadBlob(result.blob, `LongRau_PrintSheet_${settings.paper}_${settings.dpi}dpi_${Date.now()}.${ext}`);
+    } catch (err: any) {
+      setError(errorText(err, m.print.failed));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-900 rounded-2xl shadow-xl p-6 border border-gray-800">
+      <h2 className="text-lg font-bold text-white mb-4 flex items-center">
+        <Printer className="w-5 h-5 mr-2 text-pink-500" />
+        {m.print.title}
+      </h2>
+
+      {/* Paper Size */}
+      <div className="mb-4">
+        <label className="block text-sm font-semibold text-gray-300 mb-2">{m.print.paper}</label>
+        <div className="grid grid-cols-3 gap-2">
+          {Object.values(PaperSize).map((paper) => (
+            <button
+              key={paper}
+              onClick={() => setSettings(s => ({ ...s, paper }))}
+              className={`px-3 py-2 text-sm font-medium rounded-lg border transition-all ${
+                settings.paper === paper
+                  ? 'bg-purple-900/30 border-purple-500 text-purple-300 ring-1 ring-purple-500'
+                  : 'bg-gray-800 border-gray-700 text-gray-400 hover:bg-gray-700'
+              }`}
+            >
+              {m.enums.paper[paper]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* DPI & Format */}
+      <div className="mb-4 grid grid-cols-2 gap-3">
+        <div className="flex bg-gray-800 p-1 rounded-xl border border-gray-700">
+          {[PrintDPI.DPI_300, PrintDPI.DPI_600].map((dpi) => (
+            <button
+              key={dpi}
+              onClick={() => setSettings(s => ({ ...s, dpi }))}
+              className={`flex-1 py-2 text-sm font-medium rounded-lg transition-all ${
+                settings.dpi === dpi ? 'bg-gray-700 text-white shadow-sm' : 'text-gray-500 hover:text-gray-300'
+              }`}
+            >
+              {dpi} DPI
+            </button>
+          ))}
+        </div>
+        <div className="flex bg-gray-800 p-1 rounded-xl border border-gray-700">
+          {Object.values(PrintExportFormat).map((format) => (
+            <button
+              key={format}
+              onClick={() => setSettings(s => ({ ...s, format }))}
+              className={`flex-1 py-2 text-sm font-medium rounded-lg transition-all ${
+                settings.format === format ? 'bg-gray-700 text-white shadow-sm' : 'text-gray-500 hover:text-gray-300'
+              }`}
+            >
+              {format}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <Slider
+        label={m.print.copies(copies, capacity)}
+        value={copies}
+        min={1}
+        max={Math.max(1, capacity)}
+        onChange={(v) => setSettings(s => ({ ...s, copies: v === capacity ? 0 : v }))}
+        disabled={capacity === 0}
+      />
+
+      <label className="flex items-center space-x-3 cursor-pointer group mb-4">
+        <input
+          type="checkbox"
+          checked={settings.cutGuides}
+          onChange={(e) => setSettings(s => ({ ...s, cutGuides: e.target.checked }))}
+          className="w-5 h-5 rounded border-gray-600 bg-gray-700 text-purple-600 focus:ring-purple-500"
+        />
+        <span className="text-sm text-gray-400 group-hover:text-gray-200 flex items-center">
+          <Scissors className="w-4 h-4 mr-1" /> {m.print.cutGuides}
+        </span>
+      </label>
+
+      {error && (
+        <p className="mb-3 text-sm text-red-300">{error}</p>
+      )}
+
+      <button
+        onClick={handleExport}
+        disabled={isExporting || capacity === 0}
+        className={`w-full px-6 py-3 rounded-xl font-bold flex items-center justify-center transition-all ${
+          isExporting || capacity === 0
+            ? 'bg-gray-800 text-gray-600 cursor-not-allowed'
+            : 'bg-green-700 text-white shadow-lg shadow-green-900/50 hover:bg-green-600'
+        }`}
+      >
+        {isExporting ? <Loader2 className="w-5 h-5 mr-2 animate-spin" /> : <Printer className="w-5 h-5 mr-2" />}
+        {m.print.export}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,48 @@
+import React from 'react';
+import { Server } from 'lucide-react';
+import { ProviderConfig, ProviderKind } from '../types';
+import { useI18n } from '../i18n';
+
+interface ProviderSettingsProps {
+  config: ProviderConfig;
+  onChange: (config: ProviderConfig) => void;
+  disabled?: boolean;
+}
+
+export const ProviderSettings: React.FC<ProviderSettingsProps> = ({ config, onChange, disabled = false }) => {
+  const { m } = useI18n();
+
+  return (
+    <div className="flex flex-col md:flex-row items-center justify-center gap-2 text-sm">
+      <span className="flex items-center text-gray-400 font-medium">
+        <Server className="w-4 h-4 mr-1" /> {m.header.backend}
+      </span>
+      <div className="flex bg-gray-900 p-1 rounded-xl border border-gray-800">
+        {Object.values(ProviderKind).map((kind) => (
+          <button
+            key={kind}
+            onClick={() => onChange({ ...config, kind })}
+            disabled={disabled}
+            className={`px-3 py-1.5 font-medium rounded-lg transition-all ${
+              config.kind === kind
+                ? 'bg-gray-700 text-white shadow-sm'
+                : 'text-gray-500 hover:text-gray-300'
+            }`}
+          >
+            {m.enums.provider[kind]}
+          </button>
+        ))}
+      </div>
+      {config.kind === ProviderKind.HTTP && (
+        <input
+          type="url"
+          value={config.httpBaseUrl}
+          onChange={(e) => onChange({ ...config, httpBaseUrl: e.target.value })}
+          disabled={disabled}
+          placeholder="http://localhost:8080"
+          className="w-64 px-3 py-1.5 rounded-lg bg-gray-900 border border-gray-700 text-gray-200 placeholder-gray-600 focus:outline-none focus:border-purple-500"
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,64 @@
+import React from 'react';
+import { Gauge, AlertTriangle, Loader2 } from 'lucide-react';
+import { QualityMetrics } from '../types';
+import { formatDecimal, formatPercent, useI18n } from '../i18n';
+
+interface QualityMetricsBadgeProps {
+  metrics: QualityMetrics | null; // null while they are computed
+}
+
+const ratio = (before: number, after: number) => (before > 0 ? `×${formatDecimal(after / before, 2)}` : '—');
+const change = (before: number, after: number) => `${formatDecimal(before, 1)} → ${formatDecimal(after, 1)}`;
+
+// Objective numbers for the shown result, compared with its input
+export const QualityMetricsBadge: React.FC<QualityMetricsBadgeProps> = ({ metrics }) => {
+  const { m } = useI18n();
+
+  if (!metrics) {
+    return (
+      <div className="bg-black/75 text-gray-400 text-[11px] px-2 py-1 rounded-lg flex items-center pointer-events-none">
+        <Loader2 className="w-3 h-3 mr-1 animate-spin" /> {m.quality.measuring}
+      </div>
+    );
+  }
+
+  const rows: { label: string; value: string; title: string }[] = [
+    { label: m.quality.sharpness, value: ratio(metrics.sharpness.before, metrics.sharpness.after), title: m.quality.sharpnessHint },
+    { label: m.quality.noise, value: change(metrics.noise.before, metrics.noise.after), title: m.quality.noiseHint },
+    { label: m.quality.resolution, value: `×${formatDecimal(metrics.resolutionGain, 2)}`, title: m.quality.resolutionHint },
+    { label: m.quality.colorCast, value: change(metrics.colorCast.before, metrics.colorCast.after), title: m.quality.colorCastHint },
+    {
+      label: m.quality.similarity,
+      value: `${formatDecimal(metrics.similarity, 2)}${metrics.similarityBasis === 'face' ? m.quality.onFace : ''}`,
+      title: metrics.similarityBasis === 'face' ? m.quality.similarityFaceHint : m.quality.similarityImageHint
+    }
+  ];
+
+  return (
+    <div className="bg-black/75 text-[11px] text-gray-300 px-2 py-1.5 rounded-lg min-w-[150px]">
+      <div className="flex items-center text-gray-400 mb-1">
+        <Gauge className="w-3 h-3 mr-1" /> {m.quality.title}
+      </div>
+      {rows.map(row => (
+        <div key={row.label} className="flex justify-between gap-3" title={row.title}>
+          <span className="text-gray-500">{row.label}</span>
+          <span className="font-mono">{row.value}</span>
+        </div>
+      ))}
+      {metrics.faceDrift !== null && (
+        <div
+          className={`flex justify-between gap-3 ${metrics.driftFlagged ? 'text-red-400 font-semibold' : ''}`}
+          title={m.quality.driftHint}
+        >
+          <span className={metrics.driftFlagged ? 'flex items-center' : 'text-gray-500'}>
+            {metrics.driftFlagged && <AlertTriangle className="w-3 h-3 mr-1" />}{m.quality.drift}
+          </span>
+          <span className="font-mono">{formatPercent(metrics.faceDrift)}</span>
+        </div>
+      )}
+      {metrics.driftFlagged && (
+        <p className="text-red-300 mt-1 max-w-[180px]">{m.quality.driftWarning}</p>
+      )}
+    </div>
+  );
+};
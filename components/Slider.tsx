@@ -5,6 +5,7 @@ interface SliderProps {
   value: number;
   min?: number;
   max?: number;
+  step?: number;
   onChange: (val: number) => void;
   disabled?: boolean;
 }
@@ -14,6 +15,7 @@ export const Slider: React.FC<SliderProps> = ({
   value, 
   min = 0, 
   max = 100, 
+  step = 1,
   onChange,
   disabled = false
 }) => {
@@ -27,6 +29,7 @@ export const Slider: React.FC<SliderProps> = ({
         type="range"
         min={min}
         max={max}
+        step={step}
         value={value}
         onChange={(e) => onChange(Number(e.target.value))}
         disabled={disabled}
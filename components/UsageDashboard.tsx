@@ -0,0 +1,255 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, Wallet, Trash2, FileDown } from 'lucide-react';
+import { BudgetMode, BudgetSettings, UsageEntry } from '../types';
+import {
+  loadUsage,
+  loadBudget,
+  saveBudget,
+  clearUsage,
+  subscribeUsage,
+  getSpending,
+  sumUsage,
+  dayKey,
+  monthKey,
+  formatUsd,
+  usageToCsv
+} from '../services/usage';
+import { downloadBlob } from '../utils/download';
+import { formatBytes } from '../utils/format';
+import { formatDecimal, formatDateTime, useI18n } from '../i18n';
+
+interface UsageDashboardProps {
+  onClose: () => void;
+}
+
+const CHART_DAYS = 30;
+const RECENT_CALLS = 50;
+const MONTHS_SHOWN = 12;
+
+const size = (width: number | null, height: number | null) => (width && height ? `${width}×${height}` : '—');
+
+// Share of a cap that is used, for the progress bars
+const BudgetBar: React.FC<{ label: string; spent: number; calls: number; cap: number }> = ({ label, spent, calls, cap }) => {
+  const { m } = useI18n();
+  const percent = cap > 0 ? Math.min(100, (spent / cap) * 100) : 0;
+  return (
+    <div className="bg-gray-800 rounded-xl p-3 border border-gray-700">
+      <div className="text-xs text-gray-400">{label}</div>
+      <div className="text-2xl font-bold text-white">{formatUsd(spent)}</div>
+      <div className="text-xs text-gray-500">{m.usage.calls(calls)} · {cap > 0 ? m.usage.cap(formatUsd(cap)) : m.usage.noCap}</div>
+      {cap > 0 && (
+        <div className="h-1.5 bg-gray-700 rounded-full overflow-hidden mt-2">
+          <div
+            className={`h-full ${percent >= 100 ? 'bg-red-500' : percent >= 80 ? 'bg-amber-500' : 'bg-green-500'}`}
+            style={{ width: `${percent}%` }}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const UsageDashboard: React.FC<UsageDashboardProps> = ({ onClose }) => {
+  const { m } = useI18n();
+  const [entries, setEntries] = useState<UsageEntry[]>(loadUsage);
+  const [budget, setBudget] = useState<BudgetSettings>(loadBudget);
+
+  useEffect(() => subscribeUsage(() => setEntries(loadUsage())), []);
+
+  const updateBudget = (patch: Partial<BudgetSettings>) => {
+    const next = { ...budget, ...patch };
+    setBudget(next);
+    saveBudget(next);
+  };
+
+  const now = Date.now();
+  const spending = getSpending(entries, now);
+
+  const days = useMemo(() => {
+    const byDay = new Map<string, number>();
+    entries.forEach(e => byDay.set(dayKey(e.time), (byDay.get(dayKey(e.time)) ?? 0) + e.costUsd));
+    return Array.from({ length: CHART_DAYS }, (_, i) => {
+      const time = now - (CHART_DAYS - 1 - i) * 86_400_000;
+      return { key: dayKey(time), costUsd: byDay.get(dayKey(time)) ?? 0 };
+    });
+  }, [entries]);
+  const maxDay = Math.max(...days.map(d => d.costUsd), 0.01);
+
+  const months = useMemo(() => {
+    const keys = Array.from(new Set(entries.map(e => monthKey(e.time)))).sort().reverse().slice(0, MONTHS_SHOWN);
+    return keys.map(key => ({ key, ...sumUsage(entries.filter(e => monthKey(e.time) === key)) }));
+  }, [entries]);
+
+  const models = useMemo(() => {
+    const thisMonth = entries.filter(e => monthKey(e.time) === monthKey(now));
+    return Array.from(new Set(thisMonth.map(e => e.model)))
+      .map(model => ({ model, ...sumUsage(thisMonth.filter(e => e.model === model)) }))
+      .sort((a, b) => b.costUsd - a.costUsd);
+  }, [entries]);
+
+  const handleClear = () => {
+    if (!window.confirm(m.usage.confirmClear)) return;
+    clearUsage();
+  };
+
+  const handleExport = () => {
+    downloadBlob(new Blob([usageToCsv(entries)], { type: 'text/csv' }), `usage_${dayKey(now)}.csv`);
+  };
+
+  const capInput = (label: string, value: number, onChange: (v: number) => void) => (
+    <label className="flex items-center justify-between gap-2 text-sm text-gray-300">
+      {label}
+      <span className="flex items-center gap-1">
+        <span className="text-gray-500">$</span>
+        <input
+          type="number"
+          min={0}
+          step={0.5}
+          value={value || ''}
+          placeholder={m.usage.noCapPlaceholder}
+          onChange={(e) => onChange(Math.max(0, Number(e.target.value) || 0))}
+          className="w-24 bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-right text-gray-200 focus:outline-none focus:border-purple-500"
+        />
+      </span>
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-gray-900 border border-gray-800 rounded-2xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="p-4 border-b border-gray-800 flex items-center justify-between">
+          <h2 className="text-lg font-bold text-white flex items-center">
+            <Wallet className="w-5 h-5 mr-2 text-pink-500" /> {m.usage.title}
+          </h2>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-white hover:bg-gray-800 rounded-lg">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto space-y-6">
+          {/* Totals and budget */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <BudgetBar label={m.usage.today} spent={spending.today.costUsd} calls={spending.today.calls} cap={budget.dailyUsd} />
+            <BudgetBar label={m.usage.thisMonth} spent={spending.month.costUsd} calls={spending.month.calls} cap={budget.monthlyUsd} />
+            <div className="bg-gray-800 rounded-xl p-3 border border-gray-700 space-y-2">
+              {capInput(m.usage.dailyCap, budget.dailyUsd, (v) => updateBudget({ dailyUsd: v }))}
+              {capInput(m.usage.monthlyCap, budget.monthlyUsd, (v) => updateBudget({ monthlyUsd: v }))}
+              <div className="flex bg-gray-900 p-1 rounded-lg text-xs">
+                {[BudgetMode.WARN, BudgetMode.BLOCK].map(mode => (
+                  <button
+                    key={mode}
+                    onClick={() => updateBudget({ mode })}
+                    className={`flex-1 py-1 rounded-md ${budget.mode === mode ? 'bg-gray-700 text-white' : 'text-gray-400 hover:text-gray-200'}`}
+                  >
+                    {mode === BudgetMode.WARN ? m.usage.warn : m.usage.block}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {/* Daily chart */}
+          <div>
+            <h3 className="text-sm font-semibold text-gray-300 mb-2">{m.usage.lastDays(CHART_DAYS)}</h3>
+            <div className="flex items-end gap-0.5 h-32 bg-gray-800/50 rounded-lg p-2 border border-gray-800">
+              {days.map(d => (
+                <div
+                  key={d.key}
+                  title={`${d.key}: ${formatUsd(d.costUsd)}`}
+                  className={`flex-1 rounded-t ${d.costUsd > 0 ? 'bg-purple-500 hover:bg-purple-400' : 'bg-gray-700'}`}
+                  style={{ height: `${Math.max(2, (d.costUsd / maxDay) * 100)}%` }}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {/* Monthly totals */}
+            <div>
+              <h3 className="text-sm font-semibold text-gray-300 mb-2">{m.usage.byMonth}</h3>
+              <table className="w-full text-xs text-gray-400">
+                <tbody>
+                  {months.length === 0 && (
+                    <tr><td className="py-1 text-gray-500">{m.usage.none}</td></tr>
+                  )}
+                  {months.map(month => (
+                    <tr key={month.key} className="border-t border-gray-800">
+                      <td className="py-1 font-mono">{month.key}</td>
+                      <td className="py-1 text-right">{m.usage.calls(month.calls)}{month.failed ? ` · ${m.usage.failed(month.failed)}` : ''}</td>
+                      <td className="py-1 text-right font-mono text-gray-200">{formatUsd(month.costUsd)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Per model */}
+            <div>
+              <h3 className="text-sm font-semibold text-gray-300 mb-2">{m.usage.byModel}</h3>
+              <table className="w-full text-xs text-gray-400">
+                <tbody>
+                  {models.map(row => (
+                    <tr key={row.model} className="border-t border-gray-800">
+                      <td className="py-1 font-mono">{row.model}</td>
+                      <td className="py-1 text-right">{m.usage.calls(row.calls)}</td>
+                      <td className="py-1 text-right font-mono text-gray-200">{formatUsd(row.costUsd)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Recent calls */}
+          <div>
+            <h3 className="text-sm font-semibold text-gray-300 mb-2">{m.usage.recent}</h3>
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs text-gray-400 whitespace-nowrap">
+                <thead>
+                  <tr className="text-gray-500 text-left">
+                    <th className="py-1 pr-3 font-medium">{m.usage.columns.time}</th>
+                    <th className="py-1 pr-3 font-medium">{m.usage.columns.mode}</th>
+                    <th className="py-1 pr-3 font-medium">{m.usage.columns.model}</th>
+                    <th className="py-1 pr-3 font-medium">{m.usage.columns.input}</th>
+                    <th className="py-1 pr-3 font-medium">{m.usage.columns.output}</th>
+                    <th className="py-1 pr-3 font-medium text-right">{m.usage.columns.duration}</th>
+                    <th className="py-1 font-medium text-right">{m.usage.columns.cost}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {entries.slice(-RECENT_CALLS).reverse().map(e => (
+                    <tr key={e.id} className="border-t border-gray-800">
+                      <td className="py-1 pr-3">{formatDateTime(e.time)}</td>
+                      <td className="py-1 pr-3">{m.tabs[e.tab]}{e.tile ? ` · ${m.usage.tile}` : ''}</td>
+                      <td className="py-1 pr-3 font-mono">{e.model}</td>
+                      <td className="py-1 pr-3">{size(e.inputWidth, e.inputHeight)} · {formatBytes(e.inputBytes)}</td>
+                      <td className="py-1 pr-3">
+                        {e.errorKind ? <span className="text-red-400" title={e.errorKind}>{m.errors[e.errorKind].title}</span> : `${size(e.outputWidth, e.outputHeight)} · ${formatBytes(e.outputBytes)}`}
+                      </td>
+                      <td className="py-1 pr-3 text-right">{formatDecimal(e.durationMs / 1000, 1)}s</td>
+                      <td className="py-1 text-right font-mono text-gray-200">{formatUsd(e.costUsd)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-gray-800 flex items-center justify-between text-sm">
+          <p className="text-xs text-gray-500">{m.usage.footnote}</p>
+          <div className="flex gap-2">
+            <button onClick={handleExport} disabled={!entries.length} className="px-3 py-1.5 rounded-lg text-gray-300 hover:bg-gray-800 flex items-center disabled:opacity-40">
+              <FileDown className="w-4 h-4 mr-1" /> CSV
+            </button>
+            <button onClick={handleClear} disabled={!entries.length} className="px-3 py-1.5 rounded-lg text-red-400 hover:bg-red-900/20 flex items-center disabled:opacity-40">
+              <Trash2 className="w-4 h-4 mr-1" /> {m.common.clear}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from 'react';
+import { Star, Check, Combine, Loader2, X } from 'lucide-react';
+import { HistoryVersion } from '../types';
+import { canMixBackgrounds, findVariantBackgrounds } from '../services/variants';
+import { errorText, useI18n } from '../i18n';
+
+interface VariantGridProps {
+  variants: HistoryVersion[];
+  currentId: string;
+  disabled?: boolean;
+  onSelect: (versionId: string) => void;
+  onToggleStar: (versionId: string) => void;
+  onMix: (baseId: string, backgroundId: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const variantLabel = (index: number) => String.fromCharCode(65 + index);
+
+// Candidates of one run side by side: pick one, star favourites, or combine two
+export const VariantGrid: React.FC<VariantGridProps> = ({
+  variants,
+  currentId,
+  disabled = false,
+  onSelect,
+  onToggleStar,
+  onMix,
+  onClose
+}) => {
+  const { m } = useI18n();
+  const [baseId, setBaseId] = useState(variants[1]?.id ?? variants[0].id);
+  const [backgroundId, setBackgroundId] = useState(variants[0].id);
+  const [isMixing, setIsMixing] = useState(false);
+  const [mixError, setMixError] = useState<string | null>(null);
+  // Flat background colour per variant id; undefined while they are being found
+  const [backgrounds, setBackgrounds] = useState<Record<string, number[] | null>>();
+
+  const variantKey = variants.map(v => v.id).join(',');
+  useEffect(() => {
+    let cancelled = false;
+    setBackgrounds(undefined);
+    findVariantBackgrounds(variants.map(v => v.imageUrl))
+      .catch(() => variants.map(() => null))
+      .then(colors => {
+        if (!cancelled) setBackgrounds(Object.fromEntries(variants.map((v, i) => [v.id, colors[i]])));
+      });
+    return () => { cancelled = true; };
+  }, [variantKey]);
+
+  const labels = new Map(variants.map((v, i) => [v.id, variantLabel(i)]));
+  const describe = (v: HistoryVersion) =>
+    v.mixedFrom
+      ? m.variants.mixed(labels.get(v.mixedFrom.baseId) ?? '?', labels.get(v.mixedFrom.backgroundId) ?? '?')
+      : m.variants.label(labels.get(v.id) ?? '?');
+
+  // Mixing is only offered between variants whose different, plain backgrounds the mask can find
+  const anyMixable = !!backgrounds && variants.some(a => variants.some(b => canMixBackgrounds(backgrounds[a.id], backgrounds[b.id])));
+  const canMix = !!backgrounds && baseId !== backgroundId && canMixBackgrounds(backgrounds[baseId], backgrounds[backgroundId]);
+  // Why the Mix button is off: first for the whole run, then for the chosen pair
+  const mixHint = (): string | null => {
+    if (!backgrounds || canMix) return null;
+    if (!anyMixable) {
+      return variants.filter(v => backgrounds[v.id]).length < 2 ? m.variants.fewPlainBackgrounds : m.variants.sameBackgrounds;
+    }
+    if (baseId === backgroundId) return null;
+    const missing = variants.find(v => (v.id === baseId || v.id === backgroundId) && !backgrounds[v.id]);
+    return missing ? m.variants.noPlainBackground(describe(missing)) : m.variants.sameBackground;
+  };
+
+  const handleMix = async () => {
+    setIsMixing(true);
+    setMixError(null);
+    try {
+      await onMix(baseId, backgroundId);
+    } catch (err: any) {
+      setMixError(errorText(err, m.variants.mixFailed));
+    } finally {
+      setIsMixing(false);
+    }
+  };
+
+  const selectClass = 'bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-gray-200 focus:outline-none focus:border-purple-500 disabled:opacity-40';
+
+  return (
+    <div className="w-full h-full flex flex-col gap-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-300">
+          {m.variants.title(variants.length)}
+        </h3>
+        <button onClick={onClose} className="p-1.5 text-gray-400 hover:text-white hover:bg-gray-800 rounded-lg" title={m.variants.back}>
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className={`grid gap-3 ${variants.length > 4 ? 'grid-cols-2 md:grid-cols-3' : 'grid-cols-2'}`}>
+        {variants.map(v => {
+          const isCurrent = v.id === currentId;
+          return (
+            <div
+              key={v.id}
+              className={`relative rounded-xl overflow-hidden border-2 bg-gray-900 ${
+                isCurrent ? 'border-purple-500 ring-2 ring-purple-500/40' : 'border-gray-800'
+              }`}
+            >
+              <button
+                onClick={() => onSelect(v.id)}
+                disabled={disabled}
+                className="block w-full"
+                title={m.variants.use}
+              >
+                <img src={v.imageUrl} alt={describe(v)} className="w-full max-h-[260px] object-contain bg-black" />
+              </button>
+              <div className="absolute top-2 left-2 bg-black/75 text-xs font-bold text-white px-2 py-0.5 rounded-full">
+                {describe(v)}
+              </div>
+              <button
+                onClick={() => onToggleStar(v.id)}
+                className={`absolute top-2 right-2 p-1.5 rounded-full bg-black/60 ${v.starred ? 'text-yellow-400' : 'text-gray-400 hover:text-yellow-300'}`}
+                title={v.starred ? m.variants.unstar : m.variants.star}
+              >
+                <Star className="w-4 h-4" fill={v.starred ? 'currentColor' : 'none'} />
+              </button>
+              {isCurrent && (
+                <div className="absolute bottom-2 right-2 bg-purple-600 text-white text-xs font-bold px-2 py-0.5 rounded-full flex items-center">
+                  <Check className="w-3 h-3 mr-1" /> {m.variants.selected}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Mix two variants */}
+      {!backgrounds ? (
+        <p className="text-xs text-gray-500 flex items-center">
+          <Loader2 className="w-3 h-3 mr-1 animate-spin" /> {m.variants.checkingBackgrounds}
+        </p>
+      ) : (
+        <div className="flex flex-wrap items-center gap-2 text-sm text-gray-400">
+          <Combine className="w-4 h-4 text-purple-400" />
+          {m.variants.keep}
+          <select value={baseId} onChange={(e) => setBaseId(e.target.value)} disabled={!anyMixable} className={selectClass}>
+            {variants.map(v => <option key={v.id} value={v.id}>{describe(v)}</option>)}
+          </select>
+          {m.variants.withBackgroundOf}
+          <select value={backgroundId} onChange={(e) => setBackgroundId(e.target.value)} disabled={!anyMixable} className={selectClass}>
+            {variants.map(v => <option key={v.id} value={v.id}>{describe(v)}</option>)}
+          </select>
+          <button
+            onClick={handleMix}
+            disabled={disabled || isMixing || !canMix}
+            className="px-3 py-1.5 rounded-lg bg-purple-700 text-white font-medium hover:bg-purple-600 flex items-center disabled:opacity-40"
+          >
+            {isMixing ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Combine className="w-4 h-4 mr-1" />} {m.variants.mix}
+          </button>
+        </div>
+      )}
+      {mixHint() && <p className="text-xs text-gray-500">{mixHint()}</p>}
+      {mixError && <p className="text-xs text-red-400">{mixError}</p>}
+    </div>
+  );
+};
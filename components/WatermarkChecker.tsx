@@ -0,0 +1,113 @@
+import React, { useRef, useState } from 'react';
+import { X, ShieldCheck, ShieldX, Upload, Loader2 } from 'lucide-react';
+import { LibraryProject } from '../types';
+import { InvisibleMark, readInvisibleMark } from '../services/invisibleMark';
+import { listProjects } from '../services/projectLibrary';
+import { readFileAsDataUrl } from '../utils/file';
+import { formatDateTime, useI18n } from '../i18n';
+
+interface WatermarkCheckerProps {
+  onClose: () => void;
+}
+
+type CheckResult =
+  | { found: true; mark: InvisibleMark; project: LibraryProject | null }
+  | { found: false };
+
+// Reads the job ID and export time hidden by "Hide job ID and date" in the export dialog
+export const WatermarkChecker: React.FC<WatermarkCheckerProps> = ({ onClose }) => {
+  const { m } = useI18n();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [result, setResult] = useState<CheckResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setFileName(file.name);
+    setResult(null);
+    setError(null);
+    setIsReading(true);
+    try {
+      const url = await readFileAsDataUrl(file);
+      setPreview(url);
+      const mark = await readInvisibleMark(url);
+      if (!mark) {
+        setResult({ found: false });
+        return;
+      }
+      // The library is only a lookup; a mark from another browser is still valid
+      const projects = await listProjects().catch(() => []);
+      setResult({ found: true, mark, project: projects.find(p => p.id === mark.jobId) ?? null });
+    } catch {
+      setError(m.markChecker.failed);
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-gray-900 border border-gray-800 rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="p-4 border-b border-gray-800 flex items-center justify-between">
+          <h2 className="text-lg font-bold text-white flex items-center">
+            <ShieldCheck className="w-5 h-5 mr-2 text-pink-500" /> {m.markChecker.title}
+          </h2>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-white hover:bg-gray-800 rounded-lg">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto">
+          <p className="mb-4 text-sm text-gray-400">{m.markChecker.intro}</p>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isReading}
+            className="w-full py-3 mb-4 rounded-xl font-bold text-white bg-purple-700 hover:bg-purple-600 disabled:bg-gray-700 disabled:cursor-not-allowed transition-all flex items-center justify-center"
+          >
+            {isReading
+              ? <><Loader2 className="w-5 h-5 mr-2 animate-spin" /> {m.markChecker.reading}</>
+              : <><Upload className="w-5 h-5 mr-2" /> {m.markChecker.choose}</>}
+          </button>
+          <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={handleFile} />
+
+          {preview && (
+            <div className="mb-4 flex items-center gap-3">
+              <img src={preview} alt="" className="w-16 h-16 object-cover rounded-lg border border-gray-700" />
+              <span className="text-sm text-gray-300 font-mono break-all">{fileName}</span>
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-400">{error}</p>}
+          {result && !result.found && (
+            <p className="text-sm text-amber-400 flex items-start">
+              <ShieldX className="w-4 h-4 mr-2 mt-0.5 shrink-0" /> {m.markChecker.notFound}
+            </p>
+          )}
+          {result?.found && (
+            <div className="bg-gray-800 rounded-xl p-4 border border-green-800">
+              <p className="text-sm font-semibold text-green-400 flex items-center mb-3">
+                <ShieldCheck className="w-4 h-4 mr-2" /> {m.markChecker.found}
+              </p>
+              <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+                <dt className="text-gray-500">{m.markChecker.jobId}</dt>
+                <dd className="text-gray-200 font-mono break-all">{result.mark.jobId}</dd>
+                <dt className="text-gray-500">{m.markChecker.exportedAt}</dt>
+                <dd className="text-gray-200">{formatDateTime(result.mark.time)}</dd>
+                <dt className="text-gray-500">{m.markChecker.project}</dt>
+                <dd className={result.project ? 'text-gray-200' : 'text-gray-500'}>
+                  {result.project ? result.project.name : m.markChecker.notInLibrary}
+                </dd>
+              </dl>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+import { useSyncExternalStore } from 'react';
+import { AppError } from '../services/errors';
+import { en } from './locales/en';
+import { vi } from './locales/vi';
+
+export type Messages = typeof en.messages;
+
+export interface Locale {
+  code: string; // BCP 47 language, e.g. 'vi'
+  name: string; // In its own language, for the switcher
+  intl: string; // Locale for number and date formatting, e.g. 'vi-VN'
+  messages: Messages;
+}
+
+// Available languages; the first is the fallback. A new language is one more catalog in locales/.
+export const LOCALES: Locale[] = [vi, en];
+
+const STORAGE_KEY = 'longrau.locale';
+
+const findLocale = (code: string | null | undefined): Locale | undefined =>
+  code ? LOCALES.find(locale => locale.code === code || code.startsWith(`${locale.code}-`)) : undefined;
+
+// Saved choice first, then the browser's languages in order of preference
+const initialLocale = (): Locale => {
+  if (typeof localStorage !== 'undefined') {
+    const stored = findLocale(localStorage.getItem(STORAGE_KEY));
+    if (stored) return stored;
+  }
+  const preferred = typeof navigator !== 'undefined' ? navigator.languages ?? [navigator.language] : [];
+  for (const code of preferred) {
+    const match = findLocale(code?.toLowerCase());
+    if (match) return match;
+  }
+  return LOCALES[0];
+};
+
+let current = initialLocale();
+const listeners = new Set<() => void>();
+
+const applyDocumentLanguage = () => {
+  if (typeof document !== 'undefined') document.documentElement.lang = current.code;
+};
+applyDocumentLanguage();
+
+export const getLocale = (): Locale => current;
+
+// Messages of the current language, for code outside React components
+export const getMessages = (): Messages => current.messages;
+
+export const setLocale = (code: string) => {
+  const next = findLocale(code);
+  if (!next || next === current) return;
+  current = next;
+  if (typeof localStorage !== 'undefined') localStorage.setItem(STORAGE_KEY, next.code);
+  applyDocumentLanguage();
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeLocale = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Current language for components; they re-render when it changes
+export const useI18n = () => {
+  const locale = useSyncExternalStore(subscribeLocale, getLocale, getLocale);
+  return { locale, m: locale.messages };
+};
+
+// Catalog text of an AppError in the current language. Other errors get `fallback`: their
+// messages come from browsers and libraries and are not translated.
+export const errorText = (error: unknown, fallback: string): string =>
+  error instanceof AppError ? current.messages.appErrors[error.code](error.params) : fallback;
+
+export const formatNumber = (value: number, options?: Intl.NumberFormatOptions): string =>
+  new Intl.NumberFormat(current.intl, options).format(value);
+
+export const formatDecimal = (value: number, digits: number): string =>
+  formatNumber(value, { minimumFractionDigits: digits, maximumFractionDigits: digits });
+
+// `fraction` is 0-1
+export const formatPercent = (fraction: number, digits = 0): string =>
+  formatNumber(fraction, { style: 'percent', minimumFractionDigits: digits, maximumFractionDigits: digits });
+
+export const formatCurrency = (value: number, currency: string): string =>
+  formatNumber(value, { style: 'currency', currency });
+
+export const formatDate = (time: number): string =>
+  new Intl.DateTimeFormat(current.intl, { dateStyle: 'medium' }).format(time);
+
+export const formatDateTime = (time: number): string =>
+  new Intl.DateTimeFormat(current.intl, { dateStyle: 'short', timeStyle: 'short' }).format(time);
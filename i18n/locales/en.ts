@@ -0,0 +1,652 @@
+import {
+  AIErrorKind,
+  AppErrorCode,
+  AppErrorParams,
+  AppTab,
+  BatchItemStatus,
+  ComplianceStatus,
+  EnhancementMode,
+  EnhancementQuality,
+  IDBackgroundStyle,
+  IDDocumentType,
+  IDPhotoBackground,
+  IDPhotoSize,
+  PaperSize,
+  ProviderKind,
+  WatermarkKind,
+  WatermarkPosition
+} from '../../types';
+
+// Reference catalog: every other language has to provide the same keys and function signatures
+export const en = {
+  code: 'en',
+  name: 'English',
+  intl: 'en-US',
+  messages: {
+    common: {
+      apply: 'Apply',
+      cancel: 'Cancel',
+      clear: 'Clear',
+      delete: 'Delete',
+      details: 'Details',
+      done: 'Done',
+      original: 'Original',
+      remove: 'Remove',
+      reset: 'Reset',
+      result: 'Result',
+      retry: 'Retry'
+    },
+    header: {
+      provider: {
+        [ProviderKind.GEMINI]: 'Gemini 3 Pro Active',
+        [ProviderKind.MOCK]: 'Mock Backend (Offline)',
+        [ProviderKind.HTTP]: 'Self-hosted Backend'
+      },
+      backend: 'Backend',
+      library: 'Library',
+      usage: 'Usage',
+      checkMark: 'Check Watermark',
+      language: 'Language'
+    },
+    tabs: {
+      [AppTab.ENHANCE]: 'Enhance Photo',
+      [AppTab.ID_PHOTO]: 'ID Photo',
+      [AppTab.RESTORE]: 'Restore Photo'
+    },
+    enums: {
+      quality: {
+        [EnhancementQuality.Q_2K]: '2K (Fast)',
+        [EnhancementQuality.Q_4K]: '4K (Sharp)',
+        [EnhancementQuality.Q_8K]: '8K ULTRA HDR'
+      },
+      mode: {
+        [EnhancementMode.UPSCALE_ONLY]: 'Upscale Only',
+        [EnhancementMode.ENHANCE_RESTORE]: 'Enhance & Restore'
+      },
+      size: {
+        [IDPhotoSize.SIZE_2x3]: '2x3 cm',
+        [IDPhotoSize.SIZE_3x4]: '3x4 cm',
+        [IDPhotoSize.SIZE_4x6]: '4x6 cm',
+        [IDPhotoSize.SIZE_35x45]: '3.5x4.5 cm (Passport)',
+        [IDPhotoSize.SIZE_33x48]: '3.3x4.8 cm',
+        [IDPhotoSize.SIZE_5x5]: '5x5 cm (Visa)'
+      },
+      background: {
+        [IDPhotoBackground.WHITE]: 'White',
+        [IDPhotoBackground.BLUE]: 'Blue',
+        [IDPhotoBackground.RED]: 'Red',
+        [IDPhotoBackground.BLACK]: 'Black',
+        [IDPhotoBackground.GRAY]: 'Gray'
+      },
+      backgroundStyle: {
+        [IDBackgroundStyle.SOLID]: 'Solid',
+        [IDBackgroundStyle.GRADIENT]: 'Gradient',
+        [IDBackgroundStyle.IMAGE]: 'Backdrop'
+      },
+      paper: {
+        [PaperSize.IN_4x6]: '4x6 in',
+        [PaperSize.CM_10x15]: '10x15 cm',
+        [PaperSize.A4]: 'A4'
+      },
+      documentType: {
+        [IDDocumentType.PASSPORT]: 'Passport',
+        [IDDocumentType.VISA]: 'Visa',
+        [IDDocumentType.ID_CARD]: 'ID card',
+        [IDDocumentType.PROFILE]: 'Profile'
+      },
+      provider: {
+        [ProviderKind.GEMINI]: 'Gemini',
+        [ProviderKind.MOCK]: 'Mock (Offline)',
+        [ProviderKind.HTTP]: 'Self-hosted'
+      }
+    },
+    // Names of the document specs in services/idPhotoSpecs, by spec id and country code
+    idSpecs: {
+      names: {
+        'vn-passport': 'Passport',
+        'vn-id-card': 'ID card',
+        'vn-profile-3x4': 'Application form 3x4',
+        'vn-profile-4x6': 'Application form 4x6',
+        'vn-visa': 'Visa',
+        'us-passport': 'Passport',
+        'us-visa': 'Visa',
+        'schengen-visa': 'Schengen visa',
+        'uk-passport': 'Passport',
+        'cn-visa': 'Visa',
+        'jp-passport': 'Passport',
+        'kr-passport': 'Passport'
+      } as Record<string, string>,
+      countries: {
+        VN: 'Vietnam',
+        US: 'United States',
+        EU: 'Schengen Area',
+        GB: 'United Kingdom',
+        CN: 'China',
+        JP: 'Japan',
+        KR: 'South Korea'
+      } as Record<string, string>,
+      custom: 'Custom',
+      customSize: 'Custom size'
+    },
+    enhance: {
+      title: 'Enhancement Controls',
+      quality: 'Output Quality',
+      tiled: 'True Resolution (Tiled)',
+      tiledHint: (pixels: number) => `${pixels} px long edge · processed in overlapping tiles, one request each`,
+      mode: 'Processing Mode',
+      retouch: 'Face Retouch',
+      sharpening: 'Sharpening',
+      upscale: 'AI Upscale Strength',
+      advanced: 'Advanced Options',
+      hyperRealism: 'Hyper-Realism Texture',
+      colorize: 'Color Correction',
+      makeup: 'Natural Makeup',
+      tips: [
+        { title: 'Smart Upscaling', desc: 'Up to 800% zoom without quality loss' },
+        { title: 'Face Recovery', desc: 'Restores blurry faces with AI precision' },
+        { title: 'Auto Color', desc: 'Balances lighting and corrects tone' }
+      ]
+    },
+    idPhoto: {
+      title: 'ID Photo Settings',
+      document: 'Document Type',
+      head: (min: number, max: number) => `Head ${min}–${max} mm`,
+      eyes: (min: number, max: number) => `Eyes ${min}–${max} mm from bottom`,
+      glassesOk: 'Glasses OK',
+      noGlasses: 'No glasses',
+      smileOk: 'Smile OK',
+      neutral: 'Neutral expression',
+      size: 'Size',
+      background: 'Background Colour',
+      retouch: 'Skin & Retouching',
+      skinSmoothing: 'Skin Smoothing',
+      blemishes: 'Remove Acne & Scratches',
+      blemishesHint: 'Acne & blemish removal',
+      fixLighting: 'Balance Lighting',
+      tips: [
+        { title: 'Auto Background', desc: 'Removes clutter, adds solid color' },
+        { title: 'Pro Retouch', desc: 'Removes acne & smooths skin' },
+        { title: 'Standard Sizes', desc: 'Ready for ID cards & Passports' }
+      ]
+    },
+    backgroundOptions: {
+      pickExact: 'Pick an exact colour',
+      customColor: 'Custom colour',
+      standard: (name: string) => `Standard ${name}`,
+      offSpec: (name: string) => `This colour is close to ${name.toLowerCase()}, which this document does not accept.`,
+      studioOnly: 'Studio photo — not for identity documents.',
+      pickBackdrop: 'Choose or upload a backdrop.',
+      upload: 'Upload backdrop',
+      storageFull: 'Not enough browser storage. Delete some backdrops.',
+      readFailed: 'Could not read this backdrop.'
+    },
+    restore: {
+      title: 'Restore Old Photo',
+      poweredBy: 'Powered by Gemini 3 Pro',
+      poweredByDesc: 'Uses the latest AI model to rebuild detail and lifelike colour.',
+      damage: 'Scratches & Noise',
+      scratches: 'Scratch Removal',
+      denoise: 'Denoise',
+      options: 'Restoration Options',
+      colorize: 'Colorize',
+      colorizeHint: 'Colours black and white photos or brings back faded colour',
+      face: 'Face Restore',
+      faceHint: 'Keeps the original features without distortion',
+      deblur: 'Sharpen & Deblur',
+      tips: [
+        { title: 'Gemini 3 Pro', desc: 'Using latest Vision model' },
+        { title: 'Smart Colorize', desc: 'Brings B&W photos to life' },
+        { title: 'Authentic Restore', desc: 'Keeps original facial features' }
+      ]
+    },
+    workspace: {
+      title: 'Workspace',
+      idMode: 'ID MODE',
+      batch: 'BATCH',
+      restoreMode: 'RESTORE MODE',
+      rotated: 'rotated upright',
+      metadata: (kept: boolean) => `metadata ${kept ? 'kept' : 'stripped'}`,
+      originalSize: (width: number, height: number, format: string) => `Original ${width}×${height} ${format}`,
+      uploadSize: (width: number, height: number) => `Upload ${width}×${height}`,
+      adjust: 'Adjust',
+      adjustHint: 'Crop, rotate, exposure, colour and curves, without AI',
+      mask: 'Mask',
+      maskOn: 'Mask On',
+      maskHint: 'Paint the areas to edit; everything else stays untouched',
+      variants: (count: number) => `Variants (${count})`,
+      variantsHint: 'Compare the candidates of this run',
+      drop: 'Drop your photo here',
+      browse: 'or click to browse your files',
+      formats: 'Supports JPG, PNG, WEBP, HEIC, AVIF, TIFF, BMP, GIF · Select several files for batch mode',
+      keepMetadata: 'Keep photo metadata (EXIF, camera, GPS)',
+      imageAlt: 'Workspace',
+      adjusted: 'ADJUSTED',
+      badge: {
+        [AppTab.ENHANCE]: 'ENHANCED',
+        [AppTab.ID_PHOTO]: 'ID CREATED',
+        [AppTab.RESTORE]: 'RESTORED'
+      },
+      reEdit: 'Re-edit this version',
+      currentVersion: 'Current version',
+      originalVersion: 'Original'
+    },
+    process: {
+      title: 'Processing with Gemini 3 Pro...',
+      idPhoto: 'Removing background & Formatting...',
+      restore: 'Restoring details with Gemini 3 Pro...',
+      enhancePro: 'Enhancing with Gemini 3 Pro (High Res)...',
+      enhance: 'Enhancing details & Upscaling...',
+      tile: (index: number, total: number) => `Tile ${index} / ${total}`,
+      variant: (index: number, total: number) => `Variant ${index} / ${total}`,
+      retry: (reason: string, attempt: number, seconds: number) => `${reason} · retry ${attempt} in ${seconds}s`,
+      confirmOverBudget: (message: string) => `${message}\n\nProcess anyway?`,
+      raiseCap: 'Raise the cap in Usage to continue.',
+      variantCount: 'Variants',
+      variantCountHint: 'Candidates generated per run',
+      costHint: 'Estimated from Gemini list prices',
+      tryAgain: 'Try Again',
+      tryAgainHint: 'Go back to the input of this step; processing again keeps this result as a separate branch',
+      download: 'Download Result',
+      resume: (done: number, total: number) => `Resume (${done}/${total} tiles)`,
+      resumeHint: 'Continue from the tiles that already finished',
+      processing: 'Processing...',
+      fromResult: {
+        [AppTab.ENHANCE]: 'Enhance Result',
+        [AppTab.ID_PHOTO]: 'ID Photo from Result',
+        [AppTab.RESTORE]: 'Restore Result'
+      },
+      start: {
+        [AppTab.ENHANCE]: 'Enhance Photo',
+        [AppTab.ID_PHOTO]: 'Generate ID Photo',
+        [AppTab.RESTORE]: 'Restore (Gemini 3 Pro)'
+      }
+    },
+    // Actionable wording for each failure type; the raw backend message is only shown as details
+    errors: {
+      [AIErrorKind.MISSING_KEY]: {
+        title: 'API key missing or rejected',
+        action: 'Set a valid GEMINI_API_KEY in .env.local and restart, or switch to another backend.'
+      },
+      [AIErrorKind.QUOTA]: {
+        title: 'Quota or rate limit reached',
+        action: 'Wait a minute and try again, or check the billing and quota of your API project.'
+      },
+      [AIErrorKind.SAFETY]: {
+        title: 'Blocked by safety filters',
+        action: 'The model refused this image. Try a different photo or crop out sensitive content.'
+      },
+      [AIErrorKind.TEXT_ONLY]: {
+        title: 'The model replied without an image',
+        action: 'Try again, or lower the quality setting. The model\'s reply is shown in the details.'
+      },
+      [AIErrorKind.NETWORK]: {
+        title: 'Network problem',
+        action: 'Check your internet connection (or the self-hosted server) and try again.'
+      },
+      [AIErrorKind.TIMEOUT]: {
+        title: 'The request timed out',
+        action: 'High resolution jobs can be slow. Try again or choose a lower quality.'
+      },
+      [AIErrorKind.SERVER]: {
+        title: 'The AI service is having problems',
+        action: 'This is usually temporary. Try again in a few minutes.'
+      },
+      [AIErrorKind.CANCELLED]: {
+        title: 'Cancelled',
+        action: 'The request was stopped. Press the button again to restart it.'
+      },
+      [AIErrorKind.INVALID_INPUT]: {
+        title: 'Invalid input',
+        action: 'Check the file and settings, then try again.'
+      },
+      [AIErrorKind.BUDGET]: {
+        title: 'Budget limit reached',
+        action: 'This request would go over your spending cap. Raise the cap in Usage, lower the quality, or wait for the next day or month.'
+      },
+      [AIErrorKind.UNKNOWN]: {
+        title: 'Something went wrong',
+        action: 'Try again. If it keeps happening, the details below may help.'
+      }
+    },
+    // Failures of the app's own steps, by AppErrorCode
+    appErrors: {
+      [AppErrorCode.UNSUPPORTED_IMAGE]: (p: AppErrorParams) => `${p.name} is not a supported image (JPEG, PNG, WebP, HEIC, AVIF, TIFF, BMP or GIF).`,
+      [AppErrorCode.IMAGE_NOT_DECODABLE]: (p: AppErrorParams) => `${p.name} could not be decoded. The file may be damaged.`,
+      [AppErrorCode.CANNOT_ENCODE_FORMAT]: (p: AppErrorParams) => `This browser cannot encode ${String(p.format).toUpperCase()}. Choose another format.`,
+      [AppErrorCode.TARGET_SIZE_TOO_SMALL]: (p: AppErrorParams) => `${p.kb} KB is too small for this file.`,
+      [AppErrorCode.TARGET_SIZE_UNREACHABLE]: (p: AppErrorParams) => `Could not get the file under ${p.kb} KB.`,
+      [AppErrorCode.PRESET_FILE_NOT_JSON]: () => 'The file is not valid JSON.',
+      [AppErrorCode.NOT_A_PRESET_FILE]: () => 'The file is not a preset export.',
+      [AppErrorCode.PRESET_FILE_TOO_NEW]: () => 'The preset file was made by a newer version of the app.',
+      [AppErrorCode.PHOTO_DOES_NOT_FIT]: () => 'This photo size does not fit on the chosen paper.',
+      [AppErrorCode.NO_PLAIN_BACKGROUND]: () => 'No clear background found in one of the variants, so they cannot be mixed.',
+      [AppErrorCode.PROJECT_NOT_FOUND]: () => 'Project not found in the library.',
+      [AppErrorCode.PROJECT_IMAGES_MISSING]: () => 'Some images of this project are missing from storage.',
+      [AppErrorCode.FACE_DETECTION_UNAVAILABLE]: () => 'Face detection is not available in this browser.'
+    },
+    faces: {
+      detecting: 'Detecting faces...',
+      none: 'No face detected; the photo is sent with its full frame.',
+      single: 'Eyes and framing follow the face',
+      several: (count: number) => `${count} people in the photo — choose who the ID photo is for`,
+      face: (index: number) => `Face ${index}`
+    },
+    compliance: {
+      title: 'Compliance Check',
+      status: {
+        [ComplianceStatus.PASS]: 'PASS',
+        [ComplianceStatus.WARN]: 'CHECK',
+        [ComplianceStatus.FAIL]: 'FAIL',
+        [ComplianceStatus.MANUAL]: 'CHECK'
+      },
+      measuring: 'Measuring head and background...',
+      failed: 'Could not analyse the photo.',
+      footnote: 'Measured automatically from the silhouette; confirm against the issuing authority\'s current rules.',
+      labels: {
+        aspect: 'Aspect ratio',
+        background: 'Background colour',
+        backgroundStyle: 'Background',
+        backgroundEven: 'Even background',
+        face: 'Face',
+        eyesLevel: 'Eyes level',
+        head: 'Head height',
+        eyeLine: 'Eye line from bottom',
+        crown: 'Top of head',
+        centered: 'Head centred',
+        glasses: 'Glasses',
+        expression: 'Expression'
+      },
+      aspect: (size: string) => `Output is not ${size}; it will be centre-cropped when printed. Measurements use that crop.`,
+      backgroundNotAllowed: (measured: string, allowed: string) => `Measured ${measured}; allowed: ${allowed}`,
+      backgroundMeasured: (name: string, measured: string, target: string, off: number) =>
+        `${name} (${measured}); target ${target}, off by ${off}`,
+      even: 'No visible shadows or texture',
+      uneven: 'Shadows, gradient or texture detected near the edges',
+      gradient: 'Gradient studio background — not for document photos',
+      backdrop: 'Backdrop image — not for document photos',
+      manyFaces: (count: number) => `${count} faces found; an ID photo shows one person`,
+      noFace: 'No face detected',
+      tilt: (degrees: string, limit: number | null) => `Head tilted ${degrees}°${limit !== null ? `; keep within ${limit}°` : ''}`,
+      noPerson: 'No person found against the background',
+      estimated: ' (estimated, chin not visible)',
+      chinFromEyes: ' (chin from eye line)',
+      fromHeadSize: ' (estimated from head size)',
+      atEyes: ' (measured at the eyes)',
+      required: (value: string, note: string, min: number, max: number) => `${value}${note}; required ${min}–${max} mm`,
+      crownSpace: (value: string) => `${value} space above the head`,
+      crownCut: 'Head touches or is cut off at the top edge',
+      offCentre: (value: string, left: boolean) => `${value} ${left ? 'left' : 'right'} of centre`,
+      glassesAllowed: 'Allowed without glare or tint',
+      glassesForbidden: 'Not allowed — check that none are worn',
+      smileAllowed: 'Neutral or natural smile',
+      smileForbidden: 'Neutral, mouth closed — check manually'
+    },
+    print: {
+      title: 'Print Sheet',
+      paper: 'Paper Size',
+      copies: (copies: number, capacity: number) => `Copies (${copies} / ${capacity})`,
+      cutGuides: 'Cut Guides',
+      failed: 'Failed to build print sheet.',
+      export: 'Export Print Sheet'
+    },
+    export: {
+      title: 'Export',
+      format: 'Format',
+      quality: 'Quality',
+      maxSize: 'Max file size',
+      embedSrgb: 'Embed sRGB colour profile',
+      copyExif: 'Copy capture date and camera data',
+      noExif: 'The original has no EXIF; turn on "Keep photo metadata" before uploading.',
+      customer: 'Customer Name',
+      customerPlaceholder: 'Customer name',
+      fileName: 'File Name',
+      failed: 'Export failed.',
+      saved: (size: string, width: number, height: number) => `Saved ${size} · ${width}×${height}`,
+      savedQuality: (quality: number) => ` · quality ${quality}`,
+      encoding: 'Encoding...',
+      download: (format: string) => `Download ${format}`,
+      watermark: 'Watermark',
+      watermarkKinds: {
+        [WatermarkKind.NONE]: 'None',
+        [WatermarkKind.TEXT]: 'Text',
+        [WatermarkKind.LOGO]: 'Logo'
+      },
+      watermarkText: 'Watermark text',
+      chooseLogo: 'Choose logo',
+      logoFailed: 'Could not read the logo.',
+      position: 'Position',
+      positions: {
+        [WatermarkPosition.CENTER]: 'Center',
+        [WatermarkPosition.TOP_LEFT]: 'Top left',
+        [WatermarkPosition.TOP_RIGHT]: 'Top right',
+        [WatermarkPosition.BOTTOM_LEFT]: 'Bottom left',
+        [WatermarkPosition.BOTTOM_RIGHT]: 'Bottom right'
+      },
+      opacity: 'Opacity',
+      markSize: 'Size (% of width)',
+      tiled: 'Repeat over the whole image',
+      proof: 'Customer proof',
+      proofHint: 'Reduced resolution with a heavy repeated watermark, for sending before payment.',
+      invisibleMark: 'Hide job ID and date in the image',
+      invisibleMarkHint: 'Read it back with the watermark checker. Resizing, cropping or strong compression removes it.',
+      savedWatermark: ' · watermark',
+      savedMark: ' · hidden ID',
+      markLost: 'The hidden ID could not be kept: the image is too small or compressed too strongly. Raise the quality or the target size.'
+    },
+    markChecker: {
+      title: 'Watermark Checker',
+      intro: 'Choose an exported image to read the job ID and export date hidden in it.',
+      choose: 'Choose image',
+      reading: 'Reading...',
+      found: 'Watermark found',
+      notFound: 'No watermark found. Only files exported with "Hide job ID and date" can be read, and not after resizing, cropping or a screenshot.',
+      failed: 'Could not read the image.',
+      jobId: 'Job ID',
+      exportedAt: 'Exported',
+      project: 'Library job',
+      notInLibrary: "Not in this browser's library"
+    },
+    library: {
+      title: 'Library',
+      readFailed: 'Could not read the local library.',
+      failed: 'Library operation failed.',
+      confirmDelete: (name: string) => `Delete "${name}" and all its versions?`,
+      withinLimit: 'Library is within the limit; nothing was removed.',
+      storage: (used: string, quota: string, library: string) => `${used} of ${quota} used · library ${library}`,
+      readingStorage: 'Reading storage...',
+      persist: 'Keep library when the browser is low on space',
+      autoRemove: 'Auto-remove least recently opened jobs',
+      limit: 'Library Limit (% of quota)',
+      applyLimit: 'Apply limit now',
+      search: 'Search by name or tag',
+      empty: 'No saved jobs yet. Uploaded photos are saved here automatically.',
+      noMatch: 'No jobs match your search.',
+      tagsPlaceholder: 'Add tags, comma separated',
+      versions: (count: number) => `${count} versions`,
+      open: 'Open',
+      export: 'Export',
+      untitled: 'Untitled'
+    },
+    presets: {
+      title: 'Presets',
+      modified: '(modified)',
+      custom: '— Custom settings —',
+      builtInGroup: 'Built-in',
+      mine: 'My presets',
+      namePrompt: 'Preset name',
+      copyName: (name: string) => `${name} (copy)`,
+      saved: (name: string) => `Saved "${name}".`,
+      updated: (name: string) => `Updated "${name}".`,
+      confirmDelete: (name: string) => `Delete preset "${name}"?`,
+      factory: 'Tab will start with factory settings.',
+      startup: (name: string) => `"${name}" loads on startup.`,
+      nothingToExport: 'No saved presets to export yet.',
+      imported: (count: number) => `Imported ${count} preset(s).`,
+      skipped: (count: number, errors: string) => ` Skipped ${count}: ${errors}`,
+      importFailed: 'Could not import presets.',
+      saveAs: 'Save current settings as a new preset',
+      overwrite: 'Overwrite the selected preset with the current settings',
+      delete: 'Delete the selected preset',
+      stopDefault: 'Stop loading this preset on startup',
+      makeDefault: 'Load this preset on startup',
+      import: 'Import presets from a JSON file',
+      export: 'Export your presets as JSON',
+      // Built-in presets by id; user presets keep the name they were given
+      builtIn: {
+        'builtin:portrait-natural': 'Natural portrait',
+        'builtin:upscale-print': 'Upscale only – large prints',
+        'builtin:vn-passport': 'Vietnam passport – white, smoothing 40',
+        'builtin:vn-profile-blue': 'Application form 3x4 – blue',
+        'builtin:us-visa': 'US visa 5x5 – white',
+        'builtin:wedding-album': 'Wedding album restore',
+        'builtin:bw-keep': 'Black and white – keep original tones'
+      } as Record<string, string>
+    },
+    history: {
+      title: (count: number) => `History (${count})`,
+      useSettings: 'Use Settings',
+      useSettingsHint: 'Load the settings used for this version',
+      undo: 'Undo (Ctrl+Z)',
+      redo: 'Redo (Ctrl+Shift+Z)',
+      originalUpload: 'Original upload',
+      adjustments: 'Adjustments',
+      mixedVariant: ' (mixed variant)',
+      variant: ' (variant)',
+      branched: 'Branched from an earlier version'
+    },
+    variants: {
+      title: (count: number) => `${count} variants — pick the best one`,
+      back: 'Back to the compare view',
+      label: (letter: string) => `Variant ${letter}`,
+      mixed: (base: string, background: string) => `${base} + background ${background}`,
+      use: 'Use this variant',
+      star: 'Star this variant',
+      unstar: 'Remove star',
+      selected: 'Selected',
+      keep: 'Keep',
+      withBackgroundOf: 'with the background of',
+      mix: 'Mix',
+      mixFailed: 'Mixing failed.',
+      checkingBackgrounds: 'Checking backgrounds...',
+      fewPlainBackgrounds: 'Mixing needs two variants with a plain background the person can be cut from, and fewer than two of these have one.',
+      sameBackgrounds: 'All variants have the same background colour, so mixing would change nothing. ID photos all get the colour chosen in the settings.',
+      noPlainBackground: (label: string) => `${label} has no plain background to swap.`,
+      sameBackground: 'These two have the same background.'
+    },
+    quality: {
+      title: 'Quality',
+      measuring: 'Measuring...',
+      sharpness: 'Sharpness',
+      sharpnessHint: 'Fine detail (Laplacian variance) relative to the input',
+      noise: 'Noise σ',
+      noiseHint: 'Estimated noise level, input → result',
+      resolution: 'Resolution',
+      resolutionHint: 'Linear size relative to the input',
+      colorCast: 'Colour cast',
+      colorCastHint: 'Chroma of the average colour; 0 is neutral',
+      similarity: 'Similarity',
+      onFace: ' (face)',
+      similarityFaceHint: 'SSIM of the eye-aligned faces',
+      similarityImageHint: 'SSIM of the whole frame',
+      drift: 'Face drift',
+      driftHint: 'Largest shift of nose or mouth relative to the eyes, as a share of the eye distance',
+      driftWarning: 'The face may have been changed — check it closely.'
+    },
+    compare: {
+      split: 'Split',
+      toggle: 'Toggle',
+      side: 'Side by Side',
+      hold: 'Hold to see original',
+      zoomOut: 'Zoom out',
+      zoomIn: 'Zoom in',
+      fit: 'Fit',
+      actualPixels: 'Actual pixels'
+    },
+    adjust: {
+      free: 'Free',
+      original: 'Original',
+      loadFailed: 'Could not read the image.',
+      applyFailed: 'Could not apply the adjustments.',
+      rotateLeft: 'Rotate left 90°',
+      rotateRight: 'Rotate right 90°',
+      flip: 'Flip horizontally',
+      crop: 'Crop',
+      cropHint: 'Crop the image',
+      before: 'Hold to see the image before adjusting',
+      resetCrop: 'Reset crop',
+      output: (width: number, height: number) => `Output ${width}×${height}`,
+      straighten: 'Straighten °',
+      exposure: 'Exposure EV',
+      contrast: 'Contrast',
+      saturation: 'Saturation',
+      temperature: 'Temperature',
+      tint: 'Tint',
+      levels: 'Levels',
+      black: 'Black',
+      gamma: 'Gamma',
+      white: 'White',
+      curves: 'Curves',
+      curveHint: 'Click to add a point · drag to move · double-click to remove',
+      resetAll: 'Reset all'
+    },
+    mask: {
+      source: 'Mask source',
+      brush: 'Brush',
+      eraser: 'Eraser',
+      lasso: 'Lasso',
+      brushSize: 'Brush Size',
+      invert: 'Invert'
+    },
+    batch: {
+      concurrency: 'Concurrent Jobs',
+      start: (count: number) => `Start (${count})`,
+      retryFailed: 'Retry Failed',
+      downloadZip: 'Download ZIP',
+      continueAnyway: (message: string) => `${message} Continue anyway?`,
+      progress: (finished: number, total: number, done: number, failed: number) =>
+        `${finished} / ${total} processed · ${done} done · ${failed} failed`,
+      addPhotos: 'Add Photos',
+      clearBatch: 'Clear Batch',
+      status: {
+        [BatchItemStatus.PENDING]: 'Pending',
+        [BatchItemStatus.PROCESSING]: 'Processing',
+        [BatchItemStatus.DONE]: 'Done',
+        [BatchItemStatus.FAILED]: 'Failed',
+        [BatchItemStatus.CANCELLED]: 'Cancelled'
+      }
+    },
+    usage: {
+      title: 'Usage',
+      today: 'Today',
+      thisMonth: 'This month',
+      calls: (count: number) => `${count} calls`,
+      failed: (count: number) => `${count} failed`,
+      cap: (amount: string) => `cap ${amount}`,
+      noCap: 'no cap',
+      noCapPlaceholder: 'No cap',
+      dailyCap: 'Daily cap',
+      monthlyCap: 'Monthly cap',
+      warn: 'Warn first',
+      block: 'Block',
+      lastDays: (days: number) => `Last ${days} days`,
+      byMonth: 'By month',
+      none: 'No calls recorded yet.',
+      byModel: 'This month by model',
+      recent: 'Recent calls',
+      columns: {
+        time: 'Time',
+        mode: 'Mode',
+        model: 'Model',
+        input: 'Input',
+        output: 'Output',
+        duration: 'Time taken',
+        cost: 'Cost'
+      },
+      tile: 'tile',
+      confirmClear: 'Delete the whole usage log? Budgets are kept.',
+      footnote: 'Estimates from Gemini list prices; your bill is authoritative.',
+      budget: (monthly: boolean, cap: string, spent: string, estimate: string) =>
+        `${monthly ? 'Monthly' : 'Daily'} budget ${cap}: ${spent} spent, this adds about ${estimate}.`
+    }
+  }
+};
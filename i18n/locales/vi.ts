@@ -0,0 +1,645 @@
+import {
+  AIErrorKind,
+  AppErrorCode,
+  AppTab,
+  BatchItemStatus,
+  ComplianceStatus,
+  EnhancementMode,
+  EnhancementQuality,
+  IDBackgroundStyle,
+  IDDocumentType,
+  IDPhotoBackground,
+  IDPhotoSize,
+  PaperSize,
+  ProviderKind,
+  WatermarkKind,
+  WatermarkPosition
+} from '../../types';
+import type { Locale } from '..';
+
+export const vi: Locale = {
+  code: 'vi',
+  name: 'Tiếng Việt',
+  intl: 'vi-VN',
+  messages: {
+    common: {
+      apply: 'Áp dụng',
+      cancel: 'Hủy',
+      clear: 'Xóa',
+      delete: 'Xóa',
+      details: 'Chi tiết',
+      done: 'Xong',
+      original: 'Ảnh gốc',
+      remove: 'Bỏ',
+      reset: 'Đặt lại',
+      result: 'Kết quả',
+      retry: 'Thử lại'
+    },
+    header: {
+      provider: {
+        [ProviderKind.GEMINI]: 'Đang dùng Gemini 3 Pro',
+        [ProviderKind.MOCK]: 'Backend giả lập (Offline)',
+        [ProviderKind.HTTP]: 'Backend tự host'
+      },
+      backend: 'Backend',
+      library: 'Thư Viện',
+      usage: 'Chi Phí',
+      checkMark: 'Kiểm Tra Watermark',
+      language: 'Ngôn ngữ'
+    },
+    tabs: {
+      [AppTab.ENHANCE]: 'Nâng Cấp Ảnh',
+      [AppTab.ID_PHOTO]: 'Tạo Ảnh Thẻ',
+      [AppTab.RESTORE]: 'Khôi Phục Ảnh'
+    },
+    enums: {
+      quality: {
+        [EnhancementQuality.Q_2K]: '2K (Nhanh)',
+        [EnhancementQuality.Q_4K]: '4K (Sắc nét)',
+        [EnhancementQuality.Q_8K]: '8K ULTRA HDR'
+      },
+      mode: {
+        [EnhancementMode.UPSCALE_ONLY]: 'Chỉ phóng to',
+        [EnhancementMode.ENHANCE_RESTORE]: 'Nâng cấp & Phục hồi'
+      },
+      size: {
+        [IDPhotoSize.SIZE_2x3]: '2x3 cm',
+        [IDPhotoSize.SIZE_3x4]: '3x4 cm',
+        [IDPhotoSize.SIZE_4x6]: '4x6 cm',
+        [IDPhotoSize.SIZE_35x45]: '3,5x4,5 cm (Hộ chiếu)',
+        [IDPhotoSize.SIZE_33x48]: '3,3x4,8 cm',
+        [IDPhotoSize.SIZE_5x5]: '5x5 cm (Visa)'
+      },
+      background: {
+        [IDPhotoBackground.WHITE]: 'Trắng',
+        [IDPhotoBackground.BLUE]: 'Xanh',
+        [IDPhotoBackground.RED]: 'Đỏ',
+        [IDPhotoBackground.BLACK]: 'Đen',
+        [IDPhotoBackground.GRAY]: 'Xám'
+      },
+      backgroundStyle: {
+        [IDBackgroundStyle.SOLID]: 'Trơn',
+        [IDBackgroundStyle.GRADIENT]: 'Gradient',
+        [IDBackgroundStyle.IMAGE]: 'Ảnh nền'
+      },
+      paper: {
+        [PaperSize.IN_4x6]: '4x6 in',
+        [PaperSize.CM_10x15]: '10x15 cm',
+        [PaperSize.A4]: 'A4'
+      },
+      documentType: {
+        [IDDocumentType.PASSPORT]: 'Hộ chiếu',
+        [IDDocumentType.VISA]: 'Thị thực',
+        [IDDocumentType.ID_CARD]: 'Căn cước',
+        [IDDocumentType.PROFILE]: 'Hồ sơ'
+      },
+      provider: {
+        [ProviderKind.GEMINI]: 'Gemini',
+        [ProviderKind.MOCK]: 'Giả lập (Offline)',
+        [ProviderKind.HTTP]: 'Tự host'
+      }
+    },
+    idSpecs: {
+      names: {
+        'vn-passport': 'Hộ chiếu',
+        'vn-id-card': 'Căn cước',
+        'vn-profile-3x4': 'Ảnh hồ sơ 3x4',
+        'vn-profile-4x6': 'Ảnh hồ sơ 4x6',
+        'vn-visa': 'Thị thực',
+        'us-passport': 'Hộ chiếu',
+        'us-visa': 'Thị thực',
+        'schengen-visa': 'Thị thực Schengen',
+        'uk-passport': 'Hộ chiếu',
+        'cn-visa': 'Thị thực',
+        'jp-passport': 'Hộ chiếu',
+        'kr-passport': 'Hộ chiếu'
+      },
+      countries: {
+        VN: 'Việt Nam',
+        US: 'Hoa Kỳ',
+        EU: 'Khối Schengen',
+        GB: 'Vương quốc Anh',
+        CN: 'Trung Quốc',
+        JP: 'Nhật Bản',
+        KR: 'Hàn Quốc'
+      },
+      custom: 'Tùy chỉnh',
+      customSize: 'Tùy chỉnh kích thước'
+    },
+    enhance: {
+      title: 'Điều Chỉnh Nâng Cấp',
+      quality: 'Chất Lượng Đầu Ra',
+      tiled: 'Độ phân giải thật (chia ô)',
+      tiledHint: (pixels) => `Cạnh dài ${pixels} px · xử lý theo các ô chồng lên nhau, mỗi ô một yêu cầu`,
+      mode: 'Chế Độ Xử Lý',
+      retouch: 'Chỉnh Sửa Khuôn Mặt',
+      sharpening: 'Làm Nét',
+      upscale: 'Cường Độ Phóng To AI',
+      advanced: 'Tùy Chọn Nâng Cao',
+      hyperRealism: 'Kết cấu siêu thực',
+      colorize: 'Cân chỉnh màu',
+      makeup: 'Trang điểm tự nhiên',
+      tips: [
+        { title: 'Phóng to thông minh', desc: 'Phóng đến 800% mà không giảm chất lượng' },
+        { title: 'Phục hồi khuôn mặt', desc: 'Làm rõ khuôn mặt bị mờ với độ chính xác của AI' },
+        { title: 'Màu tự động', desc: 'Cân bằng ánh sáng và chỉnh tông màu' }
+      ]
+    },
+    idPhoto: {
+      title: 'Cấu Hình Ảnh Thẻ',
+      document: 'Loại Giấy Tờ',
+      head: (min, max) => `Đầu ${min}–${max} mm`,
+      eyes: (min, max) => `Mắt cách đáy ${min}–${max} mm`,
+      glassesOk: 'Được đeo kính',
+      noGlasses: 'Không đeo kính',
+      smileOk: 'Được cười',
+      neutral: 'Nét mặt tự nhiên',
+      size: 'Kích Thước',
+      background: 'Màu Nền',
+      retouch: 'Làm Đẹp Da & Xử Lý',
+      skinSmoothing: 'Mịn Da',
+      blemishes: 'Nhặt Mụn / Xóa Vết Xước',
+      blemishesHint: 'Xóa mụn và vết thâm',
+      fixLighting: 'Cân Bằng Ánh Sáng',
+      tips: [
+        { title: 'Tách nền tự động', desc: 'Loại bỏ nền rối, thay bằng màu trơn' },
+        { title: 'Làm đẹp chuyên nghiệp', desc: 'Xóa mụn và làm mịn da' },
+        { title: 'Kích thước chuẩn', desc: 'Sẵn sàng cho căn cước và hộ chiếu' }
+      ]
+    },
+    backgroundOptions: {
+      pickExact: 'Chọn màu chính xác',
+      customColor: 'Màu tùy chỉnh',
+      standard: (name) => `Chuẩn ${name.toLowerCase()}`,
+      offSpec: (name) => `Màu này gần màu ${name.toLowerCase()}, không được giấy tờ này chấp nhận.`,
+      studioOnly: 'Ảnh studio — không dùng cho giấy tờ tùy thân.',
+      pickBackdrop: 'Chọn hoặc tải lên một ảnh nền.',
+      upload: 'Tải ảnh nền',
+      storageFull: 'Không đủ bộ nhớ trình duyệt. Hãy xóa bớt ảnh nền.',
+      readFailed: 'Không đọc được ảnh nền này.'
+    },
+    restore: {
+      title: 'Khôi Phục Ảnh Cũ',
+      poweredBy: 'Sử dụng Gemini 3 Pro',
+      poweredByDesc: 'Sử dụng mô hình AI mới nhất để tái tạo chi tiết và màu sắc siêu thực.',
+      damage: 'Xử lý vết xước & Nhiễu',
+      scratches: 'Xóa Vết Xước',
+      denoise: 'Khử Nhiễu',
+      options: 'Tùy Chọn Phục Chế',
+      colorize: 'Tái Tạo Màu Sắc',
+      colorizeHint: 'Tô màu ảnh đen trắng hoặc phục hồi màu phai',
+      face: 'Khôi Phục Khuôn Mặt',
+      faceHint: 'Giữ nguyên nét gốc, không làm biến dạng',
+      deblur: 'Làm Nét & Khử Mờ',
+      tips: [
+        { title: 'Gemini 3 Pro', desc: 'Dùng mô hình thị giác mới nhất' },
+        { title: 'Tô màu thông minh', desc: 'Làm sống lại ảnh đen trắng' },
+        { title: 'Phục chế chân thực', desc: 'Giữ nguyên nét mặt gốc' }
+      ]
+    },
+    workspace: {
+      title: 'Không gian làm việc',
+      idMode: 'ẢNH THẺ',
+      batch: 'HÀNG LOẠT',
+      restoreMode: 'PHỤC CHẾ',
+      rotated: 'đã xoay thẳng',
+      metadata: (kept) => `metadata ${kept ? 'được giữ' : 'đã xóa'}`,
+      originalSize: (width, height, format) => `Gốc ${width}×${height} ${format}`,
+      uploadSize: (width, height) => `Gửi đi ${width}×${height}`,
+      adjust: 'Chỉnh ảnh',
+      adjustHint: 'Cắt, xoay, phơi sáng, màu và đường cong, không dùng AI',
+      mask: 'Vùng chọn',
+      maskOn: 'Đang dùng vùng chọn',
+      maskHint: 'Tô vùng cần sửa; phần còn lại giữ nguyên',
+      variants: (count) => `Phương án (${count})`,
+      variantsHint: 'So sánh các phương án của lần chạy này',
+      drop: 'Thả ảnh vào đây',
+      browse: 'hoặc bấm để chọn tệp',
+      formats: 'Hỗ trợ JPG, PNG, WEBP, HEIC, AVIF, TIFF, BMP, GIF · Chọn nhiều tệp để xử lý hàng loạt',
+      keepMetadata: 'Giữ metadata của ảnh (EXIF, máy ảnh, GPS)',
+      imageAlt: 'Ảnh đang xử lý',
+      adjusted: 'ĐÃ CHỈNH',
+      badge: {
+        [AppTab.ENHANCE]: 'ĐÃ NÂNG CẤP',
+        [AppTab.ID_PHOTO]: 'ĐÃ TẠO ẢNH THẺ',
+        [AppTab.RESTORE]: 'ĐÃ PHỤC CHẾ'
+      },
+      reEdit: 'Chỉnh lại phiên bản này',
+      currentVersion: 'Phiên bản hiện tại',
+      originalVersion: 'Ảnh gốc'
+    },
+    process: {
+      title: 'Đang xử lý với Gemini 3 Pro...',
+      idPhoto: 'Đang tách nền & căn khung...',
+      restore: 'Đang phục hồi chi tiết với Gemini 3 Pro...',
+      enhancePro: 'Đang nâng cấp với Gemini 3 Pro (độ phân giải cao)...',
+      enhance: 'Đang làm rõ chi tiết & phóng to...',
+      tile: (index, total) => `Ô ${index} / ${total}`,
+      variant: (index, total) => `Phương án ${index} / ${total}`,
+      retry: (reason, attempt, seconds) => `${reason} · thử lại lần ${attempt} sau ${seconds} giây`,
+      confirmOverBudget: (message) => `${message}\n\nVẫn xử lý?`,
+      raiseCap: 'Nâng hạn mức trong Chi Phí để tiếp tục.',
+      variantCount: 'Phương án',
+      variantCountHint: 'Số phương án tạo ra mỗi lần chạy',
+      costHint: 'Ước tính theo bảng giá Gemini',
+      tryAgain: 'Làm Lại',
+      tryAgainHint: 'Quay về ảnh đầu vào của bước này; xử lý lại sẽ giữ kết quả này thành một nhánh riêng',
+      download: 'Tải Kết Quả',
+      resume: (done, total) => `Tiếp tục (${done}/${total} ô)`,
+      resumeHint: 'Tiếp tục từ các ô đã xong',
+      processing: 'Đang xử lý...',
+      fromResult: {
+        [AppTab.ENHANCE]: 'Nâng Cấp Kết Quả',
+        [AppTab.ID_PHOTO]: 'Tạo Ảnh Thẻ Từ Kết Quả',
+        [AppTab.RESTORE]: 'Phục Chế Kết Quả'
+      },
+      start: {
+        [AppTab.ENHANCE]: 'Nâng Cấp Ảnh',
+        [AppTab.ID_PHOTO]: 'Tạo Ảnh Thẻ',
+        [AppTab.RESTORE]: 'Phục Chế (Gemini 3 Pro)'
+      }
+    },
+    errors: {
+      [AIErrorKind.MISSING_KEY]: {
+        title: 'Thiếu API key hoặc key bị từ chối',
+        action: 'Đặt GEMINI_API_KEY hợp lệ trong .env.local rồi khởi động lại, hoặc chuyển sang backend khác.'
+      },
+      [AIErrorKind.QUOTA]: {
+        title: 'Đã hết hạn mức hoặc gửi quá nhanh',
+        action: 'Chờ một phút rồi thử lại, hoặc kiểm tra thanh toán và hạn mức của dự án API.'
+      },
+      [AIErrorKind.SAFETY]: {
+        title: 'Bị bộ lọc an toàn chặn',
+        action: 'Mô hình từ chối ảnh này. Hãy thử ảnh khác hoặc cắt bỏ nội dung nhạy cảm.'
+      },
+      [AIErrorKind.TEXT_ONLY]: {
+        title: 'Mô hình trả lời mà không có ảnh',
+        action: 'Thử lại hoặc giảm chất lượng. Câu trả lời của mô hình nằm trong phần chi tiết.'
+      },
+      [AIErrorKind.NETWORK]: {
+        title: 'Lỗi mạng',
+        action: 'Kiểm tra kết nối internet (hoặc máy chủ tự host) rồi thử lại.'
+      },
+      [AIErrorKind.TIMEOUT]: {
+        title: 'Yêu cầu quá thời gian',
+        action: 'Ảnh độ phân giải cao có thể xử lý lâu. Thử lại hoặc chọn chất lượng thấp hơn.'
+      },
+      [AIErrorKind.SERVER]: {
+        title: 'Dịch vụ AI đang gặp sự cố',
+        action: 'Thường chỉ là tạm thời. Thử lại sau vài phút.'
+      },
+      [AIErrorKind.CANCELLED]: {
+        title: 'Đã hủy',
+        action: 'Yêu cầu đã dừng. Bấm nút lần nữa để chạy lại.'
+      },
+      [AIErrorKind.INVALID_INPUT]: {
+        title: 'Dữ liệu không hợp lệ',
+        action: 'Kiểm tra tệp và cấu hình rồi thử lại.'
+      },
+      [AIErrorKind.BUDGET]: {
+        title: 'Đã chạm hạn mức chi phí',
+        action: 'Yêu cầu này sẽ vượt hạn mức chi tiêu. Nâng hạn mức trong Chi Phí, giảm chất lượng, hoặc chờ sang ngày hay tháng mới.'
+      },
+      [AIErrorKind.UNKNOWN]: {
+        title: 'Đã xảy ra lỗi',
+        action: 'Thử lại. Nếu vẫn lỗi, phần chi tiết bên dưới có thể giúp ích.'
+      }
+    },
+    appErrors: {
+      [AppErrorCode.UNSUPPORTED_IMAGE]: (p) => `${p.name} không phải định dạng ảnh được hỗ trợ (JPEG, PNG, WebP, HEIC, AVIF, TIFF, BMP hoặc GIF).`,
+      [AppErrorCode.IMAGE_NOT_DECODABLE]: (p) => `Không đọc được ${p.name}. Tệp có thể đã bị hỏng.`,
+      [AppErrorCode.CANNOT_ENCODE_FORMAT]: (p) => `Trình duyệt này không lưu được định dạng ${String(p.format).toUpperCase()}. Hãy chọn định dạng khác.`,
+      [AppErrorCode.TARGET_SIZE_TOO_SMALL]: (p) => `${p.kb} KB quá nhỏ cho tệp này.`,
+      [AppErrorCode.TARGET_SIZE_UNREACHABLE]: (p) => `Không thể giảm tệp xuống dưới ${p.kb} KB.`,
+      [AppErrorCode.PRESET_FILE_NOT_JSON]: () => 'Tệp không phải JSON hợp lệ.',
+      [AppErrorCode.NOT_A_PRESET_FILE]: () => 'Tệp không phải bản xuất preset.',
+      [AppErrorCode.PRESET_FILE_TOO_NEW]: () => 'Tệp preset được tạo bởi phiên bản ứng dụng mới hơn.',
+      [AppErrorCode.PHOTO_DOES_NOT_FIT]: () => 'Cỡ ảnh này không vừa khổ giấy đã chọn.',
+      [AppErrorCode.NO_PLAIN_BACKGROUND]: () => 'Một trong các phương án không có nền rõ ràng nên không ghép được.',
+      [AppErrorCode.PROJECT_NOT_FOUND]: () => 'Không tìm thấy dự án trong thư viện.',
+      [AppErrorCode.PROJECT_IMAGES_MISSING]: () => 'Một số ảnh của dự án này không còn trong bộ nhớ.',
+      [AppErrorCode.FACE_DETECTION_UNAVAILABLE]: () => 'Trình duyệt này không hỗ trợ nhận diện khuôn mặt.'
+    },
+    faces: {
+      detecting: 'Đang nhận diện khuôn mặt...',
+      none: 'Không nhận diện được khuôn mặt; ảnh được gửi nguyên khung.',
+      single: 'Tự căn mắt & khung theo khuôn mặt',
+      several: (count) => `${count} người trong ảnh — chọn người làm ảnh thẻ`,
+      face: (index) => `Khuôn mặt ${index}`
+    },
+    compliance: {
+      title: 'Kiểm Tra Quy Chuẩn',
+      status: {
+        [ComplianceStatus.PASS]: 'ĐẠT',
+        [ComplianceStatus.WARN]: 'KIỂM TRA',
+        [ComplianceStatus.FAIL]: 'KHÔNG ĐẠT',
+        [ComplianceStatus.MANUAL]: 'KIỂM TRA'
+      },
+      measuring: 'Đang đo đầu và nền...',
+      failed: 'Không phân tích được ảnh.',
+      footnote: 'Đo tự động từ đường viền người; hãy đối chiếu với quy định hiện hành của cơ quan cấp.',
+      labels: {
+        aspect: 'Tỉ lệ khung',
+        background: 'Màu nền',
+        backgroundStyle: 'Nền',
+        backgroundEven: 'Nền đều màu',
+        face: 'Khuôn mặt',
+        eyesLevel: 'Mắt cân bằng',
+        head: 'Chiều cao đầu',
+        eyeLine: 'Đường mắt tính từ đáy',
+        crown: 'Đỉnh đầu',
+        centered: 'Đầu ở giữa',
+        glasses: 'Kính',
+        expression: 'Nét mặt'
+      },
+      aspect: (size) => `Ảnh không đúng ${size}; khi in sẽ bị cắt giữa. Số đo dùng khung đã cắt.`,
+      backgroundNotAllowed: (measured, allowed) => `Đo được ${measured}; cho phép: ${allowed}`,
+      backgroundMeasured: (name, measured, target, off) => `${name} (${measured}); mục tiêu ${target}, lệch ${off}`,
+      even: 'Không thấy bóng hay vân',
+      uneven: 'Có bóng, chuyển màu hoặc vân gần mép ảnh',
+      gradient: 'Nền gradient studio — không dùng cho ảnh giấy tờ',
+      backdrop: 'Ảnh nền — không dùng cho ảnh giấy tờ',
+      manyFaces: (count) => `Thấy ${count} khuôn mặt; ảnh thẻ chỉ có một người`,
+      noFace: 'Không nhận diện được khuôn mặt',
+      tilt: (degrees, limit) => `Đầu nghiêng ${degrees}°${limit !== null ? `; cần trong khoảng ${limit}°` : ''}`,
+      noPerson: 'Không tìm thấy người trên nền',
+      estimated: ' (ước tính, không thấy cằm)',
+      chinFromEyes: ' (cằm suy từ đường mắt)',
+      fromHeadSize: ' (ước tính từ cỡ đầu)',
+      atEyes: ' (đo tại mắt)',
+      required: (value, note, min, max) => `${value}${note}; yêu cầu ${min}–${max} mm`,
+      crownSpace: (value) => `Khoảng trống ${value} trên đầu`,
+      crownCut: 'Đầu chạm hoặc bị cắt ở mép trên',
+      offCentre: (value, left) => `Lệch ${left ? 'trái' : 'phải'} ${value}`,
+      glassesAllowed: 'Được đeo, không lóa hay tròng màu',
+      glassesForbidden: 'Không được đeo — kiểm tra không có kính',
+      smileAllowed: 'Tự nhiên hoặc cười nhẹ',
+      smileForbidden: 'Tự nhiên, ngậm miệng — kiểm tra bằng mắt'
+    },
+    print: {
+      title: 'In Ảnh Thẻ',
+      paper: 'Khổ Giấy',
+      copies: (copies, capacity) => `Số Ảnh (${copies} / ${capacity})`,
+      cutGuides: 'Đường Cắt',
+      failed: 'Không tạo được trang in.',
+      export: 'Xuất Trang In'
+    },
+    export: {
+      title: 'Xuất Ảnh',
+      format: 'Định Dạng',
+      quality: 'Chất lượng',
+      maxSize: 'Dung lượng tối đa',
+      embedSrgb: 'Nhúng hồ sơ màu sRGB',
+      copyExif: 'Chép ngày chụp và thông tin máy ảnh',
+      noExif: 'Ảnh gốc không có EXIF; hãy bật "Giữ metadata của ảnh" trước khi tải lên.',
+      customer: 'Tên Khách Hàng',
+      customerPlaceholder: 'Tên khách hàng',
+      fileName: 'Tên File',
+      failed: 'Xuất ảnh thất bại.',
+      saved: (size, width, height) => `Đã lưu ${size} · ${width}×${height}`,
+      savedQuality: (quality) => ` · chất lượng ${quality}`,
+      encoding: 'Đang mã hóa...',
+      download: (format) => `Tải ${format}`,
+      watermark: 'Watermark',
+      watermarkKinds: {
+        [WatermarkKind.NONE]: 'Không',
+        [WatermarkKind.TEXT]: 'Chữ',
+        [WatermarkKind.LOGO]: 'Logo'
+      },
+      watermarkText: 'Nội dung watermark',
+      chooseLogo: 'Chọn logo',
+      logoFailed: 'Không đọc được logo.',
+      position: 'Vị trí',
+      positions: {
+        [WatermarkPosition.CENTER]: 'Giữa',
+        [WatermarkPosition.TOP_LEFT]: 'Trên trái',
+        [WatermarkPosition.TOP_RIGHT]: 'Trên phải',
+        [WatermarkPosition.BOTTOM_LEFT]: 'Dưới trái',
+        [WatermarkPosition.BOTTOM_RIGHT]: 'Dưới phải'
+      },
+      opacity: 'Độ đậm',
+      markSize: 'Kích thước (% chiều rộng)',
+      tiled: 'Lặp lại trên toàn ảnh',
+      proof: 'Bản xem thử cho khách',
+      proofHint: 'Giảm độ phân giải và phủ watermark dày đặc, dùng để gửi trước khi thanh toán.',
+      invisibleMark: 'Ẩn mã công việc và ngày trong ảnh',
+      invisibleMarkHint: 'Đọc lại bằng công cụ kiểm tra watermark. Thu nhỏ, cắt ảnh hoặc nén mạnh sẽ làm mất dấu.',
+      savedWatermark: ' · watermark',
+      savedMark: ' · mã ẩn',
+      markLost: 'Không giữ được mã ẩn: ảnh quá nhỏ hoặc bị nén quá mạnh. Hãy tăng chất lượng hoặc dung lượng mục tiêu.'
+    },
+    markChecker: {
+      title: 'Kiểm Tra Watermark',
+      intro: 'Chọn một ảnh đã xuất để đọc mã công việc và ngày xuất được ẩn trong đó.',
+      choose: 'Chọn ảnh',
+      reading: 'Đang đọc...',
+      found: 'Đã tìm thấy watermark',
+      notFound: 'Không tìm thấy watermark. Chỉ đọc được file xuất với "Ẩn mã công việc và ngày", và không đọc được sau khi thu nhỏ, cắt ảnh hoặc chụp màn hình.',
+      failed: 'Không đọc được ảnh.',
+      jobId: 'Mã công việc',
+      exportedAt: 'Ngày xuất',
+      project: 'Công việc trong thư viện',
+      notInLibrary: 'Không có trong thư viện của trình duyệt này'
+    },
+    library: {
+      title: 'Thư Viện',
+      readFailed: 'Không đọc được thư viện trên máy.',
+      failed: 'Thao tác thư viện thất bại.',
+      confirmDelete: (name) => `Xóa "${name}" cùng tất cả phiên bản?`,
+      withinLimit: 'Thư viện chưa vượt giới hạn; không có gì bị xóa.',
+      storage: (used, quota, library) => `Đã dùng ${used} / ${quota} · thư viện ${library}`,
+      readingStorage: 'Đang đọc bộ nhớ...',
+      persist: 'Giữ thư viện khi trình duyệt thiếu dung lượng',
+      autoRemove: 'Tự xóa các việc lâu không mở',
+      limit: 'Giới hạn thư viện (% hạn mức)',
+      applyLimit: 'Áp dụng giới hạn ngay',
+      search: 'Tìm theo tên hoặc thẻ',
+      empty: 'Chưa có việc nào được lưu. Ảnh tải lên sẽ tự động được lưu tại đây.',
+      noMatch: 'Không có việc nào khớp.',
+      tagsPlaceholder: 'Thêm thẻ, cách nhau bằng dấu phẩy',
+      versions: (count) => `${count} phiên bản`,
+      open: 'Mở',
+      export: 'Xuất',
+      untitled: 'Chưa đặt tên'
+    },
+    presets: {
+      title: 'Cấu hình mẫu',
+      modified: '(đã sửa)',
+      custom: '— Cấu hình tùy chỉnh —',
+      builtInGroup: 'Có sẵn',
+      mine: 'Của tôi',
+      namePrompt: 'Tên cấu hình',
+      copyName: (name) => `${name} (bản sao)`,
+      saved: (name) => `Đã lưu "${name}".`,
+      updated: (name) => `Đã cập nhật "${name}".`,
+      confirmDelete: (name) => `Xóa cấu hình "${name}"?`,
+      factory: 'Tab sẽ mở với cấu hình gốc.',
+      startup: (name) => `"${name}" được nạp khi khởi động.`,
+      nothingToExport: 'Chưa có cấu hình nào để xuất.',
+      imported: (count) => `Đã nhập ${count} cấu hình.`,
+      skipped: (count, errors) => ` Bỏ qua ${count}: ${errors}`,
+      importFailed: 'Không nhập được cấu hình.',
+      saveAs: 'Lưu cấu hình hiện tại thành mẫu mới',
+      overwrite: 'Ghi đè mẫu đang chọn bằng cấu hình hiện tại',
+      delete: 'Xóa mẫu đang chọn',
+      stopDefault: 'Không nạp mẫu này khi khởi động nữa',
+      makeDefault: 'Nạp mẫu này khi khởi động',
+      import: 'Nhập cấu hình từ tệp JSON',
+      export: 'Xuất cấu hình của bạn ra JSON',
+      builtIn: {
+        'builtin:portrait-natural': 'Chân dung tự nhiên',
+        'builtin:upscale-print': 'Chỉ phóng to – in ảnh lớn',
+        'builtin:vn-passport': 'Hộ chiếu Việt Nam – nền trắng, mịn 40',
+        'builtin:vn-profile-blue': 'Hồ sơ 3x4 – nền xanh',
+        'builtin:us-visa': 'Visa Mỹ 5x5 – nền trắng',
+        'builtin:wedding-album': 'Phục chế album cưới',
+        'builtin:bw-keep': 'Ảnh đen trắng – giữ màu gốc'
+      }
+    },
+    history: {
+      title: (count) => `Lịch sử (${count})`,
+      useSettings: 'Dùng cấu hình',
+      useSettingsHint: 'Nạp cấu hình đã dùng cho phiên bản này',
+      undo: 'Hoàn tác (Ctrl+Z)',
+      redo: 'Làm lại (Ctrl+Shift+Z)',
+      originalUpload: 'Ảnh tải lên gốc',
+      adjustments: 'Chỉnh ảnh',
+      mixedVariant: ' (phương án ghép)',
+      variant: ' (phương án)',
+      branched: 'Tách nhánh từ một phiên bản trước'
+    },
+    variants: {
+      title: (count) => `${count} phương án — chọn ảnh tốt nhất`,
+      back: 'Quay lại chế độ so sánh',
+      label: (letter) => `Phương án ${letter}`,
+      mixed: (base, background) => `${base} + nền ${background}`,
+      use: 'Dùng phương án này',
+      star: 'Gắn sao',
+      unstar: 'Bỏ sao',
+      selected: 'Đang chọn',
+      keep: 'Giữ',
+      withBackgroundOf: 'với nền của',
+      mix: 'Ghép',
+      mixFailed: 'Ghép ảnh thất bại.',
+      checkingBackgrounds: 'Đang kiểm tra nền...',
+      fewPlainBackgrounds: 'Cần hai phương án có nền trơn để tách người ra mới ghép được, nhưng ở đây chưa đến hai phương án như vậy.',
+      sameBackgrounds: 'Mọi phương án đều cùng màu nền nên ghép cũng không thay đổi gì. Ảnh thẻ luôn được đưa về màu nền đã chọn trong cài đặt.',
+      noPlainBackground: (label) => `${label} không có nền trơn để thay.`,
+      sameBackground: 'Hai phương án này có cùng nền.'
+    },
+    quality: {
+      title: 'Chất lượng',
+      measuring: 'Đang đo...',
+      sharpness: 'Độ nét',
+      sharpnessHint: 'Chi tiết nhỏ (phương sai Laplacian) so với ảnh đầu vào',
+      noise: 'Nhiễu σ',
+      noiseHint: 'Mức nhiễu ước tính, đầu vào → kết quả',
+      resolution: 'Độ phân giải',
+      resolutionHint: 'Kích thước cạnh so với ảnh đầu vào',
+      colorCast: 'Ám màu',
+      colorCastHint: 'Độ bão hòa của màu trung bình; 0 là trung tính',
+      similarity: 'Độ giống',
+      onFace: ' (mặt)',
+      similarityFaceHint: 'SSIM của khuôn mặt đã căn theo mắt',
+      similarityImageHint: 'SSIM của toàn khung hình',
+      drift: 'Lệch khuôn mặt',
+      driftHint: 'Độ dịch lớn nhất của mũi hoặc miệng so với mắt, tính theo khoảng cách hai mắt',
+      driftWarning: 'Khuôn mặt có thể đã bị thay đổi — kiểm tra kỹ.'
+    },
+    compare: {
+      split: 'Chia đôi',
+      toggle: 'Bật/tắt',
+      side: 'Cạnh nhau',
+      hold: 'Giữ để xem ảnh gốc',
+      zoomOut: 'Thu nhỏ',
+      zoomIn: 'Phóng to',
+      fit: 'Vừa khung',
+      actualPixels: 'Đúng kích thước điểm ảnh'
+    },
+    adjust: {
+      free: 'Tự do',
+      original: 'Gốc',
+      loadFailed: 'Không đọc được ảnh.',
+      applyFailed: 'Không thể áp dụng chỉnh sửa.',
+      rotateLeft: 'Xoay trái 90°',
+      rotateRight: 'Xoay phải 90°',
+      flip: 'Lật ngang',
+      crop: 'Cắt',
+      cropHint: 'Cắt ảnh',
+      before: 'Giữ để xem ảnh trước khi chỉnh',
+      resetCrop: 'Bỏ cắt',
+      output: (width, height) => `Đầu ra ${width}×${height}`,
+      straighten: 'Căn thẳng °',
+      exposure: 'Phơi sáng EV',
+      contrast: 'Tương phản',
+      saturation: 'Bão hòa',
+      temperature: 'Nhiệt độ màu',
+      tint: 'Sắc độ',
+      levels: 'Levels',
+      black: 'Đen',
+      gamma: 'Gamma',
+      white: 'Trắng',
+      curves: 'Curves',
+      curveHint: 'Bấm để thêm điểm · kéo để di chuyển · bấm đúp để xóa',
+      resetAll: 'Đặt lại tất cả'
+    },
+    mask: {
+      source: 'Ảnh để tô vùng chọn',
+      brush: 'Cọ',
+      eraser: 'Tẩy',
+      lasso: 'Lasso',
+      brushSize: 'Cỡ Cọ',
+      invert: 'Đảo'
+    },
+    batch: {
+      concurrency: 'Số Việc Song Song',
+      start: (count) => `Bắt đầu (${count})`,
+      retryFailed: 'Thử Lại Ảnh Lỗi',
+      downloadZip: 'Tải ZIP',
+      continueAnyway: (message) => `${message} Vẫn tiếp tục?`,
+      progress: (finished, total, done, failed) => `Đã xử lý ${finished} / ${total} · ${done} xong · ${failed} lỗi`,
+      addPhotos: 'Thêm Ảnh',
+      clearBatch: 'Xóa Hàng Loạt',
+      status: {
+        [BatchItemStatus.PENDING]: 'Đang chờ',
+        [BatchItemStatus.PROCESSING]: 'Đang xử lý',
+        [BatchItemStatus.DONE]: 'Xong',
+        [BatchItemStatus.FAILED]: 'Lỗi',
+        [BatchItemStatus.CANCELLED]: 'Đã hủy'
+      }
+    },
+    usage: {
+      title: 'Chi Phí',
+      today: 'Hôm nay',
+      thisMonth: 'Tháng này',
+      calls: (count) => `${count} lượt gọi`,
+      failed: (count) => `${count} lỗi`,
+      cap: (amount) => `hạn mức ${amount}`,
+      noCap: 'không hạn mức',
+      noCapPlaceholder: 'Không giới hạn',
+      dailyCap: 'Hạn mức ngày',
+      monthlyCap: 'Hạn mức tháng',
+      warn: 'Cảnh báo trước',
+      block: 'Chặn',
+      lastDays: (days) => `${days} ngày qua`,
+      byMonth: 'Theo tháng',
+      none: 'Chưa có lượt gọi nào.',
+      byModel: 'Tháng này theo mô hình',
+      recent: 'Lượt gọi gần đây',
+      columns: {
+        time: 'Thời điểm',
+        mode: 'Chế độ',
+        model: 'Mô hình',
+        input: 'Đầu vào',
+        output: 'Đầu ra',
+        duration: 'Thời gian',
+        cost: 'Chi phí'
+      },
+      tile: 'ô',
+      confirmClear: 'Xóa toàn bộ nhật ký chi phí? Hạn mức được giữ lại.',
+      footnote: 'Ước tính theo bảng giá Gemini; hóa đơn thực tế mới là chính xác.',
+      budget: (monthly, cap, spent, estimate) =>
+        `Hạn mức ${monthly ? 'tháng' : 'ngày'} ${cap}: đã dùng ${spent}, yêu cầu này thêm khoảng ${estimate}.`
+    }
+  }
+};
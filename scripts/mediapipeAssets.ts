@@ -0,0 +1,47 @@
+// Puts the MediaPipe runtime and face model in public/mediapipe, so the app serves them
+// itself and face detection works offline and behind proxies. The runtime is copied from
+// the installed @mediapipe/tasks-vision, so it always matches the bundled JS; the model
+// is downloaded once. Runs before `npm run dev` and `npm run build`.
+import { access, copyFile, mkdir, writeFile } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const FACE_MODEL_URL = 'https://storage.googleapis.com/mediapipe-models/face_detector/blaze_face_short_range/float16/1/blaze_face_short_range.tflite';
+const FACE_MODEL_FILE = 'blaze_face_short_range.tflite';
+
+// The classic (non-module) loaders FilesetResolver.forVisionTasks picks from, with and without SIMD
+const WASM_FILES = [
+  'vision_wasm_internal.js',
+  'vision_wasm_internal.wasm',
+  'vision_wasm_nosimd_internal.js',
+  'vision_wasm_nosimd_internal.wasm'
+];
+
+const exists = (file: string) => access(file).then(() => true, () => false);
+
+const main = async () => {
+  const target = fileURLToPath(new URL('../public/mediapipe', import.meta.url));
+  const packageDir = path.dirname(createRequire(import.meta.url).resolve('@mediapipe/tasks-vision'));
+  await mkdir(path.join(target, 'wasm'), { recursive: true });
+  for (const file of WASM_FILES) {
+    await copyFile(path.join(packageDir, 'wasm', file), path.join(target, 'wasm', file));
+  }
+
+  const model = path.join(target, FACE_MODEL_FILE);
+  if (await exists(model)) return;
+  try {
+    const res = await fetch(FACE_MODEL_URL);
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    await writeFile(model, new Uint8Array(await res.arrayBuffer()));
+    console.log(`Downloaded ${FACE_MODEL_FILE}.`);
+  } catch (err: any) {
+    // Not fatal: the app falls back to the browser's own detector until the file is there
+    console.warn(`Could not download the face model (${err?.message || err}). Put ${FACE_MODEL_URL} at ${model} by hand.`);
+  }
+};
+
+main().catch(err => {
+  console.error(err?.message || err);
+  process.exit(1);
+});
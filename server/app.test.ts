@@ -0,0 +1,122 @@
+import { AddressInfo } from 'node:net';
+import { Server } from 'node:http';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { Jimp } from 'jimp';
+import { configureGemini } from '../services/geminiService';
+import { geminiProvider } from '../services/providers/gemini';
+import { createProxyServer } from './app';
+import { loadServerConfig } from './config';
+import { createMockUpstream } from './mockUpstream';
+
+// The proxy with its real Gemini provider, pointed at the mock upstream that echoes every image
+let upstream: Server;
+let proxy: Server;
+let base: string;
+
+const listen = (server: Server) =>
+  new Promise<string>(resolve => server.listen(0, '127.0.0.1', () => resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`)));
+
+const close = (server: Server) => new Promise(resolve => server.close(resolve));
+
+beforeAll(async () => {
+  upstream = createMockUpstream();
+  configureGemini({ apiKey: 'test', baseUrl: await listen(upstream) });
+  proxy = createProxyServer(loadServerConfig({ MAX_BODY_MB: '1' }), { provider: geminiProvider, log: () => {} });
+  base = await listen(proxy);
+});
+
+afterAll(async () => {
+  await close(proxy);
+  await close(upstream);
+});
+
+const pngDataUrl = async (image: InstanceType<typeof Jimp>) =>
+  `data:image/png;base64,${(await image.getBuffer('image/png')).toString('base64')}`;
+
+// Blue backdrop with a dark block standing in for the person
+const portrait = async () => {
+  const image = new Jimp({ width: 300, height: 400, color: 0x2196f3ff });
+  image.scan(75, 120, 150, 280, (_x, _y, i) => image.bitmap.data.set([0x55, 0x33, 0x22], i));
+  return pngDataUrl(image);
+};
+
+const postJob = async (body: unknown) => {
+  const res = await fetch(`${base}/jobs`, { method: 'POST', body: JSON.stringify(body) });
+  return { res, json: await res.json() };
+};
+
+describe('job API', () => {
+  it('runs a job: POST, long poll, result', async () => {
+    const image = await pngDataUrl(new Jimp({ width: 64, height: 48, color: 0x336699ff }));
+    const { res, json: job } = await postJob({ tab: 'restore', image, settings: { denoiseLevel: 10 } });
+    expect(res.status).toBe(202);
+    expect(res.headers.get('location')).toBe(`/jobs/${job.id}`);
+    expect(job.settings.denoiseLevel).toBe(10);
+
+    const status = await (await fetch(`${base}/jobs/${job.id}?wait=10`)).json();
+    expect(status.status).toBe('done');
+    expect(status.resultUrl).toBe(`/jobs/${job.id}/result`);
+
+    const result = await fetch(`${base}${status.resultUrl}`);
+    expect(result.headers.get('content-type')).toBe('image/png');
+    expect(Buffer.from(await result.arrayBuffer()).toString('base64')).toBe(image.slice(image.indexOf(',') + 1));
+  });
+
+  it('fills in the named document spec and corrects the background to its colour', async () => {
+    const { res, json: job } = await postJob({ tab: 'id_photo', image: await portrait(), settings: { specId: 'vn-passport' } });
+    expect(res.status).toBe(202);
+    expect(job.settings).toMatchObject({ size: '4x6', backgroundColor: 'white', backgroundStyle: 'solid' });
+
+    await fetch(`${base}/jobs/${job.id}?wait=10`);
+    const result = await Jimp.read(Buffer.from(await (await fetch(`${base}/jobs/${job.id}/result`)).arrayBuffer()));
+    expect(result.getPixelColor(5, 5) >>> 0).toBe(0xffffffff);
+    expect(result.getPixelColor(150, 300) >>> 0).toBe(0x553322ff);
+  });
+
+  it('downscales inputs to what the model takes', async () => {
+    const large = new Jimp({ width: 3000, height: 1000, color: 0x808080ff });
+    const image = `data:image/jpeg;base64,${(await large.getBuffer('image/jpeg')).toString('base64')}`;
+    const { json: job } = await postJob({ tab: 'enhance', image, settings: { quality: '2k' } });
+    await fetch(`${base}/jobs/${job.id}?wait=10`);
+    const result = await Jimp.read(Buffer.from(await (await fetch(`${base}/jobs/${job.id}/result`)).arrayBuffer()));
+    expect([result.bitmap.width, result.bitmap.height]).toEqual([2048, 683]);
+  });
+
+  it('rejects invalid settings with 400', async () => {
+    const image = await portrait();
+    const cases: [unknown, RegExp][] = [
+      [{ tab: 'colorize', image }, /tab must be one of/],
+      [{ tab: 'enhance', image: 'https://example.com/a.jpg' }, /image must be an image data URL/],
+      [{ tab: 'enhance', image, settings: { retouchLevel: 500 } }, /retouchLevel must be a number between 0 and 100/],
+      [{ tab: 'enhance', image, settings: { sharpness: 10 } }, /sharpness is not a known setting/],
+      [{ tab: 'id_photo', image, settings: { specId: 'vn-passport', size: '3x4' } }, /size must be "4x6" for specId "vn-passport"/]
+    ];
+    for (const [body, error] of cases) {
+      const { res, json } = await postJob(body);
+      expect(res.status).toBe(400);
+      expect(json.kind).toBe('invalid_input');
+      expect(json.error).toMatch(error);
+    }
+  });
+
+  it('refuses settings that need the browser app with 422', async () => {
+    const image = await portrait();
+    const tiled = await postJob({ tab: 'enhance', image, settings: { tiledUpscale: true } });
+    expect(tiled.res.status).toBe(422);
+    const backdrop = await postJob({ tab: 'id_photo', image, settings: { specId: '', backgroundStyle: 'image', backdropId: 'beach' } });
+    expect(backdrop.res.status).toBe(422);
+    expect(backdrop.json.error).toMatch(/Backdrop backgrounds need the browser app/);
+  });
+
+  it('answers 413 to a body over MAX_BODY_MB', async () => {
+    const image = `data:image/png;base64,${'A'.repeat(1024 * 1024 + 1)}`;
+    const { res, json } = await postJob({ tab: 'enhance', image });
+    expect(res.status).toBe(413);
+    expect(json.error).toBe('Request is larger than 1 MB.');
+  });
+
+  it('answers 404 for an unknown job', async () => {
+    const res = await fetch(`${base}/jobs/unknown`);
+    expect(res.status).toBe(404);
+  });
+});
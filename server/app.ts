@@ -0,0 +1,356 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { AIErrorKind, AppTab } from '../types';
+import { classifyError } from '../services/errors';
+import { HTTP_PROVIDER_ROUTES } from '../services/providers/http';
+import { ImageProvider } from '../services/providers/types';
+import { callProvider } from '../services/providers/dispatch';
+import { validateOperation } from '../services/settingsValidation';
+import { checkHeadlessOperation, runHeadlessOperation } from '../services/headlessProcessing';
+import { compilePrompt } from '../services/promptCompiler';
+import { FACTORY_SETTINGS } from '../services/presets';
+import { extensionForDataUrl } from '../utils/file';
+import { ServerConfig } from './config';
+import { createRateLimiter } from './rateLimit';
+import { UsageRecord } from './usageLog';
+import { createJobQueue, Job, JobStatus } from './jobs';
+import { buildOpenApiSpec } from './openapi';
+
+const ROUTE_TABS: Record<string, AppTab> = {
+  [HTTP_PROVIDER_ROUTES.enhance]: AppTab.ENHANCE,
+  [HTTP_PROVIDER_ROUTES.idPhoto]: AppTab.ID_PHOTO,
+  [HTTP_PROVIDER_ROUTES.restore]: AppTab.RESTORE
+};
+
+// Response status per failure; the kind is sent too, so the client keeps the exact classification
+const KIND_STATUS: Record<AIErrorKind, number> = {
+  [AIErrorKind.MISSING_KEY]: 503,
+  [AIErrorKind.QUOTA]: 429,
+  [AIErrorKind.SAFETY]: 422,
+  [AIErrorKind.TEXT_ONLY]: 422,
+  [AIErrorKind.NETWORK]: 502,
+  [AIErrorKind.TIMEOUT]: 504,
+  [AIErrorKind.SERVER]: 502,
+  [AIErrorKind.CANCELLED]: 499,
+  [AIErrorKind.INVALID_INPUT]: 400,
+  [AIErrorKind.BUDGET]: 402,
+  [AIErrorKind.UNKNOWN]: 500
+};
+
+export interface ProxyDependencies {
+  provider: ImageProvider; // Upstream that does the work, normally Gemini
+  log: (record: UsageRecord) => void | Promise<void>;
+}
+
+// Longest a status request may be held open waiting for its job (?wait=)
+const JOB_MAX_WAIT_S = 60;
+
+const JOB_PATH = /^\/jobs\/([\w-]+)(\/result)?$/;
+
+class BodyTooLargeError extends Error {}
+
+// Rejects as soon as the body is over `limit`. The rest is read and discarded rather than the
+// socket destroyed, so the client still receives the 413 instead of a connection reset.
+const readBody = (req: IncomingMessage, limit: number): Promise<Buffer> => {
+  return new Promise((resolve, reject) => {
+    const tooLarge = () => {
+      req.removeAllListeners('data');
+      req.resume();
+      reject(new BodyTooLargeError());
+    };
+    if (Number(req.headers['content-length']) > limit) {
+      tooLarge();
+      return;
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        chunks.length = 0;
+        tooLarge();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+};
+
+const isDataUrl = (value: unknown): value is string =>
+  typeof value === 'string' && value.startsWith('data:image/');
+
+// Problem with the image or mask of a request body, if any
+const checkImages = (payload: any): string | null => {
+  if (!isDataUrl(payload?.image)) return 'image must be an image data URL.';
+  if (payload.mask !== undefined && !isDataUrl(payload.mask)) return 'mask must be an image data URL.';
+  return null;
+};
+
+const isoTime = (time: number | null) => time === null ? null : new Date(time).toISOString();
+
+// Serves the HTTP provider wire format (see services/providers/http.ts) on top of
+// an upstream provider, so the browser never needs the upstream's credentials
+export const createProxyServer = (config: ServerConfig, deps: ProxyDependencies) => {
+  const limiter = createRateLimiter(config.rateLimitPerMinute, config.rateLimitBurst);
+  const jobs = createJobQueue({ concurrency: config.jobConcurrency, maxJobs: config.maxJobs, ttlMs: config.jobTtlMs });
+  const openApiSpec = buildOpenApiSpec(JOB_MAX_WAIT_S);
+
+  const clientId = (req: IncomingMessage): string => {
+    const forwarded = req.headers['x-forwarded-for'];
+    if (config.trustProxy && typeof forwarded === 'string' && forwarded) {
+      return forwarded.split(',')[0].trim();
+    }
+    return req.socket.remoteAddress || 'unknown';
+  };
+
+  const sendJson = (res: ServerResponse, status: number, body: unknown): number => {
+    const json = JSON.stringify(body);
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(json);
+    return Buffer.byteLength(json);
+  };
+
+  // Parsed JSON body; failures carry the status and message to answer with. An oversized
+  // body is still arriving, so the connection is closed once the answer has been sent.
+  const readJson = async (req: IncomingMessage, res: ServerResponse): Promise<{ payload: any; bytes: number } | { status: number; message: string }> => {
+    try {
+      const body = await readBody(req, config.maxBodyBytes);
+      return { payload: JSON.parse(body.toString('utf8')), bytes: body.length };
+    } catch (err) {
+      if (!(err instanceof BodyTooLargeError)) return { status: 400, message: 'Request body must be JSON.' };
+      res.setHeader('Connection', 'close');
+      return { status: 413, message: `Request is larger than ${Math.round(config.maxBodyBytes / 1024 / 1024)} MB.` };
+    }
+  };
+
+  const jobJson = (job: Job) => ({
+    id: job.id,
+    tab: job.operation.tab,
+    settings: job.operation.settings,
+    status: job.status,
+    createdAt: isoTime(job.createdAt),
+    startedAt: isoTime(job.startedAt),
+    finishedAt: isoTime(job.finishedAt),
+    expiresAt: isoTime(jobs.expiresAt(job)),
+    resultUrl: job.status === JobStatus.DONE ? `/jobs/${job.id}/result` : null,
+    error: job.error
+  });
+
+  // Asynchronous API for other systems: POST /jobs, then GET /jobs/{id} (optionally
+  // long-polling with ?wait=) and GET /jobs/{id}/result. Described in /openapi.json.
+  const handleJobs = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+    const fail = (status: number, message: string, kind?: AIErrorKind) => sendJson(res, status, { error: message, kind });
+
+    if (url.pathname === '/jobs') {
+      if (req.method !== 'POST') {
+        fail(404, 'Not found');
+        return;
+      }
+      const client = clientId(req);
+      const retryAfter = limiter.take(client);
+      if (retryAfter > 0) {
+        res.setHeader('Retry-After', String(retryAfter));
+        fail(429, `Too many requests; try again in ${retryAfter}s.`, AIErrorKind.QUOTA);
+        return;
+      }
+      const body = await readJson(req, res);
+      if ('status' in body) {
+        fail(body.status, body.message, AIErrorKind.INVALID_INPUT);
+        return;
+      }
+      const { payload } = body;
+      const imageError = checkImages(payload);
+      if (imageError) {
+        fail(400, imageError, AIErrorKind.INVALID_INPUT);
+        return;
+      }
+      // Unlike the proxy routes, omitted settings take the factory values
+      const validated = validateOperation({ tab: payload.tab, settings: payload.settings ?? {} }, FACTORY_SETTINGS);
+      if (!validated.value) {
+        fail(400, validated.errors.join('; '), AIErrorKind.INVALID_INPUT);
+        return;
+      }
+      const operation = validated.value;
+      const unsupported = checkHeadlessOperation(operation);
+      if (unsupported) {
+        fail(422, unsupported, AIErrorKind.INVALID_INPUT);
+        return;
+      }
+      const { image, mask } = payload as { image: string; mask?: string };
+
+      const job = jobs.submit(operation, async signal => {
+        const started = Date.now();
+        const record: UsageRecord = {
+          time: new Date(started).toISOString(),
+          client,
+          route: '/jobs',
+          model: compilePrompt(operation).model,
+          tile: false,
+          requestBytes: body.bytes,
+          responseBytes: 0,
+          durationMs: 0,
+          status: 200,
+          errorKind: null
+        };
+        try {
+          const result = await runHeadlessOperation(deps.provider, image, operation, { signal, mask });
+          record.responseBytes = result.length;
+          return result;
+        } catch (err) {
+          const error = classifyError(err);
+          record.status = KIND_STATUS[error.kind];
+          record.errorKind = error.kind;
+          throw error;
+        } finally {
+          record.durationMs = Date.now() - started;
+          deps.log(record);
+        }
+      });
+      if (!job) {
+        fail(503, 'Too many jobs are waiting; try again later.', AIErrorKind.SERVER);
+        return;
+      }
+      res.setHeader('Location', `/jobs/${job.id}`);
+      sendJson(res, 202, jobJson(job));
+      return;
+    }
+
+    const [, id, result] = url.pathname.match(JOB_PATH) ?? [];
+    const allowed = req.method === 'GET' || (req.method === 'DELETE' && !result);
+    if (!id || !allowed) {
+      fail(404, 'Not found');
+      return;
+    }
+
+    if (req.method === 'DELETE') {
+      if (jobs.remove(id)) res.writeHead(204).end();
+      else fail(404, 'Job not found or expired.');
+      return;
+    }
+
+    const waitSeconds = result ? 0 : Math.min(JOB_MAX_WAIT_S, Math.max(0, Number(url.searchParams.get('wait')) || 0));
+    const job = await jobs.wait(id, waitSeconds * 1000);
+    if (!job) {
+      fail(404, 'Job not found or expired.');
+      return;
+    }
+    if (!result) {
+      sendJson(res, 200, jobJson(job));
+      return;
+    }
+    if (job.status !== JobStatus.DONE || !job.result) {
+      fail(409, job.error ? `Job ${job.status}: ${job.error.message}` : `Job is ${job.status}.`, job.error?.kind);
+      return;
+    }
+    const bytes = Buffer.from(job.result.slice(job.result.indexOf(',') + 1), 'base64');
+    res.writeHead(200, {
+      'Content-Type': job.result.slice(5, job.result.indexOf(';')),
+      'Content-Length': bytes.length,
+      'Content-Disposition': `attachment; filename="${job.id}.${extensionForDataUrl(job.result)}"`
+    });
+    res.end(bytes);
+  };
+
+  return createServer(async (req, res) => {
+    if (config.corsOrigin) {
+      res.setHeader('Access-Control-Allow-Origin', config.corsOrigin);
+      res.setHeader('Access-Control-Allow-Methods', 'POST, GET, DELETE, OPTIONS');
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+      res.setHeader('Access-Control-Expose-Headers', 'Location');
+    }
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+
+    const url = new URL(req.url || '/', 'http://localhost');
+    const path = url.pathname;
+    if (req.method === 'GET' && path === '/health') {
+      sendJson(res, 200, { ok: true, upstream: deps.provider.kind });
+      return;
+    }
+    if (req.method === 'GET' && path === '/openapi.json') {
+      sendJson(res, 200, openApiSpec);
+      return;
+    }
+    if (path === '/jobs' || path.startsWith('/jobs/')) {
+      await handleJobs(req, res, url);
+      return;
+    }
+    const tab = ROUTE_TABS[path];
+    if (!tab || req.method !== 'POST') {
+      sendJson(res, 404, { error: 'Not found' });
+      return;
+    }
+
+    const started = Date.now();
+    const record: UsageRecord = {
+      time: new Date(started).toISOString(),
+      client: clientId(req),
+      route: path,
+      model: null,
+      tile: false,
+      requestBytes: 0,
+      responseBytes: 0,
+      durationMs: 0,
+      status: 0,
+      errorKind: null
+    };
+    const finish = (status: number, body: unknown, errorKind: AIErrorKind | null = null) => {
+      record.responseBytes = sendJson(res, status, body);
+      record.status = status;
+      record.errorKind = errorKind;
+      record.durationMs = Date.now() - started;
+      deps.log(record);
+    };
+    const fail = (status: number, kind: AIErrorKind, message: string) => finish(status, { error: message, kind }, kind);
+
+    const retryAfter = limiter.take(record.client);
+    if (retryAfter > 0) {
+      res.setHeader('Retry-After', String(retryAfter));
+      fail(429, AIErrorKind.QUOTA, `Too many requests; try again in ${retryAfter}s.`);
+      return;
+    }
+
+    const body = await readJson(req, res);
+    if ('status' in body) {
+      fail(body.status, AIErrorKind.INVALID_INPUT, body.message);
+      return;
+    }
+    record.requestBytes = body.bytes;
+    const { payload } = body;
+
+    const imageError = checkImages(payload);
+    if (imageError) {
+      fail(400, AIErrorKind.INVALID_INPUT, imageError);
+      return;
+    }
+    const validated = validateOperation({ tab, settings: payload.settings });
+    if (!validated.value) {
+      fail(400, AIErrorKind.INVALID_INPUT, validated.errors.join('; '));
+      return;
+    }
+    const operation = validated.value;
+    record.model = compilePrompt(operation).model;
+    record.tile = payload.tile === true;
+
+    // Stop the upstream call when the client disconnects or cancels
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) controller.abort();
+    });
+
+    try {
+      const image = await callProvider(deps.provider, payload.image, operation, {
+        signal: controller.signal,
+        mask: payload.mask,
+        tile: record.tile || undefined
+      });
+      finish(200, { image });
+    } catch (err) {
+      const error = classifyError(err);
+      fail(KIND_STATUS[error.kind], error.kind, error.message);
+    }
+  });
+};
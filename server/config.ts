@@ -0,0 +1,38 @@
+// Proxy server settings, read from the environment (and .env.local when present)
+export interface ServerConfig {
+  port: number;
+  host: string;
+  apiKey: string;
+  upstreamBaseUrl?: string; // Gemini API endpoint override, e.g. the local mock upstream
+  maxBodyBytes: number; // Whole JSON request, image and mask included
+  rateLimitPerMinute: number; // Sustained requests per client
+  rateLimitBurst: number; // Requests a client may make at once after being idle
+  trustProxy: boolean; // Identify clients by X-Forwarded-For when behind a reverse proxy
+  corsOrigin: string; // Empty = same-origin only (the Vite dev proxy)
+  usageLogPath?: string; // JSON lines; stdout when unset
+  jobConcurrency: number; // Jobs of the job API processed at once
+  maxJobs: number; // Jobs kept in memory; the oldest finished ones give way to new jobs
+  jobTtlMs: number; // How long a finished job's result can be fetched
+}
+
+const number = (value: string | undefined, fallback: number) => {
+  const n = Number(value);
+  return value && Number.isFinite(n) && n > 0 ? n : fallback;
+};
+
+export const loadServerConfig = (env: NodeJS.ProcessEnv): ServerConfig => ({
+  port: number(env.PORT, 8787),
+  host: env.HOST || '127.0.0.1',
+  apiKey: env.GEMINI_API_KEY || '',
+  upstreamBaseUrl: env.GEMINI_BASE_URL || undefined,
+  maxBodyBytes: number(env.MAX_BODY_MB, 16) * 1024 * 1024,
+  // Tiled upscales send one request per tile, so the burst covers a typical job
+  rateLimitPerMinute: number(env.RATE_LIMIT_PER_MINUTE, 30),
+  rateLimitBurst: number(env.RATE_LIMIT_BURST, 12),
+  trustProxy: env.TRUST_PROXY === '1',
+  corsOrigin: env.CORS_ORIGIN || '',
+  usageLogPath: env.USAGE_LOG || undefined,
+  jobConcurrency: number(env.JOB_CONCURRENCY, 2),
+  maxJobs: number(env.MAX_JOBS, 50),
+  jobTtlMs: number(env.JOB_TTL_MINUTES, 60) * 60 * 1000
+});
@@ -0,0 +1,30 @@
+// Proxy server: holds the Gemini API key and serves enhance / ID photo / restore
+// to the browser, and as a job API to other systems. Run with `npm run server`.
+import { configureGemini } from '../services/geminiService';
+import { geminiProvider } from '../services/providers/gemini';
+import { loadServerConfig } from './config';
+import { createProxyServer } from './app';
+import { createUsageLog } from './usageLog';
+
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // No env file; use the process environment only
+}
+
+const config = loadServerConfig(process.env);
+if (!config.apiKey) {
+  console.error('GEMINI_API_KEY is not set. Add it to .env.local or the environment.');
+  process.exit(1);
+}
+
+configureGemini({ apiKey: config.apiKey, baseUrl: config.upstreamBaseUrl });
+
+const server = createProxyServer(config, {
+  provider: geminiProvider,
+  log: createUsageLog(config.usageLogPath)
+});
+
+server.listen(config.port, config.host, () => {
+  console.error(`Proxy listening on http://${config.host}:${config.port}${config.upstreamBaseUrl ? ` (upstream ${config.upstreamBaseUrl})` : ''}`);
+});
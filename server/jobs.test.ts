@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { AppTab, OperationSettings } from '../types';
+import { FACTORY_SETTINGS } from '../services/presets';
+import { createJobQueue, JobStatus, JobTask } from './jobs';
+
+const OPERATION = { tab: AppTab.RESTORE, settings: FACTORY_SETTINGS[AppTab.RESTORE] } as OperationSettings;
+
+const done: JobTask = async () => 'data:image/png;base64,AA==';
+// Runs until cancelled, so the job holds its place in the queue
+const endless: JobTask = signal => new Promise((_, reject) => {
+  signal.addEventListener('abort', () => reject(Object.assign(new Error('aborted'), { name: 'AbortError' })));
+});
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('job queue', () => {
+  it('runs a job and keeps its result', async () => {
+    const jobs = createJobQueue({ concurrency: 1, maxJobs: 5, ttlMs: 60_000 });
+    const job = jobs.submit(OPERATION, done)!;
+    const finished = await jobs.wait(job.id, 1000);
+    expect(finished?.status).toBe(JobStatus.DONE);
+    expect(finished?.result).toBe('data:image/png;base64,AA==');
+    expect(jobs.expiresAt(finished!)).toBe(finished!.finishedAt! + 60_000);
+  });
+
+  it('drops finished jobs after their TTL', async () => {
+    const jobs = createJobQueue({ concurrency: 1, maxJobs: 5, ttlMs: 20 });
+    const job = jobs.submit(OPERATION, done)!;
+    await jobs.wait(job.id, 1000);
+    expect(jobs.get(job.id)).toBeDefined();
+    await sleep(40);
+    expect(jobs.get(job.id)).toBeUndefined();
+  });
+
+  it('makes room by dropping the oldest finished job before its TTL', async () => {
+    const jobs = createJobQueue({ concurrency: 2, maxJobs: 2, ttlMs: 60_000 });
+    const first = jobs.submit(OPERATION, done)!;
+    await jobs.wait(first.id, 1000);
+    await sleep(5);
+    const second = jobs.submit(OPERATION, done)!;
+    await jobs.wait(second.id, 1000);
+
+    const third = jobs.submit(OPERATION, done);
+    expect(third).not.toBeNull();
+    expect(jobs.get(first.id)).toBeUndefined();
+    expect(jobs.get(second.id)).toBeDefined();
+  });
+
+  it('refuses new jobs only while active jobs fill every place', async () => {
+    const jobs = createJobQueue({ concurrency: 1, maxJobs: 2, ttlMs: 60_000 });
+    const running = jobs.submit(OPERATION, endless)!;
+    const queued = jobs.submit(OPERATION, endless)!;
+    expect(jobs.get(running.id)?.status).toBe(JobStatus.RUNNING);
+    expect(jobs.get(queued.id)?.status).toBe(JobStatus.QUEUED);
+    expect(jobs.submit(OPERATION, done)).toBeNull();
+
+    expect(jobs.remove(queued.id)).toBe(true);
+    expect(jobs.submit(OPERATION, done)).not.toBeNull();
+    jobs.remove(running.id);
+  });
+});
@@ -0,0 +1,161 @@
+import { randomUUID } from 'node:crypto';
+import { AIErrorKind, OperationSettings, ProcessingError } from '../types';
+import { AIServiceError, classifyError } from '../services/errors';
+
+export enum JobStatus {
+  QUEUED = 'queued',
+  RUNNING = 'running',
+  DONE = 'done',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled'
+}
+
+export interface Job {
+  id: string;
+  operation: OperationSettings;
+  status: JobStatus;
+  createdAt: number;
+  startedAt: number | null;
+  finishedAt: number | null;
+  result: string | null; // Data URL
+  error: ProcessingError | null;
+}
+
+// Does the work of one job; holds the input image until it has run
+export type JobTask = (signal: AbortSignal) => Promise<string>;
+
+export interface JobQueueOptions {
+  concurrency: number;
+  maxJobs: number; // Jobs kept at once, each holding its images; finished ones make room for new ones
+  ttlMs: number; // How long a finished job and its result stay available
+}
+
+export interface JobQueue {
+  // Null when `maxJobs` jobs are queued or running
+  submit: (operation: OperationSettings, task: JobTask) => Job | null;
+  get: (id: string) => Job | undefined;
+  // Resolves once the job has finished or after `timeoutMs`, whichever is first
+  wait: (id: string, timeoutMs: number) => Promise<Job | undefined>;
+  // Stops a queued or running job and forgets it
+  remove: (id: string) => boolean;
+  expiresAt: (job: Job) => number | null;
+}
+
+const isFinished = (job: Job) =>
+  job.status === JobStatus.DONE || job.status === JobStatus.FAILED || job.status === JobStatus.CANCELLED;
+
+// In-memory jobs, run in submission order with at most `concurrency` at once.
+// Finished jobs are dropped `ttlMs` after they finish, or sooner when new jobs need
+// their room; nothing survives a restart.
+export const createJobQueue = (options: JobQueueOptions): JobQueue => {
+  const jobs = new Map<string, Job>();
+  const tasks = new Map<string, JobTask>();
+  const controllers = new Map<string, AbortController>();
+  const waiters = new Map<string, Set<() => void>>();
+  let running = 0;
+
+  const expiresAt = (job: Job) => job.finishedAt === null ? null : job.finishedAt + options.ttlMs;
+
+  const sweep = (now = Date.now()) => {
+    jobs.forEach((job, id) => {
+      const expiry = expiresAt(job);
+      if (expiry !== null && expiry <= now) jobs.delete(id);
+    });
+  };
+
+  // Drops the oldest finished jobs before their TTL until there is room for one more
+  const makeRoom = () => {
+    const finished = [...jobs.values()].filter(isFinished).sort((a, b) => a.finishedAt! - b.finishedAt!);
+    while (jobs.size >= options.maxJobs && finished.length) jobs.delete(finished.shift()!.id);
+  };
+
+  const finish = (job: Job, status: JobStatus, result: string | null, error: ProcessingError | null) => {
+    Object.assign(job, { status, result, error, finishedAt: Date.now() });
+    tasks.delete(job.id);
+    controllers.delete(job.id);
+    waiters.get(job.id)?.forEach(wake => wake());
+    waiters.delete(job.id);
+  };
+
+  const start = async (job: Job) => {
+    const task = tasks.get(job.id)!;
+    tasks.delete(job.id);
+    const controller = new AbortController();
+    controllers.set(job.id, controller);
+    job.status = JobStatus.RUNNING;
+    job.startedAt = Date.now();
+    running++;
+    try {
+      finish(job, JobStatus.DONE, await task(controller.signal), null);
+    } catch (err) {
+      const error = classifyError(err);
+      finish(job, error.kind === AIErrorKind.CANCELLED ? JobStatus.CANCELLED : JobStatus.FAILED, null, error.toJSON());
+    } finally {
+      running--;
+      pump();
+    }
+  };
+
+  const pump = () => {
+    for (const job of jobs.values()) {
+      if (running >= options.concurrency) return;
+      if (job.status === JobStatus.QUEUED) start(job);
+    }
+  };
+
+  return {
+    submit: (operation, task) => {
+      sweep();
+      makeRoom();
+      if (jobs.size >= options.maxJobs) return null;
+      const job: Job = {
+        id: randomUUID(),
+        operation,
+        status: JobStatus.QUEUED,
+        createdAt: Date.now(),
+        startedAt: null,
+        finishedAt: null,
+        result: null,
+        error: null
+      };
+      jobs.set(job.id, job);
+      tasks.set(job.id, task);
+      pump();
+      return job;
+    },
+
+    get: (id) => {
+      sweep();
+      return jobs.get(id);
+    },
+
+    wait: (id, timeoutMs) => {
+      sweep();
+      const job = jobs.get(id);
+      if (!job || isFinished(job) || timeoutMs <= 0) return Promise.resolve(job);
+      return new Promise(resolve => {
+        const wake = () => {
+          clearTimeout(timer);
+          waiters.get(id)?.delete(wake);
+          resolve(jobs.get(id));
+        };
+        const timer = setTimeout(wake, timeoutMs);
+        if (!waiters.has(id)) waiters.set(id, new Set());
+        waiters.get(id)!.add(wake);
+      });
+    },
+
+    remove: (id) => {
+      const job = jobs.get(id);
+      if (!job) return false;
+      if (job.status === JobStatus.QUEUED) {
+        finish(job, JobStatus.CANCELLED, null, new AIServiceError(AIErrorKind.CANCELLED, 'Request was cancelled.').toJSON());
+      }
+      controllers.get(id)?.abort();
+      jobs.delete(id);
+      return true;
+    },
+
+    expiresAt
+  };
+};
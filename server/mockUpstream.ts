@@ -0,0 +1,48 @@
+// Stand-in for the Gemini API, for running the proxy without a key or quota.
+// Answers generateContent by returning the input image unchanged.
+// Start with `npm run server:mock-upstream`, then run the proxy with
+// GEMINI_BASE_URL=http://127.0.0.1:8788 and any GEMINI_API_KEY. Tests create it with createMockUpstream.
+import { createServer } from 'node:http';
+import { pathToFileURL } from 'node:url';
+
+export const createMockUpstream = (delayMs = 0) => createServer((req, res) => {
+  const chunks: Buffer[] = [];
+  req.on('data', (chunk: Buffer) => chunks.push(chunk));
+  req.on('end', () => {
+    const reply = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.method !== 'POST' || !req.url?.includes(':generateContent')) {
+      reply(404, { error: { code: 404, message: 'Not found', status: 'NOT_FOUND' } });
+      return;
+    }
+
+    let request: any;
+    try {
+      request = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+      reply(400, { error: { code: 400, message: 'Invalid JSON', status: 'INVALID_ARGUMENT' } });
+      return;
+    }
+    const parts: any[] = request.contents?.flatMap((c: any) => c.parts || []) ?? [];
+    const image = parts.find(p => p.inlineData?.data)?.inlineData;
+    if (!image) {
+      reply(400, { error: { code: 400, message: 'No image in request', status: 'INVALID_ARGUMENT' } });
+      return;
+    }
+
+    setTimeout(() => reply(200, {
+      candidates: [{ content: { role: 'model', parts: [{ inlineData: image }] }, finishReason: 'STOP' }]
+    }), delayMs);
+  });
+});
+
+// Run as a script rather than imported
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.MOCK_UPSTREAM_PORT) || 8788;
+  createMockUpstream(Number(process.env.MOCK_UPSTREAM_DELAY_MS) || 0).listen(port, '127.0.0.1', () => {
+    console.error(`Mock Gemini upstream listening on http://127.0.0.1:${port}`);
+  });
+}
@@ -0,0 +1,172 @@
+import { AIErrorKind, AppTab } from '../types';
+import { FACTORY_SETTINGS } from '../services/presets';
+import { FieldSpec, SETTINGS_SCHEMAS } from '../services/settingsValidation';
+import { JobStatus } from './jobs';
+
+// Schema names per operation; the settings ones match the interfaces in types.ts
+const TAB_SCHEMAS: Record<AppTab, { settings: string; request: string }> = {
+  [AppTab.ENHANCE]: { settings: 'EditorSettings', request: 'EnhanceJobRequest' },
+  [AppTab.ID_PHOTO]: { settings: 'IDPhotoSettings', request: 'IDPhotoJobRequest' },
+  [AppTab.RESTORE]: { settings: 'RestorationSettings', request: 'RestoreJobRequest' }
+};
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const fieldSchema = (spec: FieldSpec, defaultValue: unknown) => {
+  switch (spec.kind) {
+    case 'enum': return { type: 'string', enum: spec.values, default: defaultValue };
+    case 'number': return { type: 'number', minimum: spec.min, maximum: spec.max, default: defaultValue };
+    case 'boolean': return { type: 'boolean', default: defaultValue };
+    case 'string': return { type: 'string', pattern: spec.pattern.source, description: spec.description, default: defaultValue };
+  }
+};
+
+// Same fields and limits the server validates with; omitted fields take the defaults
+const settingsSchema = (tab: AppTab) => ({
+  type: 'object',
+  additionalProperties: false,
+  properties: Object.fromEntries(Object.entries(SETTINGS_SCHEMAS[tab]).map(([name, spec]) =>
+    [name, fieldSchema(spec, (FACTORY_SETTINGS[tab] as unknown as Record<string, unknown>)[name])]
+  ))
+});
+
+const dataUrl = (description: string) => ({ type: 'string', pattern: '^data:image/', description });
+
+const requestSchema = (tab: AppTab) => ({
+  type: 'object',
+  required: ['tab', 'image'],
+  additionalProperties: false,
+  properties: {
+    tab: { type: 'string', enum: [tab] },
+    image: dataUrl('Input image as a data URL'),
+    settings: ref(TAB_SCHEMAS[tab].settings),
+    mask: dataUrl('Optional mask of the same framing; white = area to edit, black = keep')
+  }
+});
+
+const jsonContent = (schema: object) => ({ 'application/json': { schema } });
+
+const errorResponse = (description: string) => ({ description, content: jsonContent(ref('Error')) });
+
+const jobIdParameter = { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } };
+
+// OpenAPI 3.1 description of the job API, built from the settings schemas so it
+// never drifts from what the server accepts. Served at GET /openapi.json.
+export const buildOpenApiSpec = (maxWaitSeconds: number) => ({
+  openapi: '3.1.0',
+  info: {
+    title: 'Photo processing job API',
+    version: '1',
+    description: 'Submit enhance, ID photo and restore jobs, follow their status and download the results. Jobs and results are kept in memory and expire some time after they finish.'
+  },
+  paths: {
+    '/jobs': {
+      post: {
+        summary: 'Submit a job',
+        requestBody: { required: true, content: jsonContent(ref('JobRequest')) },
+        responses: {
+          202: {
+            description: 'Queued; follow the Location header',
+            headers: { Location: { schema: { type: 'string' } } },
+            content: jsonContent(ref('Job'))
+          },
+          400: errorResponse('Invalid request or settings'),
+          413: errorResponse('Request body too large'),
+          422: errorResponse('Settings that need the browser app: tiled upscales and backdrop backgrounds'),
+          429: errorResponse('Too many requests from this client'),
+          503: errorResponse('Too many jobs in the queue')
+        }
+      }
+    },
+    '/jobs/{id}': {
+      get: {
+        summary: 'Job status',
+        parameters: [
+          jobIdParameter,
+          {
+            name: 'wait',
+            in: 'query',
+            description: 'Long poll: seconds to wait for the job to finish before answering',
+            schema: { type: 'integer', minimum: 0, maximum: maxWaitSeconds, default: 0 }
+          }
+        ],
+        responses: {
+          200: { description: 'Current state', content: jsonContent(ref('Job')) },
+          404: errorResponse('Unknown or expired job')
+        }
+      },
+      delete: {
+        summary: 'Cancel a job and discard it',
+        parameters: [jobIdParameter],
+        responses: {
+          204: { description: 'Cancelled or discarded' },
+          404: errorResponse('Unknown or expired job')
+        }
+      }
+    },
+    '/jobs/{id}/result': {
+      get: {
+        summary: 'Result image',
+        parameters: [jobIdParameter],
+        responses: {
+          200: { description: 'The output image', content: { 'image/*': { schema: { type: 'string', format: 'binary' } } } },
+          404: errorResponse('Unknown or expired job'),
+          409: errorResponse('The job has not finished or did not succeed')
+        }
+      }
+    },
+    '/health': {
+      get: {
+        summary: 'Liveness',
+        responses: { 200: { description: 'Server is up', content: jsonContent({ type: 'object' }) } }
+      }
+    }
+  },
+  components: {
+    schemas: {
+      ...Object.fromEntries(Object.values(AppTab).flatMap(tab => [
+        [TAB_SCHEMAS[tab].settings, settingsSchema(tab)],
+        [TAB_SCHEMAS[tab].request, requestSchema(tab)]
+      ])),
+      JobRequest: {
+        oneOf: Object.values(AppTab).map(tab => ref(TAB_SCHEMAS[tab].request)),
+        discriminator: {
+          propertyName: 'tab',
+          mapping: Object.fromEntries(Object.values(AppTab).map(tab => [tab, ref(TAB_SCHEMAS[tab].request).$ref]))
+        }
+      },
+      Job: {
+        type: 'object',
+        required: ['id', 'tab', 'settings', 'status', 'createdAt'],
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          tab: { type: 'string', enum: Object.values(AppTab) },
+          settings: { type: 'object', description: 'Complete settings the job runs with, defaults filled in' },
+          status: { type: 'string', enum: Object.values(JobStatus) },
+          createdAt: { type: 'string', format: 'date-time' },
+          startedAt: { type: ['string', 'null'], format: 'date-time' },
+          finishedAt: { type: ['string', 'null'], format: 'date-time' },
+          expiresAt: { type: ['string', 'null'], format: 'date-time', description: 'When a finished job and its result are discarded' },
+          resultUrl: { type: ['string', 'null'], description: 'Set once the job is done' },
+          error: { oneOf: [{ type: 'null' }, ref('ProcessingError')] }
+        }
+      },
+      ProcessingError: {
+        type: 'object',
+        required: ['kind', 'message'],
+        properties: {
+          kind: { type: 'string', enum: Object.values(AIErrorKind) },
+          message: { type: 'string' }
+        }
+      },
+      Error: {
+        type: 'object',
+        required: ['error'],
+        properties: {
+          error: { type: 'string' },
+          kind: { type: 'string', enum: Object.values(AIErrorKind) }
+        }
+      }
+    }
+  }
+});
@@ -0,0 +1,37 @@
+// Token bucket per client: `burst` requests at once, refilled at `perMinute`
+export interface RateLimiter {
+  // Takes one token; returns 0 when allowed, otherwise the seconds until one is available
+  take: (clientId: string, now?: number) => number;
+}
+
+// Buckets idle this long are full again and can be dropped
+const IDLE_MS = 10 * 60 * 1000;
+
+export const createRateLimiter = (perMinute: number, burst: number): RateLimiter => {
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+  const refillPerMs = perMinute / 60_000;
+  let lastSweep = 0;
+
+  const sweep = (now: number) => {
+    if (now - lastSweep < IDLE_MS) return;
+    lastSweep = now;
+    buckets.forEach((bucket, id) => {
+      if (now - bucket.updatedAt > IDLE_MS) buckets.delete(id);
+    });
+  };
+
+  return {
+    take: (clientId, now = Date.now()) => {
+      sweep(now);
+      const bucket = buckets.get(clientId) ?? { tokens: burst, updatedAt: now };
+      bucket.tokens = Math.min(burst, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+      bucket.updatedAt = now;
+      buckets.set(clientId, bucket);
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        return 0;
+      }
+      return Math.ceil((1 - bucket.tokens) / refillPerMs / 1000);
+    }
+  };
+};
@@ -0,0 +1,29 @@
+import { appendFile } from 'node:fs/promises';
+import { AIErrorKind } from '../types';
+
+// One line per proxied request
+export interface UsageRecord {
+  time: string;
+  client: string;
+  route: string;
+  model: string | null;
+  tile: boolean;
+  requestBytes: number;
+  responseBytes: number;
+  durationMs: number;
+  status: number;
+  errorKind: AIErrorKind | null;
+}
+
+export const createUsageLog = (path?: string) => async (record: UsageRecord) => {
+  const line = JSON.stringify(record) + '\n';
+  if (!path) {
+    process.stdout.write(line);
+    return;
+  }
+  try {
+    await appendFile(path, line);
+  } catch (err) {
+    console.error('Usage log write failed:', err);
+  }
+};
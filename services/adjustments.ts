@@ -0,0 +1,227 @@
+import { CropRect, CurvePoint, ImageAdjustments } from "../types";
+import { loadImage, createCanvas } from "../utils/canvas";
+
+export const FULL_CROP: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+export const IDENTITY_CURVE: CurvePoint[] = [{ x: 0, y: 0 }, { x: 255, y: 255 }];
+
+export const DEFAULT_ADJUSTMENTS: ImageAdjustments = {
+  rotation: 0,
+  flipHorizontal: false,
+  straighten: 0,
+  crop: FULL_CROP,
+  exposure: 0,
+  contrast: 0,
+  saturation: 0,
+  temperature: 0,
+  tint: 0,
+  levels: { black: 0, white: 255, gamma: 1 },
+  curve: IDENTITY_CURVE
+};
+
+// Channel gain at full temperature / tint
+const WHITE_BALANCE_RANGE = 0.2;
+// Steepest contrast slope, reached at +100
+const MAX_CONTRAST_ANGLE = 0.475 * Math.PI;
+// Smallest crop side, as a share of the frame
+export const MIN_CROP = 0.05;
+
+const clamp = (v: number, min = 0, max = 1) => Math.min(max, Math.max(min, v));
+
+export const isDefaultAdjustments = (adjustments: ImageAdjustments): boolean =>
+  JSON.stringify(adjustments) === JSON.stringify(DEFAULT_ADJUSTMENTS);
+
+export const hasToneAdjustments = (a: ImageAdjustments): boolean =>
+  a.exposure !== 0 || a.contrast !== 0 || a.saturation !== 0 || a.temperature !== 0 || a.tint !== 0 ||
+  a.levels.black !== 0 || a.levels.white !== 255 || a.levels.gamma !== 1 ||
+  JSON.stringify(a.curve) !== JSON.stringify(IDENTITY_CURVE);
+
+// Size of the rotated image after straightening: the largest rectangle of the same
+// aspect that fits inside the tilted image, so no empty corners show
+export const getFrameSize = (width: number, height: number, adjustments: ImageAdjustments) => {
+  const [w, h] = adjustments.rotation % 2 ? [height, width] : [width, height];
+  const angle = Math.abs(adjustments.straighten) * Math.PI / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const scale = Math.min(w / (w * cos + h * sin), h / (w * sin + h * cos));
+  return { width: w * scale, height: h * scale };
+};
+
+// Pixel size of the adjusted image
+export const getAdjustedSize = (width: number, height: number, adjustments: ImageAdjustments) => {
+  const frame = getFrameSize(width, height, adjustments);
+  return {
+    width: Math.max(1, Math.round(frame.width * adjustments.crop.width)),
+    height: Math.max(1, Math.round(frame.height * adjustments.crop.height))
+  };
+};
+
+// Largest centred crop of the given aspect (width / height) in a frame; null = whole frame
+export const cropForAspect = (frameWidth: number, frameHeight: number, aspect: number | null): CropRect => {
+  if (!aspect) return FULL_CROP;
+  const frameAspect = frameWidth / frameHeight;
+  const width = aspect < frameAspect ? aspect / frameAspect : 1;
+  const height = aspect < frameAspect ? 1 : frameAspect / aspect;
+  return { x: (1 - width) / 2, y: (1 - height) / 2, width, height };
+};
+
+// Monotone cubic interpolation (Fritsch–Carlson), so the curve never overshoots between points
+export const buildCurveLut = (points: CurvePoint[]): Uint8ClampedArray => {
+  const sorted = [...points].sort((a, b) => a.x - b.x).filter((p, i, all) => i === 0 || p.x > all[i - 1].x);
+  const lut = new Uint8ClampedArray(256);
+  if (sorted.length < 2) {
+    for (let i = 0; i < 256; i++) lut[i] = i;
+    return lut;
+  }
+  const n = sorted.length;
+  const slopes: number[] = [];
+  for (let i = 0; i < n - 1; i++) {
+    slopes.push((sorted[i + 1].y - sorted[i].y) / (sorted[i + 1].x - sorted[i].x));
+  }
+  const tangents = sorted.map((_, i) => {
+    if (i === 0) return slopes[0];
+    if (i === n - 1) return slopes[n - 2];
+    return slopes[i - 1] * slopes[i] <= 0 ? 0 : (slopes[i - 1] + slopes[i]) / 2;
+  });
+  for (let i = 0; i < n - 1; i++) {
+    if (slopes[i] === 0) {
+      tangents[i] = 0;
+      tangents[i + 1] = 0;
+      continue;
+    }
+    const a = tangents[i] / slopes[i];
+    const b = tangents[i + 1] / slopes[i];
+    const r = a * a + b * b;
+    if (r > 9) {
+      const t = 3 / Math.sqrt(r);
+      tangents[i] = t * a * slopes[i];
+      tangents[i + 1] = t * b * slopes[i];
+    }
+  }
+
+  let segment = 0;
+  for (let x = 0; x < 256; x++) {
+    if (x <= sorted[0].x) {
+      lut[x] = sorted[0].y;
+      continue;
+    }
+    if (x >= sorted[n - 1].x) {
+      lut[x] = sorted[n - 1].y;
+      continue;
+    }
+    while (x > sorted[segment + 1].x) segment++;
+    const p0 = sorted[segment];
+    const p1 = sorted[segment + 1];
+    const h = p1.x - p0.x;
+    const t = (x - p0.x) / h;
+    const t2 = t * t;
+    const t3 = t2 * t;
+    lut[x] = (2 * t3 - 3 * t2 + 1) * p0.y + (t3 - 2 * t2 + t) * h * tangents[segment] +
+      (-2 * t3 + 3 * t2) * p1.y + (t3 - t2) * h * tangents[segment + 1];
+  }
+  return lut;
+};
+
+// One lookup table per channel for white balance, exposure, levels, contrast and curve
+const buildToneLuts = (a: ImageAdjustments): Uint8ClampedArray[] => {
+  const warm = (a.temperature / 100) * WHITE_BALANCE_RANGE;
+  const magenta = (a.tint / 100) * WHITE_BALANCE_RANGE;
+  const gains = [1 + warm, 1 - magenta, 1 - warm];
+  const exposure = Math.pow(2, a.exposure);
+  const slope = Math.tan((a.contrast / 100 * (MAX_CONTRAST_ANGLE / (Math.PI / 4) - 1) + 1) * Math.PI / 4);
+  const range = Math.max(1, a.levels.white - a.levels.black);
+  const curve = buildCurveLut(a.curve);
+
+  return gains.map(gain => {
+    const lut = new Uint8ClampedArray(256);
+    for (let v = 0; v < 256; v++) {
+      let x = clamp(v * gain * exposure, 0, 255);
+      x = Math.pow(clamp((x - a.levels.black) / range), 1 / a.levels.gamma);
+      x = clamp((x - 0.5) * slope + 0.5);
+      lut[v] = curve[Math.round(x * 255)];
+    }
+    return lut;
+  });
+};
+
+const applyTone = (image: ImageData, adjustments: ImageAdjustments) => {
+  const [lutR, lutG, lutB] = buildToneLuts(adjustments);
+  const saturation = 1 + adjustments.saturation / 100;
+  const data = image.data;
+  for (let i = 0; i < data.length; i += 4) {
+    const r = lutR[data[i]];
+    const g = lutG[data[i + 1]];
+    const b = lutB[data[i + 2]];
+    if (saturation === 1) {
+      data[i] = r;
+      data[i + 1] = g;
+      data[i + 2] = b;
+    } else {
+      const luma = 0.299 * r + 0.587 * g + 0.114 * b;
+      data[i] = luma + (r - luma) * saturation;
+      data[i + 1] = luma + (g - luma) * saturation;
+      data[i + 2] = luma + (b - luma) * saturation;
+    }
+  }
+};
+
+export interface RenderOptions {
+  scale?: number; // Output pixels per source pixel; below 1 for previews
+  applyCrop?: boolean; // false shows the whole straightened frame, for the crop tool
+}
+
+// Draws the source with every adjustment applied and returns the canvas
+export const renderAdjustments = (
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  adjustments: ImageAdjustments,
+  { scale = 1, applyCrop = true }: RenderOptions = {}
+) => {
+  const frame = getFrameSize(width, height, adjustments);
+  const crop = applyCrop ? adjustments.crop : FULL_CROP;
+  const { canvas, ctx } = createCanvas(
+    Math.max(1, Math.round(frame.width * crop.width * scale)),
+    Math.max(1, Math.round(frame.height * crop.height * scale))
+  );
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.scale(scale, scale);
+  ctx.translate(frame.width * (0.5 - crop.x), frame.height * (0.5 - crop.y));
+  ctx.rotate((adjustments.straighten * Math.PI) / 180 + (adjustments.rotation * Math.PI) / 2);
+  if (adjustments.flipHorizontal) ctx.scale(-1, 1);
+  ctx.drawImage(source, -width / 2, -height / 2, width, height);
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+
+  if (hasToneAdjustments(adjustments)) {
+    const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    applyTone(image, adjustments);
+    ctx.putImageData(image, 0, 0);
+  }
+  return { canvas, ctx };
+};
+
+// Full-resolution render of a version's adjustments, as a PNG data URL
+export const applyAdjustments = async (imageUrl: string, adjustments: ImageAdjustments): Promise<string> => {
+  const img = await loadImage(imageUrl);
+  const { canvas } = renderAdjustments(img, img.naturalWidth, img.naturalHeight, adjustments);
+  return canvas.toDataURL('image/png');
+};
+
+export interface Histogram {
+  r: Uint32Array;
+  g: Uint32Array;
+  b: Uint32Array;
+  luma: Uint32Array;
+}
+
+export const computeHistogram = (data: Uint8ClampedArray): Histogram => {
+  const histogram = { r: new Uint32Array(256), g: new Uint32Array(256), b: new Uint32Array(256), luma: new Uint32Array(256) };
+  for (let i = 0; i < data.length; i += 4) {
+    histogram.r[data[i]]++;
+    histogram.g[data[i + 1]]++;
+    histogram.b[data[i + 2]]++;
+    histogram.luma[Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2])]++;
+  }
+  return histogram;
+};
@@ -0,0 +1,58 @@
+import { Backdrop, MetadataPolicy } from "../types";
+import { loadImage, createCanvas } from "../utils/canvas";
+import { stripExtension } from "../utils/file";
+import { ingestFile } from "./ingest";
+
+const STORAGE_KEY = 'longrau.backdrops';
+
+// Backdrops are blurred behind the person anyway, so a modest size keeps localStorage small
+const BACKDROP_MAX_EDGE = 1280;
+const BACKDROP_JPEG_QUALITY = 0.85;
+export const MAX_BACKDROPS = 8;
+
+const isBackdrop = (value: any): value is Backdrop =>
+  value && typeof value.id === 'string' && typeof value.name === 'string' &&
+  typeof value.dataUrl === 'string' && typeof value.createdAt === 'number';
+
+export const loadBackdrops = (): Backdrop[] => {
+  if (typeof localStorage === 'undefined') return [];
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter(isBackdrop) : [];
+  } catch {
+    return [];
+  }
+};
+
+// Throws when the browser's storage quota is exceeded
+export const saveBackdrops = (backdrops: Backdrop[]) => {
+  if (typeof localStorage === 'undefined') return;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(backdrops));
+};
+
+export const findBackdrop = (id: string): Backdrop | undefined =>
+  loadBackdrops().find(b => b.id === id);
+
+// Reads an uploaded image (any format the app ingests) into a downscaled backdrop
+export const createBackdrop = async (file: File): Promise<Backdrop> => {
+  const { dataUrl } = await ingestFile(file, MetadataPolicy.STRIP);
+  const img = await loadImage(dataUrl);
+  const scale = Math.min(1, BACKDROP_MAX_EDGE / Math.max(img.naturalWidth, img.naturalHeight));
+  const { canvas, ctx } = createCanvas(Math.round(img.naturalWidth * scale), Math.round(img.naturalHeight * scale));
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return {
+    id: `backdrop-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+    name: stripExtension(file.name),
+    dataUrl: canvas.toDataURL('image/jpeg', BACKDROP_JPEG_QUALITY),
+    createdAt: Date.now()
+  };
+};
+
+// Newest first; the oldest are dropped beyond MAX_BACKDROPS
+export const addBackdrop = (backdrops: Backdrop[], backdrop: Backdrop): Backdrop[] =>
+  [backdrop, ...backdrops].slice(0, MAX_BACKDROPS);
+
+export const deleteBackdrop = (backdrops: Backdrop[], id: string): Backdrop[] =>
+  backdrops.filter(b => b.id !== id);
@@ -0,0 +1,22 @@
+export interface QueueOptions {
+  concurrency: number;
+  isCancelled?: () => boolean;
+}
+
+// Runs tasks with at most `concurrency` in flight. Workers must handle their own
+// errors; once cancelled, no new task is started but in-flight ones finish.
+export const runQueue = async <T>(
+  tasks: T[],
+  worker: (task: T) => Promise<void>,
+  options: QueueOptions
+): Promise<void> => {
+  let next = 0;
+  const lane = async () => {
+    while (next < tasks.length && !options.isCancelled?.()) {
+      const task = tasks[next++];
+      await worker(task);
+    }
+  };
+  const lanes = Math.max(1, Math.min(options.concurrency, tasks.length));
+  await Promise.all(Array.from({ length: lanes }, lane));
+};
@@ -0,0 +1,174 @@
+import { AIErrorKind, AppErrorCode, AppErrorParams, ProcessingError } from "../types";
+
+const RETRYABLE_KINDS = new Set<AIErrorKind>([
+  AIErrorKind.QUOTA,
+  AIErrorKind.NETWORK,
+  AIErrorKind.TIMEOUT,
+  AIErrorKind.SERVER
+]);
+
+export class AIServiceError extends Error {
+  kind: AIErrorKind;
+  status?: number;
+
+  constructor(kind: AIErrorKind, message: string, status?: number) {
+    super(message);
+    this.name = 'AIServiceError';
+    this.kind = kind;
+    this.status = status;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.has(this.kind);
+  }
+
+  toJSON(): ProcessingError {
+    return { kind: this.kind, message: this.message };
+  }
+}
+
+// Failure of one of the app's own steps (ingest, export, presets, library...). The message is
+// English for logs and the CLI; the UI shows the catalog text of `code` instead.
+export class AppError extends Error {
+  code: AppErrorCode;
+  params: AppErrorParams;
+
+  constructor(code: AppErrorCode, message: string, params: AppErrorParams = {}) {
+    super(message);
+    this.name = 'AppError';
+    this.code = code;
+    this.params = params;
+  }
+
+  toJSON(): ProcessingError {
+    return { kind: AIErrorKind.INVALID_INPUT, message: this.message, code: this.code, params: this.params };
+  }
+}
+
+export const isAbortError = (error: any): boolean =>
+  error?.name === 'AbortError' || (error instanceof AIServiceError && error.kind === AIErrorKind.CANCELLED);
+
+// Maps an HTTP status from any backend to an error kind
+export const kindFromStatus = (status: number): AIErrorKind => {
+  if (status === 401 || status === 403) return AIErrorKind.MISSING_KEY;
+  if (status === 402) return AIErrorKind.BUDGET;
+  if (status === 408 || status === 504) return AIErrorKind.TIMEOUT;
+  if (status === 413 || status === 400 || status === 422) return AIErrorKind.INVALID_INPUT;
+  if (status === 429) return AIErrorKind.QUOTA;
+  if (status >= 500) return AIErrorKind.SERVER;
+  return AIErrorKind.UNKNOWN;
+};
+
+// Normalizes anything thrown by a provider or the SDK into an AIServiceError
+export const classifyError = (error: any): AIServiceError => {
+  if (error instanceof AIServiceError) return error;
+  if (error instanceof AppError) return new AIServiceError(AIErrorKind.INVALID_INPUT, error.message);
+  if (error?.name === 'AbortError') {
+    return new AIServiceError(AIErrorKind.CANCELLED, "Request was cancelled.");
+  }
+
+  const message: string = error?.message || String(error ?? "Unknown error");
+  const status: number | undefined = typeof error?.status === 'number' ? error.status : undefined;
+
+  if (/API[_ ]?KEY|api key not valid|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) {
+    return new AIServiceError(AIErrorKind.MISSING_KEY, message, status);
+  }
+  if (/RESOURCE_EXHAUSTED|quota|rate limit|too many requests/i.test(message)) {
+    return new AIServiceError(AIErrorKind.QUOTA, message, status ?? 429);
+  }
+  if (status !== undefined) {
+    return new AIServiceError(kindFromStatus(status), message, status);
+  }
+  if (/DEADLINE_EXCEEDED|timed? ?out/i.test(message)) {
+    return new AIServiceError(AIErrorKind.TIMEOUT, message);
+  }
+  if (error instanceof TypeError || /failed to fetch|network|ECONNRESET|ECONNREFUSED|ENOTFOUND|socket hang up/i.test(message)) {
+    return new AIServiceError(AIErrorKind.NETWORK, message);
+  }
+  return new AIServiceError(AIErrorKind.UNKNOWN, message, status);
+};
+
+export const toProcessingError = (error: any): ProcessingError =>
+  error instanceof AppError ? error.toJSON() : classifyError(error).toJSON();
+
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  timeoutMs: number; // Per attempt
+  signal?: AbortSignal;
+  onRetry?: (error: AIServiceError, attempt: number, delayMs: number) => void;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 15000,
+  timeoutMs: 180000
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AIServiceError(AIErrorKind.CANCELLED, "Request was cancelled."));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AIServiceError(AIErrorKind.CANCELLED, "Request was cancelled."));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Exponential backoff with full jitter: random delay in [0, min(max, base * 2^attempt)]
+export const backoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number) =>
+  Math.round(Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt));
+
+// Runs `task` with a per-attempt timeout, retrying transient failures.
+// The signal passed to `task` fires on user cancellation or timeout.
+export const withRetry = async <T>(
+  task: (signal: AbortSignal) => Promise<T>,
+  options: Partial<RetryOptions> = {}
+): Promise<T> => {
+  const opts = { ...DEFAULT_RETRY_OPTIONS, ...options };
+
+  for (let attempt = 0; ; attempt++) {
+    if (opts.signal?.aborted) {
+      throw new AIServiceError(AIErrorKind.CANCELLED, "Request was cancelled.");
+    }
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, opts.timeoutMs);
+    const forwardAbort = () => controller.abort();
+    opts.signal?.addEventListener('abort', forwardAbort, { once: true });
+
+    try {
+      return await task(controller.signal);
+    } catch (raw: any) {
+      let error = classifyError(raw);
+      if (timedOut) {
+        error = new AIServiceError(AIErrorKind.TIMEOUT, `No response after ${Math.round(opts.timeoutMs / 1000)}s.`);
+      } else if (opts.signal?.aborted) {
+        throw new AIServiceError(AIErrorKind.CANCELLED, "Request was cancelled.");
+      }
+
+      if (!error.retryable || attempt >= opts.retries) {
+        throw error;
+      }
+      const delay = backoffDelay(attempt, opts.baseDelayMs, opts.maxDelayMs);
+      opts.onRetry?.(error, attempt + 1, delay);
+      await sleep(delay, opts.signal);
+    } finally {
+      clearTimeout(timer);
+      opts.signal?.removeEventListener('abort', forwardAbort);
+    }
+  }
+};
@@ -0,0 +1,310 @@
+import { AppErrorCode, AppTab, ExportFormat, ExportSettings } from "../types";
+import { loadImage, createCanvas, canvasToBlob } from "../utils/canvas";
+import { dataUrlToBytes } from "../utils/file";
+import { readJpegExif, readExifEntries, buildExifTiff, insertJpegExif } from "../utils/exif";
+import { buildPngChunk, insertPngChunks, readPngChunk } from "../utils/png";
+import { buildSrgbProfile, insertJpegIcc } from "../utils/icc";
+import { insertWebpMetadata } from "../utils/webp";
+import { encodeTiff } from "../utils/tiff";
+import { AppError } from "./errors";
+import { OPERATION_FILE_PREFIX } from "./processing";
+import { DEFAULT_WATERMARK, applyWatermark, hasWatermark } from "./watermark";
+import { InvisibleMark, embedInvisibleMark, readInvisibleMark } from "./invisibleMark";
+
+const STORAGE_KEY = 'longrau.export';
+
+interface FormatInfo {
+  mime: string;
+  extension: string;
+  lossy: boolean;
+  colorProfile: boolean; // Can be tagged as sRGB
+  exif: boolean; // Can carry EXIF
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, FormatInfo> = {
+  [ExportFormat.JPEG]: { mime: 'image/jpeg', extension: 'jpg', lossy: true, colorProfile: true, exif: true },
+  [ExportFormat.WEBP]: { mime: 'image/webp', extension: 'webp', lossy: true, colorProfile: true, exif: true },
+  // The browser's AVIF encoder writes its own colour info; there is no hook for metadata
+  [ExportFormat.AVIF]: { mime: 'image/avif', extension: 'avif', lossy: true, colorProfile: false, exif: false },
+  [ExportFormat.PNG]: { mime: 'image/png', extension: 'png', lossy: false, colorProfile: true, exif: true },
+  [ExportFormat.TIFF]: { mime: 'image/tiff', extension: 'tif', lossy: false, colorProfile: true, exif: false }
+};
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: ExportFormat.JPEG,
+  quality: 92,
+  targetSizeKb: 0,
+  embedSrgb: true,
+  copyExif: true,
+  fileNameTemplate: 'LongRau_{tab}_{customer}_{date}',
+  watermark: DEFAULT_WATERMARK,
+  invisibleMark: false
+};
+
+export const FILE_NAME_TOKENS = ['{tab}', '{customer}', '{project}', '{date}', '{time}'];
+
+// Target-size search: lowest quality tried before shrinking the image, and how often to shrink
+const MIN_QUALITY = 10;
+const MAX_DOWNSCALES = 5;
+
+// Capture date and camera data worth keeping; location, thumbnails and maker notes are left out
+const IFD0_TAGS = new Set([
+  0x010f, // Make
+  0x0110, // Model
+  0x0132, // DateTime
+  0x013b, // Artist
+  0x8298 // Copyright
+]);
+const EXIF_TAGS = new Set([
+  0x829a, // ExposureTime
+  0x829d, // FNumber
+  0x8827, // ISO
+  0x9000, // ExifVersion
+  0x9003, // DateTimeOriginal
+  0x9004, // DateTimeDigitized
+  0x9010, // OffsetTime
+  0x9011, // OffsetTimeOriginal
+  0x9209, // Flash
+  0x920a, // FocalLength
+  0xa405, // FocalLengthIn35mmFilm
+  0xa433, // LensMake
+  0xa434 // LensModel
+]);
+
+export const loadExportSettings = (): ExportSettings => {
+  if (typeof localStorage === 'undefined') return DEFAULT_EXPORT_SETTINGS;
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (stored && Object.values(ExportFormat).includes(stored.format)) {
+      return { ...DEFAULT_EXPORT_SETTINGS, ...stored, watermark: { ...DEFAULT_WATERMARK, ...stored.watermark } };
+    }
+  } catch {
+    // Corrupt value; fall back to defaults
+  }
+  return DEFAULT_EXPORT_SETTINGS;
+};
+
+export const saveExportSettings = (settings: ExportSettings) => {
+  if (typeof localStorage === 'undefined') return;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+export interface FileNameContext {
+  tab: AppTab;
+  customer: string;
+  project: string;
+  date: Date;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Fills the template and makes the result safe as a file name. Separators left
+// around empty tokens are collapsed, so "{tab}_{customer}" works without a customer.
+export const renderFileName = (template: string, context: FileNameContext): string => {
+  const { date } = context;
+  const values: Record<string, string> = {
+    tab: OPERATION_FILE_PREFIX[context.tab],
+    customer: context.customer.trim(),
+    project: context.project.trim(),
+    date: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+    time: `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`
+  };
+  const name = template
+    .replace(/\{(\w+)\}/g, (token, key: string) => values[key] ?? token)
+    .replace(/[\\/:*?"<>|\x00-\x1f]/g, '')
+    .replace(/\s+/g, '_')
+    .replace(/([_-])[_-]+/g, '$1')
+    .replace(/^[_.-]+|[_.-]+$/g, '');
+  return name || 'LongRau';
+};
+
+// Capture date and camera tags of the original upload, as a fresh TIFF block. Null when
+// the original carries no EXIF (it is stripped on upload unless metadata is kept).
+export const readCaptureExif = (originalUrl: string): Uint8Array | null => {
+  const bytes = dataUrlToBytes(originalUrl);
+  const tiff = readJpegExif(bytes) ?? readPngChunk(bytes, 'eXIf');
+  if (!tiff) return null;
+  const { ifd0, exif } = readExifEntries(tiff);
+  const keptIfd0 = ifd0.filter(e => IFD0_TAGS.has(e.tag));
+  const keptExif = exif.filter(e => EXIF_TAGS.has(e.tag));
+  if (!keptIfd0.length && !keptExif.length) return null;
+  return buildExifTiff(keptIfd0, keptExif);
+};
+
+type Surface = ReturnType<typeof createCanvas>;
+
+const encode = async (surface: Surface, format: ExportFormat, quality: number, icc: Uint8Array | null): Promise<Uint8Array> => {
+  const { canvas, ctx } = surface;
+  if (format === ExportFormat.TIFF) {
+    const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+    return encodeTiff(pixels, canvas.width, canvas.height, { icc: icc ?? undefined });
+  }
+  const { mime, lossy } = EXPORT_FORMATS[format];
+  const blob = await canvasToBlob(canvas, mime, lossy ? quality / 100 : undefined);
+  // Browsers fall back to PNG for types they cannot encode
+  if (blob.type !== mime) {
+    throw new AppError(AppErrorCode.CANNOT_ENCODE_FORMAT, `This browser cannot encode ${format}. Choose another format.`, { format });
+  }
+  return new Uint8Array(await blob.arrayBuffer());
+};
+
+const addMetadata = (
+  bytes: Uint8Array,
+  format: ExportFormat,
+  surface: Surface,
+  icc: Uint8Array | null,
+  exif: Uint8Array | null
+): Uint8Array => {
+  switch (format) {
+    case ExportFormat.JPEG: {
+      const tagged = icc ? insertJpegIcc(bytes, icc) : bytes;
+      return exif ? insertJpegExif(tagged, exif) : tagged;
+    }
+    case ExportFormat.WEBP:
+      return icc || exif
+        ? insertWebpMetadata(bytes, surface.canvas.width, surface.canvas.height, { icc: icc ?? undefined, exif: exif ?? undefined })
+        : bytes;
+    case ExportFormat.PNG: {
+      // PNG has a dedicated sRGB chunk (rendering intent 0, perceptual) instead of a full profile
+      const chunks = [
+        ...(icc ? [buildPngChunk('sRGB', new Uint8Array([0]))] : []),
+        ...(exif ? [buildPngChunk('eXIf', exif)] : [])
+      ];
+      return chunks.length ? insertPngChunks(bytes, chunks) : bytes;
+    }
+    default:
+      return bytes;
+  }
+};
+
+const resize = (surface: Surface, scale: number): Surface => {
+  const next = createCanvas(
+    Math.max(1, Math.round(surface.canvas.width * scale)),
+    Math.max(1, Math.round(surface.canvas.height * scale))
+  );
+  next.ctx.imageSmoothingEnabled = true;
+  next.ctx.imageSmoothingQuality = 'high';
+  next.ctx.drawImage(surface.canvas, 0, 0, next.canvas.width, next.canvas.height);
+  return next;
+};
+
+// Highest quality whose encoding fits the budget, by binary search; null with the
+// smallest size reached when even the minimum quality is too large
+const searchQuality = async (surface: Surface, format: ExportFormat, maxQuality: number, budget: number) => {
+  const top = await encode(surface, format, maxQuality, null);
+  if (top.length <= budget) return { bytes: top, quality: maxQuality, smallest: top.length };
+  const bottom = await encode(surface, format, MIN_QUALITY, null);
+  if (bottom.length > budget) return { bytes: null, quality: MIN_QUALITY, smallest: bottom.length };
+
+  let low = MIN_QUALITY;
+  let lowBytes = bottom;
+  let high = maxQuality;
+  while (high - low > 1) {
+    const mid = Math.round((low + high) / 2);
+    const bytes = await encode(surface, format, mid, null);
+    if (bytes.length <= budget) {
+      low = mid;
+      lowBytes = bytes;
+    } else {
+      high = mid;
+    }
+  }
+  return { bytes: lowBytes, quality: low, smallest: bottom.length };
+};
+
+export interface ExportResult {
+  blob: Blob;
+  fileName: string;
+  width: number;
+  height: number;
+  quality: number | null; // Quality actually used, for lossy formats
+  colorProfile: boolean; // sRGB tag embedded
+  exif: boolean; // Capture data copied
+  watermark: boolean; // Visible watermark drawn
+  invisibleMark: boolean; // Job ID and time hidden in the pixels, and readable in the saved file
+}
+
+export interface ExportContext extends FileNameContext {
+  originalUrl?: string; // Uploaded original, source of the EXIF data
+  jobId?: string; // Recorded by the invisible mark
+}
+
+// Whether the mark can still be read from the encoded file. At low quality, which a target
+// size can push down to MIN_QUALITY, lossy compression wipes it out.
+const markSurvives = async (blob: Blob): Promise<boolean> => {
+  const url = URL.createObjectURL(blob);
+  try {
+    return (await readInvisibleMark(url)) !== null;
+  } catch {
+    return false;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// Encodes the image in the chosen format. With a target size, lossy formats lower
+// the quality first and then shrink the image until the file fits. The visible
+// watermark is drawn first; the invisible mark goes onto the final pixels, so it is
+// written again whenever the image is shrunk, and lossy files are read back to check it.
+export const exportImage = async (
+  imageUrl: string,
+  settings: ExportSettings,
+  context: ExportContext
+): Promise<ExportResult> => {
+  const info = EXPORT_FORMATS[settings.format];
+  const img = await loadImage(imageUrl);
+  let surface = createCanvas(img.naturalWidth, img.naturalHeight);
+  surface.ctx.drawImage(img, 0, 0);
+  surface = await applyWatermark(surface, settings.watermark);
+
+  const mark: InvisibleMark | null = settings.invisibleMark && context.jobId ? { jobId: context.jobId, time: context.date.getTime() } : null;
+  let marked = false;
+  const sign = (target: Surface): Surface => {
+    if (mark) marked = embedInvisibleMark(target, mark);
+    return target;
+  };
+  sign(surface);
+
+  const icc = settings.embedSrgb && info.colorProfile ? buildSrgbProfile() : null;
+  const exif = settings.copyExif && info.exif && context.originalUrl ? readCaptureExif(context.originalUrl) : null;
+  const quality = Math.min(100, Math.max(1, Math.round(settings.quality)));
+
+  let bytes: Uint8Array;
+  let usedQuality: number | null = info.lossy ? quality : null;
+  if (info.lossy && settings.targetSizeKb > 0) {
+    // Metadata goes on after encoding, so leave room for it
+    const budget = settings.targetSizeKb * 1024 - (icc?.length ?? 0) - (exif?.length ?? 0) - 64;
+    if (budget <= 0) {
+      throw new AppError(AppErrorCode.TARGET_SIZE_TOO_SMALL, `${settings.targetSizeKb} KB is too small for this file.`, { kb: settings.targetSizeKb });
+    }
+    let fitted: Uint8Array | null = null;
+    for (let round = 0; !fitted; round++) {
+      const result = await searchQuality(surface, settings.format, quality, budget);
+      fitted = result.bytes;
+      usedQuality = result.quality;
+      if (!fitted) {
+        if (round === MAX_DOWNSCALES) {
+          throw new AppError(AppErrorCode.TARGET_SIZE_UNREACHABLE, `Could not get the file under ${settings.targetSizeKb} KB.`, { kb: settings.targetSizeKb });
+        }
+        surface = sign(resize(surface, Math.max(0.5, Math.sqrt(budget / result.smallest) * 0.95)));
+      }
+    }
+    bytes = fitted;
+  } else {
+    bytes = await encode(surface, settings.format, quality, icc);
+  }
+
+  const output = addMetadata(bytes, settings.format, surface, icc, exif);
+  const blob = new Blob([output], { type: info.mime });
+  return {
+    blob,
+    fileName: `${renderFileName(settings.fileNameTemplate, context)}.${info.extension}`,
+    width: surface.canvas.width,
+    height: surface.canvas.height,
+    quality: usedQuality,
+    colorProfile: !!icc,
+    exif: !!exif,
+    watermark: hasWatermark(settings.watermark),
+    invisibleMark: marked && (!info.lossy || await markSurvives(blob))
+  };
+};
@@ -0,0 +1,75 @@
+import { DetectedFace, IDPhotoSettings } from "../types";
+import { loadImage, createCanvas } from "../utils/canvas";
+import { ID_PHOTO_DIMENSIONS_MM } from "./printLayout";
+import { getIDPhotoSpec } from "./idPhotoSpecs";
+import { getEyeTilt } from "./faceDetection";
+
+// Crown-to-chin height relative to the distance between the eyes, for an average adult
+const HEAD_PER_EYE_DISTANCE = 3.6;
+// Without eyes, relative to the detection box (which stops around the brows)
+const HEAD_PER_BOX_HEIGHT = 1.45;
+// Eye line inside the detection box when the eyes were not located
+const BOX_EYE_LINE = 0.4;
+// Pre-crops are never larger than this, the model gets a smaller copy anyway
+const MAX_EDGE = 4096;
+// Tilts below this are left alone; re-sampling costs more than it gains
+const MIN_LEVEL_DEG = 0.5;
+
+const midpoint = (range: { min: number; max: number }) => (range.min + range.max) / 2;
+
+// Average colour along the image border, used to fill the crop where it extends past the photo
+const borderColor = (img: HTMLImageElement): string => {
+  const { ctx } = createCanvas(16, 16);
+  ctx.drawImage(img, 0, 0, 16, 16);
+  const data = ctx.getImageData(0, 0, 16, 16).data;
+  const sum = [0, 0, 0];
+  let count = 0;
+  for (let y = 0; y < 16; y++) {
+    for (let x = 0; x < 16; x++) {
+      if (x > 0 && x < 15 && y > 0 && y < 15) continue;
+      const i = (y * 16 + x) * 4;
+      sum[0] += data[i];
+      sum[1] += data[i + 1];
+      sum[2] += data[i + 2];
+      count++;
+    }
+  }
+  return `rgb(${sum.map(v => Math.round(v / count)).join(', ')})`;
+};
+
+// Levels the eyes and crops the photo to the document's aspect, with the head at the
+// spec's size and the eyes at its eye line. The model then only has to clean up the
+// framing instead of inventing it, which it does unreliably from prompt text alone.
+export const alignFaceForIDPhoto = async (imageUrl: string, face: DetectedFace, settings: IDPhotoSettings): Promise<string> => {
+  const img = await loadImage(imageUrl);
+  const spec = getIDPhotoSpec(settings);
+  const sizeMm = ID_PHOTO_DIMENSIONS_MM[spec.size];
+  const headShare = midpoint(spec.headHeightMm) / sizeMm.height;
+  const eyeShareFromBottom = midpoint(spec.eyeLineMm) / sizeMm.height;
+
+  const eyes = face.eyes;
+  const eyeCenter = eyes
+    ? { x: (eyes[0].x + eyes[1].x) / 2, y: (eyes[0].y + eyes[1].y) / 2 }
+    : { x: face.box.x + face.box.width / 2, y: face.box.y + face.box.height * BOX_EYE_LINE };
+  const headPx = eyes
+    ? Math.hypot(eyes[1].x - eyes[0].x, eyes[1].y - eyes[0].y) * HEAD_PER_EYE_DISTANCE
+    : face.box.height * HEAD_PER_BOX_HEIGHT;
+  const tilt = getEyeTilt(face) ?? 0;
+
+  const cropHeight = headPx / headShare;
+  const cropWidth = cropHeight * (sizeMm.width / sizeMm.height);
+  const scale = Math.min(1, MAX_EDGE / Math.max(cropWidth, cropHeight));
+  const { canvas, ctx } = createCanvas(Math.max(1, Math.round(cropWidth * scale)), Math.max(1, Math.round(cropHeight * scale)));
+
+  ctx.fillStyle = borderColor(img);
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.scale(scale, scale);
+  // Put the eye midpoint where the spec wants it, then rotate the photo around it
+  ctx.translate(cropWidth / 2, cropHeight * (1 - eyeShareFromBottom));
+  if (Math.abs(tilt) >= MIN_LEVEL_DEG) ctx.rotate((-tilt * Math.PI) / 180);
+  ctx.translate(-eyeCenter.x, -eyeCenter.y);
+  ctx.drawImage(img, 0, 0);
+  return canvas.toDataURL('image/png');
+};
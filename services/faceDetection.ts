@@ -0,0 +1,115 @@
+import type { FaceDetector as MediaPipeFaceDetector } from '@mediapipe/tasks-vision';
+import { AppErrorCode, DetectedFace, PixelPoint } from "../types";
+import { loadImage, createCanvas } from "../utils/canvas";
+import { AppError } from "./errors";
+
+// Runtime and model for the MediaPipe face detector, served by the app itself from
+// public/mediapipe (filled by scripts/mediapipeAssets.ts), so detection works offline
+const MEDIAPIPE_ASSETS = 'mediapipe/';
+const FACE_MODEL_FILE = 'blaze_face_short_range.tflite';
+const MIN_CONFIDENCE = 0.5;
+// Detection runs on a copy with this long edge; faces in ID and portrait photos are large
+const DETECTION_EDGE = 1280;
+
+// Shape Detection API, available in some Chromium builds
+interface NativeFaceDetector {
+  detect(image: ImageBitmapSource): Promise<{
+    boundingBox: DOMRectReadOnly;
+    landmarks?: { type: string; locations: PixelPoint[] }[];
+  }[]>;
+}
+
+type Detect = (image: HTMLCanvasElement) => Promise<DetectedFace[]>;
+
+const orderEyes = (a: PixelPoint, b: PixelPoint): [PixelPoint, PixelPoint] => (a.x <= b.x ? [a, b] : [b, a]);
+
+const loadMediaPipe = async (): Promise<Detect> => {
+  const { FaceDetector, FilesetResolver } = await import('@mediapipe/tasks-vision');
+  const assets = new URL(MEDIAPIPE_ASSETS, document.baseURI);
+  const fileset = await FilesetResolver.forVisionTasks(new URL('wasm', assets).href);
+  const detector: MediaPipeFaceDetector = await FaceDetector.createFromOptions(fileset, {
+    baseOptions: { modelAssetPath: new URL(FACE_MODEL_FILE, assets).href },
+    runningMode: 'IMAGE',
+    minDetectionConfidence: MIN_CONFIDENCE
+  });
+  return async (image) => detector.detect(image).detections.flatMap(d => {
+    if (!d.boundingBox) return [];
+    // BlazeFace keypoints: the two eyes first, then nose, mouth and ears; normalized coordinates
+    const [e1, e2, nose, mouth] = d.keypoints.map(k => ({ x: k.x * image.width, y: k.y * image.height }));
+    return [{
+      box: { x: d.boundingBox.originX, y: d.boundingBox.originY, width: d.boundingBox.width, height: d.boundingBox.height },
+      eyes: e1 && e2 ? orderEyes(e1, e2) : null,
+      nose: nose ?? null,
+      mouth: mouth ?? null,
+      score: d.categories[0]?.score ?? 0
+    }];
+  });
+};
+
+const loadNative = async (): Promise<Detect> => {
+  const Native = (globalThis as any).FaceDetector;
+  if (typeof Native !== 'function') throw new AppError(AppErrorCode.FACE_DETECTION_UNAVAILABLE, 'Face detection is not available in this browser.');
+  const detector: NativeFaceDetector = new Native({ fastMode: false, maxDetectedFaces: 10 });
+  return async (image) => (await detector.detect(image)).map(face => {
+    const landmarks = (type: string) => face.landmarks?.filter(l => l.type === type).map(l => {
+      const sum = l.locations.reduce((acc, p) => ({ x: acc.x + p.x, y: acc.y + p.y }), { x: 0, y: 0 });
+      return { x: sum.x / l.locations.length, y: sum.y / l.locations.length };
+    }) ?? [];
+    const eyes = landmarks('eye');
+    const { x, y, width, height } = face.boundingBox;
+    return {
+      box: { x, y, width, height },
+      eyes: eyes.length === 2 ? orderEyes(eyes[0], eyes[1]) : null,
+      nose: landmarks('nose')[0] ?? null,
+      mouth: landmarks('mouth')[0] ?? null,
+      score: 1
+    };
+  });
+};
+
+// MediaPipe first; the browser's own detector when the model cannot be loaded (e.g. not set up)
+let detectorPromise: Promise<Detect> | null = null;
+const getDetector = (): Promise<Detect> => {
+  if (!detectorPromise) {
+    detectorPromise = loadMediaPipe().catch(() => loadNative());
+    detectorPromise.catch(() => {
+      detectorPromise = null;
+    });
+  }
+  return detectorPromise;
+};
+
+// Faces in an image, largest first, in pixels of the image. Rejects when no detector is available.
+export const detectFaces = async (source: HTMLImageElement | HTMLCanvasElement): Promise<DetectedFace[]> => {
+  const detect = await getDetector();
+  const width = source instanceof HTMLImageElement ? source.naturalWidth : source.width;
+  const height = source instanceof HTMLImageElement ? source.naturalHeight : source.height;
+  const scale = Math.min(1, DETECTION_EDGE / Math.max(width, height));
+  const { canvas, ctx } = createCanvas(Math.max(1, Math.round(width * scale)), Math.max(1, Math.round(height * scale)));
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+  const toSource = (p: PixelPoint): PixelPoint => ({ x: p.x / scale, y: p.y / scale });
+  const faces = (await detect(canvas)).map(face => ({
+    box: {
+      x: face.box.x / scale,
+      y: face.box.y / scale,
+      width: face.box.width / scale,
+      height: face.box.height / scale
+    },
+    eyes: face.eyes ? [toSource(face.eyes[0]), toSource(face.eyes[1])] as [PixelPoint, PixelPoint] : null,
+    nose: face.nose && toSource(face.nose),
+    mouth: face.mouth && toSource(face.mouth),
+    score: face.score
+  }));
+  return faces.sort((a, b) => b.box.width * b.box.height - a.box.width * a.box.height);
+};
+
+export const detectFacesInUrl = async (imageUrl: string): Promise<DetectedFace[]> =>
+  detectFaces(await loadImage(imageUrl));
+
+// Roll of the head in degrees, positive when the eye on the right of the image is lower
+export const getEyeTilt = (face: DetectedFace): number | null => {
+  if (!face.eyes) return null;
+  const [left, right] = face.eyes;
+  return (Math.atan2(right.y - left.y, right.x - left.x) * 180) / Math.PI;
+};
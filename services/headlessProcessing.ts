@@ -0,0 +1,130 @@
+import { Jimp } from "jimp";
+import { AIErrorKind, AppErrorCode, AppTab, IDBackgroundStyle, IDPhotoSettings, OperationSettings } from "../types";
+import { callProvider, ImageProvider } from "./providers";
+import { AIServiceError, AppError, RetryOptions, withRetry } from "./errors";
+import { getUploadSize, MODEL_INPUT_LIMITS, SourceFormat, sniffFormat, UPLOAD_JPEG_QUALITY } from "./ingest";
+import { ANALYSIS_EDGE, findBackground, paintBackground, renderGradient } from "./idBackground";
+import { getBackgroundHex } from "./idPhotoSpecs";
+import { compilePrompt } from "./promptCompiler";
+import { dataUrlToBytes } from "../utils/file";
+
+// Node counterpart of runOperation (processing.ts) for the job API and the CLI, with
+// images decoded by jimp instead of a canvas. Face framing needs MediaPipe in a browser
+// and is left out; the model frames the face from the prompt alone.
+
+// Formats decoded here; WebP and HEIC are only sent on as they are
+const DECODABLE_FORMATS = new Set<SourceFormat>(['jpeg', 'png', 'gif', 'bmp', 'tiff']);
+// Formats the models accept as they are; the others are converted before upload
+const MODEL_FORMATS = new Set<SourceFormat>(['jpeg', 'png', 'webp', 'heic']);
+const LOSSLESS_FORMATS = new Set<SourceFormat>(['png', 'gif', 'bmp', 'tiff']);
+
+type Bitmap = Awaited<ReturnType<typeof Jimp.read>>;
+
+const toDataUrl = (mime: string, bytes: Uint8Array) =>
+  `data:${mime};base64,${Buffer.from(bytes).toString('base64')}`;
+
+const encodeJpeg = async (image: Bitmap) =>
+  toDataUrl('image/jpeg', await image.getBuffer('image/jpeg', { quality: Math.round(UPLOAD_JPEG_QUALITY * 100) }));
+
+const encodePng = async (image: Bitmap) => toDataUrl('image/png', await image.getBuffer('image/png'));
+
+// Why the settings cannot be run without the browser app, or null if they can. Tiles
+// are cut and stitched on a canvas, and backdrops are stored in the browser.
+export const checkHeadlessOperation = (operation: OperationSettings): string | null => {
+  if (operation.tab === AppTab.ENHANCE && operation.settings.tiledUpscale) {
+    return 'tiledUpscale needs the browser app; set it to false';
+  }
+  if (operation.tab === AppTab.ID_PHOTO && operation.settings.backgroundStyle === IDBackgroundStyle.IMAGE) {
+    return 'Backdrop backgrounds need the browser app; use backgroundStyle solid or gradient';
+  }
+  return null;
+};
+
+// Same as prepareUpload: downscales the image (and mask) to what the model can use and
+// re-encodes it when it is too large or in a format the model does not take
+export const prepareHeadlessUpload = async (
+  imageUrl: string,
+  operation: OperationSettings,
+  mask?: string
+): Promise<{ image: string; mask?: string }> => {
+  const bytes = dataUrlToBytes(imageUrl);
+  const format = sniffFormat(bytes);
+  const limit = MODEL_INPUT_LIMITS[compilePrompt(operation).model];
+  const maxBytes = limit?.maxBytes ?? Infinity;
+  if (!format || !(DECODABLE_FORMATS.has(format) || MODEL_FORMATS.has(format))) {
+    throw new AppError(AppErrorCode.UNSUPPORTED_IMAGE, 'Not a supported image (JPEG, PNG, WebP, HEIC, TIFF, BMP or GIF).');
+  }
+  if (!DECODABLE_FORMATS.has(format)) {
+    if (bytes.length <= maxBytes) return { image: imageUrl, mask };
+    throw new AppError(AppErrorCode.UNSUPPORTED_IMAGE, `${format.toUpperCase()} images over ${Math.round(maxBytes / 1024 / 1024)} MB cannot be downscaled here; convert to JPEG first.`);
+  }
+
+  let image: Bitmap;
+  try {
+    image = await Jimp.read(Buffer.from(bytes));
+  } catch (err: any) {
+    throw new AppError(AppErrorCode.IMAGE_NOT_DECODABLE, `Could not decode the image: ${err?.message || err}`);
+  }
+  const { width, height } = image.bitmap;
+  const target = getUploadSize(width, height, operation);
+  const resized = target.width !== width || target.height !== height;
+  if (!resized) {
+    if (MODEL_FORMATS.has(format) && bytes.length <= maxBytes) return { image: imageUrl, mask };
+    // Scans in lossless formats stay lossless when they fit, as they would after ingest in the app
+    if (LOSSLESS_FORMATS.has(format)) {
+      const png = await encodePng(image);
+      if (dataUrlToBytes(png).length <= maxBytes) return { image: png, mask };
+    }
+    return { image: await encodeJpeg(image), mask };
+  }
+
+  image.resize({ w: target.width, h: target.height });
+  if (!mask) return { image: await encodeJpeg(image) };
+  const maskImage = await Jimp.read(Buffer.from(dataUrlToBytes(mask)));
+  maskImage.resize({ w: target.width, h: target.height });
+  return { image: await encodeJpeg(image), mask: await encodePng(maskImage) };
+};
+
+// Same as correctIDBackground, on the pixels jimp decodes. Results it cannot decode are returned as is.
+export const correctHeadlessIDBackground = async (imageUrl: string, settings: IDPhotoSettings): Promise<string> => {
+  const bytes = dataUrlToBytes(imageUrl);
+  const format = sniffFormat(bytes);
+  if (!format || !DECODABLE_FORMATS.has(format)) return imageUrl;
+  const image = await Jimp.read(Buffer.from(bytes));
+  const { width, height } = image.bitmap;
+  const scale = Math.min(1, ANALYSIS_EDGE / Math.max(width, height));
+  const small = image.clone().resize({ w: Math.max(1, Math.round(width * scale)), h: Math.max(1, Math.round(height * scale)) });
+  const found = findBackground(small.bitmap.data, small.bitmap.width, small.bitmap.height);
+  if (!found) return imageUrl;
+
+  // Scaled up with interpolation, which also softens the mask's edge
+  const mask = new Jimp({ width: small.bitmap.width, height: small.bitmap.height, color: 0x000000ff });
+  found.mask.forEach((m, i) => mask.bitmap.data.fill(Math.round(m * 255), i * 4, i * 4 + 3));
+  mask.resize({ w: width, h: height });
+
+  const data = image.bitmap.data;
+  const pixels = new Uint8ClampedArray(data.buffer, data.byteOffset, data.length);
+  const target = settings.backgroundStyle === IDBackgroundStyle.GRADIENT ? renderGradient(getBackgroundHex(settings), width, height) : null;
+  paintBackground(pixels, mask.bitmap.data, found.color, settings, target);
+  return encodePng(image);
+};
+
+export interface HeadlessOperationOptions extends Partial<RetryOptions> {
+  mask?: string;
+}
+
+// Runs one operation the way runOperation does in the app, minus the steps listed in
+// checkHeadlessOperation and face framing
+export const runHeadlessOperation = async (
+  provider: ImageProvider,
+  imageBase64: string,
+  operation: OperationSettings,
+  options: HeadlessOperationOptions = {}
+): Promise<string> => {
+  const { mask, ...retryOptions } = options;
+  const unsupported = checkHeadlessOperation(operation);
+  if (unsupported) throw new AIServiceError(AIErrorKind.INVALID_INPUT, unsupported);
+  const upload = await prepareHeadlessUpload(imageBase64, operation, mask);
+  const result = await withRetry((signal) => callProvider(provider, upload.image, operation, { signal, mask: upload.mask }), retryOptions);
+  return operation.tab === AppTab.ID_PHOTO ? correctHeadlessIDBackground(result, operation.settings) : result;
+};
@@ -0,0 +1,157 @@
+import { EditHistory, HistoryVersion, ImageAdjustments, OperationSettings, QualityMetrics } from "../types";
+
+const newVersionId = () => `v${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+export const createHistory = (originalUrl: string): EditHistory => {
+  const root: HistoryVersion = {
+    id: newVersionId(),
+    parentId: null,
+    operation: null,
+    imageUrl: originalUrl,
+    createdAt: Date.now()
+  };
+  return {
+    versions: { [root.id]: root },
+    order: [root.id],
+    rootId: root.id,
+    currentId: root.id,
+    redoStack: []
+  };
+};
+
+export const getCurrentVersion = (history: EditHistory): HistoryVersion =>
+  history.versions[history.currentId];
+
+export const getParentVersion = (history: EditHistory, version: HistoryVersion): HistoryVersion | null =>
+  version.parentId ? history.versions[version.parentId] ?? null : null;
+
+const appendVersion = (history: EditHistory, version: HistoryVersion): EditHistory => ({
+  ...history,
+  versions: { ...history.versions, [version.id]: version },
+  order: [...history.order, version.id],
+  currentId: version.id,
+  redoStack: []
+});
+
+// Adds the output of an operation as a child of `parentId` and makes it current.
+// Running from an earlier version therefore starts a new branch.
+export const addVersion = (
+  history: EditHistory,
+  parentId: string,
+  operation: OperationSettings,
+  imageUrl: string
+): EditHistory => appendVersion(history, {
+  id: newVersionId(),
+  parentId,
+  operation,
+  imageUrl,
+  createdAt: Date.now()
+});
+
+// Adds local adjustments of `parentId`; the parameters are kept so they can be edited again
+export const addAdjustedVersion = (
+  history: EditHistory,
+  parentId: string,
+  adjustments: ImageAdjustments,
+  imageUrl: string
+): EditHistory => appendVersion(history, {
+  id: newVersionId(),
+  parentId,
+  operation: null,
+  adjustments,
+  imageUrl,
+  createdAt: Date.now()
+});
+
+// Adds several candidates of the same operation as siblings under `parentId`; the first becomes current.
+// They share a variant group so they can be compared, and stay in the tree like any other branch.
+export const addVariants = (
+  history: EditHistory,
+  parentId: string,
+  operation: OperationSettings,
+  imageUrls: string[]
+): EditHistory => {
+  const variantGroup = newVersionId();
+  const versions = imageUrls.map((imageUrl): HistoryVersion => ({
+    id: newVersionId(),
+    parentId,
+    operation,
+    variantGroup,
+    imageUrl,
+    createdAt: Date.now()
+  }));
+  const next = versions.reduce(appendVersion, history);
+  return versions.length ? { ...next, currentId: versions[0].id } : history;
+};
+
+// Adds a variant that keeps `baseId` but took its background from `backgroundId`
+export const addMixedVariant = (
+  history: EditHistory,
+  baseId: string,
+  backgroundId: string,
+  imageUrl: string
+): EditHistory => {
+  const base = history.versions[baseId];
+  return appendVersion(history, {
+    id: newVersionId(),
+    parentId: base.parentId,
+    operation: base.operation,
+    variantGroup: base.variantGroup,
+    mixedFrom: { baseId, backgroundId },
+    imageUrl,
+    createdAt: Date.now()
+  });
+};
+
+// Candidates from the same run as `version`, in creation order; empty for single results
+export const getVariants = (history: EditHistory, version: HistoryVersion): HistoryVersion[] =>
+  version.variantGroup
+    ? history.order.map(id => history.versions[id]).filter(v => v.variantGroup === version.variantGroup)
+    : [];
+
+export const toggleStar = (history: EditHistory, versionId: string): EditHistory => {
+  const version = history.versions[versionId];
+  if (!version) return history;
+  return { ...history, versions: { ...history.versions, [versionId]: { ...version, starred: !version.starred } } };
+};
+
+// Quality metrics arrive after the version was added, so they are attached in place
+export const setVersionMetrics = (history: EditHistory, versionId: string, metrics: QualityMetrics): EditHistory => {
+  const version = history.versions[versionId];
+  if (!version) return history;
+  return { ...history, versions: { ...history.versions, [versionId]: { ...version, metrics } } };
+};
+
+export const canUndo = (history: EditHistory): boolean =>
+  getCurrentVersion(history).parentId !== null;
+
+export const canRedo = (history: EditHistory): boolean => history.redoStack.length > 0;
+
+export const undo = (history: EditHistory): EditHistory => {
+  const parentId = getCurrentVersion(history).parentId;
+  if (!parentId) return history;
+  return { ...history, currentId: parentId, redoStack: [...history.redoStack, history.currentId] };
+};
+
+export const redo = (history: EditHistory): EditHistory => {
+  if (history.redoStack.length === 0) return history;
+  const redoStack = history.redoStack.slice(0, -1);
+  return { ...history, currentId: history.redoStack[history.redoStack.length - 1], redoStack };
+};
+
+// Jumping elsewhere in the tree drops the redo path, like any other navigation
+export const jumpTo = (history: EditHistory, versionId: string): EditHistory => {
+  if (!history.versions[versionId] || versionId === history.currentId) return history;
+  return { ...history, currentId: versionId, redoStack: [] };
+};
+
+// Versions from the original up to (and including) the given version
+export const getLineage = (history: EditHistory, versionId: string): HistoryVersion[] => {
+  const lineage: HistoryVersion[] = [];
+  let version: HistoryVersion | undefined = history.versions[versionId];
+  while (version) {
+    lineage.unshift(version);
+    version = version.parentId ? history.versions[version.parentId] : undefined;
+  }
+  return lineage;
+};
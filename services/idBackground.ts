@@ -0,0 +1,222 @@
+import { IDBackgroundStyle, IDPhotoSettings } from "../types";
+import { loadImage, createCanvas } from "../utils/canvas";
+import { getBackgroundHex } from "./idPhotoSpecs";
+import { findBackdrop } from "./backdrops";
+
+// The background region is found at this size, then scaled up as a soft mask
+export const ANALYSIS_EDGE = 512;
+// Minimum colour distance from the sampled background that still counts as background
+const MIN_THRESHOLD = 30;
+// Above this mean deviation the background is not flat enough to find reliably
+const MAX_BACKGROUND_NOISE = 25;
+// Analysis pixels around the background region that get a partial correction (hair, edges)
+const EDGE_BAND = 2;
+// Mask values above this are painted with the exact target colour
+const SOLID_ALPHA = 0.98;
+// If "background" covers more than this share, the person was flooded; leave the photo alone
+const MAX_BACKGROUND_SHARE = 0.9;
+// Gradient: lighter at the upper centre, darker at the corners, by this share
+const GRADIENT_SPREAD = 0.12;
+
+type RGB = [number, number, number];
+
+const hexToRgb = (hex: string): RGB => {
+  const n = parseInt(hex.slice(1), 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+};
+
+const shade = (rgb: RGB, amount: number): RGB =>
+  rgb.map(v => (amount > 0 ? v + (255 - v) * amount : v * (1 + amount))) as RGB;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)] ?? 0;
+};
+
+// Radial gradient around the base colour, lighter at the upper centre, as RGBA pixels
+export const renderGradient = (hex: string, width: number, height: number): Uint8ClampedArray => {
+  const base = hexToRgb(hex);
+  const light = shade(base, GRADIENT_SPREAD);
+  const dark = shade(base, -GRADIENT_SPREAD);
+  const cx = width / 2;
+  const cy = height * 0.35;
+  const radius = Math.hypot(width, height) * 0.6;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const t = Math.min(1, Math.hypot(x + 0.5 - cx, y + 0.5 - cy) / radius);
+      const p = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) data[p + c] = light[c] + t * (dark[c] - light[c]);
+      data[p + 3] = 255;
+    }
+  }
+  return data;
+};
+
+// Per-pixel target for gradients and backdrops; null for a solid colour
+const renderTarget = async (settings: IDPhotoSettings, width: number, height: number): Promise<Uint8ClampedArray | null> => {
+  const style = settings.backgroundStyle;
+  if (style === IDBackgroundStyle.GRADIENT) return renderGradient(getBackgroundHex(settings), width, height);
+  const backdrop = style === IDBackgroundStyle.IMAGE ? findBackdrop(settings.backdropId) : undefined;
+  if (!backdrop) return null;
+
+  // Cover the frame, centred
+  const { ctx } = createCanvas(width, height);
+  const img = await loadImage(backdrop.dataUrl);
+  const scale = Math.max(width / img.naturalWidth, height / img.naturalHeight);
+  const w = img.naturalWidth * scale;
+  const h = img.naturalHeight * scale;
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, (width - w) / 2, (height - h) / 2, w, h);
+  return ctx.getImageData(0, 0, width, height).data;
+};
+
+// Finds the background at analysis size: pixels connected to the top and upper sides
+// through background-coloured pixels get 1, fading to 0 over a thin band around them
+export const findBackground = (data: Uint8Array | Uint8ClampedArray, width: number, height: number) => {
+  const samples: RGB[] = [];
+  const seeds: number[] = [];
+  const seed = (x: number, y: number) => {
+    const i = y * width + x;
+    seeds.push(i);
+    samples.push([data[i * 4], data[i * 4 + 1], data[i * 4 + 2]]);
+  };
+  for (let x = 0; x < width; x++) seed(x, 0);
+  for (let y = 1; y < Math.round(height * 0.6); y++) {
+    seed(0, y);
+    seed(width - 1, y);
+  }
+  const color: RGB = [0, 1, 2].map(c => median(samples.map(s => s[c]))) as RGB;
+  const noise = samples.reduce((sum, s) => sum + Math.hypot(s[0] - color[0], s[1] - color[1], s[2] - color[2]), 0) / samples.length;
+  if (noise > MAX_BACKGROUND_NOISE) return null;
+
+  const threshold = Math.max(MIN_THRESHOLD, noise * 3);
+  const total = width * height;
+  const dist = new Float32Array(total);
+  for (let i = 0; i < total; i++) {
+    dist[i] = Math.hypot(data[i * 4] - color[0], data[i * 4 + 1] - color[1], data[i * 4 + 2] - color[2]);
+  }
+
+  // Flood fill from the edges; layer > 0 marks the band grown around the filled region
+  const mask = new Float32Array(total);
+  const layer = new Int8Array(total).fill(-1);
+  let frontier = seeds.filter(i => dist[i] < threshold);
+  frontier.forEach(i => { layer[i] = 0; mask[i] = 1; });
+  let filled = frontier.length;
+  const neighbours = (i: number) => {
+    const x = i % width;
+    const list: number[] = [];
+    if (x > 0) list.push(i - 1);
+    if (x < width - 1) list.push(i + 1);
+    if (i >= width) list.push(i - width);
+    if (i < total - width) list.push(i + width);
+    return list;
+  };
+  while (frontier.length) {
+    const next: number[] = [];
+    for (const i of frontier) {
+      for (const n of neighbours(i)) {
+        if (layer[n] >= 0 || dist[n] >= threshold) continue;
+        layer[n] = 0;
+        mask[n] = 1;
+        next.push(n);
+      }
+    }
+    filled += next.length;
+    frontier = next;
+  }
+  if (filled / total > MAX_BACKGROUND_SHARE) return null;
+
+  // Edge band: mixed pixels get a share of the correction by how close they are to the background colour
+  frontier = [];
+  for (let i = 0; i < total; i++) if (layer[i] === 0) frontier.push(i);
+  for (let band = 1; band <= EDGE_BAND; band++) {
+    const next: number[] = [];
+    for (const i of frontier) {
+      for (const n of neighbours(i)) {
+        if (layer[n] >= 0) continue;
+        layer[n] = band;
+        mask[n] = Math.min(1, Math.max(0, (2 * threshold - dist[n]) / threshold));
+        next.push(n);
+      }
+    }
+    frontier = next;
+  }
+  return { mask, color };
+};
+
+// Background of a photo as a soft mask canvas at analysis size (white = background),
+// plus the colour it was found with; null when there is no clear flat background
+const analyseBackground = (img: HTMLImageElement) => {
+  const width = img.naturalWidth;
+  const height = img.naturalHeight;
+  const scale = Math.min(1, ANALYSIS_EDGE / Math.max(width, height));
+  const small = createCanvas(Math.max(1, Math.round(width * scale)), Math.max(1, Math.round(height * scale)));
+  small.ctx.drawImage(img, 0, 0, small.canvas.width, small.canvas.height);
+  const found = findBackground(small.ctx.getImageData(0, 0, small.canvas.width, small.canvas.height).data, small.canvas.width, small.canvas.height);
+  if (!found) return null;
+
+  const maskImage = small.ctx.createImageData(small.canvas.width, small.canvas.height);
+  found.mask.forEach((m, i) => {
+    const v = Math.round(m * 255);
+    maskImage.data[i * 4] = v;
+    maskImage.data[i * 4 + 1] = v;
+    maskImage.data[i * 4 + 2] = v;
+    maskImage.data[i * 4 + 3] = 255;
+  });
+  small.ctx.putImageData(maskImage, 0, 0);
+  return { mask: small.canvas, color: found.color };
+};
+
+// Black and white mask of the flat background of a photo, for compositing, and the colour
+// it was found with; null if there is no clear flat background
+export const getBackgroundMask = async (imageUrl: string): Promise<{ maskUrl: string; color: RGB } | null> => {
+  const found = analyseBackground(await loadImage(imageUrl));
+  return found ? { maskUrl: found.mask.toDataURL('image/png'), color: found.color } : null;
+};
+
+// Moves the background pixels of an RGBA image from the colour `old` they were found with to
+// the settings' colour, or to `target` pixels (gradient, backdrop), by the mask's first channel
+export const paintBackground = (
+  pixels: Uint8ClampedArray,
+  mask: Uint8Array | Uint8ClampedArray,
+  old: RGB,
+  settings: IDPhotoSettings,
+  target: Uint8ClampedArray | null
+) => {
+  const solid = hexToRgb(getBackgroundHex(settings));
+  for (let p = 0; p < pixels.length; p += 4) {
+    const m = mask[p] / 255;
+    if (m === 0) continue;
+    for (let c = 0; c < 3; c++) {
+      const t = target ? target[p + c] : solid[c];
+      pixels[p + c] = m >= SOLID_ALPHA ? t : pixels[p + c] + m * (t - old[c]);
+    }
+  }
+};
+
+// Deterministic post-pass for generated ID photos: finds the flat background the model
+// produced and replaces it with the exact target colour, gradient or backdrop. Pixels at
+// the edge of the person are shifted by their background share, so hair keeps its shape
+// without a halo of the old colour. Photos without a clear flat background are returned as is.
+export const correctIDBackground = async (imageUrl: string, settings: IDPhotoSettings): Promise<string> => {
+  const img = await loadImage(imageUrl);
+  const width = img.naturalWidth;
+  const height = img.naturalHeight;
+  const found = analyseBackground(img);
+  if (!found) return imageUrl;
+
+  // Scale the mask up with smoothing, which also softens its edge
+  const full = createCanvas(width, height);
+  full.ctx.imageSmoothingEnabled = true;
+  full.ctx.imageSmoothingQuality = 'high';
+  full.ctx.drawImage(found.mask, 0, 0, width, height);
+  const mask = full.ctx.getImageData(0, 0, width, height).data;
+
+  full.ctx.drawImage(img, 0, 0);
+  const image = full.ctx.getImageData(0, 0, width, height);
+  paintBackground(image.data, mask, found.color, settings, await renderTarget(settings, width, height));
+  full.ctx.putImageData(image, 0, 0);
+  return full.canvas.toDataURL('image/png');
+};
@@ -0,0 +1,306 @@
+import { ComplianceCheck, ComplianceReport, ComplianceStatus, IDBackgroundStyle, IDPhotoBackground, IDPhotoSettings, NumberRange } from "../types";
+import { loadImage, createCanvas } from "../utils/canvas";
+import { ID_PHOTO_DIMENSIONS_MM } from "./printLayout";
+import { getBackgroundHex, getIDPhotoSpec, ID_BACKGROUND_COLORS } from "./idPhotoSpecs";
+import { detectFaces, getEyeTilt } from "./faceDetection";
+import { formatDecimal, getMessages } from "../i18n";
+
+// Rows of the photo are analysed at this height; plenty for millimetre accuracy
+const ANALYSIS_HEIGHT = 480;
+// A row belongs to the person once this share of it differs from the background
+const MIN_ROW_COVERAGE = 0.03;
+// Max RGB distance from the target colour for the background to count as that colour
+const BACKGROUND_TOLERANCE = 60;
+// Max RGB distance from the exact requested colour; the background post-pass lands well within this
+const TARGET_TOLERANCE = 16;
+// Mean deviation above which the background is reported as uneven
+const BACKGROUND_NOISE_LIMIT = 12;
+// Eyes sit roughly halfway between crown and chin
+const EYE_LINE_RATIO = 0.5;
+// Head roll above which the eyes are reported as not level, in degrees
+const MAX_EYE_TILT = 3;
+
+type RGB = [number, number, number];
+
+const hexToRgb = (hex: string): RGB => {
+  const n = parseInt(hex.slice(1), 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+};
+
+const rgbToHex = ([r, g, b]: RGB) =>
+  '#' + [r, g, b].map(v => Math.round(v).toString(16).padStart(2, '0')).join('').toUpperCase();
+
+const distance = (a: RGB, b: RGB) => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)] ?? 0;
+};
+
+const inRange = (value: number, range: NumberRange) => value >= range.min && value <= range.max;
+
+const mm = (value: number) => `${formatDecimal(value, 1)} mm`;
+
+// Draws the image with the same centre crop the print layout uses, so measurements match the print
+const renderForAnalysis = async (imageUrl: string, aspect: number) => {
+  const img = await loadImage(imageUrl);
+  const { canvas, ctx } = createCanvas(Math.round(ANALYSIS_HEIGHT * aspect), ANALYSIS_HEIGHT);
+  const scale = Math.max(canvas.width / img.naturalWidth, canvas.height / img.naturalHeight);
+  const srcW = canvas.width / scale;
+  const srcH = canvas.height / scale;
+  ctx.drawImage(img, (img.naturalWidth - srcW) / 2, (img.naturalHeight - srcH) / 2, srcW, srcH, 0, 0, canvas.width, canvas.height);
+  return {
+    canvas,
+    data: ctx.getImageData(0, 0, canvas.width, canvas.height).data,
+    width: canvas.width,
+    height: canvas.height,
+    sourceAspect: img.naturalWidth / img.naturalHeight
+  };
+};
+
+// Background colour from the top edge and the upper part of both sides, where ID photos show no person
+const sampleBackground = (data: Uint8ClampedArray, width: number, height: number) => {
+  const samples: RGB[] = [];
+  const push = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    samples.push([data[i], data[i + 1], data[i + 2]]);
+  };
+  for (let x = 0; x < width; x++) push(x, 1);
+  for (let y = 0; y < Math.round(height * 0.4); y++) {
+    push(1, y);
+    push(width - 2, y);
+  }
+  const color: RGB = [0, 1, 2].map(c => median(samples.map(s => s[c]))) as RGB;
+  const noise = samples.reduce((sum, s) => sum + distance(s, color), 0) / samples.length;
+  return { color, noise };
+};
+
+interface Silhouette {
+  crown: number;
+  chin: number;
+  centerX: number;
+  estimated: boolean; // No clear neck was found; chin comes from head proportions
+}
+
+// Finds the head from the person's silhouette against the flat background.
+// Crown is the first row with foreground; the chin sits at the top of the narrow neck
+// section below the widest part of the head.
+const findSilhouette = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  background: RGB,
+  threshold: number
+): Silhouette | null => {
+  const counts = new Array<number>(height).fill(0);
+  const lefts = new Array<number>(height).fill(-1);
+  const rights = new Array<number>(height).fill(-1);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      if (distance([data[i], data[i + 1], data[i + 2]], background) > threshold) {
+        counts[y]++;
+        if (lefts[y] < 0) lefts[y] = x;
+        rights[y] = x;
+      }
+    }
+  }
+
+  const minCount = width * MIN_ROW_COVERAGE;
+  const crown = counts.findIndex((c, y) => c > minCount && (counts[y + 1] ?? 0) > minCount && (counts[y + 2] ?? 0) > minCount);
+  if (crown < 0) return null;
+
+  const span = (y: number) => (counts[y] > minCount ? rights[y] - lefts[y] + 1 : 0);
+  const upperEnd = Math.min(height, crown + Math.round(height * 0.35));
+  let headWidth = 0;
+  for (let y = crown; y < upperEnd; y++) headWidth = Math.max(headWidth, span(y));
+
+  // Narrowest span between one and two head widths below the crown is the neck
+  const from = Math.min(height - 1, crown + Math.round(headWidth * 0.8));
+  const to = Math.min(height - 1, crown + Math.round(headWidth * 2));
+  let neckWidth = Infinity;
+  for (let y = from; y <= to; y++) neckWidth = Math.min(neckWidth, span(y) || Infinity);
+
+  let chin: number;
+  let estimated = false;
+  if (Number.isFinite(neckWidth) && neckWidth < headWidth * 0.85) {
+    let top = from;
+    while (top <= to && span(top) > neckWidth * 1.1) top++;
+    let bottom = top;
+    while (bottom < to && span(bottom + 1) <= neckWidth * 1.1) bottom++;
+    chin = Math.round(top + (bottom - top) * 0.35);
+  } else {
+    // Long hair or a high collar hides the neck; typical head height is ~1.3x its width
+    chin = Math.min(height - 1, crown + Math.round(headWidth * 1.3));
+    estimated = true;
+  }
+
+  let centerSum = 0;
+  let centerRows = 0;
+  for (let y = crown; y <= chin; y++) {
+    if (counts[y] > minCount) {
+      centerSum += (lefts[y] + rights[y]) / 2;
+      centerRows++;
+    }
+  }
+  return { crown, chin, centerX: centerRows ? centerSum / centerRows : width / 2, estimated };
+};
+
+const overallStatus = (checks: ComplianceCheck[]): ComplianceStatus => {
+  if (checks.some(c => c.status === ComplianceStatus.FAIL)) return ComplianceStatus.FAIL;
+  if (checks.some(c => c.status === ComplianceStatus.WARN)) return ComplianceStatus.WARN;
+  return ComplianceStatus.PASS;
+};
+
+// Measures head size, eye line, centring and background of a generated ID photo
+// against the spec of the settings it was made with
+export const analyzeIDPhoto = async (imageUrl: string, settings: IDPhotoSettings): Promise<ComplianceReport> => {
+  const spec = getIDPhotoSpec(settings);
+  const sizeMm = ID_PHOTO_DIMENSIONS_MM[spec.size];
+  const aspect = sizeMm.width / sizeMm.height;
+  const { canvas, data, width, height, sourceAspect } = await renderForAnalysis(imageUrl, aspect);
+  const mmPerPx = sizeMm.height / height;
+  const checks: ComplianceCheck[] = [];
+  // Labels and details are in the current language; the report is recomputed when it changes
+  const { compliance: t, enums } = getMessages();
+  const { labels } = t;
+
+  if (Math.abs(sourceAspect / aspect - 1) > 0.02) {
+    checks.push({
+      id: 'aspect',
+      label: labels.aspect,
+      status: ComplianceStatus.WARN,
+      detail: t.aspect(enums.size[spec.size])
+    });
+  }
+
+  const { color, noise } = sampleBackground(data, width, height);
+  const backgroundHex = rgbToHex(color);
+  const nearest = (Object.keys(ID_BACKGROUND_COLORS) as IDPhotoBackground[])
+    .map(bg => ({ bg, d: distance(color, hexToRgb(ID_BACKGROUND_COLORS[bg])) }))
+    .sort((a, b) => a.d - b.d)[0];
+  const allowed = spec.backgrounds.includes(nearest.bg) && nearest.d <= BACKGROUND_TOLERANCE;
+  if (settings.backgroundStyle === IDBackgroundStyle.SOLID) {
+    const targetHex = getBackgroundHex(settings);
+    const deviation = distance(color, hexToRgb(targetHex));
+    const onTarget = deviation <= TARGET_TOLERANCE;
+    checks.push({
+      id: 'background',
+      label: labels.background,
+      status: !allowed ? ComplianceStatus.FAIL : onTarget ? ComplianceStatus.PASS : ComplianceStatus.WARN,
+      detail: !allowed
+        ? t.backgroundNotAllowed(backgroundHex, spec.backgrounds.map(bg => enums.background[bg]).join(', '))
+        : t.backgroundMeasured(enums.background[nearest.bg], backgroundHex, targetHex, Math.round(deviation))
+    });
+    checks.push({
+      id: 'background-even',
+      label: labels.backgroundEven,
+      status: noise <= BACKGROUND_NOISE_LIMIT ? ComplianceStatus.PASS : ComplianceStatus.WARN,
+      detail: noise <= BACKGROUND_NOISE_LIMIT ? t.even : t.uneven
+    });
+  } else {
+    // Gradients and backdrops are for studio portraits; no document accepts them
+    checks.push({
+      id: 'background',
+      label: labels.backgroundStyle,
+      status: ComplianceStatus.MANUAL,
+      detail: settings.backgroundStyle === IDBackgroundStyle.GRADIENT ? t.gradient : t.backdrop
+    });
+  }
+
+  const silhouette = findSilhouette(data, width, height, color, Math.max(40, noise * 3));
+  // Detected eyes replace the proportional estimates; null when no detector is available
+  const faces = await detectFaces(canvas).catch(() => null);
+  const face = faces?.[0];
+  let headHeightMm: number | null = null;
+  let eyeLineMm: number | null = null;
+  let crownMarginMm: number | null = null;
+  let centerOffsetMm: number | null = null;
+
+  if (faces && faces.length !== 1) {
+    checks.push({
+      id: 'face',
+      label: labels.face,
+      status: faces.length ? ComplianceStatus.FAIL : ComplianceStatus.WARN,
+      detail: faces.length ? t.manyFaces(faces.length) : t.noFace
+    });
+  }
+  const tilt = face ? getEyeTilt(face) : null;
+  if (tilt !== null) {
+    checks.push({
+      id: 'eyes-level',
+      label: labels.eyesLevel,
+      status: Math.abs(tilt) <= MAX_EYE_TILT ? ComplianceStatus.PASS : ComplianceStatus.WARN,
+      detail: t.tilt(formatDecimal(Math.abs(tilt), 1), Math.abs(tilt) <= MAX_EYE_TILT ? null : MAX_EYE_TILT)
+    });
+  }
+
+  if (!silhouette) {
+    checks.push({ id: 'head', label: labels.head, status: ComplianceStatus.FAIL, detail: t.noPerson });
+  } else {
+    const { crown } = silhouette;
+    const eyeY = face?.eyes ? (face.eyes[0].y + face.eyes[1].y) / 2 : null;
+    // Without a visible neck, the chin mirrors the crown around the measured eye line
+    const chin = eyeY !== null && silhouette.estimated ? Math.min(height - 1, 2 * eyeY - crown) : silhouette.chin;
+    const estimated = silhouette.estimated && eyeY === null;
+    const centerX = face?.eyes ? (face.eyes[0].x + face.eyes[1].x) / 2 : silhouette.centerX;
+    const note = estimated ? t.estimated : silhouette.estimated ? t.chinFromEyes : '';
+    headHeightMm = (chin - crown) * mmPerPx;
+    eyeLineMm = (height - (eyeY ?? crown + (chin - crown) * EYE_LINE_RATIO)) * mmPerPx;
+    crownMarginMm = crown * mmPerPx;
+    centerOffsetMm = (centerX - width / 2) * mmPerPx;
+
+    const headOk = inRange(headHeightMm, spec.headHeightMm);
+    checks.push({
+      id: 'head',
+      label: labels.head,
+      status: headOk ? ComplianceStatus.PASS : estimated ? ComplianceStatus.WARN : ComplianceStatus.FAIL,
+      detail: t.required(mm(headHeightMm), note, spec.headHeightMm.min, spec.headHeightMm.max)
+    });
+    const eyeOk = inRange(eyeLineMm, spec.eyeLineMm);
+    checks.push({
+      id: 'eye-line',
+      label: labels.eyeLine,
+      status: eyeOk ? ComplianceStatus.PASS : eyeY === null && estimated ? ComplianceStatus.WARN : ComplianceStatus.FAIL,
+      detail: t.required(mm(eyeLineMm), eyeY === null ? note || t.fromHeadSize : t.atEyes, spec.eyeLineMm.min, spec.eyeLineMm.max)
+    });
+    checks.push({
+      id: 'crown',
+      label: labels.crown,
+      status: crown > 1 ? ComplianceStatus.PASS : ComplianceStatus.FAIL,
+      detail: crown > 1 ? t.crownSpace(mm(crownMarginMm)) : t.crownCut
+    });
+    const offsetLimit = sizeMm.width * 0.05;
+    checks.push({
+      id: 'centered',
+      label: labels.centered,
+      status: Math.abs(centerOffsetMm) <= offsetLimit ? ComplianceStatus.PASS
+        : Math.abs(centerOffsetMm) <= offsetLimit * 2 ? ComplianceStatus.WARN : ComplianceStatus.FAIL,
+      detail: t.offCentre(mm(Math.abs(centerOffsetMm)), centerOffsetMm < 0)
+    });
+  }
+
+  checks.push({
+    id: 'glasses',
+    label: labels.glasses,
+    status: spec.glassesAllowed ? ComplianceStatus.PASS : ComplianceStatus.MANUAL,
+    detail: spec.glassesAllowed ? t.glassesAllowed : t.glassesForbidden
+  });
+  checks.push({
+    id: 'expression',
+    label: labels.expression,
+    status: spec.smilingAllowed ? ComplianceStatus.PASS : ComplianceStatus.MANUAL,
+    detail: spec.smilingAllowed ? t.smileAllowed : t.smileForbidden
+  });
+
+  return {
+    specId: spec.id,
+    status: overallStatus(checks),
+    headHeightMm,
+    eyeLineMm,
+    crownMarginMm,
+    centerOffsetMm,
+    backgroundHex,
+    checks
+  };
+};
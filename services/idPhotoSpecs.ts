@@ -0,0 +1,249 @@
+import { IDBackgroundStyle, IDDocumentType, IDPhotoBackground, IDPhotoSettings, IDPhotoSize, IDPhotoSpec } from "../types";
+import { ID_PHOTO_DIMENSIONS_MM } from "./printLayout";
+
+export const CUSTOM_SPEC_ID = '';
+
+// Target colour of each background option
+export const ID_BACKGROUND_COLORS: Record<IDPhotoBackground, string> = {
+  [IDPhotoBackground.WHITE]: '#FFFFFF',
+  [IDPhotoBackground.BLUE]: '#2196F3',
+  [IDPhotoBackground.RED]: '#D32F2F',
+  [IDPhotoBackground.BLACK]: '#000000',
+  [IDPhotoBackground.GRAY]: '#9E9E9E'
+};
+
+// Document photo rules as published by the issuing authorities. Rules change;
+// check the authority's current guidance before adding or editing an entry.
+export const ID_PHOTO_SPECS: IDPhotoSpec[] = [
+  {
+    id: 'vn-passport',
+    country: 'VN',
+    countryName: 'Vietnam',
+    documentType: IDDocumentType.PASSPORT,
+    name: 'Passport',
+    size: IDPhotoSize.SIZE_4x6,
+    headHeightMm: { min: 32, max: 40 },
+    eyeLineMm: { min: 34, max: 42 },
+    backgrounds: [IDPhotoBackground.WHITE],
+    glassesAllowed: false,
+    smilingAllowed: false
+  },
+  {
+    id: 'vn-id-card',
+    country: 'VN',
+    countryName: 'Vietnam',
+    documentType: IDDocumentType.ID_CARD,
+    name: 'ID card',
+    size: IDPhotoSize.SIZE_3x4,
+    headHeightMm: { min: 24, max: 30 },
+    eyeLineMm: { min: 24, max: 29 },
+    backgrounds: [IDPhotoBackground.WHITE],
+    glassesAllowed: false,
+    smilingAllowed: false
+  },
+  {
+    id: 'vn-profile-3x4',
+    country: 'VN',
+    countryName: 'Vietnam',
+    documentType: IDDocumentType.PROFILE,
+    name: 'Application form 3x4',
+    size: IDPhotoSize.SIZE_3x4,
+    headHeightMm: { min: 24, max: 32 },
+    eyeLineMm: { min: 23, max: 30 },
+    backgrounds: [IDPhotoBackground.WHITE, IDPhotoBackground.BLUE],
+    glassesAllowed: true,
+    smilingAllowed: false
+  },
+  {
+    id: 'vn-profile-4x6',
+    country: 'VN',
+    countryName: 'Vietnam',
+    documentType: IDDocumentType.PROFILE,
+    name: 'Application form 4x6',
+    size: IDPhotoSize.SIZE_4x6,
+    headHeightMm: { min: 32, max: 42 },
+    eyeLineMm: { min: 34, max: 42 },
+    backgrounds: [IDPhotoBackground.WHITE, IDPhotoBackground.BLUE],
+    glassesAllowed: true,
+    smilingAllowed: false
+  },
+  {
+    id: 'vn-visa',
+    country: 'VN',
+    countryName: 'Vietnam',
+    documentType: IDDocumentType.VISA,
+    name: 'Visa',
+    size: IDPhotoSize.SIZE_4x6,
+    headHeightMm: { min: 32, max: 40 },
+    eyeLineMm: { min: 34, max: 42 },
+    backgrounds: [IDPhotoBackground.WHITE],
+    glassesAllowed: false,
+    smilingAllowed: false
+  },
+  {
+    id: 'us-passport',
+    country: 'US',
+    countryName: 'United States',
+    documentType: IDDocumentType.PASSPORT,
+    name: 'Passport',
+    size: IDPhotoSize.SIZE_5x5,
+    headHeightMm: { min: 25, max: 35 },
+    eyeLineMm: { min: 28, max: 35 },
+    backgrounds: [IDPhotoBackground.WHITE],
+    glassesAllowed: false,
+    smilingAllowed: true
+  },
+  {
+    id: 'us-visa',
+    country: 'US',
+    countryName: 'United States',
+    documentType: IDDocumentType.VISA,
+    name: 'Visa',
+    size: IDPhotoSize.SIZE_5x5,
+    headHeightMm: { min: 25, max: 35 },
+    eyeLineMm: { min: 28, max: 35 },
+    backgrounds: [IDPhotoBackground.WHITE],
+    glassesAllowed: false,
+    smilingAllowed: true
+  },
+  {
+    id: 'schengen-visa',
+    country: 'EU',
+    countryName: 'Schengen Area',
+    documentType: IDDocumentType.VISA,
+    name: 'Schengen visa',
+    size: IDPhotoSize.SIZE_35x45,
+    headHeightMm: { min: 32, max: 36 },
+    eyeLineMm: { min: 24, max: 30 },
+    backgrounds: [IDPhotoBackground.WHITE, IDPhotoBackground.GRAY],
+    glassesAllowed: true,
+    smilingAllowed: false
+  },
+  {
+    id: 'uk-passport',
+    country: 'GB',
+    countryName: 'United Kingdom',
+    documentType: IDDocumentType.PASSPORT,
+    name: 'Passport',
+    size: IDPhotoSize.SIZE_35x45,
+    headHeightMm: { min: 29, max: 34 },
+    eyeLineMm: { min: 24, max: 30 },
+    backgrounds: [IDPhotoBackground.GRAY],
+    glassesAllowed: true,
+    smilingAllowed: false
+  },
+  {
+    id: 'cn-visa',
+    country: 'CN',
+    countryName: 'China',
+    documentType: IDDocumentType.VISA,
+    name: 'Visa',
+    size: IDPhotoSize.SIZE_33x48,
+    headHeightMm: { min: 28, max: 33 },
+    eyeLineMm: { min: 27, max: 33 },
+    backgrounds: [IDPhotoBackground.WHITE],
+    glassesAllowed: true,
+    smilingAllowed: false
+  },
+  {
+    id: 'jp-passport',
+    country: 'JP',
+    countryName: 'Japan',
+    documentType: IDDocumentType.PASSPORT,
+    name: 'Passport',
+    size: IDPhotoSize.SIZE_35x45,
+    headHeightMm: { min: 32, max: 36 },
+    eyeLineMm: { min: 24, max: 30 },
+    backgrounds: [IDPhotoBackground.WHITE, IDPhotoBackground.GRAY],
+    glassesAllowed: true,
+    smilingAllowed: false
+  },
+  {
+    id: 'kr-passport',
+    country: 'KR',
+    countryName: 'South Korea',
+    documentType: IDDocumentType.PASSPORT,
+    name: 'Passport',
+    size: IDPhotoSize.SIZE_35x45,
+    headHeightMm: { min: 32, max: 36 },
+    eyeLineMm: { min: 24, max: 30 },
+    backgrounds: [IDPhotoBackground.WHITE],
+    glassesAllowed: true,
+    smilingAllowed: false
+  }
+];
+
+// Generic rules for a custom size: head 70-80% of the height, eyes in the upper half
+const customSpec = (settings: IDPhotoSettings): IDPhotoSpec => {
+  const { height } = ID_PHOTO_DIMENSIONS_MM[settings.size];
+  return {
+    id: CUSTOM_SPEC_ID,
+    country: '',
+    countryName: 'Custom',
+    documentType: IDDocumentType.PROFILE,
+    name: `Custom ${settings.size}`,
+    size: settings.size,
+    headHeightMm: { min: height * 0.7, max: height * 0.8 },
+    eyeLineMm: { min: height * 0.55, max: height * 0.7 },
+    backgrounds: [settings.backgroundColor],
+    glassesAllowed: true,
+    smilingAllowed: true
+  };
+};
+
+export const findIDPhotoSpec = (id: string): IDPhotoSpec | undefined =>
+  ID_PHOTO_SPECS.find(spec => spec.id === id);
+
+// The spec the settings are held to; custom settings get generic rules
+export const getIDPhotoSpec = (settings: IDPhotoSettings): IDPhotoSpec =>
+  findIDPhotoSpec(settings.specId) ?? customSpec(settings);
+
+// Exact background colour the photo is corrected to
+export const getBackgroundHex = (settings: IDPhotoSettings): string =>
+  (settings.backgroundHex || ID_BACKGROUND_COLORS[settings.backgroundColor]).toUpperCase();
+
+// Flat colour the model is asked for when a backdrop image will replace the background;
+// a mid gray separates well from both hair and skin
+export const BACKDROP_KEY_HEX = '#BDBDBD';
+
+// Colour the model is asked to generate; the background post-pass then corrects it to the real target
+export const getGenerationBackgroundHex = (settings: IDPhotoSettings): string =>
+  settings.backgroundStyle === IDBackgroundStyle.IMAGE ? BACKDROP_KEY_HEX : getBackgroundHex(settings);
+
+const hexChannels = (hex: string) => {
+  const n = parseInt(hex.slice(1), 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+};
+
+// Named background a custom colour belongs to, which is what document rules allow or forbid
+export const nearestIDBackground = (hex: string): IDPhotoBackground => {
+  const [r, g, b] = hexChannels(hex);
+  let best = IDPhotoBackground.WHITE;
+  let bestDistance = Infinity;
+  for (const bg of Object.values(IDPhotoBackground)) {
+    const [br, bgreen, bb] = hexChannels(ID_BACKGROUND_COLORS[bg]);
+    const d = Math.hypot(r - br, g - bgreen, b - bb);
+    if (d < bestDistance) {
+      best = bg;
+      bestDistance = d;
+    }
+  }
+  return best;
+};
+
+// Switches to a catalog entry, taking its size and keeping the background if it is allowed.
+// Documents need a plain colour, so gradients and backdrops are turned off.
+export const applyIDPhotoSpec = (settings: IDPhotoSettings, specId: string): IDPhotoSettings => {
+  const spec = findIDPhotoSpec(specId);
+  if (!spec) return { ...settings, specId: CUSTOM_SPEC_ID };
+  const keepBackground = spec.backgrounds.includes(settings.backgroundColor);
+  return {
+    ...settings,
+    specId: spec.id,
+    size: spec.size,
+    backgroundColor: keepBackground ? settings.backgroundColor : spec.backgrounds[0],
+    backgroundHex: keepBackground ? settings.backgroundHex : '',
+    backgroundStyle: IDBackgroundStyle.SOLID,
+    backdropId: ''
+  };
+};
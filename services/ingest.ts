@@ -0,0 +1,217 @@
+import * as UTIF from "utif";
+import { AppErrorCode, AppTab, IngestInfo, MetadataPolicy, OperationSettings } from "../types";
+import { createCanvas, loadImage, canvasToBlob } from "../utils/canvas";
+import { readFileAsDataUrl, dataUrlToBytes } from "../utils/file";
+import { readJpegExif, getExifOrientation, resetExifOrientation, insertJpegExif, stripJpegMetadata } from "../utils/exif";
+import { buildPngChunk, insertPngChunks, stripPngMetadata } from "../utils/png";
+import { stripWebpMetadata } from "../utils/webp";
+import { AppError } from "./errors";
+import { compilePrompt, GEMINI_MODELS } from "./promptCompiler";
+
+const STORAGE_KEY = 'longrau.ingest';
+
+// Uploads are normalized to at most this long edge; larger scans only slow every step down
+export const INGEST_MAX_EDGE = 8192;
+const JPEG_QUALITY = 0.92;
+
+// Largest input worth sending to each model; it works at this resolution internally anyway
+export const MODEL_INPUT_LIMITS: Record<string, { longEdge: number; maxBytes: number }> = {
+  [GEMINI_MODELS.FLASH_IMAGE]: { longEdge: 2048, maxBytes: 7 * 1024 * 1024 },
+  [GEMINI_MODELS.PRO_IMAGE]: { longEdge: 4096, maxBytes: 7 * 1024 * 1024 }
+};
+export const UPLOAD_JPEG_QUALITY = 0.9;
+
+export type SourceFormat = 'jpeg' | 'png' | 'gif' | 'bmp' | 'webp' | 'tiff' | 'heic' | 'avif';
+
+// Formats that can be stored as-is when nothing needs to change, and how to strip their
+// metadata without re-encoding
+const PASSTHROUGH_FORMATS: Partial<Record<SourceFormat, (bytes: Uint8Array) => Uint8Array>> = {
+  jpeg: stripJpegMetadata,
+  png: stripPngMetadata,
+  webp: stripWebpMetadata
+};
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+// Identifies the format from the file signature; browsers often report HEIC and TIFF with an empty type
+export const sniffFormat = (bytes: Uint8Array): SourceFormat | null => {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return 'jpeg';
+  if (bytes[0] === 0x89 && ascii(bytes, 1, 3) === 'PNG') return 'png';
+  if (ascii(bytes, 0, 4) === 'GIF8') return 'gif';
+  if (ascii(bytes, 0, 2) === 'BM') return 'bmp';
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') return 'webp';
+  if (ascii(bytes, 0, 4) === 'II*\0' || ascii(bytes, 0, 4) === 'MM\0*') return 'tiff';
+  if (ascii(bytes, 4, 4) === 'ftyp') {
+    const brand = ascii(bytes, 8, 4);
+    if (brand === 'avif' || brand === 'avis') return 'avif';
+    if (['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx', 'mif1', 'msf1'].includes(brand)) return 'heic';
+  }
+  return null;
+};
+
+export const loadMetadataPolicy = (): MetadataPolicy => {
+  if (typeof localStorage === 'undefined') return MetadataPolicy.STRIP;
+  return localStorage.getItem(STORAGE_KEY) === MetadataPolicy.KEEP ? MetadataPolicy.KEEP : MetadataPolicy.STRIP;
+};
+
+export const saveMetadataPolicy = (policy: MetadataPolicy) => {
+  if (typeof localStorage === 'undefined') return;
+  localStorage.setItem(STORAGE_KEY, policy);
+};
+
+type Drawable = ImageBitmap | HTMLImageElement | HTMLCanvasElement;
+
+const sizeOf = (source: Drawable) =>
+  source instanceof HTMLImageElement
+    ? { width: source.naturalWidth, height: source.naturalHeight }
+    : { width: source.width, height: source.height };
+
+const decodeTiff = (bytes: Uint8Array): HTMLCanvasElement => {
+  const buffer = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+  const [ifd] = UTIF.decode(buffer);
+  if (!ifd) throw new Error("TIFF file has no image.");
+  UTIF.decodeImage(buffer, ifd);
+  const width = ifd.width as number;
+  const height = ifd.height as number;
+  const { canvas, ctx } = createCanvas(width, height);
+  const image = ctx.createImageData(width, height);
+  image.data.set(UTIF.toRGBA8(ifd));
+  ctx.putImageData(image, 0, 0);
+  return canvas;
+};
+
+// Safari decodes HEIC natively; elsewhere the heic2any decoder is loaded on first use
+const decodeHeic = async (file: Blob): Promise<Drawable> => {
+  try {
+    return await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    const { default: heic2any } = await import("heic2any");
+    const converted = await heic2any({ blob: file, toType: 'image/png' });
+    return createImageBitmap(Array.isArray(converted) ? converted[0] : converted);
+  }
+};
+
+// Decodes the first frame upright. createImageBitmap applies EXIF orientation itself.
+const decode = async (file: Blob, bytes: Uint8Array, format: SourceFormat): Promise<Drawable> => {
+  switch (format) {
+    case 'tiff': return decodeTiff(bytes);
+    case 'heic': return decodeHeic(file);
+    default: return createImageBitmap(file, { imageOrientation: 'from-image' });
+  }
+};
+
+// Carries the original EXIF block over, marked upright since the pixels are rotated already
+const attachExif = (dataUrl: string, tiff: Uint8Array): string => {
+  const bytes = dataUrlToBytes(dataUrl);
+  const upright = resetExifOrientation(tiff);
+  const isPng = dataUrl.startsWith('data:image/png');
+  const out = isPng
+    ? insertPngChunks(bytes, [buildPngChunk('eXIf', upright)])
+    : insertJpegExif(bytes, upright);
+  let binary = '';
+  for (let i = 0; i < out.length; i += 0x8000) {
+    binary += String.fromCharCode(...out.subarray(i, i + 0x8000));
+  }
+  return `data:${isPng ? 'image/png' : 'image/jpeg'};base64,${btoa(binary)}`;
+};
+
+// Reads an uploaded file into an upright data URL the rest of the app can use:
+// applies EXIF orientation, decodes HEIC/TIFF/BMP/GIF (first frame), caps the size
+// and keeps or strips camera metadata by policy
+export const ingestFile = async (
+  file: File,
+  policy: MetadataPolicy
+): Promise<{ dataUrl: string; info: IngestInfo }> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const format = sniffFormat(bytes);
+  if (!format) {
+    throw new AppError(AppErrorCode.UNSUPPORTED_IMAGE, `${file.name} is not a supported image (JPEG, PNG, WebP, HEIC, AVIF, TIFF, BMP or GIF).`, { name: file.name });
+  }
+
+  const exif = format === 'jpeg' ? readJpegExif(bytes) : null;
+  const orientation = exif ? getExifOrientation(exif) : 1;
+  const keepMetadata = policy === MetadataPolicy.KEEP && !!exif;
+
+  let source: Drawable;
+  try {
+    source = await decode(file, bytes, format);
+  } catch (err: any) {
+    throw new AppError(AppErrorCode.IMAGE_NOT_DECODABLE, `Could not decode ${file.name}: ${err?.message || err}`, { name: file.name });
+  }
+  const { width: originalWidth, height: originalHeight } = sizeOf(source);
+  const scale = Math.min(1, INGEST_MAX_EDGE / Math.max(originalWidth, originalHeight));
+  const width = Math.round(originalWidth * scale);
+  const height = Math.round(originalHeight * scale);
+  const info: IngestInfo = {
+    fileName: file.name,
+    sourceFormat: format,
+    originalWidth,
+    originalHeight,
+    width,
+    height,
+    orientation,
+    metadataKept: keepMetadata,
+    bytes: file.size
+  };
+
+  // Nothing to change: keep the original bytes, less their metadata unless it is kept
+  const stripMetadata = PASSTHROUGH_FORMATS[format];
+  if (stripMetadata && orientation === 1 && scale === 1) {
+    const kept = policy === MetadataPolicy.KEEP ? file : new Blob([stripMetadata(bytes)], { type: `image/${format}` });
+    return { dataUrl: await readFileAsDataUrl(kept), info };
+  }
+
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, 0, 0, width, height);
+  if ('close' in source) source.close();
+
+  // Lossless and possibly transparent sources stay PNG; photos become JPEG
+  const lossless = format === 'png' || format === 'gif' || format === 'bmp' || format === 'tiff';
+  const dataUrl = lossless
+    ? canvas.toDataURL('image/png')
+    : canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+  return { dataUrl: keepMetadata && exif ? attachExif(dataUrl, exif) : dataUrl, info };
+};
+
+// Size the image is sent to the model at for this operation. Tiled upscales cut
+// their own tiles from the full image, so they are never downscaled.
+export const getUploadSize = (width: number, height: number, operation: OperationSettings) => {
+  if (operation.tab === AppTab.ENHANCE && operation.settings.tiledUpscale) return { width, height };
+  const limit = MODEL_INPUT_LIMITS[compilePrompt(operation).model];
+  const scale = limit ? Math.min(1, limit.longEdge / Math.max(width, height)) : 1;
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+const dataUrlBytes = (dataUrl: string) => Math.floor((dataUrl.length - dataUrl.indexOf(',') - 1) * 3 / 4);
+
+// Downscales the image (and mask) to what the model can use and re-encodes it as JPEG
+// when it would otherwise be larger than the request limit. Returns the inputs unchanged
+// when they already fit.
+export const prepareUpload = async (
+  imageUrl: string,
+  operation: OperationSettings,
+  mask?: string
+): Promise<{ image: string; mask?: string }> => {
+  const limit = MODEL_INPUT_LIMITS[compilePrompt(operation).model];
+  const img = await loadImage(imageUrl);
+  const target = getUploadSize(img.naturalWidth, img.naturalHeight, operation);
+  const resized = target.width !== img.naturalWidth || target.height !== img.naturalHeight;
+  if (!resized && (!limit || dataUrlBytes(imageUrl) <= limit.maxBytes)) {
+    return { image: imageUrl, mask };
+  }
+
+  const { canvas, ctx } = createCanvas(target.width, target.height);
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, 0, 0, target.width, target.height);
+  const image = await readFileAsDataUrl(await canvasToBlob(canvas, 'image/jpeg', UPLOAD_JPEG_QUALITY));
+
+  if (!mask || !resized) return { image, mask };
+  const maskImg = await loadImage(mask);
+  const scaledMask = createCanvas(target.width, target.height);
+  scaledMask.ctx.drawImage(maskImg, 0, 0, target.width, target.height);
+  return { image, mask: scaledMask.canvas.toDataURL('image/png') };
+};
@@ -0,0 +1,141 @@
+import { createCanvas, loadImage } from "../utils/canvas";
+import { crc32 } from "../utils/crc32";
+
+// Job ID and export time hidden in the pixels of an export. Each 8x8 block carries one bit
+// in its mean brightness, moved onto an even or odd step of a coarse lattice (quantization
+// index modulation). The payload repeats over the whole image and is read back by majority,
+// so it survives JPEG and WebP saves at ordinary quality. Blocks move by only STEP / 2 levels,
+// though, and heavy compression (the low qualities a target size can force) wipes it out;
+// exportImage reads lossy files back to check. Resizing, cropping or a screenshot remove it.
+
+export interface InvisibleMark {
+  jobId: string;
+  time: number; // Export time, ms; stored to the second
+}
+
+const BLOCK = 8;
+const STEP = 6; // Lattice spacing; a block's brightness moves by at most STEP / 2 levels
+const HALF_STEP = STEP / 2;
+
+const MAGIC = [0x4c, 0x52]; // "LR"
+const VERSION = 1;
+const ID_BYTES = 20;
+// Magic, version, time in seconds, ID length, ID, CRC-32 of everything before it
+const PAYLOAD_BYTES = 2 + 1 + 4 + 1 + ID_BYTES + 4;
+const PAYLOAD_BITS = PAYLOAD_BYTES * 8;
+// Fewer copies than this are too easily outvoted by damaged blocks
+const MIN_COPIES = 3;
+
+const encodePayload = (mark: InvisibleMark): Uint8Array => {
+  const bytes = new Uint8Array(PAYLOAD_BYTES);
+  const view = new DataView(bytes.buffer);
+  const id = new TextEncoder().encode(mark.jobId).slice(0, ID_BYTES);
+  bytes.set(MAGIC, 0);
+  bytes[2] = VERSION;
+  view.setUint32(3, Math.floor(mark.time / 1000));
+  bytes[7] = id.length;
+  bytes.set(id, 8);
+  view.setUint32(PAYLOAD_BYTES - 4, crc32(bytes.subarray(0, PAYLOAD_BYTES - 4)));
+  return bytes;
+};
+
+const decodePayload = (bytes: Uint8Array): InvisibleMark | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.length);
+  if (bytes[0] !== MAGIC[0] || bytes[1] !== MAGIC[1] || bytes[2] !== VERSION) return null;
+  if (view.getUint32(PAYLOAD_BYTES - 4) !== crc32(bytes.subarray(0, PAYLOAD_BYTES - 4))) return null;
+  const length = Math.min(bytes[7], ID_BYTES);
+  return {
+    jobId: new TextDecoder().decode(bytes.subarray(8, 8 + length)),
+    time: view.getUint32(3) * 1000
+  };
+};
+
+// Pseudo-random bit per block, XORed onto the payload so neighbouring blocks do not
+// move together and the pattern does not repeat visibly
+const whitening = (index: number): number => {
+  let x = Math.imul(index ^ 0x5bd1e995, 0x9e3779b1);
+  x ^= x >>> 15;
+  x = Math.imul(x, 0x85ebca6b);
+  return (x >>> 13) & 1;
+};
+
+const blockCount = (width: number, height: number) => Math.floor(width / BLOCK) * Math.floor(height / BLOCK);
+
+// Whether an image of this size has room for enough copies of the payload
+export const canHoldInvisibleMark = (width: number, height: number): boolean =>
+  blockCount(width, height) >= PAYLOAD_BITS * MIN_COPIES;
+
+// Calls `visit` with the index, top-left offset and mean brightness of every whole block
+const forEachBlock = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  visit: (index: number, x: number, y: number, mean: number) => void
+) => {
+  const columns = Math.floor(width / BLOCK);
+  const rows = Math.floor(height / BLOCK);
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const x = column * BLOCK;
+      const y = row * BLOCK;
+      let sum = 0;
+      for (let dy = 0; dy < BLOCK; dy++) {
+        let i = ((y + dy) * width + x) * 4;
+        for (let dx = 0; dx < BLOCK; dx++, i += 4) sum += data[i] + data[i + 1] + data[i + 2];
+      }
+      visit(row * columns + column, x, y, sum / (BLOCK * BLOCK * 3));
+    }
+  }
+};
+
+// Writes the mark into the canvas; false when the image is too small to hold it
+export const embedInvisibleMark = (surface: ReturnType<typeof createCanvas>, mark: InvisibleMark): boolean => {
+  const { canvas, ctx } = surface;
+  if (!canHoldInvisibleMark(canvas.width, canvas.height)) return false;
+  const payload = encodePayload(mark);
+  const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const { data, width } = image;
+
+  forEachBlock(data, width, canvas.height, (index, x, y, mean) => {
+    const position = index % PAYLOAD_BITS;
+    const bit = ((payload[position >> 3] >> (7 - (position & 7))) & 1) ^ whitening(index);
+    // Nearest lattice point of the right parity that stays inside the value range
+    let k = Math.round(mean / HALF_STEP);
+    if ((k & 1) !== bit) k += mean / HALF_STEP > k ? 1 : -1;
+    if (k * HALF_STEP > 255) k -= 2;
+    if (k < 0) k += 2;
+    const delta = k * HALF_STEP - mean;
+    for (let dy = 0; dy < BLOCK; dy++) {
+      let i = ((y + dy) * width + x) * 4;
+      for (let dx = 0; dx < BLOCK; dx++, i += 4) {
+        data[i] += delta;
+        data[i + 1] += delta;
+        data[i + 2] += delta;
+      }
+    }
+  });
+
+  ctx.putImageData(image, 0, 0);
+  return true;
+};
+
+// Reads the mark of an exported image; null when there is none or it is too damaged
+export const readInvisibleMark = async (imageUrl: string): Promise<InvisibleMark | null> => {
+  const img = await loadImage(imageUrl);
+  if (!canHoldInvisibleMark(img.naturalWidth, img.naturalHeight)) return null;
+  const { ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+  ctx.drawImage(img, 0, 0);
+  const { data } = ctx.getImageData(0, 0, img.naturalWidth, img.naturalHeight);
+
+  const votes = new Int32Array(PAYLOAD_BITS);
+  forEachBlock(data, img.naturalWidth, img.naturalHeight, (index, _x, _y, mean) => {
+    const bit = (Math.round(mean / HALF_STEP) & 1) ^ whitening(index);
+    votes[index % PAYLOAD_BITS] += bit ? 1 : -1;
+  });
+
+  const payload = new Uint8Array(PAYLOAD_BYTES);
+  votes.forEach((vote, position) => {
+    if (vote > 0) payload[position >> 3] |= 1 << (7 - (position & 7));
+  });
+  return decodePayload(payload);
+};
@@ -0,0 +1,89 @@
+import { loadImage, createCanvas } from "../utils/canvas";
+
+// Edge softening inside the painted area, in pixels of the original image
+const DEFAULT_FEATHER_PX = 4;
+
+const readMaskAlpha = (ctx: CanvasRenderingContext2D, width: number, height: number): Uint8ClampedArray => {
+  const data = ctx.getImageData(0, 0, width, height).data;
+  const alpha = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < alpha.length; i++) {
+    // Luminance of the black/white mask
+    alpha[i] = Math.round(data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114);
+  }
+  return alpha;
+};
+
+// Separable box blur, used to feather the mask edge
+const boxBlur = (src: Uint8ClampedArray, width: number, height: number, radius: number): Uint8ClampedArray => {
+  if (radius < 1) return src;
+  const tmp = new Float32Array(src.length);
+  const out = new Uint8ClampedArray(src.length);
+  const size = radius * 2 + 1;
+  for (let y = 0; y < height; y++) {
+    let sum = 0;
+    for (let x = -radius; x <= radius; x++) sum += src[y * width + Math.min(width - 1, Math.max(0, x))];
+    for (let x = 0; x < width; x++) {
+      tmp[y * width + x] = sum / size;
+      const add = Math.min(width - 1, x + radius + 1);
+      const remove = Math.max(0, x - radius);
+      sum += src[y * width + add] - src[y * width + remove];
+    }
+  }
+  for (let x = 0; x < width; x++) {
+    let sum = 0;
+    for (let y = -radius; y <= radius; y++) sum += tmp[Math.min(height - 1, Math.max(0, y)) * width + x];
+    for (let y = 0; y < height; y++) {
+      out[y * width + x] = sum / size;
+      const add = Math.min(height - 1, y + radius + 1);
+      const remove = Math.max(0, y - radius);
+      sum += tmp[add * width + x] - tmp[remove * width + x];
+    }
+  }
+  return out;
+};
+
+// Blends the AI result into the original only where the mask is white.
+// The output keeps the original's dimensions, and every pixel outside the mask
+// is copied from the original unchanged. The feather only softens inward, never outward.
+export const compositeWithMask = async (
+  originalUrl: string,
+  resultUrl: string,
+  maskUrl: string,
+  featherPx = DEFAULT_FEATHER_PX
+): Promise<string> => {
+  const [original, result, mask] = await Promise.all([
+    loadImage(originalUrl),
+    loadImage(resultUrl),
+    loadImage(maskUrl)
+  ]);
+  const width = original.naturalWidth;
+  const height = original.naturalHeight;
+
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.drawImage(original, 0, 0);
+  const base = ctx.getImageData(0, 0, width, height);
+
+  const { ctx: resultCtx } = createCanvas(width, height);
+  resultCtx.imageSmoothingQuality = 'high';
+  resultCtx.drawImage(result, 0, 0, width, height);
+  const edited = resultCtx.getImageData(0, 0, width, height).data;
+
+  const { ctx: maskCtx } = createCanvas(width, height);
+  maskCtx.drawImage(mask, 0, 0, width, height);
+  const hard = readMaskAlpha(maskCtx, width, height);
+  const soft = boxBlur(hard, width, height, featherPx);
+
+  const out = base.data;
+  for (let i = 0; i < hard.length; i++) {
+    const a = Math.min(hard[i], soft[i]);
+    if (a === 0) continue;
+    const p = i * 4;
+    const t = a / 255;
+    out[p] = Math.round(out[p] + (edited[p] - out[p]) * t);
+    out[p + 1] = Math.round(out[p + 1] + (edited[p + 1] - out[p + 1]) * t);
+    out[p + 2] = Math.round(out[p + 2] + (edited[p + 2] - out[p + 2]) * t);
+  }
+  ctx.putImageData(base, 0, 0);
+  // PNG keeps the untouched pixels lossless
+  return canvas.toDataURL('image/png');
+};
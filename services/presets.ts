@@ -0,0 +1,253 @@
+import {
+  AppErrorCode,
+  AppTab,
+  EditorSettings,
+  EnhancementMode,
+  EnhancementQuality,
+  IDPhotoBackground,
+  IDBackgroundStyle,
+  IDPhotoSettings,
+  IDPhotoSize,
+  OperationSettings,
+  RestorationSettings,
+  SettingsPreset
+} from "../types";
+import { AppError } from "./errors";
+import { validateOperation } from "./settingsValidation";
+
+const PRESETS_STORAGE_KEY = 'longrau.presets';
+const PRESETS_FILE_FORMAT = 'longrau-presets';
+const PRESETS_FILE_VERSION = 1;
+
+export const DEFAULT_ENHANCE_SETTINGS: EditorSettings = {
+  quality: EnhancementQuality.Q_4K,
+  mode: EnhancementMode.ENHANCE_RESTORE,
+  retouchLevel: 50,
+  sharpenLevel: 30,
+  upscaleLevel: 25,
+  hyperRealism: true,
+  colorize: true,
+  makeup: false,
+  tiledUpscale: false,
+};
+
+export const DEFAULT_ID_SETTINGS: IDPhotoSettings = {
+  specId: 'vn-profile-3x4',
+  size: IDPhotoSize.SIZE_3x4,
+  backgroundColor: IDPhotoBackground.WHITE,
+  backgroundHex: '',
+  backgroundStyle: IDBackgroundStyle.SOLID,
+  backdropId: '',
+  quality: EnhancementQuality.Q_4K,
+  skinSmoothing: 60,
+  removeBlemishes: true,
+  fixLighting: true,
+};
+
+export const DEFAULT_RESTORE_SETTINGS: RestorationSettings = {
+  scratchReduction: 80,
+  denoiseLevel: 50,
+  colorRestoration: true,
+  faceRestoration: true,
+  sharpenArtifacts: true,
+  quality: EnhancementQuality.Q_4K
+};
+
+// Factory settings of each tab, used when no default preset is chosen
+export const FACTORY_SETTINGS = {
+  [AppTab.ENHANCE]: DEFAULT_ENHANCE_SETTINGS,
+  [AppTab.ID_PHOTO]: DEFAULT_ID_SETTINGS,
+  [AppTab.RESTORE]: DEFAULT_RESTORE_SETTINGS
+};
+
+const builtIn = (id: string, name: string, operation: OperationSettings): SettingsPreset => ({
+  id: `builtin:${id}`,
+  name,
+  builtIn: true,
+  updatedAt: 0,
+  operation
+});
+
+export const BUILT_IN_PRESETS: SettingsPreset[] = [
+  builtIn('portrait-natural', 'Natural portrait', {
+    tab: AppTab.ENHANCE,
+    settings: { ...DEFAULT_ENHANCE_SETTINGS, retouchLevel: 30, sharpenLevel: 20 }
+  }),
+  builtIn('upscale-print', 'Upscale only – large prints', {
+    tab: AppTab.ENHANCE,
+    settings: { ...DEFAULT_ENHANCE_SETTINGS, mode: EnhancementMode.UPSCALE_ONLY, quality: EnhancementQuality.Q_8K, retouchLevel: 0, upscaleLevel: 80, tiledUpscale: true }
+  }),
+  builtIn('vn-passport', 'Vietnam passport – white, smoothing 40', {
+    tab: AppTab.ID_PHOTO,
+    settings: { ...DEFAULT_ID_SETTINGS, specId: 'vn-passport', size: IDPhotoSize.SIZE_4x6, backgroundColor: IDPhotoBackground.WHITE, skinSmoothing: 40 }
+  }),
+  builtIn('vn-profile-blue', 'Application form 3x4 – blue', {
+    tab: AppTab.ID_PHOTO,
+    settings: { ...DEFAULT_ID_SETTINGS, specId: 'vn-profile-3x4', size: IDPhotoSize.SIZE_3x4, backgroundColor: IDPhotoBackground.BLUE, skinSmoothing: 40 }
+  }),
+  builtIn('us-visa', 'US visa 5x5 – white', {
+    tab: AppTab.ID_PHOTO,
+    settings: { ...DEFAULT_ID_SETTINGS, specId: 'us-visa', size: IDPhotoSize.SIZE_5x5, backgroundColor: IDPhotoBackground.WHITE, skinSmoothing: 30 }
+  }),
+  builtIn('wedding-album', 'Wedding album restore', {
+    tab: AppTab.RESTORE,
+    settings: { ...DEFAULT_RESTORE_SETTINGS, scratchReduction: 90, denoiseLevel: 40, colorRestoration: false }
+  }),
+  builtIn('bw-keep', 'Black and white – keep original tones', {
+    tab: AppTab.RESTORE,
+    settings: { ...DEFAULT_RESTORE_SETTINGS, colorRestoration: false, denoiseLevel: 60 }
+  })
+];
+
+// User presets plus the preset each tab starts with
+export interface PresetStore {
+  presets: SettingsPreset[];
+  defaults: Partial<Record<AppTab, string>>;
+}
+
+const EMPTY_STORE: PresetStore = { presets: [], defaults: {} };
+
+const newPresetId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Re-validates stored presets so a settings shape change never loads a broken preset
+const sanitizePresets = (items: unknown): SettingsPreset[] => {
+  if (!Array.isArray(items)) return [];
+  return items.flatMap((item: any) => {
+    const { value } = validateOperation(item?.operation, FACTORY_SETTINGS);
+    if (!value || typeof item.name !== 'string' || !item.name.trim()) return [];
+    return [{
+      id: typeof item.id === 'string' ? item.id : newPresetId(),
+      name: item.name.trim(),
+      builtIn: false,
+      updatedAt: typeof item.updatedAt === 'number' ? item.updatedAt : Date.now(),
+      operation: value
+    }];
+  });
+};
+
+export const loadPresetStore = (): PresetStore => {
+  if (typeof localStorage === 'undefined') return EMPTY_STORE;
+  try {
+    const stored = JSON.parse(localStorage.getItem(PRESETS_STORAGE_KEY) || 'null');
+    if (stored) {
+      return {
+        presets: sanitizePresets(stored.presets),
+        defaults: stored.defaults && typeof stored.defaults === 'object' ? stored.defaults : {}
+      };
+    }
+  } catch {
+    // Fall through to an empty store
+  }
+  return EMPTY_STORE;
+};
+
+export const savePresetStore = (store: PresetStore) => {
+  if (typeof localStorage === 'undefined') return;
+  localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(store));
+};
+
+// Built-in presets first, then the user's in name order
+export const listPresets = (store: PresetStore, tab: AppTab): SettingsPreset[] => [
+  ...BUILT_IN_PRESETS.filter(p => p.operation.tab === tab),
+  ...store.presets
+    .filter(p => p.operation.tab === tab)
+    .sort((a, b) => a.name.localeCompare(b.name))
+];
+
+export const findPreset = (store: PresetStore, id: string): SettingsPreset | undefined =>
+  BUILT_IN_PRESETS.find(p => p.id === id) ?? store.presets.find(p => p.id === id);
+
+// Settings a tab starts with: its default preset if one is set, otherwise the factory settings
+export const getStartupSettings = <T extends AppTab>(
+  store: PresetStore,
+  tab: T
+): (typeof FACTORY_SETTINGS)[T] => {
+  const id = store.defaults[tab];
+  const preset = id ? findPreset(store, id) : undefined;
+  return (preset && preset.operation.tab === tab ? preset.operation.settings : FACTORY_SETTINGS[tab]) as (typeof FACTORY_SETTINGS)[T];
+};
+
+export const createPreset = (
+  store: PresetStore,
+  name: string,
+  operation: OperationSettings
+): { store: PresetStore; preset: SettingsPreset } => {
+  const preset: SettingsPreset = {
+    id: newPresetId(),
+    name: name.trim(),
+    builtIn: false,
+    updatedAt: Date.now(),
+    operation
+  };
+  return { store: { ...store, presets: [...store.presets, preset] }, preset };
+};
+
+// Built-in presets cannot be changed; the patch is ignored for them
+export const updatePreset = (
+  store: PresetStore,
+  id: string,
+  patch: Partial<Pick<SettingsPreset, 'name' | 'operation'>>
+): PresetStore => ({
+  ...store,
+  presets: store.presets.map(p => p.id === id ? { ...p, ...patch, updatedAt: Date.now() } : p)
+});
+
+export const deletePreset = (store: PresetStore, id: string): PresetStore => ({
+  presets: store.presets.filter(p => p.id !== id),
+  defaults: Object.fromEntries(Object.entries(store.defaults).filter(([, presetId]) => presetId !== id))
+});
+
+export const setDefaultPreset = (store: PresetStore, tab: AppTab, id: string | null): PresetStore => {
+  const defaults = { ...store.defaults };
+  if (id) defaults[tab] = id;
+  else delete defaults[tab];
+  return { ...store, defaults };
+};
+
+export const exportPresets = (presets: SettingsPreset[]): Blob => {
+  const file = {
+    format: PRESETS_FILE_FORMAT,
+    version: PRESETS_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    presets: presets.map(({ name, operation }) => ({ name, operation }))
+  };
+  return new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+};
+
+// Adds the presets of an exported file as new user presets. Fields missing from older
+// files take factory values; entries that fail validation are skipped and reported.
+export const importPresets = (
+  store: PresetStore,
+  text: string
+): { store: PresetStore; imported: SettingsPreset[]; errors: string[] } => {
+  let file: any;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new AppError(AppErrorCode.PRESET_FILE_NOT_JSON, "The file is not valid JSON.");
+  }
+  if (file?.format !== PRESETS_FILE_FORMAT || !Array.isArray(file.presets)) {
+    throw new AppError(AppErrorCode.NOT_A_PRESET_FILE, "The file is not a preset export.");
+  }
+  if (typeof file.version !== 'number' || file.version > PRESETS_FILE_VERSION) {
+    throw new AppError(AppErrorCode.PRESET_FILE_TOO_NEW, "The preset file was made by a newer version of the app.");
+  }
+
+  const imported: SettingsPreset[] = [];
+  const errors: string[] = [];
+  file.presets.forEach((item: any, index: number) => {
+    const label = typeof item?.name === 'string' && item.name.trim() ? `"${item.name.trim()}"` : `#${index + 1}`;
+    if (!item?.name || typeof item.name !== 'string' || !item.name.trim()) {
+      errors.push(`${label}: name is required`);
+      return;
+    }
+    const { value, errors: fieldErrors } = validateOperation(item.operation, FACTORY_SETTINGS);
+    if (!value) {
+      errors.push(`${label}: ${fieldErrors.join('; ')}`);
+      return;
+    }
+    imported.push({ id: newPresetId(), name: item.name.trim(), builtIn: false, updatedAt: Date.now(), operation: value });
+  });
+
+  return { store: { ...store, presets: [...store.presets, ...imported] }, imported, errors };
+};
@@ -0,0 +1,181 @@
+import { AppErrorCode, IDPhotoSize, PaperSize, PrintDPI, PrintExportFormat, PrintLayoutSettings } from "../types";
+import { loadImage, createCanvas, canvasToBlob } from "../utils/canvas";
+import { setPngDpi } from "../utils/png";
+import { buildSingleImagePdf } from "../utils/pdf";
+import { AppError } from "./errors";
+
+interface Dimensions {
+  width: number;
+  height: number;
+}
+
+// Physical print sizes in millimetres
+export const ID_PHOTO_DIMENSIONS_MM: Record<IDPhotoSize, Dimensions> = {
+  [IDPhotoSize.SIZE_2x3]: { width: 20, height: 30 },
+  [IDPhotoSize.SIZE_3x4]: { width: 30, height: 40 },
+  [IDPhotoSize.SIZE_4x6]: { width: 40, height: 60 },
+  [IDPhotoSize.SIZE_35x45]: { width: 35, height: 45 },
+  [IDPhotoSize.SIZE_33x48]: { width: 33, height: 48 },
+  [IDPhotoSize.SIZE_5x5]: { width: 50, height: 50 }
+};
+
+export const PAPER_DIMENSIONS_MM: Record<PaperSize, Dimensions> = {
+  [PaperSize.IN_4x6]: { width: 101.6, height: 152.4 },
+  [PaperSize.CM_10x15]: { width: 100, height: 150 },
+  [PaperSize.A4]: { width: 210, height: 297 }
+};
+
+const SHEET_MARGIN_MM = 4;
+const PHOTO_GAP_MM = 2;
+
+const MM_PER_INCH = 25.4;
+const POINTS_PER_INCH = 72;
+
+export const mmToPx = (mm: number, dpi: number): number => Math.round((mm / MM_PER_INCH) * dpi);
+
+export interface SheetGrid {
+  columns: number;
+  rows: number;
+  landscape: boolean;
+}
+
+const fitCount = (available: number, item: number) =>
+  Math.max(0, Math.floor((available + PHOTO_GAP_MM) / (item + PHOTO_GAP_MM)));
+
+// Picks the paper orientation that fits the most copies
+export const computeSheetGrid = (photo: Dimensions, paper: Dimensions): SheetGrid => {
+  const grid = (pw: number, ph: number) => ({
+    columns: fitCount(pw - SHEET_MARGIN_MM * 2, photo.width),
+    rows: fitCount(ph - SHEET_MARGIN_MM * 2, photo.height)
+  });
+  const portrait = grid(paper.width, paper.height);
+  const landscape = grid(paper.height, paper.width);
+  return landscape.columns * landscape.rows > portrait.columns * portrait.rows
+    ? { ...landscape, landscape: true }
+    : { ...portrait, landscape: false };
+};
+
+export const getSheetCapacity = (size: IDPhotoSize, paper: PaperSize): number => {
+  const grid = computeSheetGrid(ID_PHOTO_DIMENSIONS_MM[size], PAPER_DIMENSIONS_MM[paper]);
+  return grid.columns * grid.rows;
+};
+
+// Center-crops (cover) and resamples the image to the exact physical size at the given DPI
+export const renderIDPhotoAtSize = async (
+  imageUrl: string,
+  size: IDPhotoSize,
+  dpi: PrintDPI
+): Promise<HTMLCanvasElement> => {
+  const img = await loadImage(imageUrl);
+  const target = ID_PHOTO_DIMENSIONS_MM[size];
+  const { canvas, ctx } = createCanvas(mmToPx(target.width, dpi), mmToPx(target.height, dpi));
+
+  const scale = Math.max(canvas.width / img.naturalWidth, canvas.height / img.naturalHeight);
+  const srcW = canvas.width / scale;
+  const srcH = canvas.height / scale;
+  const srcX = (img.naturalWidth - srcW) / 2;
+  const srcY = (img.naturalHeight - srcH) / 2;
+
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, srcX, srcY, srcW, srcH, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+const drawCutGuides = (
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  dpi: number
+) => {
+  const lineWidth = Math.max(1, Math.round(dpi / 300));
+  // Offset plus mark stay within half the gap, so they never reach the neighbouring photo or its marks
+  const reach = Math.max(2, Math.floor(mmToPx(PHOTO_GAP_MM, dpi) / 2) - lineWidth);
+  const gap = Math.max(1, Math.round(reach / 4));
+  const mark = reach - gap;
+  ctx.strokeStyle = '#000000';
+  ctx.lineWidth = lineWidth;
+
+  // Corner crop marks sit outside the photo so they are trimmed away
+  const corners: [number, number, number, number][] = [
+    [x, y, -1, -1], [x + w, y, 1, -1], [x, y + h, -1, 1], [x + w, y + h, 1, 1]
+  ];
+  ctx.beginPath();
+  for (const [cx, cy, dx, dy] of corners) {
+    ctx.moveTo(cx + dx * gap, cy);
+    ctx.lineTo(cx + dx * (gap + mark), cy);
+    ctx.moveTo(cx, cy + dy * gap);
+    ctx.lineTo(cx, cy + dy * (gap + mark));
+  }
+  ctx.stroke();
+};
+
+export interface PrintSheetResult {
+  blob: Blob;
+  copies: number;
+  widthPx: number;
+  heightPx: number;
+}
+
+export const buildPrintSheet = async (
+  imageUrl: string,
+  size: IDPhotoSize,
+  settings: PrintLayoutSettings
+): Promise<PrintSheetResult> => {
+  const photoMm = ID_PHOTO_DIMENSIONS_MM[size];
+  const paperMm = PAPER_DIMENSIONS_MM[settings.paper];
+  const grid = computeSheetGrid(photoMm, paperMm);
+  const capacity = grid.columns * grid.rows;
+  if (capacity === 0) {
+    throw new AppError(AppErrorCode.PHOTO_DOES_NOT_FIT, `${size} does not fit on ${settings.paper} paper.`, { size, paper: settings.paper });
+  }
+  const copies = settings.copies > 0 ? Math.min(settings.copies, capacity) : capacity;
+
+  const sheetMm = grid.landscape
+    ? { width: paperMm.height, height: paperMm.width }
+    : paperMm;
+  const dpi = settings.dpi;
+  const photo = await renderIDPhotoAtSize(imageUrl, size, dpi);
+  const { canvas, ctx } = createCanvas(mmToPx(sheetMm.width, dpi), mmToPx(sheetMm.height, dpi));
+
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  // Center the used grid on the sheet
+  const usedRows = Math.ceil(copies / grid.columns);
+  const usedCols = Math.min(copies, grid.columns);
+  const gridWmm = usedCols * photoMm.width + (usedCols - 1) * PHOTO_GAP_MM;
+  const gridHmm = usedRows * photoMm.height + (usedRows - 1) * PHOTO_GAP_MM;
+  const originX = (sheetMm.width - gridWmm) / 2;
+  const originY = (sheetMm.height - gridHmm) / 2;
+
+  for (let i = 0; i < copies; i++) {
+    const col = i % grid.columns;
+    const row = Math.floor(i / grid.columns);
+    const x = mmToPx(originX + col * (photoMm.width + PHOTO_GAP_MM), dpi);
+    const y = mmToPx(originY + row * (photoMm.height + PHOTO_GAP_MM), dpi);
+    ctx.drawImage(photo, x, y);
+    if (settings.cutGuides) {
+      drawCutGuides(ctx, x, y, photo.width, photo.height, dpi);
+    }
+  }
+
+  let blob: Blob;
+  if (settings.format === PrintExportFormat.PDF) {
+    const jpeg = new Uint8Array(await (await canvasToBlob(canvas, 'image/jpeg', 0.95)).arrayBuffer());
+    blob = buildSingleImagePdf(
+      jpeg,
+      canvas.width,
+      canvas.height,
+      (sheetMm.width / MM_PER_INCH) * POINTS_PER_INCH,
+      (sheetMm.height / MM_PER_INCH) * POINTS_PER_INCH
+    );
+  } else {
+    const png = new Uint8Array(await (await canvasToBlob(canvas, 'image/png')).arrayBuffer());
+    blob = new Blob([setPngDpi(png, dpi)], { type: 'image/png' });
+  }
+
+  return { blob, copies, widthPx: canvas.width, heightPx: canvas.height };
+};
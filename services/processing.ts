@@ -0,0 +1,52 @@
+import { AppTab, OperationSettings } from "../types";
+import { callProvider, ImageProvider } from "./providers";
+import { withRetry, RetryOptions } from "./errors";
+import { TiledJob, TileProgress, createTiledJob, runTiledJob } from "./tiledUpscale";
+import { prepareUpload } from "./ingest";
+import { correctIDBackground } from "./idBackground";
+import { detectFacesInUrl } from "./faceDetection";
+import { alignFaceForIDPhoto } from "./faceAlign";
+
+export interface OperationOptions extends Partial<RetryOptions> {
+  mask?: string; // Not used by tiled upscales
+  tiledJob?: TiledJob; // Resume this job instead of starting a new one
+  onTileProgress?: (progress: TileProgress) => void;
+  faceIndex?: number; // ID photos: detected face to frame, largest first
+}
+
+// Frames ID photos around the chosen face before upload; without a detectable face the photo goes as is
+const prepareIDPhotoInput = async (imageBase64: string, operation: OperationSettings, faceIndex = 0): Promise<string> => {
+  if (operation.tab !== AppTab.ID_PHOTO) return imageBase64;
+  const faces = await detectFacesInUrl(imageBase64).catch(() => []);
+  const face = faces[faceIndex] ?? faces[0];
+  return face ? alignFaceForIDPhoto(imageBase64, face, operation.settings) : imageBase64;
+};
+
+// Runs one operation with timeout, retry of transient failures and cancellation.
+// Enhancements with tiledUpscale are split into tiles, each retried on its own;
+// everything else is first downscaled to the input size of the operation's model.
+// ID photos are framed around the detected face first, and get their background
+// corrected to the exact requested colour or backdrop afterwards.
+export const runOperation = async (
+  provider: ImageProvider,
+  imageBase64: string,
+  operation: OperationSettings,
+  options: OperationOptions = {}
+): Promise<string> => {
+  const { mask, tiledJob, onTileProgress, faceIndex, ...retryOptions } = options;
+  if (operation.tab === AppTab.ENHANCE && operation.settings.tiledUpscale) {
+    const job = tiledJob ?? await createTiledJob(imageBase64, operation.settings);
+    return runTiledJob(provider, job, { ...retryOptions, onProgress: onTileProgress });
+  }
+  const input = await prepareIDPhotoInput(imageBase64, operation, faceIndex);
+  const upload = await prepareUpload(input, operation, mask);
+  const result = await withRetry((signal) => callProvider(provider, upload.image, operation, { signal, mask: upload.mask }), retryOptions);
+  return operation.tab === AppTab.ID_PHOTO ? correctIDBackground(result, operation.settings) : result;
+};
+
+// Filename prefix used for downloads of each operation's output
+export const OPERATION_FILE_PREFIX: Record<AppTab, string> = {
+  [AppTab.ENHANCE]: 'Enhanced',
+  [AppTab.ID_PHOTO]: 'ID_Photo',
+  [AppTab.RESTORE]: 'Restored_Gemini3Pro'
+};
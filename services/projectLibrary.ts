@@ -0,0 +1,279 @@
+import { AppErrorCode, EditHistory, LibraryProject, StorageUsage } from "../types";
+import { loadImage, createCanvas } from "../utils/canvas";
+import { dataUrlToBytes, extensionForDataUrl, readFileAsDataUrl } from "../utils/file";
+import { buildZip, ZipEntry } from "../utils/zip";
+import { AppError } from "./errors";
+import { migrateOperation } from "./settingsValidation";
+
+const DB_NAME = 'longrau-library';
+const DB_VERSION = 1;
+const PROJECTS_STORE = 'projects';
+const IMAGES_STORE = 'images'; // key: `${projectId}/${versionId}`, value: Blob
+
+const THUMBNAIL_SIZE = 240;
+const EVICTION_SETTINGS_KEY = 'longrau.libraryEviction';
+
+// Evict least recently opened projects once the library grows past this share of the quota
+export interface EvictionPolicy {
+  enabled: boolean;
+  maxQuotaPercent: number;
+}
+
+export const DEFAULT_EVICTION_POLICY: EvictionPolicy = {
+  enabled: true,
+  maxQuotaPercent: 60
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+          db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(IMAGES_STORE)) {
+          db.createObjectStore(IMAGES_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error || new Error("Could not open the local library."));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error("Library transaction was aborted."));
+  });
+
+const imageKey = (projectId: string, versionId: string) => `${projectId}/${versionId}`;
+const projectKeyRange = (projectId: string) => IDBKeyRange.bound(`${projectId}/`, `${projectId}/\uffff`);
+
+const makeThumbnail = async (imageUrl: string): Promise<string> => {
+  const img = await loadImage(imageUrl);
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+  const { canvas, ctx } = createCanvas(
+    Math.max(1, Math.round(img.naturalWidth * scale)),
+    Math.max(1, Math.round(img.naturalHeight * scale))
+  );
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.8);
+};
+
+const dataUrlToBlob = (dataUrl: string): Blob => {
+  const mime = dataUrl.match(/^data:([^;,]+)/)?.[1] || 'image/png';
+  return new Blob([dataUrlToBytes(dataUrl)], { type: mime });
+};
+
+// History with the heavy image data stripped out, for the project record
+const stripImages = (history: EditHistory): EditHistory => ({
+  ...history,
+  versions: Object.fromEntries(
+    Object.entries(history.versions).map(([id, v]) => [id, { ...v, imageUrl: '' }])
+  )
+});
+
+export const listProjects = async (): Promise<LibraryProject[]> => {
+  const db = await openDb();
+  const tx = db.transaction(PROJECTS_STORE, 'readonly');
+  const projects = await promisify(tx.objectStore(PROJECTS_STORE).getAll() as IDBRequest<LibraryProject[]>);
+  return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+// Creates or updates the project for `history`. Only images that are not stored yet are written.
+export const saveProject = async (
+  history: EditHistory,
+  meta: { name: string; tags?: string[] }
+): Promise<LibraryProject> => {
+  const db = await openDb();
+  const id = history.rootId;
+  const now = Date.now();
+
+  const readTx = db.transaction([PROJECTS_STORE, IMAGES_STORE], 'readonly');
+  const [existing, storedKeys] = await Promise.all([
+    promisify(readTx.objectStore(PROJECTS_STORE).get(id) as IDBRequest<LibraryProject | undefined>),
+    promisify(readTx.objectStore(IMAGES_STORE).getAllKeys(projectKeyRange(id)))
+  ]);
+  const stored = new Set(storedKeys.map(String));
+
+  const current = history.versions[history.currentId];
+  const thumbnailUrl = await makeThumbnail(current.imageUrl);
+
+  const newImages = history.order
+    .filter(versionId => !stored.has(imageKey(id, versionId)))
+    .map(versionId => ({ key: imageKey(id, versionId), blob: dataUrlToBlob(history.versions[versionId].imageUrl) }));
+  const addedBytes = newImages.reduce((sum, img) => sum + img.blob.size, 0);
+
+  const project: LibraryProject = {
+    id,
+    name: existing?.name ?? meta.name,
+    tags: existing?.tags ?? meta.tags ?? [],
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+    lastOpenedAt: now,
+    history: stripImages(history),
+    thumbnailUrl,
+    sizeBytes: (existing?.sizeBytes ?? 0) + addedBytes
+  };
+
+  const tx = db.transaction([PROJECTS_STORE, IMAGES_STORE], 'readwrite');
+  newImages.forEach(img => tx.objectStore(IMAGES_STORE).put(img.blob, img.key));
+  tx.objectStore(PROJECTS_STORE).put(project);
+  await transactionDone(tx);
+  return project;
+};
+
+// Loads a project with its images restored as data URLs, and marks it as recently opened
+export const openProject = async (id: string): Promise<{ project: LibraryProject; history: EditHistory }> => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS_STORE, IMAGES_STORE], 'readonly');
+  const project = await promisify(tx.objectStore(PROJECTS_STORE).get(id) as IDBRequest<LibraryProject | undefined>);
+  if (!project) {
+    throw new AppError(AppErrorCode.PROJECT_NOT_FOUND, "Project not found in the library.");
+  }
+  const blobs = await Promise.all(
+    project.history.order.map(versionId =>
+      promisify(tx.objectStore(IMAGES_STORE).get(imageKey(id, versionId)) as IDBRequest<Blob | undefined>)
+    )
+  );
+
+  const versions = { ...project.history.versions };
+  for (let i = 0; i < blobs.length; i++) {
+    const blob = blobs[i];
+    const versionId = project.history.order[i];
+    if (!blob) {
+      throw new AppError(AppErrorCode.PROJECT_IMAGES_MISSING, "Some images of this project are missing from storage.");
+    }
+    const { operation } = versions[versionId];
+    versions[versionId] = {
+      ...versions[versionId],
+      // Projects saved before enum values became ids still hold the old labels
+      operation: operation && migrateOperation(operation),
+      imageUrl: await readFileAsDataUrl(blob)
+    };
+  }
+
+  await updateProject(id, { lastOpenedAt: Date.now() });
+  return { project, history: { ...project.history, versions } };
+};
+
+export const updateProject = async (
+  id: string,
+  patch: Partial<Pick<LibraryProject, 'name' | 'tags' | 'lastOpenedAt'>>
+): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(PROJECTS_STORE, 'readwrite');
+  const store = tx.objectStore(PROJECTS_STORE);
+  const project = await promisify(store.get(id) as IDBRequest<LibraryProject | undefined>);
+  if (project) {
+    store.put({ ...project, ...patch });
+  }
+  await transactionDone(tx);
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS_STORE, IMAGES_STORE], 'readwrite');
+  tx.objectStore(PROJECTS_STORE).delete(id);
+  tx.objectStore(IMAGES_STORE).delete(projectKeyRange(id));
+  await transactionDone(tx);
+};
+
+// ZIP with every version image plus a manifest of the settings used for each step
+export const exportProject = async (id: string): Promise<Blob> => {
+  const { project, history } = await openProject(id);
+  const entries: ZipEntry[] = history.order.map((versionId, index) => {
+    const version = history.versions[versionId];
+    const label = version.operation ? version.operation.tab : version.adjustments ? 'adjust' : 'original';
+    return {
+      name: `${String(index).padStart(2, '0')}_${label}.${extensionForDataUrl(version.imageUrl)}`,
+      data: dataUrlToBytes(version.imageUrl),
+      modified: new Date(version.createdAt)
+    };
+  });
+  const manifest = {
+    name: project.name,
+    tags: project.tags,
+    createdAt: new Date(project.createdAt).toISOString(),
+    versions: history.order.map((versionId, index) => {
+      const { imageUrl, ...version } = history.versions[versionId];
+      return { index, file: entries[index].name, ...version, createdAt: new Date(version.createdAt).toISOString() };
+    })
+  };
+  entries.push({ name: 'manifest.json', data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) });
+  return buildZip(entries);
+};
+
+export const loadEvictionPolicy = (): EvictionPolicy => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(EVICTION_SETTINGS_KEY) || 'null');
+    if (stored && typeof stored.enabled === 'boolean' && typeof stored.maxQuotaPercent === 'number') {
+      return stored;
+    }
+  } catch {
+    // Fall through to defaults
+  }
+  return DEFAULT_EVICTION_POLICY;
+};
+
+export const saveEvictionPolicy = (policy: EvictionPolicy) => {
+  localStorage.setItem(EVICTION_SETTINGS_KEY, JSON.stringify(policy));
+};
+
+export const getStorageUsage = async (): Promise<StorageUsage> => {
+  const estimate = navigator.storage?.estimate ? await navigator.storage.estimate() : {};
+  const persisted = navigator.storage?.persisted ? await navigator.storage.persisted() : false;
+  const projects = await listProjects();
+  return {
+    usedBytes: estimate.usage ?? 0,
+    quotaBytes: estimate.quota ?? 0,
+    libraryBytes: projects.reduce((sum, p) => sum + p.sizeBytes, 0),
+    persisted
+  };
+};
+
+// Asks the browser not to clear the library under storage pressure
+export const requestPersistentStorage = async (): Promise<boolean> =>
+  navigator.storage?.persist ? navigator.storage.persist() : false;
+
+// Deletes least recently opened projects until the library fits the policy.
+// `keepId` (the open project) is never evicted. Returns the deleted projects.
+export const enforceEvictionPolicy = async (
+  policy: EvictionPolicy,
+  keepId?: string
+): Promise<LibraryProject[]> => {
+  if (!policy.enabled) return [];
+  const usage = await getStorageUsage();
+  if (!usage.quotaBytes) return [];
+
+  const limit = (usage.quotaBytes * policy.maxQuotaPercent) / 100;
+  let total = usage.libraryBytes;
+  const candidates = (await listProjects())
+    .filter(p => p.id !== keepId)
+    .sort((a, b) => a.lastOpenedAt - b.lastOpenedAt);
+
+  const evicted: LibraryProject[] = [];
+  for (const project of candidates) {
+    if (total <= limit) break;
+    await deleteProject(project.id);
+    total -= project.sizeBytes;
+    evicted.push(project);
+  }
+  return evicted;
+};
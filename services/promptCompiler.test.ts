@@ -0,0 +1,129 @@
+import { createHash } from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+import {
+  AppTab,
+  EditorSettings,
+  EnhancementMode,
+  EnhancementQuality,
+  IDBackgroundStyle,
+  IDPhotoBackground,
+  IDPhotoSettings
+} from '../types';
+import {
+  CompiledPrompt,
+  PROMPT_VERSION,
+  compileEnhancePrompt,
+  compileIDPhotoPrompt,
+  compileRestorePrompt
+} from './promptCompiler';
+import { CUSTOM_SPEC_ID, ID_PHOTO_SPECS, applyIDPhotoSpec } from './idPhotoSpecs';
+import { DEFAULT_ENHANCE_SETTINGS, DEFAULT_ID_SETTINGS, DEFAULT_RESTORE_SETTINGS } from './presets';
+import { FieldSpec, SETTINGS_SCHEMAS } from './settingsValidation';
+
+// SHA-256 of every case below, per PROMPT_VERSION. Changing a prompt fails the check until
+// PROMPT_VERSION is bumped and the digest of the new version is added; older entries stay so
+// a version number is never reused. Adding cases only changes the current version's digest.
+const PROMPT_DIGESTS: Record<number, string> = {
+  2: '60e01ca0d7782d0668189d55e7e074034dfcdcb0cc3ba63ae4879145caf0bb30',
+  3: 'c0c125f4ddcdd1cccedae54448a8d7dfb896b81d5f2bfba039f0a52c4a490331',
+  4: '434a4e353f5d86a87a7a307a8d6f46f3cc045b7a934fce257801eaa07c63e453',
+  5: '5fd9fe63ff7d0f5c85eed573f567f50bbb16260bb7d5786eb8b380ca503ab0a7'
+};
+
+type Case = [name: string, compiled: CompiledPrompt];
+
+// Slider values on both sides of each wording threshold, plus the ends of the range
+const numberEdges = (min: number, max: number) =>
+  [...new Set([min, min + 1, 25, 26, 50, 51, 75, 76, 100, max - 1, max])]
+    .filter(value => value >= min && value <= max)
+    .sort((a, b) => a - b);
+
+// Values of a settings field worth a snapshot; string fields take the samples given
+const fieldValues = (spec: FieldSpec, samples: unknown[] = []): unknown[] => {
+  switch (spec.kind) {
+    case 'enum': return [...spec.values];
+    case 'number': return numberEdges(spec.min, spec.max);
+    case 'boolean': return [false, true];
+    case 'string': return samples;
+  }
+};
+
+// One case per value of each field, the other fields left at `base`
+const fieldCases = <T extends object>(
+  tab: AppTab,
+  base: T,
+  compile: (settings: T) => CompiledPrompt,
+  options: { skip?: string[]; samples?: Record<string, unknown[]> } = {}
+): Case[] =>
+  Object.entries(SETTINGS_SCHEMAS[tab])
+    .filter(([field]) => !options.skip?.includes(field))
+    .flatMap(([field, spec]) => fieldValues(spec, options.samples?.[field]).map((value): Case =>
+      [`${field}=${JSON.stringify(value)}`, compile({ ...base, [field]: value })]
+    ));
+
+const enhanceCases = (): Case[] => [
+  ...Object.values(EnhancementMode).flatMap(mode =>
+    Object.values(EnhancementQuality).flatMap(quality =>
+      [false, true].map((tile): Case => {
+        const settings: EditorSettings = { ...DEFAULT_ENHANCE_SETTINGS, mode, quality };
+        return [`mode=${mode} quality=${quality} tile=${tile}`, compileEnhancePrompt(settings, { tile })];
+      })
+    )
+  ),
+  ...Object.values(EnhancementMode).flatMap(mode =>
+    fieldCases(AppTab.ENHANCE, { ...DEFAULT_ENHANCE_SETTINGS, mode }, compileEnhancePrompt, { skip: ['mode'] })
+      .map(([name, compiled]): Case => [`mode=${mode} ${name}`, compiled])
+  )
+];
+
+// Custom settings, so the size and background fields are not overridden by a document spec
+const CUSTOM_ID_SETTINGS: IDPhotoSettings = { ...DEFAULT_ID_SETTINGS, specId: CUSTOM_SPEC_ID };
+
+const idPhotoCases = (): Case[] => [
+  ...ID_PHOTO_SPECS.map((spec): Case =>
+    [`spec=${spec.id}`, compileIDPhotoPrompt(applyIDPhotoSpec(DEFAULT_ID_SETTINGS, spec.id))]
+  ),
+  ...Object.values(IDBackgroundStyle).flatMap(backgroundStyle =>
+    Object.values(IDPhotoBackground).map((backgroundColor): Case =>
+      [
+        `backgroundStyle=${backgroundStyle} backgroundColor=${backgroundColor}`,
+        compileIDPhotoPrompt({ ...CUSTOM_ID_SETTINGS, backgroundStyle, backgroundColor })
+      ]
+    )
+  ),
+  ...fieldCases(AppTab.ID_PHOTO, CUSTOM_ID_SETTINGS, compileIDPhotoPrompt, {
+    skip: ['specId'],
+    samples: { backgroundHex: ['', '#1A2B3C'], backdropId: ['', 'backdrop-1'] }
+  })
+];
+
+const restoreCases = (): Case[] =>
+  fieldCases(AppTab.RESTORE, DEFAULT_RESTORE_SETTINGS, compileRestorePrompt);
+
+const ALL_CASES: Record<AppTab, Case[]> = {
+  [AppTab.ENHANCE]: enhanceCases(),
+  [AppTab.ID_PHOTO]: idPhotoCases(),
+  [AppTab.RESTORE]: restoreCases()
+};
+
+describe.each(Object.values(AppTab))('%s prompts', tab => {
+  it.each(ALL_CASES[tab])('%s', (_name, compiled) => {
+    expect(compiled).toMatchSnapshot();
+  });
+});
+
+describe('PROMPT_VERSION', () => {
+  it('is stamped on every compiled prompt', () => {
+    const versions = new Set(Object.values(ALL_CASES).flat().map(([, compiled]) => compiled.version));
+    expect([...versions]).toEqual([PROMPT_VERSION]);
+  });
+
+  it('is bumped whenever a prompt changes', () => {
+    const digest = createHash('sha256').update(JSON.stringify(ALL_CASES)).digest('hex');
+    expect(
+      digest,
+      `Prompts differ from the ones recorded for version ${PROMPT_VERSION}. Bump PROMPT_VERSION in promptCompiler.ts and add "${digest}" to PROMPT_DIGESTS.`
+    ).toBe(PROMPT_DIGESTS[PROMPT_VERSION]);
+    expect(Object.entries(PROMPT_DIGESTS).filter(([, value]) => value === digest)).toHaveLength(1);
+  });
+});
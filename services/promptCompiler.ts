@@ -0,0 +1,235 @@
+import {
+  AppTab,
+  EditorSettings,
+  EnhancementMode,
+  EnhancementQuality,
+  IDPhotoBackground,
+  IDBackgroundStyle,
+  IDPhotoSettings,
+  IDPhotoSize,
+  OperationSettings,
+  RestorationSettings
+} from "../types";
+import { getIDPhotoSpec, getGenerationBackgroundHex } from "./idPhotoSpecs";
+import { ID_PHOTO_DIMENSIONS_MM } from "./printLayout";
+
+// Bump whenever the wording or the settings mapping changes, so results can be
+// traced back to the prompt that produced them
+export const PROMPT_VERSION = 5;
+
+export const GEMINI_MODELS = {
+  FLASH_IMAGE: 'gemini-2.5-flash-image',
+  PRO_IMAGE: 'gemini-3-pro-image-preview'
+} as const;
+
+export type GeminiModel = typeof GEMINI_MODELS[keyof typeof GEMINI_MODELS];
+
+// Output sizes the Pro image model accepts
+export type ImageSize = '1K' | '2K' | '4K';
+
+export interface CompiledPrompt {
+  version: number;
+  model: GeminiModel;
+  prompt: string;
+  imageConfig: {
+    aspectRatio?: string;
+    imageSize?: ImageSize; // Pro model only
+  };
+  allowsMask: boolean;
+}
+
+// Output aspect ratios the image models accept
+const SUPPORTED_ASPECT_RATIOS = ['1:1', '2:3', '3:4', '4:5', '9:16'];
+
+const aspectValue = (ratio: string) => {
+  const [w, h] = ratio.split(':').map(Number);
+  return w / h;
+};
+
+export const nearestAspectRatio = (ratio: number): string =>
+  SUPPORTED_ASPECT_RATIOS.reduce((best, candidate) =>
+    Math.abs(Math.log(aspectValue(candidate) / ratio)) < Math.abs(Math.log(aspectValue(best) / ratio)) ? candidate : best
+  );
+
+// Words for a 0-100 slider; the exact value is always given too so every step changes the prompt
+const strength = (value: number): string => {
+  if (value <= 0) return 'none';
+  if (value <= 25) return 'very light';
+  if (value <= 50) return 'light';
+  if (value <= 75) return 'moderate';
+  return 'strong';
+};
+
+// Pro renders at a fixed size; Flash is used for 2K and 4K targets
+const QUALITY_MODEL: Record<EnhancementQuality, { model: GeminiModel; imageSize?: ImageSize; name: string; pixels: string }> = {
+  [EnhancementQuality.Q_2K]: { model: GEMINI_MODELS.FLASH_IMAGE, name: '2K (Fast)', pixels: '2048 pixels on the long edge' },
+  [EnhancementQuality.Q_4K]: { model: GEMINI_MODELS.FLASH_IMAGE, name: '4K (Sharp)', pixels: '4096 pixels on the long edge' },
+  [EnhancementQuality.Q_8K]: { model: GEMINI_MODELS.PRO_IMAGE, imageSize: '4K', name: '8K ULTRA HDR', pixels: 'the maximum resolution available, ultra HDR detail' }
+};
+
+// Pro output size per tile; tiles are small, so 2K is plenty
+const TILE_IMAGE_SIZE: ImageSize = '2K';
+
+// Restoration always uses Pro; quality picks its output size
+const RESTORE_IMAGE_SIZE: Record<EnhancementQuality, ImageSize> = {
+  [EnhancementQuality.Q_2K]: '2K',
+  [EnhancementQuality.Q_4K]: '4K',
+  [EnhancementQuality.Q_8K]: '4K'
+};
+
+const BACKGROUND_NAMES: Record<IDPhotoBackground, string> = {
+  [IDPhotoBackground.WHITE]: 'pure white',
+  [IDPhotoBackground.BLUE]: 'standard ID photo blue',
+  [IDPhotoBackground.RED]: 'standard ID photo red',
+  [IDPhotoBackground.BLACK]: 'solid black',
+  [IDPhotoBackground.GRAY]: 'professional light gray'
+};
+
+const SIZE_DESCRIPTIONS: Record<IDPhotoSize, string> = {
+  [IDPhotoSize.SIZE_2x3]: "vertical ID photo (2cm x 3cm ratio)",
+  [IDPhotoSize.SIZE_3x4]: "standard vertical ID photo (3cm x 4cm ratio)",
+  [IDPhotoSize.SIZE_4x6]: "large vertical ID photo (4cm x 6cm ratio)",
+  [IDPhotoSize.SIZE_35x45]: "passport photo (3.5cm x 4.5cm ratio)",
+  [IDPhotoSize.SIZE_33x48]: "visa photo (3.3cm x 4.8cm ratio)",
+  [IDPhotoSize.SIZE_5x5]: "square visa photo (5cm x 5cm ratio)"
+};
+
+export interface CompileOptions {
+  tile?: boolean; // The image is one tile of a tiled upscale
+}
+
+export const compileEnhancePrompt = (settings: EditorSettings, options: CompileOptions = {}): CompiledPrompt => {
+  const target = QUALITY_MODEL[settings.quality];
+  const lines = ["Edit this image to improve its quality significantly."];
+
+  if (settings.mode === EnhancementMode.ENHANCE_RESTORE) {
+    lines.push("Restore facial details, fix artifacts, and improve lighting.");
+    lines.push(settings.retouchLevel > 0
+      ? `Face retouching: ${strength(settings.retouchLevel)} (${settings.retouchLevel}%). Even out skin and soften blemishes in proportion, never changing facial structure.`
+      : "Face retouching: none. Leave skin and facial features exactly as they are.");
+    lines.push(settings.hyperRealism
+      ? "Maintain realistic skin texture with visible pores (hyper-realism)."
+      : "Skin may be rendered smooth; pore-level texture is not required.");
+    lines.push(settings.makeup
+      ? "Apply very subtle, natural makeup-style enhancement to facial features."
+      : "Do not add makeup or cosmetic changes.");
+    lines.push(settings.colorize
+      ? "Ensure colors are vibrant and corrected, fixing white balance and faded tones."
+      : "Keep the original colors and white balance.");
+  } else {
+    lines.push("Focus strictly on upscaling and sharpening the image details without altering facial features.");
+    lines.push("Do not retouch skin, add makeup, or change colors.");
+  }
+
+  lines.push(settings.upscaleLevel > 0
+    ? `AI upscale strength: ${strength(settings.upscaleLevel)} (${settings.upscaleLevel}%). Reconstruct fine detail that is missing at low resolution in proportion to this strength.`
+    : "AI upscale strength: none. Enlarge without inventing new detail.");
+  lines.push(settings.sharpenLevel > 0
+    ? `Sharpening intensity: ${settings.sharpenLevel}% (100% is a normal amount, 200% is very crisp), without halos.`
+    : "Do not sharpen.");
+  if (options.tile) {
+    // The tiler sets the final pixel size; each tile only has to line up with its neighbours
+    lines.push("This image is one tile cut from a larger photo. Keep the exact framing, geometry, exposure and colours so it lines up with the neighbouring tiles.");
+    lines.push("Do not add borders, vignettes or new objects, and do not crop. Return the tile at the highest resolution you can.");
+  } else {
+    lines.push(`Target output: ${target.name}, ${target.pixels}.`);
+    lines.push("Return the processed image in high resolution.");
+  }
+
+  return {
+    version: PROMPT_VERSION,
+    model: target.model,
+    prompt: lines.join(' '),
+    imageConfig: target.imageSize ? { imageSize: options.tile ? TILE_IMAGE_SIZE : target.imageSize } : {},
+    allowsMask: !options.tile
+  };
+};
+
+export const compileIDPhotoPrompt = (settings: IDPhotoSettings): CompiledPrompt => {
+  const spec = getIDPhotoSpec(settings);
+  const sizeMm = ID_PHOTO_DIMENSIONS_MM[settings.size];
+  const target = QUALITY_MODEL[settings.quality];
+
+  // Head and eye position rules from the document spec, as shares of the photo height
+  const percent = (value: number) => Math.round((value / sizeMm.height) * 100);
+
+  const lines = ["Strictly transform this image into a professional official ID/Passport photo."];
+  if (spec.country) lines.push(`It must meet the ${spec.countryName} ${spec.documentType.replace('_', ' ')} photo rules.`);
+  lines.push(`1. CROP & COMPOSITION: Crop the image to a ${sizeMm.width === sizeMm.height ? 'Square' : 'Vertical Portrait'} format.`);
+  lines.push("The face must be perfectly CENTERED and facing forward.");
+  lines.push(`The head (from top of hair to chin) must occupy ${percent(spec.headHeightMm.min)}% to ${percent(spec.headHeightMm.max)}% of the vertical height.`);
+  lines.push(`The eyes must be between ${percent(spec.eyeLineMm.min)}% and ${percent(spec.eyeLineMm.max)}% of the height measured from the bottom edge.`);
+  lines.push("Include the shoulders. Both ears should be visible if possible. Eyes must be level.");
+  if (!spec.smilingAllowed) lines.push("Neutral expression with the mouth closed.");
+  if (!spec.glassesAllowed) lines.push("Eyeglasses are not allowed; if the person wears glasses, remove them without changing the eyes.");
+
+  // Gradients and backdrops are painted in afterwards; the model only needs a flat colour to key out
+  const backgroundName = settings.backgroundStyle === IDBackgroundStyle.IMAGE ? 'uniform mid gray' : BACKGROUND_NAMES[settings.backgroundColor];
+  lines.push(`2. BACKGROUND: Remove the original background completely. Replace with a clean, flat ${backgroundName} (exactly ${getGenerationBackgroundHex(settings)}) background. No shadows, gradients or texture on the background.`);
+
+  lines.push("3. ENHANCEMENT:");
+  lines.push(settings.removeBlemishes
+    ? "Remove acne, moles, spots, and scratches from the face."
+    : "Keep moles and natural skin marks; they may be identifying features.");
+  lines.push(settings.skinSmoothing > 0
+    ? `Smooth skin texture naturally (Intensity: ${settings.skinSmoothing}%, ${strength(settings.skinSmoothing)}).`
+    : "Do not smooth the skin.");
+  lines.push(settings.fixLighting
+    ? "Fix lighting to be even and soft (studio lighting), removing harsh shadows on the face."
+    : "Keep the original lighting on the face.");
+
+  lines.push(`4. OUTPUT: High resolution, sharp focus, ${target.pixels}. Intended for printing at ${SIZE_DESCRIPTIONS[settings.size]}.`);
+
+  return {
+    version: PROMPT_VERSION,
+    model: target.model,
+    prompt: lines.join(' '),
+    imageConfig: {
+      aspectRatio: nearestAspectRatio(sizeMm.width / sizeMm.height),
+      ...(target.imageSize ? { imageSize: target.imageSize } : {})
+    },
+    allowsMask: false // The photo is re-framed, so a mask of the input no longer lines up
+  };
+};
+
+export const compileRestorePrompt = (settings: RestorationSettings): CompiledPrompt => {
+  const lines = ["Act as a professional photo restoration expert. Restore this old, damaged, or blurry photo."];
+
+  lines.push(settings.scratchReduction > 0
+    ? `1. DAMAGE REPAIR: Remove scratches, cracks, tears, dust spots, and fold marks. (Intensity: ${settings.scratchReduction}%, ${strength(settings.scratchReduction)}).`
+    : "1. DAMAGE REPAIR: Leave scratches and marks as they are.");
+
+  lines.push(settings.sharpenArtifacts
+    ? "2. DETAIL RECOVERY: Deblur the image and sharpen details specifically on clothing and background textures."
+    : "2. DETAIL RECOVERY: Do not deblur or sharpen; keep the original softness of the photo.");
+  if (settings.faceRestoration) {
+    lines.push("Use advanced facial restoration to recover facial features, eyes, and skin texture. CRITICAL: Do NOT alter the person's identity or facial structure. Keep original angles and features authentic.");
+  } else {
+    lines.push("Do not reconstruct faces beyond the damage repair above.");
+  }
+
+  lines.push(settings.colorRestoration
+    ? "3. COLORIZATION: If the photo is B&W or sepia, strictly colorize it with natural, historically accurate colors. If it's color but faded, restore vibrancy."
+    : "3. COLOR: Keep the original color profile (B&W or Sepia) but improve contrast and remove yellow aging stains.");
+
+  lines.push(settings.denoiseLevel > 0
+    ? `4. QUALITY: High fidelity restoration. Reduce noise level by ${settings.denoiseLevel}%.`
+    : "4. QUALITY: High fidelity restoration. Keep the original film grain.");
+  lines.push(`Target output: ${QUALITY_MODEL[settings.quality].name}.`);
+
+  return {
+    version: PROMPT_VERSION,
+    model: GEMINI_MODELS.PRO_IMAGE,
+    prompt: lines.join(' '),
+    imageConfig: { imageSize: RESTORE_IMAGE_SIZE[settings.quality] },
+    allowsMask: true
+  };
+};
+
+export const compilePrompt = (operation: OperationSettings): CompiledPrompt => {
+  switch (operation.tab) {
+    case AppTab.ID_PHOTO: return compileIDPhotoPrompt(operation.settings);
+    case AppTab.RESTORE: return compileRestorePrompt(operation.settings);
+    default: return compileEnhancePrompt(operation.settings);
+  }
+};
@@ -0,0 +1,16 @@
+import { AppTab, OperationSettings } from "../../types";
+import { ImageProvider, RequestOptions } from "./types";
+
+// Dispatches one operation to the matching provider call
+export const callProvider = (
+  provider: ImageProvider,
+  imageBase64: string,
+  operation: OperationSettings,
+  options: RequestOptions
+): Promise<string> => {
+  switch (operation.tab) {
+    case AppTab.ID_PHOTO: return provider.generateIDPhoto(imageBase64, operation.settings, options);
+    case AppTab.RESTORE: return provider.restore(imageBase64, operation.settings, options);
+    default: return provider.enhance(imageBase64, operation.settings, options);
+  }
+};
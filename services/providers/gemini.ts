@@ -0,0 +1,11 @@
+import { ProviderKind } from "../../types";
+import { enhanceImageWithGemini, generateIDPhotoWithGemini, restoreImageWithGemini } from "../geminiService";
+import { ImageProvider } from "./types";
+
+// Calls Gemini directly; needs configureGemini, so it only runs on the proxy server
+export const geminiProvider: ImageProvider = {
+  kind: ProviderKind.GEMINI,
+  enhance: enhanceImageWithGemini,
+  generateIDPhoto: generateIDPhotoWithGemini,
+  restore: restoreImageWithGemini
+};
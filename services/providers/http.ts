@@ -0,0 +1,59 @@
+import { AIErrorKind, ProviderKind } from "../../types";
+import { AIServiceError, classifyError, kindFromStatus } from "../errors";
+import { ImageProvider, RequestOptions } from "./types";
+
+// Wire format shared with self-hosted model servers:
+//   POST {baseUrl}/enhance | /id-photo | /restore
+//   body:     { "image": "<data url>", "settings": { ... }, "mask"?: "<data url>", "tile"?: true }
+//   response: { "image": "<data url>" } or { "error": "<message>", "kind"?: "<AIErrorKind>" }
+export const HTTP_PROVIDER_ROUTES = {
+  enhance: '/enhance',
+  idPhoto: '/id-photo',
+  restore: '/restore'
+} as const;
+
+// Also used for Gemini, which the browser reaches through the proxy server using this format
+export const createHttpProvider = (baseUrl: string, kind: ProviderKind = ProviderKind.HTTP): ImageProvider => {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  const post = async (route: string, image: string, settings: unknown, options: RequestOptions = {}): Promise<string> => {
+    if (!root) {
+      throw new AIServiceError(AIErrorKind.INVALID_INPUT, "HTTP provider URL is not configured.");
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${root}${route}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ image, settings, mask: options.mask, tile: options.tile || undefined }),
+        signal: options.signal
+      });
+    } catch (error) {
+      throw classifyError(error);
+    }
+
+    let payload: any = null;
+    try {
+      payload = await response.json();
+    } catch {
+      // Non-JSON body; handled below
+    }
+
+    if (!response.ok) {
+      const kind = Object.values(AIErrorKind).includes(payload?.kind) ? payload.kind : kindFromStatus(response.status);
+      throw new AIServiceError(kind, payload?.error || `Server responded with ${response.status} ${response.statusText}`, response.status);
+    }
+    if (!payload || typeof payload.image !== 'string') {
+      throw new AIServiceError(AIErrorKind.TEXT_ONLY, "Server response did not contain an image.");
+    }
+    return payload.image;
+  };
+
+  return {
+    kind,
+    enhance: (imageBase64, settings, options) => post(HTTP_PROVIDER_ROUTES.enhance, imageBase64, settings, options),
+    generateIDPhoto: (imageBase64, settings, options) => post(HTTP_PROVIDER_ROUTES.idPhoto, imageBase64, settings, options),
+    restore: (imageBase64, settings, options) => post(HTTP_PROVIDER_ROUTES.restore, imageBase64, settings, options)
+  };
+};
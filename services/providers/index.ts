@@ -0,0 +1,52 @@
+import { ProviderConfig, ProviderKind } from "../../types";
+import { ImageProvider } from "./types";
+import { createMockProvider } from "./mock";
+import { createHttpProvider } from "./http";
+
+export type { ImageProvider, RequestOptions } from "./types";
+export { createMockProvider } from "./mock";
+export { createHttpProvider, HTTP_PROVIDER_ROUTES } from "./http";
+export { callProvider } from "./dispatch";
+
+const STORAGE_KEY = 'longrau.providerConfig';
+
+const isProviderKind = (value: unknown): value is ProviderKind =>
+  Object.values(ProviderKind).includes(value as ProviderKind);
+
+// The browser never talks to Gemini directly: the key lives on the proxy server (server/)
+export const GEMINI_PROXY_URL = process.env.GEMINI_PROXY_URL || '/api';
+
+// Build-time defaults; the runtime setting in localStorage takes precedence
+export const DEFAULT_PROVIDER_CONFIG: ProviderConfig = {
+  kind: isProviderKind(process.env.IMAGE_PROVIDER) ? process.env.IMAGE_PROVIDER : ProviderKind.GEMINI,
+  httpBaseUrl: process.env.IMAGE_PROVIDER_URL || ''
+};
+
+export const loadProviderConfig = (): ProviderConfig => {
+  if (typeof localStorage === 'undefined') return DEFAULT_PROVIDER_CONFIG;
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (stored && isProviderKind(stored.kind)) {
+      return {
+        kind: stored.kind,
+        httpBaseUrl: typeof stored.httpBaseUrl === 'string' ? stored.httpBaseUrl : DEFAULT_PROVIDER_CONFIG.httpBaseUrl
+      };
+    }
+  } catch {
+    // Corrupt value; fall back to defaults
+  }
+  return DEFAULT_PROVIDER_CONFIG;
+};
+
+export const saveProviderConfig = (config: ProviderConfig) => {
+  if (typeof localStorage === 'undefined') return;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+};
+
+export const getProvider = (config: ProviderConfig): ImageProvider => {
+  switch (config.kind) {
+    case ProviderKind.MOCK: return createMockProvider();
+    case ProviderKind.HTTP: return createHttpProvider(config.httpBaseUrl);
+    default: return createHttpProvider(GEMINI_PROXY_URL, ProviderKind.GEMINI);
+  }
+};
@@ -0,0 +1,30 @@
+import { AIErrorKind, ProviderKind } from "../../types";
+import { AIServiceError } from "../errors";
+import { ImageProvider, RequestOptions } from "./types";
+
+const MOCK_LATENCY_MS = 600;
+
+// Offline provider for development: returns the input unchanged after a fixed delay,
+// so the same input always produces the same output and no API quota is used.
+export const createMockProvider = (latencyMs = MOCK_LATENCY_MS): ImageProvider => {
+  const echo = (imageBase64: string, options: RequestOptions = {}) =>
+    new Promise<string>((resolve, reject) => {
+      const cancelled = () => new AIServiceError(AIErrorKind.CANCELLED, "Request was cancelled.");
+      if (options.signal?.aborted) {
+        reject(cancelled());
+        return;
+      }
+      const timer = setTimeout(() => resolve(imageBase64), latencyMs);
+      options.signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(cancelled());
+      }, { once: true });
+    });
+
+  return {
+    kind: ProviderKind.MOCK,
+    enhance: (imageBase64, _settings, options) => echo(imageBase64, options),
+    generateIDPhoto: (imageBase64, _settings, options) => echo(imageBase64, options),
+    restore: (imageBase64, _settings, options) => echo(imageBase64, options)
+  };
+};
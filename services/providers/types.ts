@@ -0,0 +1,16 @@
+import { EditorSettings, IDPhotoSettings, RestorationSettings, ProviderKind } from "../../types";
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  mask?: string; // Data URL; white = area to edit, black = keep. Ignored for ID photos.
+  tile?: boolean; // The image is one tile of a larger enhance job; keep framing exact
+}
+
+// One backend capable of running the three processing operations.
+// Images go in and come out as data URLs. Failures are thrown as AIServiceError.
+export interface ImageProvider {
+  readonly kind: ProviderKind;
+  enhance: (imageBase64: string, settings: EditorSettings, options?: RequestOptions) => Promise<string>;
+  generateIDPhoto: (imageBase64: string, settings: IDPhotoSettings, options?: RequestOptions) => Promise<string>;
+  restore: (imageBase64: string, settings: RestorationSettings, options?: RequestOptions) => Promise<string>;
+}
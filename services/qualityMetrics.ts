@@ -0,0 +1,222 @@
+import { DetectedFace, PixelPoint, QualityMetrics } from "../types";
+import { loadImage, createCanvas } from "../utils/canvas";
+import { detectFaces } from "./faceDetection";
+
+// Sharpness, noise and colour are measured at this long edge, with the result resized to the input's frame
+const ANALYSIS_EDGE = 1024;
+// Faces are compared on this square, with the eyes placed on fixed points
+const FACE_SIZE = 128;
+const FACE_EYE_Y = 52;
+const FACE_EYE_DISTANCE = 48;
+// Whole frames are compared at this long edge
+const SIMILARITY_EDGE = 256;
+const SSIM_BLOCK = 8;
+// Nose or mouth moving by more than this share of the eye distance means the face was reshaped
+export const MAX_FACE_DRIFT = 0.08;
+
+type Image = HTMLImageElement;
+
+// Rec. 601 luminance of a canvas area, 0-255
+const toGray = (ctx: CanvasRenderingContext2D, width: number, height: number): Float32Array => {
+  const data = ctx.getImageData(0, 0, width, height).data;
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114;
+  }
+  return gray;
+};
+
+const drawScaled = (img: Image, width: number, height: number) => {
+  const { ctx } = createCanvas(width, height);
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, 0, 0, width, height);
+  return ctx;
+};
+
+// Variance of the 4-neighbour Laplacian; higher means more fine detail
+const laplacianVariance = (gray: Float32Array, width: number, height: number): number => {
+  let sum = 0;
+  let sumSq = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const v = gray[i - 1] + gray[i + 1] + gray[i - width] + gray[i + width] - 4 * gray[i];
+      sum += v;
+      sumSq += v * v;
+      count++;
+    }
+  }
+  if (!count) return 0;
+  const mean = sum / count;
+  return sumSq / count - mean * mean;
+};
+
+// Immerkær's fast noise estimate: a Laplacian difference kernel that cancels out smooth image structure
+const noiseSigma = (gray: Float32Array, width: number, height: number): number => {
+  let sum = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const v =
+        gray[i - width - 1] - 2 * gray[i - width] + gray[i - width + 1]
+        - 2 * gray[i - 1] + 4 * gray[i] - 2 * gray[i + 1]
+        + gray[i + width - 1] - 2 * gray[i + width] + gray[i + width + 1];
+      sum += Math.abs(v);
+    }
+  }
+  const count = Math.max(1, (width - 2) * (height - 2));
+  return Math.sqrt(Math.PI / 2) * sum / (6 * count);
+};
+
+// Chroma of the average colour in CIE Lab (D65); neutral greys are 0, a strong cast is above ~10
+const colorCast = (ctx: CanvasRenderingContext2D, width: number, height: number): number => {
+  const data = ctx.getImageData(0, 0, width, height).data;
+  const mean = [0, 0, 0];
+  for (let p = 0; p < data.length; p += 4) {
+    mean[0] += data[p];
+    mean[1] += data[p + 1];
+    mean[2] += data[p + 2];
+  }
+  const [r, g, b] = mean.map(v => {
+    const c = v / (data.length / 4) / 255;
+    return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  });
+  const f = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+  const fx = f((r * 0.4124 + g * 0.3576 + b * 0.1805) / 0.95047);
+  const fy = f(r * 0.2126 + g * 0.7152 + b * 0.0722);
+  const fz = f((r * 0.0193 + g * 0.1192 + b * 0.9505) / 1.08883);
+  return Math.hypot(500 * (fx - fy), 200 * (fy - fz));
+};
+
+// Mean SSIM over non-overlapping blocks of two equally sized grey images
+const ssim = (a: Float32Array, b: Float32Array, width: number, height: number): number => {
+  const c1 = (0.01 * 255) ** 2;
+  const c2 = (0.03 * 255) ** 2;
+  let total = 0;
+  let blocks = 0;
+  for (let by = 0; by + SSIM_BLOCK <= height; by += SSIM_BLOCK) {
+    for (let bx = 0; bx + SSIM_BLOCK <= width; bx += SSIM_BLOCK) {
+      let ma = 0, mb = 0, va = 0, vb = 0, cov = 0;
+      const n = SSIM_BLOCK * SSIM_BLOCK;
+      for (let y = by; y < by + SSIM_BLOCK; y++) {
+        for (let x = bx; x < bx + SSIM_BLOCK; x++) {
+          ma += a[y * width + x];
+          mb += b[y * width + x];
+        }
+      }
+      ma /= n;
+      mb /= n;
+      for (let y = by; y < by + SSIM_BLOCK; y++) {
+        for (let x = bx; x < bx + SSIM_BLOCK; x++) {
+          const da = a[y * width + x] - ma;
+          const db = b[y * width + x] - mb;
+          va += da * da;
+          vb += db * db;
+          cov += da * db;
+        }
+      }
+      va /= n - 1;
+      vb /= n - 1;
+      cov /= n - 1;
+      total += ((2 * ma * mb + c1) * (2 * cov + c2)) / ((ma * ma + mb * mb + c1) * (va + vb + c2));
+      blocks++;
+    }
+  }
+  return blocks ? Math.max(0, total / blocks) : 0;
+};
+
+// Position of a point in the face's own frame: left eye at (0, 0), right eye at (1, 0)
+const toEyeFrame = (eyes: [PixelPoint, PixelPoint], p: PixelPoint): PixelPoint => {
+  const [left, right] = eyes;
+  const dx = right.x - left.x;
+  const dy = right.y - left.y;
+  const d2 = dx * dx + dy * dy || 1;
+  const px = p.x - left.x;
+  const py = p.y - left.y;
+  return { x: (px * dx + py * dy) / d2, y: (py * dx - px * dy) / d2 };
+};
+
+// Largest landmark displacement between two faces, in eye distances; null without landmarks
+const faceDrift = (a: DetectedFace, b: DetectedFace): number | null => {
+  if (!a.eyes || !b.eyes) return null;
+  const shifts = (['nose', 'mouth'] as const).flatMap(key => {
+    const pa = a[key];
+    const pb = b[key];
+    if (!pa || !pb) return [];
+    const na = toEyeFrame(a.eyes!, pa);
+    const nb = toEyeFrame(b.eyes!, pb);
+    return [Math.hypot(na.x - nb.x, na.y - nb.y)];
+  });
+  return shifts.length ? Math.max(...shifts) : null;
+};
+
+// Face crop with the eyes on fixed points, so framing, rotation and scale do not count as change
+const alignedFace = (img: Image, eyes: [PixelPoint, PixelPoint]): Float32Array => {
+  const [left, right] = eyes;
+  const { ctx } = createCanvas(FACE_SIZE, FACE_SIZE);
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.translate((FACE_SIZE - FACE_EYE_DISTANCE) / 2, FACE_EYE_Y);
+  ctx.rotate(-Math.atan2(right.y - left.y, right.x - left.x));
+  const zoom = FACE_EYE_DISTANCE / (Math.hypot(right.x - left.x, right.y - left.y) || 1);
+  ctx.scale(zoom, zoom);
+  ctx.translate(-left.x, -left.y);
+  ctx.drawImage(img, 0, 0);
+  return toGray(ctx, FACE_SIZE, FACE_SIZE);
+};
+
+const findFaces = async (img: Image): Promise<DetectedFace[]> => {
+  try {
+    return await detectFaces(img);
+  } catch {
+    // No detector available: fall back to whole-frame comparison
+    return [];
+  }
+};
+
+// Compares a result with the image it was made from. Runs entirely in the browser.
+// When both contain a face, similarity is measured on the eye-aligned face of the result
+// against the closest matching face of the input, which also gives the geometry drift.
+export const computeQualityMetrics = async (beforeUrl: string, afterUrl: string): Promise<QualityMetrics> => {
+  const [before, after] = await Promise.all([loadImage(beforeUrl), loadImage(afterUrl)]);
+  const scale = Math.min(1, ANALYSIS_EDGE / Math.max(before.naturalWidth, before.naturalHeight));
+  const width = Math.max(3, Math.round(before.naturalWidth * scale));
+  const height = Math.max(3, Math.round(before.naturalHeight * scale));
+  const beforeCtx = drawScaled(before, width, height);
+  const afterCtx = drawScaled(after, width, height);
+  const beforeGray = toGray(beforeCtx, width, height);
+  const afterGray = toGray(afterCtx, width, height);
+
+  const [beforeFaces, afterFaces] = await Promise.all([findFaces(before), findFaces(after)]);
+  const afterFace = afterFaces.find(f => f.eyes);
+  // The input may show several people; the result is compared with the one it resembles most
+  const candidates = afterFace
+    ? beforeFaces.filter(f => f.eyes).map(face => ({ face, drift: faceDrift(face, afterFace) }))
+    : [];
+  candidates.sort((a, b) => (a.drift ?? Infinity) - (b.drift ?? Infinity));
+  const beforeFace = candidates[0];
+
+  let similarity: number;
+  if (afterFace && beforeFace) {
+    similarity = ssim(alignedFace(before, beforeFace.face.eyes!), alignedFace(after, afterFace.eyes!), FACE_SIZE, FACE_SIZE);
+  } else {
+    const s = Math.min(1, SIMILARITY_EDGE / Math.max(width, height));
+    const w = Math.max(SSIM_BLOCK, Math.round(width * s));
+    const h = Math.max(SSIM_BLOCK, Math.round(height * s));
+    similarity = ssim(toGray(drawScaled(before, w, h), w, h), toGray(drawScaled(after, w, h), w, h), w, h);
+  }
+
+  const drift = beforeFace?.drift ?? null;
+  return {
+    sharpness: { before: laplacianVariance(beforeGray, width, height), after: laplacianVariance(afterGray, width, height) },
+    noise: { before: noiseSigma(beforeGray, width, height), after: noiseSigma(afterGray, width, height) },
+    colorCast: { before: colorCast(beforeCtx, width, height), after: colorCast(afterCtx, width, height) },
+    resolutionGain: Math.sqrt((after.naturalWidth * after.naturalHeight) / (before.naturalWidth * before.naturalHeight)),
+    similarity,
+    similarityBasis: afterFace && beforeFace ? 'face' : 'image',
+    faceDrift: drift,
+    driftFlagged: drift !== null && drift > MAX_FACE_DRIFT
+  };
+};
@@ -0,0 +1,197 @@
+import {
+  AppTab,
+  EditorSettings,
+  EnhancementMode,
+  EnhancementQuality,
+  IDPhotoBackground,
+  IDBackgroundStyle,
+  IDPhotoSettings,
+  IDPhotoSize,
+  OperationSettings,
+  RestorationSettings
+} from "../types";
+import { applyIDPhotoSpec, CUSTOM_SPEC_ID, findIDPhotoSpec, ID_PHOTO_SPECS } from "./idPhotoSpecs";
+
+export type FieldSpec =
+  | { kind: 'enum'; values: readonly string[] }
+  | { kind: 'number'; min: number; max: number }
+  | { kind: 'boolean' }
+  | { kind: 'string'; pattern: RegExp; description: string };
+
+type SettingsSchema<T> = { [K in keyof T]-?: FieldSpec };
+
+const quality: FieldSpec = { kind: 'enum', values: Object.values(EnhancementQuality) };
+const percent: FieldSpec = { kind: 'number', min: 0, max: 100 };
+const flag: FieldSpec = { kind: 'boolean' };
+
+export const ENHANCE_SCHEMA: SettingsSchema<EditorSettings> = {
+  quality,
+  mode: { kind: 'enum', values: Object.values(EnhancementMode) },
+  retouchLevel: percent,
+  sharpenLevel: { kind: 'number', min: 0, max: 200 },
+  upscaleLevel: percent,
+  hyperRealism: flag,
+  colorize: flag,
+  makeup: flag,
+  tiledUpscale: flag
+};
+
+export const ID_PHOTO_SCHEMA: SettingsSchema<IDPhotoSettings> = {
+  specId: { kind: 'enum', values: [CUSTOM_SPEC_ID, ...ID_PHOTO_SPECS.map(spec => spec.id)] },
+  size: { kind: 'enum', values: Object.values(IDPhotoSize) },
+  backgroundColor: { kind: 'enum', values: Object.values(IDPhotoBackground) },
+  backgroundHex: { kind: 'string', pattern: /^(#[0-9A-Fa-f]{6})?$/, description: 'a #RRGGBB colour or empty' },
+  backgroundStyle: { kind: 'enum', values: Object.values(IDBackgroundStyle) },
+  backdropId: { kind: 'string', pattern: /^[\w-]{0,64}$/, description: 'a backdrop id or empty' },
+  quality,
+  skinSmoothing: percent,
+  removeBlemishes: flag,
+  fixLighting: flag
+};
+
+export const RESTORE_SCHEMA: SettingsSchema<RestorationSettings> = {
+  scratchReduction: percent,
+  denoiseLevel: percent,
+  colorRestoration: flag,
+  faceRestoration: flag,
+  sharpenArtifacts: flag,
+  quality
+};
+
+export const SETTINGS_SCHEMAS: Record<AppTab, Record<string, FieldSpec>> = {
+  [AppTab.ENHANCE]: ENHANCE_SCHEMA,
+  [AppTab.ID_PHOTO]: ID_PHOTO_SCHEMA,
+  [AppTab.RESTORE]: RESTORE_SCHEMA
+};
+
+export interface ValidationResult<T> {
+  value: T | null;
+  errors: string[];
+}
+
+// Values the enums had when they doubled as display labels. Presets, projects and
+// API clients from that time still send them, so they are read as the current ids.
+const LEGACY_ENUM_VALUES: Record<string, string> = {
+  '2K (Fast)': EnhancementQuality.Q_2K,
+  '4K (Sharp)': EnhancementQuality.Q_4K,
+  '8K ULTRA HDR': EnhancementQuality.Q_8K,
+  'Upscale Only': EnhancementMode.UPSCALE_ONLY,
+  'Enhance & Restore': EnhancementMode.ENHANCE_RESTORE,
+  '2x3 cm': IDPhotoSize.SIZE_2x3,
+  '3x4 cm': IDPhotoSize.SIZE_3x4,
+  '4x6 cm': IDPhotoSize.SIZE_4x6,
+  '3.5x4.5 cm (Passport)': IDPhotoSize.SIZE_35x45,
+  '3.3x4.8 cm': IDPhotoSize.SIZE_33x48,
+  '5x5 cm (Visa)': IDPhotoSize.SIZE_5x5,
+  'White': IDPhotoBackground.WHITE,
+  'Blue': IDPhotoBackground.BLUE,
+  'Red': IDPhotoBackground.RED,
+  'Black': IDPhotoBackground.BLACK,
+  'Gray': IDPhotoBackground.GRAY
+};
+
+// Rewrites legacy enum values of a settings object; everything else is left for validation
+export const migrateSettings = (tab: AppTab, input: unknown): unknown => {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) return input;
+  const schema = SETTINGS_SCHEMAS[tab];
+  return Object.fromEntries(Object.entries(input).map(([name, value]) =>
+    schema[name]?.kind === 'enum' && typeof value === 'string' && value in LEGACY_ENUM_VALUES
+      ? [name, LEGACY_ENUM_VALUES[value]]
+      : [name, value]
+  ));
+};
+
+// Same for a `{ tab, settings }` pair that is trusted otherwise, e.g. from a stored project
+export const migrateOperation = (operation: OperationSettings): OperationSettings =>
+  ({ ...operation, settings: migrateSettings(operation.tab, operation.settings) } as OperationSettings);
+
+const checkField = (name: string, spec: FieldSpec, value: unknown): string | null => {
+  switch (spec.kind) {
+    case 'enum':
+      return spec.values.includes(value as string)
+        ? null
+        : `${name} must be one of: ${spec.values.map(v => `"${v}"`).join(', ')}`;
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) && value >= spec.min && value <= spec.max
+        ? null
+        : `${name} must be a number between ${spec.min} and ${spec.max}`;
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `${name} must be true or false`;
+    case 'string':
+      return typeof value === 'string' && spec.pattern.test(value) ? null : `${name} must be ${spec.description}`;
+  }
+};
+
+// A document spec fixes the size and allows only its own plain background colours
+const checkSpec = (settings: IDPhotoSettings): string[] => {
+  const spec = findIDPhotoSpec(settings.specId);
+  if (!spec) return [];
+  const errors: string[] = [];
+  if (settings.size !== spec.size) {
+    errors.push(`size must be "${spec.size}" for specId "${spec.id}"`);
+  }
+  if (!spec.backgrounds.includes(settings.backgroundColor)) {
+    errors.push(`backgroundColor must be one of: ${spec.backgrounds.map(bg => `"${bg}"`).join(', ')} for specId "${spec.id}"`);
+  }
+  if (settings.backgroundStyle !== IDBackgroundStyle.SOLID) {
+    errors.push(`backgroundStyle must be "${IDBackgroundStyle.SOLID}" for specId "${spec.id}"`);
+  }
+  return errors;
+};
+
+// Checks `input` against the settings shape of `tab`. Missing fields are taken from
+// `defaults` when given, after a document spec named in `input` has set their size and
+// background; unknown fields are reported so typos do not pass silently.
+export const validateSettings = <T extends OperationSettings['settings']>(
+  tab: AppTab,
+  input: unknown,
+  defaults?: T
+): ValidationResult<T> => {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { value: null, errors: ['settings must be an object'] };
+  }
+  const schema = SETTINGS_SCHEMAS[tab];
+  const source = migrateSettings(tab, input) as Record<string, unknown>;
+  const errors: string[] = [];
+  const value: Record<string, unknown> = {};
+  if (tab === AppTab.ID_PHOTO && defaults && typeof source.specId === 'string') {
+    defaults = applyIDPhotoSpec(defaults as IDPhotoSettings, source.specId) as T;
+  }
+
+  for (const [name, spec] of Object.entries(schema)) {
+    const raw = name in source ? source[name] : (defaults as unknown as Record<string, unknown> | undefined)?.[name];
+    if (raw === undefined) {
+      errors.push(`${name} is required`);
+      continue;
+    }
+    const error = checkField(name, spec, raw);
+    if (error) errors.push(error);
+    value[name] = raw;
+  }
+  for (const name of Object.keys(source)) {
+    if (!(name in schema)) errors.push(`${name} is not a known setting`);
+  }
+  if (tab === AppTab.ID_PHOTO && !errors.length) {
+    errors.push(...checkSpec(value as unknown as IDPhotoSettings));
+  }
+
+  return errors.length ? { value: null, errors } : { value: value as T, errors };
+};
+
+const isAppTab = (value: unknown): value is AppTab =>
+  Object.values(AppTab).includes(value as AppTab);
+
+// Validates a `{ tab, settings }` pair
+export const validateOperation = (
+  input: unknown,
+  defaults?: Partial<Record<AppTab, OperationSettings['settings']>>
+): ValidationResult<OperationSettings> => {
+  const tab = (input as any)?.tab;
+  if (!isAppTab(tab)) {
+    return { value: null, errors: [`tab must be one of: ${Object.values(AppTab).join(', ')}`] };
+  }
+  const result = validateSettings(tab, (input as any).settings, defaults?.[tab]);
+  return result.value
+    ? { value: { tab, settings: result.value } as OperationSettings, errors: [] }
+    : { value: null, errors: result.errors };
+};
@@ -0,0 +1,175 @@
+import { AIErrorKind, EditorSettings, EnhancementQuality } from "../types";
+import { loadImage, createCanvas } from "../utils/canvas";
+import { ImageProvider } from "./providers";
+import { AIServiceError, RetryOptions, withRetry } from "./errors";
+
+// Long edge of the output for each quality
+export const TARGET_LONG_EDGE: Record<EnhancementQuality, number> = {
+  [EnhancementQuality.Q_2K]: 2048,
+  [EnhancementQuality.Q_4K]: 4096,
+  [EnhancementQuality.Q_8K]: 8192
+};
+
+// Output pixels per tile edge: about what the model returns, so tiles are barely resampled
+const TILE_SIZE: Record<EnhancementQuality, number> = {
+  [EnhancementQuality.Q_2K]: 1024,
+  [EnhancementQuality.Q_4K]: 1024,
+  [EnhancementQuality.Q_8K]: 2048
+};
+
+// Minimum shared band between neighbouring tiles, blended with a linear feather
+const TILE_OVERLAP = 128;
+
+// Larger outputs are stored as JPEG; PNG data URLs of this size get too heavy for history and library
+const PNG_MAX_PIXELS = 16_000_000;
+const JPEG_QUALITY = 0.95;
+
+export interface TileRect {
+  index: number;
+  x: number; // Output pixels
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TilePlan {
+  width: number; // Final output size
+  height: number;
+  scale: number; // Output pixels per source pixel
+  columns: number[]; // Left edge of each tile column
+  rows: number[]; // Top edge of each tile row
+  tiles: TileRect[];
+}
+
+// Tile starts along one axis; the last tile is pushed back to end exactly at the edge
+const axisPositions = (total: number, tile: number): number[] => {
+  if (total <= tile) return [0];
+  const stride = tile - TILE_OVERLAP;
+  const count = Math.ceil((total - tile) / stride) + 1;
+  return Array.from({ length: count }, (_, i) => Math.min(i * stride, total - tile));
+};
+
+// Output size for the quality (never smaller than the source) and the tiles covering it
+export const planTiles = (sourceWidth: number, sourceHeight: number, quality: EnhancementQuality): TilePlan => {
+  const scale = Math.max(1, TARGET_LONG_EDGE[quality] / Math.max(sourceWidth, sourceHeight));
+  const width = Math.round(sourceWidth * scale);
+  const height = Math.round(sourceHeight * scale);
+  const tileWidth = Math.min(TILE_SIZE[quality], width);
+  const tileHeight = Math.min(TILE_SIZE[quality], height);
+  const columns = axisPositions(width, tileWidth);
+  const rows = axisPositions(height, tileHeight);
+
+  const tiles: TileRect[] = [];
+  rows.forEach(y => columns.forEach(x => {
+    tiles.push({ index: tiles.length, x, y, width: tileWidth, height: tileHeight });
+  }));
+  return { width, height, scale, columns, rows, tiles };
+};
+
+// One tiled upscale. Finished tiles stay on the job, so a failed or cancelled run can resume.
+export interface TiledJob {
+  sourceUrl: string;
+  settings: EditorSettings;
+  plan: TilePlan;
+  results: (string | null)[]; // Processed tile per plan index
+}
+
+export interface TileProgress {
+  done: number;
+  total: number;
+  tileIndex: number; // Tile that just finished
+}
+
+export interface TiledRunOptions extends Partial<RetryOptions> {
+  onProgress?: (progress: TileProgress) => void;
+}
+
+export const createTiledJob = async (sourceUrl: string, settings: EditorSettings): Promise<TiledJob> => {
+  const img = await loadImage(sourceUrl);
+  const plan = planTiles(img.naturalWidth, img.naturalHeight, settings.quality);
+  return { sourceUrl, settings, plan, results: plan.tiles.map(() => null) };
+};
+
+export const countDoneTiles = (job: TiledJob) => job.results.filter(Boolean).length;
+
+// Cuts the source region under a tile and resamples it to the tile's output size
+const cutTile = (source: HTMLImageElement, plan: TilePlan, tile: TileRect): string => {
+  const { canvas, ctx } = createCanvas(tile.width, tile.height);
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(
+    source,
+    tile.x / plan.scale, tile.y / plan.scale, tile.width / plan.scale, tile.height / plan.scale,
+    0, 0, tile.width, tile.height
+  );
+  return canvas.toDataURL('image/png');
+};
+
+// Fades the tile in over the bands it shares with the tiles above and to the left,
+// which are already on the output; drawing it then blends the seam linearly
+const featherTile = (ctx: CanvasRenderingContext2D, plan: TilePlan, tile: TileRect) => {
+  const col = plan.columns.indexOf(tile.x);
+  const row = plan.rows.indexOf(tile.y);
+  const left = col > 0 ? plan.columns[col - 1] + tile.width - tile.x : 0;
+  const top = row > 0 ? plan.rows[row - 1] + tile.height - tile.y : 0;
+  if (left <= 0 && top <= 0) return;
+
+  const image = ctx.getImageData(0, 0, tile.width, tile.height);
+  const data = image.data;
+  for (let y = 0; y < tile.height; y++) {
+    const ay = top > 0 && y < top ? (y + 0.5) / top : 1;
+    for (let x = 0; x < tile.width; x++) {
+      const ax = left > 0 && x < left ? (x + 0.5) / left : 1;
+      if (ax < 1 || ay < 1) data[(y * tile.width + x) * 4 + 3] *= ax * ay;
+    }
+  }
+  ctx.putImageData(image, 0, 0);
+};
+
+const stitchTiles = async (job: TiledJob): Promise<string> => {
+  const { plan } = job;
+  let output: ReturnType<typeof createCanvas>;
+  try {
+    output = createCanvas(plan.width, plan.height);
+  } catch {
+    throw new AIServiceError(AIErrorKind.INVALID_INPUT, `This browser cannot hold a ${plan.width}×${plan.height} image. Choose a lower quality.`);
+  }
+
+  for (const tile of plan.tiles) {
+    const img = await loadImage(job.results[tile.index]!);
+    const { ctx } = createCanvas(tile.width, tile.height);
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(img, 0, 0, tile.width, tile.height);
+    featherTile(ctx, plan, tile);
+    output.ctx.drawImage(ctx.canvas, tile.x, tile.y);
+  }
+
+  return plan.width * plan.height > PNG_MAX_PIXELS
+    ? output.canvas.toDataURL('image/jpeg', JPEG_QUALITY)
+    : output.canvas.toDataURL('image/png');
+};
+
+// Enhances every unfinished tile in order, each with its own retries, then blends
+// the seams. On failure or cancel the error is thrown and finished tiles are kept.
+export const runTiledJob = async (
+  provider: ImageProvider,
+  job: TiledJob,
+  options: TiledRunOptions = {}
+): Promise<string> => {
+  const { onProgress, ...retryOptions } = options;
+  const source = await loadImage(job.sourceUrl);
+  const total = job.plan.tiles.length;
+
+  for (const tile of job.plan.tiles) {
+    if (job.results[tile.index]) continue;
+    const input = cutTile(source, job.plan, tile);
+    job.results[tile.index] = await withRetry(
+      (signal) => provider.enhance(input, job.settings, { signal, tile: true }),
+      retryOptions
+    );
+    onProgress?.({ done: countDoneTiles(job), total, tileIndex: tile.index });
+  }
+
+  return stitchTiles(job);
+};
@@ -0,0 +1,296 @@
+import {
+  AIErrorKind,
+  AppTab,
+  BudgetMode,
+  BudgetSettings,
+  EditorSettings,
+  IDPhotoSettings,
+  OperationSettings,
+  ProviderKind,
+  RestorationSettings,
+  UsageEntry
+} from "../types";
+import { loadImage } from "../utils/canvas";
+import { formatCurrency, getMessages } from "../i18n";
+import { AIServiceError, classifyError } from "./errors";
+import { ImageProvider, RequestOptions } from "./providers";
+import { CompiledPrompt, GEMINI_MODELS, compileEnhancePrompt, compilePrompt } from "./promptCompiler";
+import { getUploadSize } from "./ingest";
+import { planTiles } from "./tiledUpscale";
+
+const USAGE_KEY = 'longrau.usage';
+const BUDGET_KEY = 'longrau.budget';
+
+// Oldest entries are dropped beyond this, so the log stays well inside localStorage
+const MAX_ENTRIES = 5000;
+
+// Gemini API list prices in USD (paid tier). Estimates only: the bill is what counts.
+interface ModelPrice {
+  inputPerMillionTokens: number;
+  outputImage: (imageSize?: string) => number; // Per generated image
+}
+
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  [GEMINI_MODELS.FLASH_IMAGE]: {
+    inputPerMillionTokens: 0.3,
+    outputImage: () => 0.039
+  },
+  [GEMINI_MODELS.PRO_IMAGE]: {
+    inputPerMillionTokens: 2,
+    outputImage: (imageSize) => (imageSize === '4K' ? 0.24 : 0.134)
+  }
+};
+
+// Rough size of the instruction text of a request
+const PROMPT_TOKENS = 400;
+
+// Images up to 384 px on both sides cost one block; larger ones are cut into 768 px blocks
+const imageInputTokens = (width: number, height: number): number =>
+  width <= 384 && height <= 384 ? 258 : Math.ceil(width / 768) * Math.ceil(height / 768) * 258;
+
+// Cost of one request with the given input size (plus a mask image of the same size)
+export const estimateCallCost = (prompt: CompiledPrompt, width: number, height: number, withMask = false): number => {
+  const price = MODEL_PRICES[prompt.model];
+  if (!price) return 0;
+  const tokens = PROMPT_TOKENS + imageInputTokens(width, height) * (withMask ? 2 : 1);
+  return (tokens / 1_000_000) * price.inputPerMillionTokens + price.outputImage(prompt.imageConfig.imageSize);
+};
+
+// Cost of running an operation on an image of this size, before anything is sent.
+// Tiled upscales make one request per tile.
+export const estimateOperationCost = (operation: OperationSettings, width: number, height: number, withMask = false): number => {
+  if (operation.tab === AppTab.ENHANCE && operation.settings.tiledUpscale) {
+    const plan = planTiles(width, height, operation.settings.quality);
+    const prompt = compileEnhancePrompt(operation.settings, { tile: true });
+    return plan.tiles.reduce((sum, tile) =>
+      sum + estimateCallCost(prompt, Math.round(tile.width / plan.scale), Math.round(tile.height / plan.scale)), 0);
+  }
+  const upload = getUploadSize(width, height, operation);
+  return estimateCallCost(compilePrompt(operation), upload.width, upload.height, withMask);
+};
+
+export const formatUsd = (usd: number): string =>
+  usd > 0 && usd < 0.01 ? `<${formatCurrency(0.01, 'USD')}` : formatCurrency(usd, 'USD');
+
+export const loadUsage = (): UsageEntry[] => {
+  if (typeof localStorage === 'undefined') return [];
+  try {
+    const stored = JSON.parse(localStorage.getItem(USAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter(e => e && typeof e.time === 'number' && typeof e.costUsd === 'number') : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveUsage = (entries: UsageEntry[]) => {
+  if (typeof localStorage === 'undefined') return;
+  try {
+    localStorage.setItem(USAGE_KEY, JSON.stringify(entries.slice(-MAX_ENTRIES)));
+  } catch (err) {
+    console.error("Usage log save failed:", err);
+  }
+};
+
+// Listeners are told after every recorded call, so open views stay current
+const listeners = new Set<() => void>();
+
+export const subscribeUsage = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const recordUsage = (entry: UsageEntry) => {
+  saveUsage([...loadUsage(), entry]);
+  listeners.forEach(listener => listener());
+};
+
+export const clearUsage = () => {
+  saveUsage([]);
+  listeners.forEach(listener => listener());
+};
+
+export const DEFAULT_BUDGET: BudgetSettings = { dailyUsd: 0, monthlyUsd: 0, mode: BudgetMode.WARN };
+
+export const loadBudget = (): BudgetSettings => {
+  if (typeof localStorage === 'undefined') return DEFAULT_BUDGET;
+  try {
+    const stored = JSON.parse(localStorage.getItem(BUDGET_KEY) || 'null');
+    if (stored && typeof stored.dailyUsd === 'number' && typeof stored.monthlyUsd === 'number' &&
+        Object.values(BudgetMode).includes(stored.mode)) {
+      return { dailyUsd: Math.max(0, stored.dailyUsd), monthlyUsd: Math.max(0, stored.monthlyUsd), mode: stored.mode };
+    }
+  } catch {
+    // Fall through to defaults
+  }
+  return DEFAULT_BUDGET;
+};
+
+export const saveBudget = (budget: BudgetSettings) => {
+  if (typeof localStorage === 'undefined') return;
+  localStorage.setItem(BUDGET_KEY, JSON.stringify(budget));
+  listeners.forEach(listener => listener());
+};
+
+// Local calendar day and month, which is what "today" means to the user
+export const dayKey = (time: number): string => {
+  const d = new Date(time);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+export const monthKey = (time: number): string => dayKey(time).slice(0, 7);
+
+export interface UsageTotals {
+  costUsd: number;
+  calls: number;
+  failed: number;
+}
+
+export const sumUsage = (entries: UsageEntry[]): UsageTotals => ({
+  costUsd: entries.reduce((sum, e) => sum + e.costUsd, 0),
+  calls: entries.length,
+  failed: entries.filter(e => e.errorKind).length
+});
+
+export const getSpending = (entries: UsageEntry[], now = Date.now()) => ({
+  today: sumUsage(entries.filter(e => dayKey(e.time) === dayKey(now))),
+  month: sumUsage(entries.filter(e => monthKey(e.time) === monthKey(now)))
+});
+
+export interface BudgetCheck {
+  exceeds: 'daily' | 'monthly' | null;
+  blocked: boolean;
+  message: string | null;
+}
+
+// Whether spending `estimateUsd` more would go over a cap
+export const checkBudget = (
+  estimateUsd: number,
+  budget: BudgetSettings = loadBudget(),
+  entries: UsageEntry[] = loadUsage(),
+  now = Date.now()
+): BudgetCheck => {
+  const { today, month } = getSpending(entries, now);
+  const over = (spent: number, cap: number) => cap > 0 && spent + estimateUsd > cap;
+  const exceeds = over(today.costUsd, budget.dailyUsd) ? 'daily' : over(month.costUsd, budget.monthlyUsd) ? 'monthly' : null;
+  if (!exceeds) return { exceeds: null, blocked: false, message: null };
+  const spent = exceeds === 'daily' ? today.costUsd : month.costUsd;
+  const cap = exceeds === 'daily' ? budget.dailyUsd : budget.monthlyUsd;
+  return {
+    exceeds,
+    blocked: budget.mode === BudgetMode.BLOCK,
+    message: getMessages().usage.budget(exceeds === 'monthly', formatUsd(cap), formatUsd(spent), formatUsd(estimateUsd))
+  };
+};
+
+const dataUrlBytes = (dataUrl: string) => Math.floor((dataUrl.length - dataUrl.indexOf(',') - 1) * 3 / 4);
+
+const imageSize = async (dataUrl: string) => {
+  try {
+    const img = await loadImage(dataUrl);
+    return { width: img.naturalWidth, height: img.naturalHeight };
+  } catch {
+    return { width: null, height: null };
+  }
+};
+
+// Only Gemini is billed per request; mock and self-hosted backends are recorded at no cost
+export const isBilledProvider = (kind: ProviderKind) => kind === ProviderKind.GEMINI;
+
+// Total estimate for running an operation on several images, e.g. a batch
+export const estimateImagesCost = async (operation: OperationSettings, imageUrls: string[]): Promise<number> => {
+  const sizes = await Promise.all(imageUrls.map(imageSize));
+  return sizes.reduce((sum, { width, height }) =>
+    sum + (width && height ? estimateOperationCost(operation, width, height) : 0), 0);
+};
+
+// Wraps a provider so every call is checked against the budget and recorded with its
+// model, sizes, duration and estimated cost. Blocking caps refuse the call before it is sent.
+export const meterProvider = (provider: ImageProvider): ImageProvider => {
+  const metered = async (
+    tab: AppTab,
+    prompt: CompiledPrompt,
+    image: string,
+    options: RequestOptions | undefined,
+    call: () => Promise<string>
+  ): Promise<string> => {
+    const input = await imageSize(image);
+    const callCost = isBilledProvider(provider.kind) && input.width && input.height
+      ? estimateCallCost(prompt, input.width, input.height, !!options?.mask)
+      : 0;
+    const budget = checkBudget(callCost);
+    if (budget.blocked) throw new AIServiceError(AIErrorKind.BUDGET, budget.message!);
+
+    const started = Date.now();
+    const entry: UsageEntry = {
+      id: `${started.toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+      time: started,
+      provider: provider.kind,
+      tab,
+      model: prompt.model,
+      tile: !!options?.tile,
+      inputBytes: dataUrlBytes(image),
+      inputWidth: input.width,
+      inputHeight: input.height,
+      outputBytes: 0,
+      outputWidth: null,
+      outputHeight: null,
+      durationMs: 0,
+      costUsd: 0,
+      errorKind: null
+    };
+    try {
+      const result = await call();
+      const output = await imageSize(result);
+      recordUsage({
+        ...entry,
+        outputBytes: dataUrlBytes(result),
+        outputWidth: output.width,
+        outputHeight: output.height,
+        durationMs: Date.now() - started,
+        costUsd: callCost
+      });
+      return result;
+    } catch (err) {
+      const error = classifyError(err);
+      // Requests that never reached the model cost nothing; the rest may still be billed for input
+      const billedInput = error.kind === AIErrorKind.SAFETY || error.kind === AIErrorKind.TEXT_ONLY;
+      const price = MODEL_PRICES[prompt.model];
+      recordUsage({
+        ...entry,
+        durationMs: Date.now() - started,
+        costUsd: billedInput && price ? callCost - price.outputImage(prompt.imageConfig.imageSize) : 0,
+        errorKind: error.kind
+      });
+      throw err;
+    }
+  };
+
+  return {
+    kind: provider.kind,
+    enhance: (image: string, settings: EditorSettings, options?: RequestOptions) =>
+      metered(AppTab.ENHANCE, compileEnhancePrompt(settings, { tile: options?.tile }), image, options,
+        () => provider.enhance(image, settings, options)),
+    generateIDPhoto: (image: string, settings: IDPhotoSettings, options?: RequestOptions) =>
+      metered(AppTab.ID_PHOTO, compilePrompt({ tab: AppTab.ID_PHOTO, settings }), image, options,
+        () => provider.generateIDPhoto(image, settings, options)),
+    restore: (image: string, settings: RestorationSettings, options?: RequestOptions) =>
+      metered(AppTab.RESTORE, compilePrompt({ tab: AppTab.RESTORE, settings }), image, options,
+        () => provider.restore(image, settings, options))
+  };
+};
+
+const CSV_COLUMNS: (keyof UsageEntry)[] = [
+  'time', 'provider', 'tab', 'model', 'tile', 'inputBytes', 'inputWidth', 'inputHeight',
+  'outputBytes', 'outputWidth', 'outputHeight', 'durationMs', 'costUsd', 'errorKind'
+];
+
+export const usageToCsv = (entries: UsageEntry[]): string => {
+  const rows = entries.map(e => CSV_COLUMNS.map(column => {
+    const value = e[column];
+    if (column === 'time') return new Date(e.time).toISOString();
+    return value === null ? '' : String(value);
+  }).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+};
@@ -0,0 +1,42 @@
+import { AppErrorCode } from "../types";
+import { loadImage, createCanvas } from "../utils/canvas";
+import { AppError } from "./errors";
+import { getBackgroundMask } from "./idBackground";
+import { compositeWithMask } from "./maskCompositing";
+
+export const MAX_VARIANTS = 4;
+
+// Background colours closer than this look the same, so mixing them would change next to nothing.
+// ID photo variants land here: the post-pass corrects all of them to the same target.
+const MIN_BACKGROUND_DIFFERENCE = 24;
+
+// Flat background colour of each variant, or null where none is found: the mask is a flood fill
+// that needs a plain backdrop, which most enhance and restore photos do not have
+export const findVariantBackgrounds = (imageUrls: string[]): Promise<(number[] | null)[]> =>
+  Promise.all(imageUrls.map(async url => (await getBackgroundMask(url))?.color ?? null));
+
+// Whether mixing two variants with these backgrounds (from findVariantBackgrounds) does anything
+export const canMixBackgrounds = (base: number[] | null, background: number[] | null): boolean =>
+  !!base && !!background &&
+  Math.hypot(base[0] - background[0], base[1] - background[1], base[2] - background[2]) >= MIN_BACKGROUND_DIFFERENCE;
+
+// Keeps the person and everything else of `baseUrl`, with the background of `backgroundUrl`.
+// Only pixels that are background in both images are taken over, so the other variant's
+// subject never shows through where the two framings differ.
+export const mixVariantBackground = async (baseUrl: string, backgroundUrl: string): Promise<string> => {
+  const [baseMask, otherMask] = await Promise.all([getBackgroundMask(baseUrl), getBackgroundMask(backgroundUrl)]);
+  if (!baseMask || !otherMask) {
+    throw new AppError(AppErrorCode.NO_PLAIN_BACKGROUND, 'No clear background found in one of the variants, so they cannot be mixed.');
+  }
+
+  const base = await loadImage(baseUrl);
+  const { canvas, ctx } = createCanvas(base.naturalWidth, base.naturalHeight);
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(await loadImage(baseMask.maskUrl), 0, 0, canvas.width, canvas.height);
+  // Multiplying two black and white masks keeps their overlap
+  ctx.globalCompositeOperation = 'multiply';
+  ctx.drawImage(await loadImage(otherMask.maskUrl), 0, 0, canvas.width, canvas.height);
+
+  return compositeWithMask(baseUrl, backgroundUrl, canvas.toDataURL('image/png'));
+};
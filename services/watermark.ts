@@ -0,0 +1,148 @@
+import { WatermarkKind, WatermarkPosition, WatermarkSettings } from "../types";
+import { createCanvas, loadImage, canvasToBlob } from "../utils/canvas";
+import { readFileAsDataUrl } from "../utils/file";
+
+export const DEFAULT_WATERMARK: WatermarkSettings = {
+  kind: WatermarkKind.NONE,
+  text: 'LongRau',
+  logoUrl: null,
+  position: WatermarkPosition.BOTTOM_RIGHT,
+  opacity: 50,
+  size: 25,
+  tiled: false,
+  proof: false
+};
+
+// Proofs are shrunk to this longest side and get at least this strong a mark
+const PROOF_MAX_SIDE = 1200;
+const PROOF_MIN_OPACITY = 45;
+const PROOF_MIN_SIZE = 35;
+const PROOF_TEXT = 'PROOF'; // When no text or logo is set
+
+// Logos are kept in the saved export settings, so they are stored small
+const LOGO_MAX_SIDE = 512;
+
+const MARGIN = 0.03; // Of the shorter image side, for single marks
+const TILE_ANGLE = -Math.PI / 6;
+
+type Surface = ReturnType<typeof createCanvas>;
+
+interface Mark {
+  width: number;
+  height: number;
+  draw: (ctx: CanvasRenderingContext2D, centerX: number, centerY: number) => void;
+}
+
+// Logo upload as a PNG data URL no larger than LOGO_MAX_SIDE, transparency kept
+export const prepareLogo = async (file: Blob): Promise<string> => {
+  const img = await loadImage(await readFileAsDataUrl(file));
+  const scale = Math.min(1, LOGO_MAX_SIDE / Math.max(img.naturalWidth, img.naturalHeight));
+  const { canvas, ctx } = createCanvas(Math.max(1, Math.round(img.naturalWidth * scale)), Math.max(1, Math.round(img.naturalHeight * scale)));
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return readFileAsDataUrl(await canvasToBlob(canvas, 'image/png'));
+};
+
+// Settings a proof is drawn with: always a tiled mark, never fainter or smaller than the minimum
+const effectiveSettings = (settings: WatermarkSettings): WatermarkSettings =>
+  settings.proof
+    ? {
+        ...settings,
+        kind: settings.kind === WatermarkKind.LOGO && settings.logoUrl ? WatermarkKind.LOGO : WatermarkKind.TEXT,
+        text: settings.text.trim() || PROOF_TEXT,
+        tiled: true,
+        opacity: Math.max(settings.opacity, PROOF_MIN_OPACITY),
+        size: Math.max(settings.size, PROOF_MIN_SIZE)
+      }
+    : settings;
+
+// White text with a dark outline, or the logo, scaled to `width`; null when there is nothing to draw
+const buildMark = async (settings: WatermarkSettings, width: number): Promise<Mark | null> => {
+  if (settings.kind === WatermarkKind.LOGO) {
+    if (!settings.logoUrl) return null;
+    const logo = await loadImage(settings.logoUrl);
+    const height = width * logo.naturalHeight / logo.naturalWidth;
+    return { width, height, draw: (ctx, x, y) => ctx.drawImage(logo, x - width / 2, y - height / 2, width, height) };
+  }
+
+  const text = settings.text.trim();
+  if (settings.kind !== WatermarkKind.TEXT || !text) return null;
+  const { ctx: measure } = createCanvas(1, 1);
+  measure.font = 'bold 100px sans-serif';
+  const fontSize = Math.max(8, 100 * width / measure.measureText(text).width);
+  const font = `bold ${fontSize}px sans-serif`;
+  return {
+    width,
+    height: fontSize * 1.2,
+    draw: (ctx, x, y) => {
+      ctx.font = font;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.lineJoin = 'round';
+      ctx.lineWidth = Math.max(1, fontSize / 14);
+      ctx.strokeStyle = 'rgba(0, 0, 0, 0.6)';
+      ctx.strokeText(text, x, y);
+      ctx.fillStyle = '#FFFFFF';
+      ctx.fillText(text, x, y);
+    }
+  };
+};
+
+const markCenter = (position: WatermarkPosition, mark: Mark, width: number, height: number) => {
+  const margin = Math.min(width, height) * MARGIN;
+  const left = margin + mark.width / 2;
+  const right = width - margin - mark.width / 2;
+  const top = margin + mark.height / 2;
+  const bottom = height - margin - mark.height / 2;
+  switch (position) {
+    case WatermarkPosition.TOP_LEFT: return { x: left, y: top };
+    case WatermarkPosition.TOP_RIGHT: return { x: right, y: top };
+    case WatermarkPosition.BOTTOM_LEFT: return { x: left, y: bottom };
+    case WatermarkPosition.BOTTOM_RIGHT: return { x: right, y: bottom };
+    default: return { x: width / 2, y: height / 2 };
+  }
+};
+
+// Whether these settings draw anything
+export const hasWatermark = (settings: WatermarkSettings): boolean =>
+  settings.proof ||
+  (settings.kind === WatermarkKind.TEXT && !!settings.text.trim()) ||
+  (settings.kind === WatermarkKind.LOGO && !!settings.logoUrl);
+
+// Draws the visible watermark. Proofs are first shrunk to PROOF_MAX_SIDE, so the
+// returned surface may be a new, smaller one.
+export const applyWatermark = async (surface: Surface, settings: WatermarkSettings): Promise<Surface> => {
+  const effective = effectiveSettings(settings);
+  let target = surface;
+  const longest = Math.max(surface.canvas.width, surface.canvas.height);
+  if (effective.proof && longest > PROOF_MAX_SIDE) {
+    const scale = PROOF_MAX_SIDE / longest;
+    target = createCanvas(Math.round(surface.canvas.width * scale), Math.round(surface.canvas.height * scale));
+    target.ctx.imageSmoothingEnabled = true;
+    target.ctx.imageSmoothingQuality = 'high';
+    target.ctx.drawImage(surface.canvas, 0, 0, target.canvas.width, target.canvas.height);
+  }
+
+  const { canvas, ctx } = target;
+  const mark = await buildMark(effective, canvas.width * Math.min(100, Math.max(1, effective.size)) / 100);
+  if (!mark) return target;
+
+  ctx.save();
+  ctx.globalAlpha = Math.min(100, Math.max(0, effective.opacity)) / 100;
+  if (effective.tiled) {
+    // Staggered rows on a rotated grid large enough to cover the corners
+    ctx.translate(canvas.width / 2, canvas.height / 2);
+    ctx.rotate(TILE_ANGLE);
+    const reach = Math.hypot(canvas.width, canvas.height) / 2;
+    const stepX = mark.width * 1.5;
+    const stepY = mark.height * 2.5;
+    for (let row = 0, y = -reach; y <= reach + stepY; row++, y += stepY) {
+      const offset = row % 2 ? stepX / 2 : 0;
+      for (let x = -reach - offset; x <= reach + stepX; x += stepX) mark.draw(ctx, x, y);
+    }
+  } else {
+    const { x, y } = markCenter(effective.position, mark, canvas.width, canvas.height);
+    mark.draw(ctx, x, y);
+  }
+  ctx.restore();
+  return target;
+};
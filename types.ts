@@ -1,29 +1,64 @@
 
+// Enum values are stable identifiers stored in presets, projects and API requests.
+// Display names come from the message catalogs in i18n/.
 export enum EnhancementQuality {
-  Q_2K = '2K (Fast)',
-  Q_4K = '4K (Sharp)',
-  Q_8K = '8K ULTRA HDR'
+  Q_2K = '2k',
+  Q_4K = '4k',
+  Q_8K = '8k'
 }
 
 export enum EnhancementMode {
-  UPSCALE_ONLY = 'Upscale Only',
-  ENHANCE_RESTORE = 'Enhance & Restore'
+  UPSCALE_ONLY = 'upscale_only',
+  ENHANCE_RESTORE = 'enhance_restore'
 }
 
 export enum IDPhotoSize {
-  SIZE_2x3 = '2x3 cm',
-  SIZE_3x4 = '3x4 cm',
-  SIZE_4x6 = '4x6 cm',
-  SIZE_35x45 = '3.5x4.5 cm (Passport)',
-  SIZE_5x5 = '5x5 cm (Visa)'
+  SIZE_2x3 = '2x3',
+  SIZE_3x4 = '3x4',
+  SIZE_4x6 = '4x6',
+  SIZE_35x45 = '35x45',
+  SIZE_33x48 = '33x48',
+  SIZE_5x5 = '5x5'
 }
 
 export enum IDPhotoBackground {
-  WHITE = 'White',
-  BLUE = 'Blue',
-  RED = 'Red',
-  BLACK = 'Black',
-  GRAY = 'Gray'
+  WHITE = 'white',
+  BLUE = 'blue',
+  RED = 'red',
+  BLACK = 'black',
+  GRAY = 'gray'
+}
+
+// How the background behind the person is filled. Gradients and backdrops are for
+// profile and studio photos; document specs require a plain colour.
+export enum IDBackgroundStyle {
+  SOLID = 'solid',
+  GRADIENT = 'gradient',
+  IMAGE = 'image'
+}
+
+// User-uploaded backdrop image for ID photos
+export interface Backdrop {
+  id: string;
+  name: string;
+  dataUrl: string; // Downscaled JPEG
+  createdAt: number;
+}
+
+export enum PaperSize {
+  IN_4x6 = '4x6in',
+  CM_10x15 = '10x15cm',
+  A4 = 'a4'
+}
+
+export enum PrintDPI {
+  DPI_300 = 300,
+  DPI_600 = 600
+}
+
+export enum PrintExportFormat {
+  PNG = 'PNG',
+  PDF = 'PDF'
 }
 
 export enum AppTab {
@@ -32,6 +67,59 @@ export enum AppTab {
   RESTORE = 'restore'
 }
 
+export enum ProviderKind {
+  GEMINI = 'gemini',
+  MOCK = 'mock',
+  HTTP = 'http'
+}
+
+export interface ProviderConfig {
+  kind: ProviderKind;
+  httpBaseUrl: string; // Only used by the HTTP provider
+}
+
+export enum AIErrorKind {
+  MISSING_KEY = 'missing_key',
+  QUOTA = 'quota',
+  SAFETY = 'safety',
+  TEXT_ONLY = 'text_only',
+  NETWORK = 'network',
+  TIMEOUT = 'timeout',
+  SERVER = 'server',
+  CANCELLED = 'cancelled',
+  INVALID_INPUT = 'invalid_input',
+  BUDGET = 'budget', // Stopped locally by a spending cap; never sent
+  UNKNOWN = 'unknown'
+}
+
+// Failures of the app's own steps, shown in the current language through the message catalogs
+export enum AppErrorCode {
+  UNSUPPORTED_IMAGE = 'unsupported_image',
+  IMAGE_NOT_DECODABLE = 'image_not_decodable',
+  CANNOT_ENCODE_FORMAT = 'cannot_encode_format',
+  TARGET_SIZE_TOO_SMALL = 'target_size_too_small',
+  TARGET_SIZE_UNREACHABLE = 'target_size_unreachable',
+  PRESET_FILE_NOT_JSON = 'preset_file_not_json',
+  NOT_A_PRESET_FILE = 'not_a_preset_file',
+  PRESET_FILE_TOO_NEW = 'preset_file_too_new',
+  PHOTO_DOES_NOT_FIT = 'photo_does_not_fit',
+  NO_PLAIN_BACKGROUND = 'no_plain_background',
+  PROJECT_NOT_FOUND = 'project_not_found',
+  PROJECT_IMAGES_MISSING = 'project_images_missing',
+  FACE_DETECTION_UNAVAILABLE = 'face_detection_unavailable'
+}
+
+// Values an AppErrorCode's message is filled in with
+export type AppErrorParams = Record<string, string | number>;
+
+// Serializable form of a failure, kept in UI state
+export interface ProcessingError {
+  kind: AIErrorKind;
+  message: string; // Raw message from the backend, shown as details
+  code?: AppErrorCode; // Set for the app's own failures, which have a translated message
+  params?: AppErrorParams;
+}
+
 export interface EditorSettings {
   quality: EnhancementQuality;
   mode: EnhancementMode;
@@ -41,17 +129,101 @@ export interface EditorSettings {
   hyperRealism: boolean;
   colorize: boolean;
   makeup: boolean;
+  tiledUpscale: boolean; // Process in overlapping tiles to reach the quality's true pixel size
 }
 
 export interface IDPhotoSettings {
+  specId: string; // Document spec from the catalog (services/idPhotoSpecs); '' = custom size and background
   size: IDPhotoSize;
   backgroundColor: IDPhotoBackground;
+  backgroundHex: string; // Exact '#RRGGBB' target; '' = standard shade of backgroundColor
+  backgroundStyle: IDBackgroundStyle;
+  backdropId: string; // Backdrop image for the IMAGE style
   quality: EnhancementQuality;
   skinSmoothing: number; // 0-100
   removeBlemishes: boolean; // Acne, moles, etc.
   fixLighting: boolean;
 }
 
+export enum IDDocumentType {
+  PASSPORT = 'passport',
+  VISA = 'visa',
+  ID_CARD = 'id_card',
+  PROFILE = 'profile'
+}
+
+export interface NumberRange {
+  min: number;
+  max: number;
+}
+
+// Photo rules of one document. Lengths are millimetres on the printed photo.
+export interface IDPhotoSpec {
+  id: string;
+  country: string; // ISO 3166-1 alpha-2, empty for custom
+  countryName: string;
+  documentType: IDDocumentType;
+  name: string;
+  size: IDPhotoSize;
+  headHeightMm: NumberRange; // Chin to crown, including hair
+  eyeLineMm: NumberRange; // Measured up from the bottom edge
+  backgrounds: IDPhotoBackground[];
+  glassesAllowed: boolean;
+  smilingAllowed: boolean;
+}
+
+export enum ComplianceStatus {
+  PASS = 'pass',
+  WARN = 'warn',
+  FAIL = 'fail',
+  MANUAL = 'manual' // Cannot be measured; needs a human check
+}
+
+export interface ComplianceCheck {
+  id: string;
+  label: string;
+  status: ComplianceStatus;
+  detail: string;
+}
+
+// Measurements of a generated ID photo against its spec
+export interface ComplianceReport {
+  specId: string;
+  status: ComplianceStatus;
+  headHeightMm: number | null;
+  eyeLineMm: number | null;
+  crownMarginMm: number | null;
+  centerOffsetMm: number | null;
+  backgroundHex: string;
+  checks: ComplianceCheck[];
+}
+
+export interface PixelPoint {
+  x: number;
+  y: number;
+}
+
+// Face found by on-device detection, in pixels of the image it was found in
+export interface DetectedFace {
+  box: { x: number; y: number; width: number; height: number };
+  eyes: [PixelPoint, PixelPoint] | null; // Left, then right as seen in the image; null if not located
+  nose: PixelPoint | null;
+  mouth: PixelPoint | null;
+  score: number; // Detection confidence, 0-1
+}
+
+// Objective comparison of a result with the image it was made from, computed locally
+export interface QualityMetrics {
+  sharpness: { before: number; after: number }; // Variance of the Laplacian at a common size
+  noise: { before: number; after: number }; // Estimated noise sigma on the 0-255 scale
+  colorCast: { before: number; after: number }; // Chroma of the average colour (Lab); 0 is neutral
+  resolutionGain: number; // Linear size of the result relative to its input
+  similarity: number; // Structural similarity (SSIM) after alignment, 0-1
+  similarityBasis: 'face' | 'image'; // Faces aligned on the eyes, or the whole frame
+  faceDrift: number | null; // Largest nose / mouth shift in eye distances; null without landmarks
+  driftFlagged: boolean;
+}
+
 export interface RestorationSettings {
   scratchReduction: number; // 0-100
   denoiseLevel: number; // 0-100
@@ -61,9 +233,214 @@ export interface RestorationSettings {
   quality: EnhancementQuality;
 }
 
-export interface ImageState {
-  originalUrl: string | null;
+export interface PrintLayoutSettings {
+  paper: PaperSize;
+  dpi: PrintDPI;
+  copies: number; // 0 = fill the sheet
+  cutGuides: boolean;
+  format: PrintExportFormat;
+}
+
+// A single operation together with the settings snapshot it runs with
+export type OperationSettings =
+  | { tab: AppTab.ENHANCE; settings: EditorSettings }
+  | { tab: AppTab.ID_PHOTO; settings: IDPhotoSettings }
+  | { tab: AppTab.RESTORE; settings: RestorationSettings };
+
+export enum BatchItemStatus {
+  PENDING = 'pending',
+  PROCESSING = 'processing',
+  DONE = 'done',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled'
+}
+
+export interface BatchItem {
+  id: string;
+  fileName: string;
+  originalUrl: string;
   processedUrl: string | null;
+  processedTab: AppTab | null; // Operation the result was made with, which may not be the current tab
+  status: BatchItemStatus;
+  error: ProcessingError | null;
+  durationMs: number | null;
+}
+
+// Rectangle as fractions (0-1) of the frame it is cut from
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CurvePoint {
+  x: number; // Input level 0-255
+  y: number; // Output level 0-255
+}
+
+// Local, non-AI edits. Stored as parameters on the version so they can be reopened and changed.
+export interface ImageAdjustments {
+  rotation: number; // Quarter turns clockwise, 0-3
+  flipHorizontal: boolean;
+  straighten: number; // Degrees, -45 to 45; the frame shrinks so no corners show
+  crop: CropRect; // Of the rotated and straightened frame
+  exposure: number; // EV, -2 to 2
+  contrast: number; // -100 to 100
+  saturation: number; // -100 to 100
+  temperature: number; // -100 (cool) to 100 (warm)
+  tint: number; // -100 (green) to 100 (magenta)
+  levels: { black: number; white: number; gamma: number }; // Input levels 0-255; gamma 0.1-10
+  curve: CurvePoint[]; // Tone curve, sorted by x; includes both end points
+}
+
+export interface HistoryVersion {
+  id: string;
+  parentId: string | null; // null for the uploaded original
+  operation: OperationSettings | null; // null for the uploaded original and for local adjustments
+  adjustments?: ImageAdjustments; // Set for local adjustments of the parent image
+  variantGroup?: string; // Shared by the candidates of one multi-variant run
+  mixedFrom?: { baseId: string; backgroundId: string }; // Variant combined from two others
+  starred?: boolean;
+  metrics?: QualityMetrics; // Compared with the parent, filled in after the version is added
+  imageUrl: string;
+  createdAt: number;
+}
+
+// Version tree for one image; every operation adds a child of the version it ran on
+export interface EditHistory {
+  versions: Record<string, HistoryVersion>;
+  order: string[]; // Version ids in creation order
+  rootId: string;
+  currentId: string;
+  redoStack: string[];
+}
+
+// Saved job in the local library; version images are stored separately as blobs
+export interface LibraryProject {
+  id: string; // Same as the history's root version id
+  name: string;
+  tags: string[];
+  createdAt: number;
+  updatedAt: number;
+  lastOpenedAt: number;
+  history: EditHistory; // imageUrl fields are empty in storage
+  thumbnailUrl: string;
+  sizeBytes: number;
+}
+
+// Named settings snapshot for one tab. Built-in presets ship with the app and are read-only.
+export interface SettingsPreset {
+  id: string;
+  name: string;
+  builtIn: boolean;
+  updatedAt: number;
+  operation: OperationSettings;
+}
+
+export interface StorageUsage {
+  usedBytes: number;
+  quotaBytes: number;
+  libraryBytes: number;
+  persisted: boolean;
+}
+
+export interface ImageState {
+  history: EditHistory | null;
   isProcessing: boolean;
-  error: string | null;
+  error: ProcessingError | null;
+}
+
+// What happens to camera metadata (EXIF, GPS) of uploaded photos
+export enum MetadataPolicy {
+  STRIP = 'strip',
+  KEEP = 'keep'
+}
+
+// How an uploaded file was normalized
+export interface IngestInfo {
+  fileName: string;
+  sourceFormat: string; // Sniffed from the file bytes, e.g. 'heic'
+  originalWidth: number; // Upright size, after EXIF orientation
+  originalHeight: number;
+  width: number; // Size of the stored image
+  height: number;
+  orientation: number; // EXIF orientation that was applied, 1 = none
+  metadataKept: boolean;
+  bytes: number; // Original file size
+}
+
+export enum ExportFormat {
+  JPEG = 'JPEG',
+  WEBP = 'WebP',
+  AVIF = 'AVIF',
+  PNG = 'PNG',
+  TIFF = 'TIFF'
+}
+
+export enum WatermarkKind {
+  NONE = 'none',
+  TEXT = 'text',
+  LOGO = 'logo'
+}
+
+export enum WatermarkPosition {
+  CENTER = 'center',
+  TOP_LEFT = 'top_left',
+  TOP_RIGHT = 'top_right',
+  BOTTOM_LEFT = 'bottom_left',
+  BOTTOM_RIGHT = 'bottom_right'
+}
+
+// Visible branding drawn over exports
+export interface WatermarkSettings {
+  kind: WatermarkKind;
+  text: string;
+  logoUrl: string | null; // Data URL, downscaled on upload
+  position: WatermarkPosition; // Ignored when tiled
+  opacity: number; // 0-100
+  size: number; // Width of one mark, % of the image width
+  tiled: boolean; // Repeat diagonally over the whole image
+  proof: boolean; // Customer proof: reduced resolution and a heavy tiled mark, whatever the settings above
+}
+
+export interface ExportSettings {
+  format: ExportFormat;
+  quality: number; // 1-100, lossy formats only
+  targetSizeKb: number; // 0 = off; otherwise lower quality (then size) until the file fits
+  embedSrgb: boolean; // Tag the file as sRGB (ICC profile, or the sRGB chunk for PNG)
+  copyExif: boolean; // Capture date and camera data from the original upload
+  fileNameTemplate: string; // Tokens: {tab} {customer} {project} {date} {time}
+  watermark: WatermarkSettings;
+  invisibleMark: boolean; // Hide the job ID and export time in the pixels, for the checker
+}
+
+// One model call, as recorded by the usage meter
+export interface UsageEntry {
+  id: string;
+  time: number;
+  provider: ProviderKind;
+  tab: AppTab;
+  model: string;
+  tile: boolean;
+  inputBytes: number;
+  inputWidth: number | null;
+  inputHeight: number | null;
+  outputBytes: number;
+  outputWidth: number | null;
+  outputHeight: number | null;
+  durationMs: number;
+  costUsd: number; // Estimate from list prices; 0 for backends that are not billed per call
+  errorKind: AIErrorKind | null; // null on success
+}
+
+export enum BudgetMode {
+  WARN = 'warn', // Ask before a request that would go over
+  BLOCK = 'block' // Refuse it
+}
+
+export interface BudgetSettings {
+  dailyUsd: number; // 0 = no cap
+  monthlyUsd: number; // 0 = no cap
+  mode: BudgetMode;
 }
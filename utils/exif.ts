@@ -0,0 +1,219 @@
+// Minimal EXIF handling: find the TIFF block in a JPEG, read and reset its
+// orientation, copy selected tags and write the block into a re-encoded JPEG,
+// or drop the metadata segments from a JPEG that is kept as it is.
+
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00]; // "Exif\0\0"
+const ORIENTATION_TAG = 0x0112;
+
+const isJpeg = (bytes: Uint8Array) => bytes[0] === 0xff && bytes[1] === 0xd8;
+
+// Returns the TIFF payload of the JPEG's Exif APP1 segment, or null if there is none
+export const readJpegExif = (bytes: Uint8Array): Uint8Array | null => {
+  if (!isJpeg(bytes)) return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    // Start of scan: no more metadata segments
+    if (marker === 0xda) break;
+    const length = view.getUint16(offset + 2);
+    const start = offset + 4;
+    if (marker === 0xe1 && EXIF_HEADER.every((b, i) => bytes[start + i] === b)) {
+      return bytes.slice(start + EXIF_HEADER.length, offset + 2 + length);
+    }
+    offset += 2 + length;
+  }
+  return null;
+};
+
+// Offset of the orientation value in IFD0, with the TIFF byte order
+const findOrientation = (tiff: Uint8Array): { offset: number; little: boolean } | null => {
+  if (tiff.length < 8) return null;
+  const little = tiff[0] === 0x49; // "II" = little endian, "MM" = big endian
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const ifd = view.getUint32(4, little);
+  if (ifd + 2 > tiff.length) return null;
+  const count = view.getUint16(ifd, little);
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > tiff.length) return null;
+    if (view.getUint16(entry, little) === ORIENTATION_TAG) {
+      return { offset: entry + 8, little };
+    }
+  }
+  return null;
+};
+
+// EXIF orientation 1-8; 1 (upright) when absent
+export const getExifOrientation = (tiff: Uint8Array): number => {
+  const found = findOrientation(tiff);
+  if (!found) return 1;
+  const value = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength).getUint16(found.offset, found.little);
+  return value >= 1 && value <= 8 ? value : 1;
+};
+
+// Copy of the TIFF block marked upright, for pixels that already have the rotation applied
+export const resetExifOrientation = (tiff: Uint8Array): Uint8Array => {
+  const copy = tiff.slice();
+  const found = findOrientation(copy);
+  if (found) {
+    new DataView(copy.buffer).setUint16(found.offset, 1, found.little);
+  }
+  return copy;
+};
+
+// Inserts an Exif APP1 segment right after SOI, replacing any existing one
+export const insertJpegExif = (bytes: Uint8Array, tiff: Uint8Array): Uint8Array => {
+  if (!isJpeg(bytes)) {
+    throw new Error("Not a JPEG file.");
+  }
+  const segmentLength = 2 + EXIF_HEADER.length + tiff.length;
+  if (segmentLength > 0xffff) {
+    throw new Error("EXIF block is too large for a JPEG segment.");
+  }
+  const segment = new Uint8Array(2 + segmentLength);
+  segment[0] = 0xff;
+  segment[1] = 0xe1;
+  new DataView(segment.buffer).setUint16(2, segmentLength);
+  segment.set(EXIF_HEADER, 4);
+  segment.set(tiff, 4 + EXIF_HEADER.length);
+
+  // Drop an existing Exif segment from the output so there is only one
+  const existing = readJpegExif(bytes);
+  let rest = bytes.subarray(2);
+  if (existing) {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let offset = 2;
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+      const length = view.getUint16(offset + 2);
+      if (bytes[offset + 1] === 0xe1 && EXIF_HEADER.every((b, i) => bytes[offset + 4 + i] === b)) {
+        rest = new Uint8Array([...bytes.subarray(2, offset), ...bytes.subarray(offset + 2 + length)]);
+        break;
+      }
+      offset += 2 + length;
+    }
+  }
+
+  const out = new Uint8Array(2 + segment.length + rest.length);
+  out.set(bytes.subarray(0, 2), 0);
+  out.set(segment, 2);
+  out.set(rest, 2 + segment.length);
+  return out;
+};
+
+// APP1 holds EXIF and XMP, APP13 IPTC, COM free text. JFIF, ICC (APP2) and Adobe (APP14) stay.
+const METADATA_MARKERS = new Set([0xe1, 0xed, 0xfe]);
+
+// Copy without the metadata segments; the scan data is left as it is
+export const stripJpegMetadata = (bytes: Uint8Array): Uint8Array => {
+  if (!isJpeg(bytes)) {
+    throw new Error("Not a JPEG file.");
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const parts: Uint8Array[] = [bytes.subarray(0, 2)];
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff && bytes[offset + 1] !== 0xda) {
+    const end = offset + 2 + view.getUint16(offset + 2);
+    if (!METADATA_MARKERS.has(bytes[offset + 1])) {
+      parts.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+  parts.push(bytes.subarray(offset));
+
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let pos = 0;
+  for (const p of parts) {
+    out.set(p, pos);
+    pos += p.length;
+  }
+  return out;
+};
+
+// One IFD entry; multi-byte values are stored little-endian
+export interface ExifEntry {
+  tag: number;
+  type: number;
+  count: number;
+  value: Uint8Array;
+}
+
+const EXIF_IFD_POINTER = 0x8769;
+const TYPE_LONG = 4;
+
+// Bytes per value of each TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+const readIfd = (tiff: Uint8Array, view: DataView, offset: number, little: boolean): ExifEntry[] => {
+  if (offset + 2 > tiff.length) return [];
+  const entries: ExifEntry[] = [];
+  const count = view.getUint16(offset, little);
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 2 + i * 12;
+    if (entry + 12 > tiff.length) break;
+    const type = view.getUint16(entry + 2, little);
+    const valueCount = view.getUint32(entry + 4, little);
+    const size = (TYPE_SIZES[type] ?? 0) * valueCount;
+    if (!size) continue;
+    const start = size <= 4 ? entry + 8 : view.getUint32(entry + 8, little);
+    if (start + size > tiff.length) continue;
+    const value = tiff.slice(start, start + size);
+    // Rationals are two LONGs; swap each 2- or 4-byte unit of big-endian files
+    const unit = type === 5 || type === 10 ? 4 : TYPE_SIZES[type];
+    if (!little && unit > 1) {
+      for (let j = 0; j < value.length; j += unit) value.subarray(j, j + unit).reverse();
+    }
+    entries.push({ tag: view.getUint16(entry, little), type, count: valueCount, value });
+  }
+  return entries;
+};
+
+// Entries of IFD0 and of the Exif sub-IFD, where capture settings live
+export const readExifEntries = (tiff: Uint8Array): { ifd0: ExifEntry[]; exif: ExifEntry[] } => {
+  if (tiff.length < 8) return { ifd0: [], exif: [] };
+  const little = tiff[0] === 0x49;
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const ifd0 = readIfd(tiff, view, view.getUint32(4, little), little);
+  const pointer = ifd0.find(e => e.tag === EXIF_IFD_POINTER);
+  const exif = pointer ? readIfd(tiff, view, new DataView(pointer.value.buffer).getUint32(0, true), little) : [];
+  return { ifd0: ifd0.filter(e => e !== pointer), exif };
+};
+
+const ifdLength = (entries: ExifEntry[]) =>
+  2 + entries.length * 12 + 4 + entries.reduce((sum, e) => sum + (e.value.length > 4 ? e.value.length + (e.value.length & 1) : 0), 0);
+
+// Writes entries sorted by tag at `start`, with values that do not fit inline right after the IFD
+const writeIfd = (out: Uint8Array, view: DataView, start: number, entries: ExifEntry[]) => {
+  const sorted = [...entries].sort((a, b) => a.tag - b.tag);
+  view.setUint16(start, sorted.length, true);
+  let data = start + 2 + sorted.length * 12 + 4;
+  sorted.forEach((e, i) => {
+    const entry = start + 2 + i * 12;
+    view.setUint16(entry, e.tag, true);
+    view.setUint16(entry + 2, e.type, true);
+    view.setUint32(entry + 4, e.count, true);
+    if (e.value.length <= 4) {
+      out.set(e.value, entry + 8);
+    } else {
+      view.setUint32(entry + 8, data, true);
+      out.set(e.value, data);
+      data += e.value.length + (e.value.length & 1);
+    }
+  });
+  view.setUint32(start + 2 + sorted.length * 12, 0, true); // No next IFD
+};
+
+// Builds a little-endian TIFF block holding only the given entries
+export const buildExifTiff = (ifd0: ExifEntry[], exif: ExifEntry[] = []): Uint8Array => {
+  const pointer: ExifEntry = { tag: EXIF_IFD_POINTER, type: TYPE_LONG, count: 1, value: new Uint8Array(4) };
+  const first = exif.length ? [...ifd0, pointer] : ifd0;
+  const exifStart = 8 + ifdLength(first);
+  const out = new Uint8Array(exifStart + (exif.length ? ifdLength(exif) : 0));
+  const view = new DataView(out.buffer);
+  out.set([0x49, 0x49, 0x2a, 0x00]); // "II*\0"
+  view.setUint32(4, 8, true);
+  new DataView(pointer.value.buffer).setUint32(0, exifStart, true);
+  writeIfd(out, view, 8, first);
+  if (exif.length) writeIfd(out, view, exifStart, exif);
+  return out;
+};
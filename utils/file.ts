@@ -0,0 +1,31 @@
+export const readFileAsDataUrl = (file: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error || new Error("Failed to read file."));
+    reader.readAsDataURL(file);
+  });
+};
+
+export const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+  const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+  'image/tiff': 'tif'
+};
+
+export const extensionForDataUrl = (dataUrl: string): string => {
+  const match = dataUrl.match(/^data:([^;,]+)/);
+  return (match && EXTENSIONS[match[1]]) || 'png';
+};
+
+export const stripExtension = (fileName: string): string => fileName.replace(/\.[^.]+$/, '');
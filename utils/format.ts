@@ -0,0 +1,13 @@
+import { formatDecimal, formatNumber } from '../i18n';
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${formatNumber(bytes)} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${formatDecimal(value, value < 10 ? 1 : 0)} ${units[unit]}`;
+};
@@ -0,0 +1,136 @@
+// Builds a compact sRGB ICC v2 profile and embeds it in JPEG output. Canvas
+// encoders write untagged pixels, which colour-managed viewers may misread.
+
+const encoder = new TextEncoder();
+
+// Bradford-adapted sRGB primaries and the D50 white point, as in the IEC 61966-2-1 profile
+const D50: [number, number, number] = [0.9642, 1.0, 0.8249];
+const RED: [number, number, number] = [0.4361, 0.2225, 0.0139];
+const GREEN: [number, number, number] = [0.3851, 0.7169, 0.0971];
+const BLUE: [number, number, number] = [0.1431, 0.0606, 0.7141];
+const TRC_POINTS = 1024;
+
+const PROFILE_DESCRIPTION = 'sRGB IEC61966-2.1';
+const PROFILE_COPYRIGHT = 'No copyright, use freely';
+
+const align4 = (n: number) => (n + 3) & ~3;
+
+const s15Fixed16 = (view: DataView, offset: number, value: number) =>
+  view.setInt32(offset, Math.round(value * 65536));
+
+const xyzTag = (xyz: [number, number, number]) => {
+  const tag = new Uint8Array(20);
+  const view = new DataView(tag.buffer);
+  tag.set(encoder.encode('XYZ '));
+  xyz.forEach((v, i) => s15Fixed16(view, 8 + i * 4, v));
+  return tag;
+};
+
+// Tabulated sRGB transfer curve
+const curveTag = () => {
+  const tag = new Uint8Array(12 + TRC_POINTS * 2);
+  const view = new DataView(tag.buffer);
+  tag.set(encoder.encode('curv'));
+  view.setUint32(8, TRC_POINTS);
+  for (let i = 0; i < TRC_POINTS; i++) {
+    const v = i / (TRC_POINTS - 1);
+    const linear = v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+    view.setUint16(12 + i * 2, Math.round(linear * 65535));
+  }
+  return tag;
+};
+
+const textTag = (text: string) => {
+  const ascii = encoder.encode(text);
+  const tag = new Uint8Array(8 + ascii.length + 1);
+  tag.set(encoder.encode('text'));
+  tag.set(ascii, 8);
+  return tag;
+};
+
+// textDescriptionType: ASCII part, then empty Unicode and ScriptCode parts
+const descriptionTag = (text: string) => {
+  const ascii = encoder.encode(text);
+  const tag = new Uint8Array(12 + ascii.length + 1 + 8 + 3 + 67);
+  const view = new DataView(tag.buffer);
+  tag.set(encoder.encode('desc'));
+  view.setUint32(8, ascii.length + 1);
+  tag.set(ascii, 12);
+  return tag;
+};
+
+let cachedProfile: Uint8Array | null = null;
+
+export const buildSrgbProfile = (): Uint8Array => {
+  if (cachedProfile) return cachedProfile;
+  const curve = curveTag();
+  // Tags that share data point at the same offset
+  const tags: { signature: string; data: Uint8Array }[] = [
+    { signature: 'desc', data: descriptionTag(PROFILE_DESCRIPTION) },
+    { signature: 'cprt', data: textTag(PROFILE_COPYRIGHT) },
+    { signature: 'wtpt', data: xyzTag(D50) },
+    { signature: 'rXYZ', data: xyzTag(RED) },
+    { signature: 'gXYZ', data: xyzTag(GREEN) },
+    { signature: 'bXYZ', data: xyzTag(BLUE) },
+    { signature: 'rTRC', data: curve },
+    { signature: 'gTRC', data: curve },
+    { signature: 'bTRC', data: curve }
+  ];
+
+  const tableEnd = 128 + 4 + tags.length * 12;
+  const offsets = new Map<Uint8Array, number>();
+  let size = align4(tableEnd);
+  for (const { data } of tags) {
+    if (offsets.has(data)) continue;
+    offsets.set(data, size);
+    size = align4(size + data.length);
+  }
+
+  const profile = new Uint8Array(size);
+  const view = new DataView(profile.buffer);
+  view.setUint32(0, size);
+  view.setUint32(8, 0x02100000); // Version 2.1
+  profile.set(encoder.encode('mntrRGB XYZ '), 12); // Display class, RGB data, XYZ connection space
+  const now = new Date();
+  [now.getUTCFullYear(), now.getUTCMonth() + 1, now.getUTCDate(), now.getUTCHours(), now.getUTCMinutes(), now.getUTCSeconds()]
+    .forEach((v, i) => view.setUint16(24 + i * 2, v));
+  profile.set(encoder.encode('acsp'), 36);
+  D50.forEach((v, i) => s15Fixed16(view, 68 + i * 4, v)); // Illuminant
+
+  view.setUint32(128, tags.length);
+  tags.forEach(({ signature, data }, i) => {
+    const entry = 132 + i * 12;
+    profile.set(encoder.encode(signature), entry);
+    view.setUint32(entry + 4, offsets.get(data)!);
+    view.setUint32(entry + 8, data.length);
+  });
+  offsets.forEach((offset, data) => profile.set(data, offset));
+
+  cachedProfile = profile;
+  return profile;
+};
+
+const ICC_MARKER = encoder.encode('ICC_PROFILE\0');
+
+// Inserts the profile as a single APP2 segment right after SOI
+export const insertJpegIcc = (bytes: Uint8Array, profile: Uint8Array): Uint8Array => {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) {
+    throw new Error("Not a JPEG file.");
+  }
+  const segmentLength = 2 + ICC_MARKER.length + 2 + profile.length;
+  if (segmentLength > 0xffff) {
+    throw new Error("ICC profile is too large for a JPEG segment.");
+  }
+  const out = new Uint8Array(bytes.length + 2 + segmentLength);
+  const view = new DataView(out.buffer);
+  out.set(bytes.subarray(0, 2), 0);
+  out[2] = 0xff;
+  out[3] = 0xe2;
+  view.setUint16(4, segmentLength);
+  out.set(ICC_MARKER, 6);
+  out[6 + ICC_MARKER.length] = 1; // Chunk 1 of 1
+  out[7 + ICC_MARKER.length] = 1;
+  out.set(profile, 8 + ICC_MARKER.length);
+  out.set(bytes.subarray(2), 2 + 2 + segmentLength);
+  return out;
+};
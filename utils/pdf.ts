@@ -0,0 +1,51 @@
+const encoder = new TextEncoder();
+
+// Writes a single-page PDF whose page is fully covered by one JPEG image.
+// Sizes are in PDF points (1/72 inch), so the physical print size is exact.
+export const buildSingleImagePdf = (
+  jpeg: Uint8Array,
+  imageWidthPx: number,
+  imageHeightPx: number,
+  pageWidthPt: number,
+  pageHeightPt: number
+): Blob => {
+  const w = pageWidthPt.toFixed(2);
+  const h = pageHeightPt.toFixed(2);
+  const content = `q ${w} 0 0 ${h} 0 0 cm /Im0 Do Q`;
+
+  const objects: (string | Uint8Array)[][] = [
+    ['<< /Type /Catalog /Pages 2 0 R >>'],
+    ['<< /Type /Pages /Kids [3 0 R] /Count 1 >>'],
+    [`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${w} ${h}] /Resources << /XObject << /Im0 4 0 R >> >> /Contents 5 0 R >>`],
+    [
+      `<< /Type /XObject /Subtype /Image /Width ${imageWidthPx} /Height ${imageHeightPx} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`,
+      jpeg,
+      '\nendstream'
+    ],
+    [`<< /Length ${content.length} >>\nstream\n${content}\nendstream`]
+  ];
+
+  const parts: Uint8Array[] = [];
+  let length = 0;
+  const push = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+
+  push('%PDF-1.4\n');
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(length);
+    push(`${i + 1} 0 obj\n`);
+    body.forEach(push);
+    push('\nendobj\n');
+  });
+
+  const xrefOffset = length;
+  push(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach(o => push(`${String(o).padStart(10, '0')} 00000 n \n`));
+  push(`trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF`);
+
+  return new Blob(parts, { type: 'application/pdf' });
+};
@@ -0,0 +1,106 @@
+import { crc32 } from './crc32';
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const isPng = (bytes: Uint8Array): boolean =>
+  PNG_SIGNATURE.every((b, i) => bytes[i] === b);
+
+// Builds a complete chunk: length + type + data + CRC(type + data)
+export const buildPngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+// Inserts chunks right after IHDR, dropping any existing chunks of the same types
+export const insertPngChunks = (bytes: Uint8Array, chunks: Uint8Array[]): Uint8Array => {
+  if (!isPng(bytes)) {
+    throw new Error("Not a PNG file.");
+  }
+  const replacedTypes = new Set(
+    chunks.map(c => String.fromCharCode(c[4], c[5], c[6], c[7]))
+  );
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const parts: Uint8Array[] = [bytes.subarray(0, 8)];
+
+  let offset = 8;
+  while (offset < bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const end = offset + 12 + length;
+    if (!replacedTypes.has(type)) {
+      parts.push(bytes.subarray(offset, end));
+    }
+    if (type === 'IHDR') {
+      parts.push(...chunks);
+    }
+    offset = end;
+  }
+
+  const total = parts.reduce((sum, p) => sum + p.length, 0);
+  const out = new Uint8Array(total);
+  let pos = 0;
+  for (const p of parts) {
+    out.set(p, pos);
+    pos += p.length;
+  }
+  return out;
+};
+
+// Text and EXIF chunks: camera data, GPS, captions and software notes
+const METADATA_CHUNKS = new Set(['tEXt', 'iTXt', 'zTXt', 'eXIf']);
+
+// Copy without the metadata chunks; the image data is left as it is
+export const stripPngMetadata = (bytes: Uint8Array): Uint8Array => {
+  if (!isPng(bytes)) {
+    throw new Error("Not a PNG file.");
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const parts: Uint8Array[] = [bytes.subarray(0, 8)];
+  let offset = 8;
+  while (offset + 8 <= bytes.length) {
+    const end = offset + 12 + view.getUint32(offset);
+    if (!METADATA_CHUNKS.has(String.fromCharCode(...bytes.subarray(offset + 4, offset + 8)))) {
+      parts.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let pos = 0;
+  for (const p of parts) {
+    out.set(p, pos);
+    pos += p.length;
+  }
+  return out;
+};
+
+// Data of the first chunk of this type, or null
+export const readPngChunk = (bytes: Uint8Array, type: string): Uint8Array | null => {
+  if (!isPng(bytes)) return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 8;
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    if (String.fromCharCode(...bytes.subarray(offset + 4, offset + 8)) === type) {
+      return bytes.slice(offset + 8, offset + 8 + length);
+    }
+    offset += 12 + length;
+  }
+  return null;
+};
+
+// pHYs stores pixels per metre; 1 inch = 0.0254 m
+export const setPngDpi = (bytes: Uint8Array, dpi: number): Uint8Array => {
+  const ppm = Math.round(dpi / 0.0254);
+  const data = new Uint8Array(9);
+  const view = new DataView(data.buffer);
+  view.setUint32(0, ppm);
+  view.setUint32(4, ppm);
+  data[8] = 1; // unit: metre
+  return insertPngChunks(bytes, [buildPngChunk('pHYs', data)]);
+};
@@ -0,0 +1,87 @@
+// Writes an uncompressed baseline TIFF: 8-bit RGBA in one strip, with an
+// optional ICC profile. Large, but every print shop tool opens it.
+
+const SHORT = 3;
+const LONG = 4;
+const RATIONAL = 5;
+const UNDEFINED = 7;
+
+interface TiffTag {
+  tag: number;
+  type: number;
+  values: number[] | Uint8Array;
+}
+
+const TYPE_SIZES: Record<number, number> = { [SHORT]: 2, [LONG]: 4, [RATIONAL]: 8, [UNDEFINED]: 1 };
+
+export const encodeTiff = (
+  rgba: Uint8ClampedArray,
+  width: number,
+  height: number,
+  options: { dpi?: number; icc?: Uint8Array } = {}
+): Uint8Array => {
+  const dpi = options.dpi ?? 300;
+  const tags: TiffTag[] = [
+    { tag: 256, type: LONG, values: [width] },
+    { tag: 257, type: LONG, values: [height] },
+    { tag: 258, type: SHORT, values: [8, 8, 8, 8] }, // Bits per sample
+    { tag: 259, type: SHORT, values: [1] }, // No compression
+    { tag: 262, type: SHORT, values: [2] }, // RGB
+    { tag: 273, type: LONG, values: [0] }, // Strip offset, set below
+    { tag: 277, type: SHORT, values: [4] }, // Samples per pixel
+    { tag: 278, type: LONG, values: [height] }, // Rows per strip
+    { tag: 279, type: LONG, values: [rgba.length] },
+    { tag: 282, type: RATIONAL, values: [dpi, 1] },
+    { tag: 283, type: RATIONAL, values: [dpi, 1] },
+    { tag: 284, type: SHORT, values: [1] }, // Chunky
+    { tag: 296, type: SHORT, values: [2] }, // Inches
+    { tag: 338, type: SHORT, values: [2] } // Unassociated alpha
+  ];
+  if (options.icc) tags.push({ tag: 34675, type: UNDEFINED, values: options.icc });
+
+  const valueSize = (t: TiffTag) => t.values.length * (t.type === RATIONAL ? 4 : TYPE_SIZES[t.type]);
+  const ifdSize = 2 + tags.length * 12 + 4;
+  let dataOffset = 8 + ifdSize;
+  const extraSize = tags.reduce((sum, t) => {
+    const size = valueSize(t);
+    return sum + (size > 4 ? size + (size & 1) : 0);
+  }, 0);
+  const stripOffset = dataOffset + extraSize;
+  tags.find(t => t.tag === 273)!.values = [stripOffset];
+
+  const out = new Uint8Array(stripOffset + rgba.length);
+  const view = new DataView(out.buffer);
+  out.set([0x49, 0x49, 0x2a, 0x00]); // "II*\0"
+  view.setUint32(4, 8, true);
+  view.setUint16(8, tags.length, true);
+
+  const writeValues = (t: TiffTag, offset: number) => {
+    if (t.values instanceof Uint8Array) {
+      out.set(t.values, offset);
+      return;
+    }
+    const width = t.type === SHORT ? 2 : 4;
+    t.values.forEach((v, i) => width === 2
+      ? view.setUint16(offset + i * 2, v, true)
+      : view.setUint32(offset + i * 4, v, true));
+  };
+
+  tags.forEach((t, i) => {
+    const entry = 10 + i * 12;
+    const size = valueSize(t);
+    view.setUint16(entry, t.tag, true);
+    view.setUint16(entry + 2, t.type, true);
+    view.setUint32(entry + 4, t.type === RATIONAL ? t.values.length / 2 : t.values.length, true);
+    if (size <= 4) {
+      writeValues(t, entry + 8);
+    } else {
+      view.setUint32(entry + 8, dataOffset, true);
+      writeValues(t, dataOffset);
+      dataOffset += size + (size & 1);
+    }
+  });
+  view.setUint32(10 + tags.length * 12, 0, true); // No next IFD
+
+  out.set(rgba, stripOffset);
+  return out;
+};
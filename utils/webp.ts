@@ -0,0 +1,94 @@
+// Adds ICC and EXIF chunks to a WebP file, or strips EXIF and XMP from one. Metadata
+// needs the extended (VP8X) header, which canvas encoders only write when the image has alpha.
+
+const FLAG_ICC = 0x20;
+const FLAG_ALPHA = 0x10;
+const FLAG_EXIF = 0x08;
+const FLAG_XMP = 0x04;
+
+interface Chunk {
+  type: string;
+  data: Uint8Array;
+}
+
+const fourcc = (bytes: Uint8Array, offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+const readChunks = (bytes: Uint8Array): Chunk[] => {
+  if (fourcc(bytes, 0) !== 'RIFF' || fourcc(bytes, 8) !== 'WEBP') {
+    throw new Error("Not a WebP file.");
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: Chunk[] = [];
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const size = view.getUint32(offset + 4, true);
+    chunks.push({ type: fourcc(bytes, offset), data: bytes.subarray(offset + 8, offset + 8 + size) });
+    offset += 8 + size + (size & 1);
+  }
+  return chunks;
+};
+
+const writeChunks = (chunks: Chunk[]): Uint8Array => {
+  const body = chunks.reduce((sum, c) => sum + 8 + c.data.length + (c.data.length & 1), 0);
+  const out = new Uint8Array(12 + body);
+  const view = new DataView(out.buffer);
+  const ascii = (text: string, offset: number) => {
+    for (let i = 0; i < 4; i++) out[offset + i] = text.charCodeAt(i);
+  };
+  ascii('RIFF', 0);
+  view.setUint32(4, 4 + body, true);
+  ascii('WEBP', 8);
+  let offset = 12;
+  for (const chunk of chunks) {
+    ascii(chunk.type, offset);
+    view.setUint32(offset + 4, chunk.data.length, true);
+    out.set(chunk.data, offset + 8);
+    offset += 8 + chunk.data.length + (chunk.data.length & 1);
+  }
+  return out;
+};
+
+// VP8X payload: flags, 3 reserved bytes, then canvas width and height minus one as 24-bit values
+const vp8xChunk = (flags: number, width: number, height: number): Chunk => {
+  const data = new Uint8Array(10);
+  data[0] = flags;
+  [width - 1, height - 1].forEach((v, i) => {
+    data[4 + i * 3] = v & 0xff;
+    data[5 + i * 3] = (v >> 8) & 0xff;
+    data[6 + i * 3] = (v >> 16) & 0xff;
+  });
+  return { type: 'VP8X', data };
+};
+
+export const insertWebpMetadata = (
+  bytes: Uint8Array,
+  width: number,
+  height: number,
+  metadata: { icc?: Uint8Array; exif?: Uint8Array }
+): Uint8Array => {
+  const chunks = readChunks(bytes).filter(c => c.type !== 'ICCP' && c.type !== 'EXIF');
+  const extended = chunks[0]?.type === 'VP8X' ? chunks.shift()! : null;
+  // Lossless bitstreams carry an alpha-used bit; lossy ones with alpha always come with VP8X
+  const losslessAlpha = chunks[0]?.type === 'VP8L' && (chunks[0].data[4] & 0x10) !== 0;
+  let flags = extended ? extended.data[0] : losslessAlpha ? FLAG_ALPHA : 0;
+  if (metadata.icc) flags |= FLAG_ICC;
+  if (metadata.exif) flags |= FLAG_EXIF;
+
+  return writeChunks([
+    vp8xChunk(flags, width, height),
+    ...(metadata.icc ? [{ type: 'ICCP', data: metadata.icc }] : []),
+    ...chunks,
+    ...(metadata.exif ? [{ type: 'EXIF', data: metadata.exif }] : [])
+  ]);
+};
+
+// Copy without the EXIF and XMP chunks, their VP8X flags cleared; the bitstream is left as it is
+export const stripWebpMetadata = (bytes: Uint8Array): Uint8Array =>
+  writeChunks(readChunks(bytes)
+    .filter(c => c.type !== 'EXIF' && c.type !== 'XMP ')
+    .map(c => {
+      if (c.type !== 'VP8X') return c;
+      const data = c.data.slice();
+      data[0] &= ~(FLAG_EXIF | FLAG_XMP);
+      return { type: c.type, data };
+    }));
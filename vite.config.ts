@@ -8,11 +8,20 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // Gemini requests go through the proxy server, which holds the API key
+        proxy: {
+          '/api': {
+            target: env.PROXY_TARGET || 'http://localhost:8787',
+            changeOrigin: true,
+            rewrite: (p) => p.replace(/^\/api/, '')
+          }
+        }
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_PROXY_URL': JSON.stringify(env.GEMINI_PROXY_URL),
+        'process.env.IMAGE_PROVIDER': JSON.stringify(env.IMAGE_PROVIDER),
+        'process.env.IMAGE_PROVIDER_URL': JSON.stringify(env.IMAGE_PROVIDER_URL)
       },
       resolve: {
         alias: {